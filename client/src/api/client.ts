@@ -4,6 +4,7 @@ import type {
   StepSummary,
   ChatMessage,
   RunResult,
+  FlakyTestSummary,
   RunStatus,
   LiveGenerationOptions,
   LiveGenerationState,
@@ -14,10 +15,71 @@ import type {
   RunConfiguration,
   MultiRunState,
   MultiRunEvent,
-  ExtractedStep
+  ExtractedStep,
+  BrowserName,
+  TestRevision,
+  TestRevisionSummary,
+  TestRevisionDiff,
+  TrashEntry,
+  TestFolder,
+  TestSearchHit,
+  TestHealthReport,
+  TestFileEvent,
+  GitRepositoryStatus,
+  GitLogEntry,
+  Project,
+  ProjectSummary,
+  StepBlock,
+  StepBlockSummary,
+  CredentialSessionStatus,
+  TestTemplate,
+  TestCaseColumnMapping,
+  TestCaseCsvField,
+  TestCaseCsvPreset,
+  RunExecutionSettings
 } from '../../../shared/types';
 
 const API_BASE = '/api';
+const PROJECT_STORAGE_KEY = 'trailwright.currentProject';
+export const DEFAULT_PROJECT_ID = 'default';
+// The project list and health check are global; every other endpoint belongs to a project
+const UNSCOPED_ENDPOINTS = ['/health', '/projects'];
+
+export function getCurrentProjectId(): string {
+  try {
+    return localStorage.getItem(PROJECT_STORAGE_KEY) || DEFAULT_PROJECT_ID;
+  } catch {
+    return DEFAULT_PROJECT_ID;
+  }
+}
+
+export function setCurrentProject(projectId: string): void {
+  localStorage.setItem(PROJECT_STORAGE_KEY, projectId);
+}
+
+/**
+ * Full URL for an API endpoint, scoped to the current project
+ */
+export function apiUrl(endpoint: string): string {
+  const unscoped = UNSCOPED_ENDPOINTS.some(
+    (prefix) => endpoint === prefix || endpoint.startsWith(`${prefix}/`) || endpoint.startsWith(`${prefix}?`)
+  );
+  if (unscoped) {
+    return `${API_BASE}${endpoint}`;
+  }
+  return `${API_BASE}/projects/${encodeURIComponent(getCurrentProjectId())}${endpoint}`;
+}
+
+/**
+ * URL of a run artifact. Results store file names relative to the run; older
+ * results stored `/api/runs/...` URLs, which are re-scoped to the current project.
+ */
+export function runArtifactUrl(runId: string, artifactPath: string): string {
+  if (artifactPath.startsWith(`${API_BASE}/`)) {
+    return apiUrl(artifactPath.slice(API_BASE.length));
+  }
+  return apiUrl(`/runs/${runId}/artifacts/${encodeURIComponent(artifactPath)}`);
+}
 
 export type ApiTestMetadata = {
   id: string;
@@ -35,12 +97,18 @@ export type ApiTestMetadata = {
   lastRunId?: string;
   credentialId?: string;
   startUrl?: string;
+  dataSource?: string;
+  execution?: RunExecutionSettings;
 };
 
 export type ApiTestStepMetadata = {
   number: number;
   qaSummary: string;
   playwrightCode: string;
+  screenshotPath?: string;
+  blockId?: string;
+  blockArgs?: Record<string, string>;
+  needsReview?: string;
 };
 
 export type ApiTest = {
@@ -57,6 +125,7 @@ export type ApiCredential = {
   createdAt: string;
   updatedAt: string;
   lastUsedAt?: string;
+  sessionSetupTestId?: string;
 };
 
 export type RunControlAction = 'pause' | 'resume' | 'stop';
@@ -76,7 +145,7 @@ export type RunStreamEvent =
   | { type: 'error'; payload: { message: string; timestamp: string } };
 
 export async function fetchApi<T>(endpoint: string, options?: RequestInit): Promise<T> {
-  const response = await fetch(`${API_BASE}${endpoint}`, {
+  const response = await fetch(apiUrl(endpoint), {
     ...options,
     headers: {
       'Content-Type': 'application/json',
@@ -136,8 +205,153 @@ export const api = {
       body: JSON.stringify({ prompt, baseUrl })
     }),
   deleteTest: (id: string) => fetchApi(`/tests/${id}`, { method: 'DELETE' }),
+  listTrash: () => fetchApi<{ entries: TrashEntry[] }>('/trash'),
+  restoreFromTrash: (testId: string) =>
+    fetchApi<{ success: boolean; entry: TrashEntry }>(`/trash/${testId}/restore`, { method: 'POST' }),
+  purgeTrashEntry: (testId: string) =>
+    fetchApi<{ success: boolean }>(`/trash/${testId}`, { method: 'DELETE' }),
+  emptyTrash: () => fetchApi<{ success: boolean; purged: string[] }>('/trash', { method: 'DELETE' }),
+  getTestsHealth: () => fetchApi<TestHealthReport>('/tests/health'),
+  connectToTestEvents: (onEvent: (event: TestFileEvent) => void): EventSource => {
+    const source = new EventSource(apiUrl('/tests/events'));
+
+    source.onmessage = (event) => {
+      try {
+        onEvent(JSON.parse(event.data) as TestFileEvent);
+      } catch (err) {
+        console.error('Failed to parse test file event', err);
+      }
+    };
+
+    source.onerror = (err) => {
+      console.error('Test events stream error', err);
+    };
+
+    return source;
+  },
+  searchTests: (query: string) =>
+    fetchApi<{ query: string; hits: TestSearchHit[] }>(`/tests/search?q=${encodeURIComponent(query)}`),
+  listFolders: () => fetchApi<{ folders: TestFolder[] }>('/folders'),
+  createFolder: (path: string) =>
+    fetchApi<{ success: boolean; path: string }>('/folders', {
+      method: 'POST',
+      body: JSON.stringify({ path })
+    }),
+  renameFolder: (from: string, to: string) =>
+    fetchApi<{ success: boolean; movedTestIds: string[] }>('/folders/rename', {
+      method: 'POST',
+      body: JSON.stringify({ from, to })
+    }),
+  moveTestsToFolder: (testIds: string[], folder: string | null) =>
+    fetchApi<{ success: boolean }>('/folders/move', {
+      method: 'POST',
+      body: JSON.stringify({ testIds, folder })
+    }),
+  deleteFolder: (path: string) =>
+    fetchApi<{ success: boolean }>(`/folders?path=${encodeURIComponent(path)}`, { method: 'DELETE' }),
+  listProjects: () => fetchApi<{ projects: ProjectSummary[]; defaultProjectId: string }>('/projects'),
+  createProject: (input: { name: string; description?: string; defaultStartUrl?: string; baseUrl?: string }) =>
+    fetchApi<{ project: ProjectSummary }>('/projects', {
+      method: 'POST',
+      body: JSON.stringify(input)
+    }),
+  updateProject: (projectId: string, updates: { name?: string; description?: string }) =>
+    fetchApi<{ project: Project }>(`/projects/${projectId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(updates)
+    }),
+  deleteProject: (projectId: string) =>
+    fetchApi<{ success: boolean }>(`/projects/${projectId}`, { method: 'DELETE' }),
+  listStepBlocks: () => fetchApi<{ blocks: StepBlockSummary[] }>('/blocks'),
+  createStepBlock: (block: Pick<StepBlock, 'name' | 'description' | 'steps' | 'variables'>) =>
+    fetchApi<{ success: boolean; block: StepBlock }>('/blocks', {
+      method: 'POST',
+      body: JSON.stringify(block)
+    }),
+  updateStepBlock: (blockId: string, updates: Partial<Pick<StepBlock, 'name' | 'description' | 'steps' | 'variables'>>) =>
+    fetchApi<{ success: boolean; block: StepBlock }>(`/blocks/${blockId}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates)
+    }),
+  deleteStepBlock: (blockId: string) =>
+    fetchApi<{ success: boolean }>(`/blocks/${blockId}`, { method: 'DELETE' }),
+  listTemplates: () => fetchApi<{ templates: TestTemplate[] }>('/templates'),
+  createTemplate: (template: Omit<TestTemplate, 'id' | 'createdAt' | 'updatedAt'>) =>
+    fetchApi<{ success: boolean; template: TestTemplate }>('/templates', {
+      method: 'POST',
+      body: JSON.stringify(template)
+    }),
+  createTemplateFromTest: (testId: string, name?: string) =>
+    fetchApi<{ success: boolean; template: TestTemplate }>(`/templates/from-test/${testId}`, {
+      method: 'POST',
+      body: JSON.stringify({ name })
+    }),
+  deleteTemplate: (templateId: string) =>
+    fetchApi<{ success: boolean }>(`/templates/${templateId}`, { method: 'DELETE' }),
+  getGitStatus: () => fetchApi<GitRepositoryStatus>('/git/status'),
+  getTestGitLog: (testId: string) => fetchApi<{ entries: GitLogEntry[] }>(`/git/log/${testId}`),
+  gitPull: () =>
+    fetchApi<{ success: boolean; output: string; status: GitRepositoryStatus }>('/git/pull', { method: 'POST' }),
+  gitPush: () =>
+    fetchApi<{ success: boolean; output: string; status: GitRepositoryStatus }>('/git/push', { method: 'POST' }),
+  duplicateTest: (id: string, name?: string) =>
+    fetchApi<{ success: boolean; test: ApiTestMetadata }>(`/tests/${id}/duplicate`, {
+      method: 'POST',
+      body: JSON.stringify({ name })
+    }),
   exportTest: async (id: string): Promise<Blob> => {
-    const response = await fetch(`${API_BASE}/tests/${id}/export`);
+    const response = await fetch(apiUrl(`/tests/${id}/export`));
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Export failed' }));
+      throw new Error(error.error || `HTTP ${response.status}`);
+    }
+    return response.blob();
+  },
+  exportPlaywrightProject: async (testIds: string[]): Promise<Blob> => {
+    const response = await fetch(apiUrl('/tests/export/project'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ testIds })
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Export failed' }));
+      throw new Error(error.error || `HTTP ${response.status}`);
+    }
+    return response.blob();
+  },
+  downloadManualScript: async (
+    scope: { testId: string } | { folder: string },
+    format: 'markdown' | 'html'
+  ): Promise<Blob> => {
+    const endpoint =
+      'testId' in scope
+        ? `/tests/${scope.testId}/manual-script?format=${format}`
+        : `/tests/manual-script?folder=${encodeURIComponent(scope.folder)}&format=${format}`;
+    const response = await fetch(apiUrl(endpoint));
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Export failed' }));
+      throw new Error(error.error || `HTTP ${response.status}`);
+    }
+    return response.blob();
+  },
+  getTestCaseCsvPresets: () =>
+    fetchApi<{ fields: TestCaseCsvField[]; presets: TestCaseCsvPreset[] }>('/tests/export/test-case-presets'),
+  exportTestCasesCsv: async (payload: {
+    testIds: string[];
+    preset?: string;
+    mapping?: TestCaseColumnMapping;
+    repeatTestFields?: boolean;
+    tagSeparator?: string;
+  }): Promise<Blob> => {
+    const response = await fetch(apiUrl('/tests/export/test-cases'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(payload)
+    });
     if (!response.ok) {
       const error = await response.json().catch(() => ({ error: 'Export failed' }));
       throw new Error(error.error || `HTTP ${response.status}`);
@@ -145,7 +359,7 @@ export const api = {
     return response.blob();
   },
   importTestArchive: async (file: File | Blob) => {
-    const response = await fetch(`${API_BASE}/tests/import`, {
+    const response = await fetch(apiUrl('/tests/import'), {
       method: 'POST',
       headers: {
         'Content-Type': 'application/zip'
@@ -160,6 +374,16 @@ export const api = {
 
     return response.json();
   },
+  importSpecFiles: (payload: { files: Array<{ path: string; content: string }>; split?: boolean; folder?: string }) =>
+    fetchApi<{ imported: ApiTestMetadata[]; skipped: Array<{ path: string; reason: string }> }>('/tests/import/spec', {
+      method: 'POST',
+      body: JSON.stringify(payload)
+    }),
+  importSideFiles: (payload: { files: Array<{ path: string; content: string }>; folder?: string }) =>
+    fetchApi<{ imported: ApiTestMetadata[]; skipped: Array<{ path: string; reason: string }> }>('/tests/import/side', {
+      method: 'POST',
+      body: JSON.stringify(payload)
+    }),
   getVariables: (testId: string) =>
     fetchApi<{ rows: VariableRow[] }>(`/tests/${testId}/variables`),
   saveVariables: (
@@ -184,7 +408,7 @@ export const api = {
       body: JSON.stringify(payload)
     }),
   exportVariables: async (testId: string): Promise<string> => {
-    const response = await fetch(`${API_BASE}/tests/${testId}/variables/export`);
+    const response = await fetch(apiUrl(`/tests/${testId}/variables/export`));
     if (!response.ok) {
       const error = await response.json().catch(() => ({ error: 'Export failed' }));
       throw new Error(error.error || `HTTP ${response.status}`);
@@ -208,12 +432,28 @@ export const api = {
     }),
   updateTestSteps: (
     id: string,
-    steps: Array<{ number: number; qaSummary: string; playwrightCode: string }>
+    steps: ApiTestStepMetadata[],
+    action?: 'steps edited' | 'step inserted'
   ) =>
     fetchApi<{ success: boolean }>(`/tests/${id}/steps`, {
       method: 'PUT',
-      body: JSON.stringify({ steps })
-    }),
+      body: JSON.stringify({ steps, action })
+    }),
+  syncTestSteps: (id: string) =>
+    fetchApi<{ test: ApiTestMetadata; changed: boolean }>(`/tests/${id}/steps/sync`, { method: 'POST' }),
+  listTestRevisions: (id: string) =>
+    fetchApi<{ revisions: TestRevisionSummary[] }>(`/tests/${id}/revisions`),
+  getTestRevision: (id: string, revisionId: string) =>
+    fetchApi<{ revision: TestRevision }>(`/tests/${id}/revisions/${encodeURIComponent(revisionId)}`),
+  diffTestRevisions: (id: string, from: string, to = 'current') =>
+    fetchApi<{ diff: TestRevisionDiff }>(
+      `/tests/${id}/revisions/diff?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`
+    ),
+  restoreTestRevision: (id: string, revisionId: string) =>
+    fetchApi<{ success: boolean; test: ApiTest }>(
+      `/tests/${id}/revisions/${encodeURIComponent(revisionId)}/restore`,
+      { method: 'POST' }
+    ),
   generateStepFromPrompt: (prompt: string) =>
     fetchApi<{ qaSummary: string; playwrightCode: string }>('/ai/generate-step', {
       method: 'POST',
@@ -243,6 +483,12 @@ export const api = {
       keepBrowserOpen?: boolean;
       stopOnFailure?: boolean;
       viewportSize?: { width: number; height: number };
+      browser?: BrowserName;
+      browsers?: BrowserName[];
+      testTitle?: string;
+      rowIndexes?: number[];
+      rowFilter?: string;
+      execution?: RunExecutionSettings;
     }
   ) =>
     fetchApi<{ runId: string }>('/runs', {
@@ -251,6 +497,8 @@ export const api = {
     }),
   listRuns: (testId?: string) =>
     fetchApi<{ runs: RunResult[] }>(`/runs${testId ? `?testId=${testId}` : ''}`),
+  listFlakyTests: (limit?: number) =>
+    fetchApi<{ tests: FlakyTestSummary[] }>(`/runs/flaky${limit ? `?limit=${limit}` : ''}`),
   getRun: (runId: string) => fetchApi<{ run: LiveRunState }>(`/runs/${runId}`),
   controlRun: (runId: string, action: RunControlAction) =>
     fetchApi<{ success: boolean }>(`/runs/${runId}/control`, {
@@ -266,9 +514,13 @@ export const api = {
       method: 'POST',
       body: JSON.stringify({ message })
     }),
-  openTrace: (runId: string) => fetchApi(`/runs/${runId}/trace`, { method: 'POST' }),
+  openTrace: (runId: string, rowIndex?: number) =>
+    fetchApi(`/runs/${runId}/trace`, {
+      method: 'POST',
+      body: JSON.stringify(typeof rowIndex === 'number' ? { rowIndex } : {})
+    }),
   connectToRunStream: (runId: string, onEvent: (event: RunStreamEvent) => void): EventSource => {
-    const source = new EventSource(`${API_BASE}/runs/${runId}/stream`);
+    const source = new EventSource(apiUrl(`/runs/${runId}/stream`));
 
     source.onmessage = (event) => {
       try {
@@ -452,7 +704,7 @@ export const api = {
     }),
 
   exportTestVariables: async (testId: string): Promise<string> => {
-    const response = await fetch(`${API_BASE}/tests/${testId}/variables/export`);
+    const response = await fetch(apiUrl(`/tests/${testId}/variables/export`));
     if (!response.ok) {
       const error = await response.json().catch(() => ({ error: 'Export failed' }));
       throw new Error(error.error || `HTTP ${response.status}`);
@@ -477,7 +729,7 @@ export const api = {
     sessionId: string,
     onEvent: (event: LiveGenerationEvent) => void
   ): EventSource => {
-    const source = new EventSource(`${API_BASE}/generate/${sessionId}/events`);
+    const source = new EventSource(apiUrl(`/generate/${sessionId}/events`));
 
     source.onmessage = (event) => {
       try {
@@ -513,7 +765,7 @@ export const api = {
     }),
   updateCredential: (
     id: string,
-    credential: { name: string; username: string; password?: string; notes?: string }
+    credential: { name: string; username: string; password?: string; notes?: string; sessionSetupTestId?: string | null }
   ) =>
     fetchApi<{ credential: ApiCredential }>(`/credentials/${id}`, {
       method: 'PUT',
@@ -523,6 +775,16 @@ export const api = {
     fetchApi(`/credentials/${id}`, {
       method: 'DELETE'
     }),
+  getCredentialSession: (id: string) =>
+    fetchApi<{ session: CredentialSessionStatus }>(`/credentials/${id}/session`),
+  captureCredentialSession: (id: string) =>
+    fetchApi<{ session: CredentialSessionStatus }>(`/credentials/${id}/session/capture`, {
+      method: 'POST'
+    }),
+  clearCredentialSession: (id: string) =>
+    fetchApi<{ success: boolean }>(`/credentials/${id}/session`, {
+      method: 'DELETE'
+    }),
 
   // ============================================
   // Multi-Run (Run Builder) API
@@ -565,7 +827,7 @@ export const api = {
     configId: string,
     onEvent: (event: MultiRunStreamEvent) => void
   ): EventSource => {
-    const source = new EventSource(`${API_BASE}/runs/multi/${configId}/stream`);
+    const source = new EventSource(apiUrl(`/runs/multi/${configId}/stream`));
 
     source.onmessage = (event) => {
       try {
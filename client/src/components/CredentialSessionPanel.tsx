@@ -0,0 +1,130 @@
+import { useCallback, useEffect, useState } from 'react';
+import { api, type ApiCredential, type ApiTestMetadata } from '../api/client';
+import type { CredentialSessionStatus } from '../../../shared/types';
+
+interface CredentialSessionPanelProps {
+  credential: ApiCredential;
+  tests: ApiTestMetadata[];
+  onCredentialChange: () => void;
+}
+
+function describeStatus(session: CredentialSessionStatus | null): string {
+  if (!session || !session.captured) {
+    return 'No saved session';
+  }
+  const capturedAt = new Date(session.capturedAt!).toLocaleString();
+  return session.expired
+    ? `Session captured ${capturedAt} has expired; the next run captures it again`
+    : `Session captured ${capturedAt}, valid until ${new Date(session.expiresAt!).toLocaleString()}`;
+}
+
+/**
+ * Pick the test that logs in with a credential and manage its saved browser session
+ */
+export function CredentialSessionPanel({ credential, tests, onCredentialChange }: CredentialSessionPanelProps) {
+  const [session, setSession] = useState<CredentialSessionStatus | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSession = useCallback(async () => {
+    try {
+      const { session: status } = await api.getCredentialSession(credential.id);
+      setSession(status);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load session status');
+    }
+  }, [credential.id]);
+
+  useEffect(() => {
+    void loadSession();
+  }, [loadSession, credential.sessionSetupTestId]);
+
+  async function handleSetupTestChange(testId: string) {
+    setBusy(true);
+    setError(null);
+    try {
+      await api.updateCredential(credential.id, {
+        name: credential.name,
+        username: credential.username,
+        notes: credential.notes,
+        sessionSetupTestId: testId || null
+      });
+      onCredentialChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update credential');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleCapture() {
+    setBusy(true);
+    setError(null);
+    try {
+      const { session: status } = await api.captureCredentialSession(credential.id);
+      setSession(status);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to capture session');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleClear() {
+    setBusy(true);
+    setError(null);
+    try {
+      await api.clearCredentialSession(credential.id);
+      await loadSession();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to clear session');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="mt-2 space-y-1 text-sm">
+      <label className="flex flex-wrap items-center gap-2 text-gray-600">
+        Login test:
+        <select
+          value={credential.sessionSetupTestId ?? ''}
+          onChange={(event) => void handleSetupTestChange(event.target.value)}
+          disabled={busy}
+          className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+        >
+          <option value="">None (log in within each test)</option>
+          {tests.map((test) => (
+            <option key={test.id} value={test.id}>
+              {test.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      {credential.sessionSetupTestId && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-gray-500">{busy ? 'Working…' : describeStatus(session)}</span>
+          <button
+            type="button"
+            onClick={() => void handleCapture()}
+            disabled={busy}
+            className="text-xs font-medium text-blue-600 hover:text-blue-800 disabled:opacity-50"
+          >
+            {session?.captured ? 'Capture again' : 'Capture now'}
+          </button>
+          {session?.captured && (
+            <button
+              type="button"
+              onClick={() => void handleClear()}
+              disabled={busy}
+              className="text-xs font-medium text-gray-500 hover:text-gray-700 disabled:opacity-50"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      )}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
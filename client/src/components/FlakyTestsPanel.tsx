@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { api } from '../api/client';
+import type { FlakyTestSummary } from '../../../shared/types';
+
+function formatTimestamp(iso: string) {
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return iso;
+  return new Intl.DateTimeFormat(undefined, { dateStyle: 'medium', timeStyle: 'short' }).format(date);
+}
+
+function scoreClass(score: number) {
+  if (score >= 0.5) return 'bg-red-50 text-red-600';
+  if (score >= 0.2) return 'bg-amber-50 text-amber-700';
+  return 'bg-gray-100 text-gray-600';
+}
+
+/**
+ * Tests that pass only after retries or flip between passing and failing,
+ * worst first, with the steps that fail most often
+ */
+export function FlakyTestsPanel() {
+  const [tests, setTests] = useState<FlakyTestSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFlakyTests = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const { tests: list } = await api.listFlakyTests(20);
+      setTests(list);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load flaky tests');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadFlakyTests();
+  }, [loadFlakyTests]);
+
+  return (
+    <div className="mt-4">
+      <p className="mb-3 text-sm text-gray-500">
+        Scored over each test's last 20 runs: runs that passed only after a retry, plus every switch between passing and
+        failing.
+      </p>
+      {error && <p className="mb-3 text-sm text-red-600">{error}</p>}
+      {loading ? (
+        <p className="text-gray-500">Loading flaky tests…</p>
+      ) : tests.length === 0 ? (
+        <p className="text-gray-500">No flaky tests in recent runs.</p>
+      ) : (
+        <ul className="space-y-3">
+          {tests.map((test) => (
+            <li key={test.testId} className="rounded-lg border border-gray-200 p-4">
+              <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+                <Link to={`/tests/${test.testId}`} className="text-base font-semibold text-gray-900 hover:text-blue-600">
+                  {test.testName}
+                </Link>
+                <span className={`self-start rounded-full px-2 py-0.5 text-xs font-medium ${scoreClass(test.score)}`}>
+                  {Math.round(test.score * 100)}% flaky
+                </span>
+              </div>
+              <div className="mt-1 flex flex-wrap gap-3 text-xs text-gray-500">
+                <span>
+                  {test.flakyRuns} of {test.runs} run{test.runs === 1 ? '' : 's'} passed on retry
+                </span>
+                <span>{test.failedRuns} failed</span>
+                <span>
+                  {test.flips} pass/fail flip{test.flips === 1 ? '' : 's'}
+                </span>
+                {test.lastFlakyAt && <span>Last flaky {formatTimestamp(test.lastFlakyAt)}</span>}
+              </div>
+              {test.failingSteps.length > 0 && (
+                <div className="mt-3">
+                  <p className="text-xs font-medium text-gray-600">Most failing steps</p>
+                  <ul className="mt-1 space-y-1 text-sm text-gray-700">
+                    {test.failingSteps.map((step) => (
+                      <li key={step.title} className="flex justify-between gap-3">
+                        <span className="truncate">{step.title}</span>
+                        <span className="shrink-0 text-xs text-gray-500">
+                          {step.count} run{step.count === 1 ? '' : 's'}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
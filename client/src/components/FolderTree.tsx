@@ -0,0 +1,163 @@
+import { useMemo, useState } from 'react';
+import type { TestFolder } from '../../../shared/types';
+
+export type FolderSelection = 'all' | 'uncategorized' | string;
+
+export interface FolderTreeProps {
+  folders: TestFolder[];
+  totalCount: number;
+  uncategorizedCount: number;
+  selected: FolderSelection;
+  onSelect: (selection: FolderSelection) => void;
+  onCreate: (parent: string | null) => void;
+  onRename: (folder: TestFolder) => void;
+  onDelete: (folder: TestFolder) => void;
+  onRunAll: (folder: TestFolder) => void;
+}
+
+/**
+ * Collapsible folder tree for the test library. Nested folders come from
+ * `/`-separated paths such as `Checkout/Payments`.
+ */
+export function FolderTree({
+  folders,
+  totalCount,
+  uncategorizedCount,
+  selected,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  onRunAll
+}: FolderTreeProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const childrenByParent = useMemo(() => {
+    const map = new Map<string | null, TestFolder[]>();
+    folders.forEach((folder) => {
+      const siblings = map.get(folder.parent) ?? [];
+      siblings.push(folder);
+      map.set(folder.parent, siblings);
+    });
+    return map;
+  }, [folders]);
+
+  function toggle(path: string) {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  }
+
+  const rowClass = (active: boolean) =>
+    `group flex items-center gap-1 rounded-md px-2 py-1 text-sm ${
+      active ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'
+    }`;
+
+  function renderFolders(parent: string | null, depth: number) {
+    const children = childrenByParent.get(parent) ?? [];
+    return children.map((folder) => {
+      const hasChildren = childrenByParent.has(folder.path);
+      const isCollapsed = collapsed.has(folder.path);
+      return (
+        <li key={folder.path}>
+          <div className={rowClass(selected === folder.path)} style={{ paddingLeft: `${depth * 12 + 8}px` }}>
+            <button
+              type="button"
+              onClick={() => toggle(folder.path)}
+              className={`w-4 text-xs text-gray-400 ${hasChildren ? '' : 'invisible'}`}
+              aria-label={isCollapsed ? 'Expand folder' : 'Collapse folder'}
+            >
+              {isCollapsed ? '▸' : '▾'}
+            </button>
+            <button
+              type="button"
+              onClick={() => onSelect(folder.path)}
+              className="flex-1 truncate text-left"
+              title={folder.path}
+            >
+              {folder.name}
+            </button>
+            <span className="text-xs text-gray-400">{folder.totalTestCount}</span>
+            <div className="hidden items-center gap-1 group-hover:flex">
+              <button
+                type="button"
+                onClick={() => onRunAll(folder)}
+                disabled={folder.totalTestCount === 0}
+                className="rounded px-1 text-xs text-green-700 hover:bg-green-50 disabled:opacity-40"
+                title="Run all tests in this folder"
+              >
+                ▶
+              </button>
+              <button
+                type="button"
+                onClick={() => onCreate(folder.path)}
+                className="rounded px-1 text-xs text-gray-500 hover:bg-gray-100"
+                title="New subfolder"
+              >
+                +
+              </button>
+              <button
+                type="button"
+                onClick={() => onRename(folder)}
+                className="rounded px-1 text-xs text-gray-500 hover:bg-gray-100"
+                title="Rename or move folder"
+              >
+                ✎
+              </button>
+              <button
+                type="button"
+                onClick={() => onDelete(folder)}
+                disabled={folder.totalTestCount > 0}
+                className="rounded px-1 text-xs text-red-600 hover:bg-red-50 disabled:opacity-40"
+                title={folder.totalTestCount > 0 ? 'Only empty folders can be deleted' : 'Delete folder'}
+              >
+                ✕
+              </button>
+            </div>
+          </div>
+          {hasChildren && !isCollapsed && <ul>{renderFolders(folder.path, depth + 1)}</ul>}
+        </li>
+      );
+    });
+  }
+
+  return (
+    <nav className="text-sm">
+      <div className="mb-2 flex items-center justify-between">
+        <span className="text-xs uppercase text-gray-500">Folders</span>
+        <button
+          type="button"
+          onClick={() => onCreate(null)}
+          className="text-xs text-blue-600 hover:underline"
+        >
+          New folder
+        </button>
+      </div>
+      <ul className="space-y-0.5">
+        <li>
+          <button type="button" onClick={() => onSelect('all')} className={`${rowClass(selected === 'all')} w-full`}>
+            <span className="flex-1 text-left">All tests</span>
+            <span className="text-xs text-gray-400">{totalCount}</span>
+          </button>
+        </li>
+        <li>
+          <button
+            type="button"
+            onClick={() => onSelect('uncategorized')}
+            className={`${rowClass(selected === 'uncategorized')} w-full`}
+          >
+            <span className="flex-1 text-left">Uncategorized</span>
+            <span className="text-xs text-gray-400">{uncategorizedCount}</span>
+          </button>
+        </li>
+        {renderFolders(null, 0)}
+      </ul>
+    </nav>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState, useRef, useEffect } from 'react';
 import { useGenerationStream } from '../hooks/useGenerationStream';
+import { apiUrl } from '../api/client';
 
 interface Variable {
   name: string;
@@ -36,7 +37,7 @@ export function GenerationViewer({ sessionId }: { sessionId: string }) {
 
   const handleSaveEdit = async (stepNumber: number) => {
     try {
-      const response = await fetch(`/api/generate/${sessionId}/steps/${stepNumber}`, {
+      const response = await fetch(apiUrl(`/generate/${sessionId}/steps/${stepNumber}`), {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
@@ -73,7 +74,7 @@ export function GenerationViewer({ sessionId }: { sessionId: string }) {
 
   const handleResume = async () => {
     try {
-      const response = await fetch(`/api/generate/${sessionId}/resume`, {
+      const response = await fetch(apiUrl(`/generate/${sessionId}/resume`), {
         method: 'POST',
       });
 
@@ -88,7 +89,7 @@ export function GenerationViewer({ sessionId }: { sessionId: string }) {
 
   const handleSave = async () => {
     try {
-      const response = await fetch(`/api/generate/${sessionId}/save`, {
+      const response = await fetch(apiUrl(`/generate/${sessionId}/save`), {
         method: 'POST',
       });
 
@@ -121,7 +122,7 @@ export function GenerationViewer({ sessionId }: { sessionId: string }) {
 
     setIsDiscarding(true);
     try {
-      await fetch(`/api/generate/${sessionId}/record/discard`, {
+      await fetch(apiUrl(`/generate/${sessionId}/record/discard`), {
         method: 'POST',
       });
       window.location.href = '/';
@@ -141,7 +142,7 @@ export function GenerationViewer({ sessionId }: { sessionId: string }) {
 
   const fetchVariables = async () => {
     try {
-      const response = await fetch(`/api/generate/${sessionId}/variables`);
+      const response = await fetch(apiUrl(`/generate/${sessionId}/variables`));
       if (response.ok) {
         const data = await response.json();
         setVariables(data.variables || []);
@@ -188,7 +189,7 @@ export function GenerationViewer({ sessionId }: { sessionId: string }) {
     }
 
     try {
-      const response = await fetch(`/api/generate/${sessionId}/variables`, {
+      const response = await fetch(apiUrl(`/generate/${sessionId}/variables`), {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
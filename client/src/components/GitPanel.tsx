@@ -0,0 +1,113 @@
+import { useCallback, useEffect, useState } from 'react';
+import { api } from '../api/client';
+import type { GitRepositoryStatus } from '../../../shared/types';
+
+export interface GitPanelProps {
+  autoCommit: boolean;
+  onAutoCommitChange: (value: boolean) => void;
+}
+
+/**
+ * Repository status and pull/push for a test directory kept in git
+ */
+export function GitPanel({ autoCommit, onAutoCommitChange }: GitPanelProps) {
+  const [status, setStatus] = useState<GitRepositoryStatus | null>(null);
+  const [busy, setBusy] = useState<'pull' | 'push' | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      setStatus(await api.getGitStatus());
+    } catch (err) {
+      setMessage('Error: ' + (err instanceof Error ? err.message : 'Failed to read git status'));
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadStatus();
+  }, [loadStatus]);
+
+  async function handleSync(action: 'pull' | 'push') {
+    setBusy(action);
+    setMessage(null);
+    try {
+      const result = action === 'pull' ? await api.gitPull() : await api.gitPush();
+      setStatus(result.status);
+      setMessage(result.output || (action === 'pull' ? 'Already up to date' : 'Pushed'));
+    } catch (err) {
+      setMessage('Error: ' + (err instanceof Error ? err.message : `Failed to ${action}`));
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  if (!status) {
+    return null;
+  }
+
+  if (!status.enabled) {
+    return (
+      <p className="text-xs text-gray-500">
+        Point the test directory inside a git repository to track status, commit saves and pull/push from here.
+      </p>
+    );
+  }
+
+  const changedCount = Object.keys(status.tests).length;
+
+  return (
+    <div className="space-y-3 rounded-lg border border-gray-200 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-sm text-gray-700">
+          <span className="font-medium">Git</span>{' '}
+          <span className="font-mono">{status.branch ?? 'detached'}</span>
+          {status.remote ? (
+            <span className="text-gray-500">
+              {' '}
+              → <span className="font-mono">{status.remote}</span>
+              {(status.ahead ?? 0) > 0 && ` · ${status.ahead} ahead`}
+              {(status.behind ?? 0) > 0 && ` · ${status.behind} behind`}
+            </span>
+          ) : (
+            <span className="text-gray-500"> · no upstream</span>
+          )}
+          {changedCount > 0 && (
+            <span className="text-amber-600">
+              {' '}
+              · {changedCount} uncommitted test{changedCount === 1 ? '' : 's'}
+            </span>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => void handleSync('pull')}
+            disabled={busy !== null || !status.remote}
+            className="rounded-lg border border-gray-300 px-3 py-1 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            {busy === 'pull' ? 'Pulling…' : 'Pull'}
+          </button>
+          <button
+            onClick={() => void handleSync('push')}
+            disabled={busy !== null || !status.remote}
+            className="rounded-lg border border-gray-300 px-3 py-1 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            {busy === 'push' ? 'Pushing…' : 'Push'}
+          </button>
+        </div>
+      </div>
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={autoCommit}
+          onChange={(e) => onAutoCommitChange(e.target.checked)}
+        />
+        Commit each save (e.g. "Record: Checkout flow, 12 steps")
+      </label>
+      {message && (
+        <p className={`whitespace-pre-wrap text-xs ${message.startsWith('Error') ? 'text-red-600' : 'text-gray-500'}`}>
+          {message}
+        </p>
+      )}
+    </div>
+  );
+}
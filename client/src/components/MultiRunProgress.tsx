@@ -251,6 +251,25 @@ function TestRow({ test, index, isCurrent, onViewRun }: TestRowProps) {
         {test.error && (
           <p className="mt-1 text-xs text-red-600 truncate">{test.error}</p>
         )}
+        {test.browserResults && test.browserResults.length > 0 && (
+          <div className="mt-1 flex flex-wrap gap-1">
+            {test.browserResults.map((result) => (
+              <span
+                key={result.browser}
+                title={result.error}
+                className={`px-1.5 py-0.5 text-xs rounded ${
+                  result.status === 'passed'
+                    ? 'bg-emerald-50 text-emerald-700'
+                    : result.status === 'failed'
+                    ? 'bg-red-50 text-red-700'
+                    : 'bg-gray-100 text-gray-600'
+                }`}
+              >
+                {result.browser}: {result.status}
+              </span>
+            ))}
+          </div>
+        )}
       </div>
       <div className="flex items-center gap-2">
         <span className="text-xs text-gray-500">{durationStr}</span>
@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { FormEvent } from 'react';
+import { api, getCurrentProjectId, setCurrentProject } from '../api/client';
+import type { ProjectSummary } from '../../../shared/types';
+
+function switchTo(projectId: string) {
+  setCurrentProject(projectId);
+  // Every page holds project data, so start over from Home
+  window.location.assign('/');
+}
+
+/**
+ * Header dropdown to switch between projects and create new ones
+ */
+export function ProjectSwitcher() {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [baseUrl, setBaseUrl] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const currentProjectId = getCurrentProjectId();
+
+  const loadProjects = useCallback(async () => {
+    try {
+      const result = await api.listProjects();
+      setProjects(result.projects);
+      // A project deleted elsewhere falls back to the default one
+      if (!result.projects.some((project) => project.id === currentProjectId)) {
+        switchTo(result.defaultProjectId);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load projects');
+    }
+  }, [currentProjectId]);
+
+  useEffect(() => {
+    void loadProjects();
+  }, [loadProjects]);
+
+  async function handleCreate(event: FormEvent) {
+    event.preventDefault();
+    setError(null);
+    try {
+      const { project } = await api.createProject({ name, baseUrl: baseUrl || undefined });
+      switchTo(project.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create project');
+    }
+  }
+
+  return (
+    <div className="relative flex items-center gap-2">
+      <label htmlFor="project-switcher" className="text-sm text-gray-500">
+        Project
+      </label>
+      <select
+        id="project-switcher"
+        value={currentProjectId}
+        onChange={(event) => {
+          if (event.target.value === '__new__') {
+            setCreating(true);
+          } else {
+            switchTo(event.target.value);
+          }
+        }}
+        className="rounded-md border border-gray-300 px-3 py-1.5 text-sm focus:border-blue-500 focus:outline-none"
+      >
+        {projects.map((project) => (
+          <option key={project.id} value={project.id}>
+            {project.name} ({project.testCount})
+          </option>
+        ))}
+        <option value="__new__">+ New project…</option>
+      </select>
+
+      {creating && (
+        <form
+          onSubmit={handleCreate}
+          className="absolute right-0 top-full z-20 mt-2 w-72 space-y-3 rounded-lg border border-gray-200 bg-white p-4 shadow-lg"
+        >
+          <input
+            autoFocus
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder="Project name"
+            className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+          />
+          <input
+            type="url"
+            value={baseUrl}
+            onChange={(event) => setBaseUrl(event.target.value)}
+            placeholder="Base URL (optional)"
+            className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+          />
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => {
+                setCreating(false);
+                setError(null);
+              }}
+              className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!name.trim()}
+              className="rounded-md bg-blue-600 px-3 py-1.5 text-sm text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              Create
+            </button>
+          </div>
+        </form>
+      )}
+      {!creating && error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
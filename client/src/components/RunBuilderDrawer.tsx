@@ -10,7 +10,10 @@
 import { useState, useEffect, useCallback } from 'react';
 import type { ApiTestMetadata } from '../api/client';
 import { api } from '../api/client';
-import type { QueuedTest, RunConfiguration, ExtractedStep } from '../../../shared/types';
+import type { QueuedTest, RunConfiguration, ExtractedStep, BrowserName, RunExecutionSettings } from '../../../shared/types';
+import { BROWSER_OPTIONS } from '../constants/browsers';
+import { RunExecutionFields } from './RunExecutionFields';
+import { parseRowNumbers } from '../utils/rowSelection';
 
 interface RunBuilderDrawerProps {
   isOpen: boolean;
@@ -25,6 +28,20 @@ interface TestWithSteps {
   loadingSteps: boolean;
 }
 
+/**
+ * Row input accepts either 1-based row numbers ("3, 17") or a `column=value` filter
+ */
+function parseRowSelection(input: string): Pick<QueuedTest, 'rowIndexes' | 'rowFilter'> {
+  const trimmed = input.trim();
+  if (!trimmed) {
+    return {};
+  }
+  if (trimmed.includes('=')) {
+    return { rowFilter: trimmed };
+  }
+  return { rowIndexes: parseRowNumbers(trimmed) };
+}
+
 export default function RunBuilderDrawer({
   isOpen,
   onClose,
@@ -35,12 +52,15 @@ export default function RunBuilderDrawer({
   const [testsWithSteps, setTestsWithSteps] = useState<TestWithSteps[]>([]);
   const [enabledTests, setEnabledTests] = useState<Set<string>>(new Set());
   const [startFromStep, setStartFromStep] = useState<Record<string, number>>({});
+  const [rowSelection, setRowSelection] = useState<Record<string, string>>({});
 
   // Run options
   const [headed, setHeaded] = useState(true);
   const [speed, setSpeed] = useState(1);
   const [reusesBrowser, setReusesBrowser] = useState(false);
   const [stopOnFailure, setStopOnFailure] = useState(false);
+  const [browsers, setBrowsers] = useState<BrowserName[]>([]);
+  const [execution, setExecution] = useState<RunExecutionSettings>({});
 
   // UI state
   const [starting, setStarting] = useState(false);
@@ -57,6 +77,7 @@ export default function RunBuilderDrawer({
       setTestsWithSteps(initial);
       setEnabledTests(new Set(selectedTests.map((t) => t.id)));
       setStartFromStep({});
+      setRowSelection({});
       setError(null);
 
       // Load steps for each test
@@ -133,13 +154,17 @@ export default function RunBuilderDrawer({
             testName: item.test.name,
             order: index,
             startFromStep: startFromStep[item.test.id] || 0,
-            enabled: enabledTests.has(item.test.id)
+            enabled: enabledTests.has(item.test.id),
+            ...parseRowSelection(rowSelection[item.test.id] || '')
           })),
         options: {
           headed,
           speed,
           reusesBrowser,
-          stopOnFailure
+          stopOnFailure,
+          browser: browsers.length === 1 ? browsers[0] : undefined,
+          browserMatrix: browsers.length > 1 ? browsers : undefined,
+          execution: Object.keys(execution).length ? execution : undefined
         }
       };
 
@@ -216,6 +241,34 @@ export default function RunBuilderDrawer({
                 <span className="text-sm text-gray-700">Stop on first failure</span>
               </label>
 
+              <div>
+                <span className="text-sm text-gray-700">Browsers:</span>
+                <div className="mt-2 flex flex-wrap gap-3">
+                  {BROWSER_OPTIONS.map((option) => (
+                    <label key={option.id} className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={browsers.includes(option.id)}
+                        onChange={(e) =>
+                          setBrowsers((prev) =>
+                            e.target.checked
+                              ? [...prev, option.id]
+                              : prev.filter((browser) => browser !== option.id)
+                          )
+                        }
+                        className="h-4 w-4 rounded border-gray-300 text-blue-600"
+                      />
+                      <span className="text-sm text-gray-700">{option.name}</span>
+                    </label>
+                  ))}
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                  {browsers.length > 1
+                    ? 'Each test runs once per selected browser. Browser reuse is disabled.'
+                    : 'Leave unchecked to use the default browser from Settings.'}
+                </p>
+              </div>
+
               <div className="flex items-center gap-3">
                 <span className="text-sm text-gray-700">Speed:</span>
                 <input
@@ -229,6 +282,14 @@ export default function RunBuilderDrawer({
                 />
                 <span className="text-sm text-gray-600 w-12">{speed.toFixed(1)}x</span>
               </div>
+
+              <div>
+                <span className="text-sm text-gray-700">Retries, timeout &amp; artifacts:</span>
+                <div className="mt-2">
+                  <RunExecutionFields value={execution} onChange={setExecution} />
+                </div>
+                <p className="mt-1 text-xs text-gray-500">Empty fields use each test's own defaults.</p>
+              </div>
             </div>
           </div>
 
@@ -304,13 +365,35 @@ export default function RunBuilderDrawer({
                           ) : (
                             item.steps.map((step) => (
                               <option key={step.number} value={step.number}>
-                                Step {step.number}: {step.title.slice(0, 40)}
+                                {'\u00a0\u00a0'.repeat(step.depth ?? 0)}Step {step.number}: {step.title.slice(0, 40)}
                                 {step.title.length > 40 ? '...' : ''}
                               </option>
                             ))
                           )}
                         </select>
+                        {(startFromStep[item.test.id] || 0) > 1 && (
+                          <p className="mt-1 text-xs text-gray-400">
+                            Steps before step {startFromStep[item.test.id]} will be skipped
+                          </p>
+                        )}
                       </div>
+
+                      {/* Row selector for data-driven tests */}
+                      {item.test.dataSource && (
+                        <div className="mt-2">
+                          <label className="text-xs text-gray-500">Rows:</label>
+                          <input
+                            type="text"
+                            value={rowSelection[item.test.id] || ''}
+                            onChange={(e) =>
+                              setRowSelection((prev) => ({ ...prev, [item.test.id]: e.target.value }))
+                            }
+                            disabled={!enabledTests.has(item.test.id)}
+                            placeholder="All, 3, 17 or column=value"
+                            className="ml-2 text-xs rounded border border-gray-200 px-2 py-1 w-48"
+                          />
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,114 @@
+import type { RunExecutionSettings } from '../../../shared/types';
+import {
+  DEFAULT_RUN_EXECUTION,
+  SCREENSHOT_MODE_OPTIONS,
+  TRACE_MODE_OPTIONS,
+  VIDEO_MODE_OPTIONS
+} from '../constants/runExecution';
+
+interface RunExecutionFieldsProps {
+  value: RunExecutionSettings;
+  onChange: (value: RunExecutionSettings) => void;
+  /** What an empty field falls back to, e.g. the test's saved defaults */
+  inherited?: RunExecutionSettings;
+}
+
+function optionName(options: Array<{ id: string; name: string }>, id: string): string {
+  return options.find((option) => option.id === id)?.name ?? id;
+}
+
+/**
+ * Retries, timeout and artifact modes; empty fields keep the inherited value
+ */
+export function RunExecutionFields({ value, onChange, inherited }: RunExecutionFieldsProps) {
+  function update<K extends keyof RunExecutionSettings>(field: K, next: RunExecutionSettings[K] | undefined) {
+    const updated = { ...value };
+    if (next === undefined) {
+      delete updated[field];
+    } else {
+      updated[field] = next;
+    }
+    onChange(updated);
+  }
+
+  const inheritedTimeout = inherited?.timeout !== undefined ? inherited.timeout / 1000 : DEFAULT_RUN_EXECUTION.timeoutSeconds;
+  const inheritedRetries = inherited?.retries ?? DEFAULT_RUN_EXECUTION.retries;
+  const fieldClass = 'w-full rounded-lg border border-gray-300 px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <label className="text-xs text-gray-600">
+        Timeout (seconds)
+        <input
+          type="number"
+          min={0}
+          value={value.timeout !== undefined ? value.timeout / 1000 : ''}
+          onChange={(e) =>
+            update('timeout', e.target.value === '' ? undefined : Math.max(0, Math.round(Number(e.target.value) * 1000)))
+          }
+          placeholder={String(inheritedTimeout)}
+          className={fieldClass}
+        />
+      </label>
+      <label className="text-xs text-gray-600">
+        Retries
+        <input
+          type="number"
+          min={0}
+          max={10}
+          value={value.retries ?? ''}
+          onChange={(e) => update('retries', e.target.value === '' ? undefined : Math.min(10, Math.max(0, Math.round(Number(e.target.value)))))}
+          placeholder={String(inheritedRetries)}
+          className={fieldClass}
+        />
+      </label>
+      <label className="text-xs text-gray-600">
+        Trace
+        <select
+          value={value.trace ?? ''}
+          onChange={(e) => update('trace', (e.target.value || undefined) as RunExecutionSettings['trace'])}
+          className={fieldClass}
+        >
+          <option value="">Default ({optionName(TRACE_MODE_OPTIONS, inherited?.trace ?? DEFAULT_RUN_EXECUTION.trace)})</option>
+          {TRACE_MODE_OPTIONS.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="text-xs text-gray-600">
+        Screenshots
+        <select
+          value={value.screenshot ?? ''}
+          onChange={(e) => update('screenshot', (e.target.value || undefined) as RunExecutionSettings['screenshot'])}
+          className={fieldClass}
+        >
+          <option value="">
+            Default ({optionName(SCREENSHOT_MODE_OPTIONS, inherited?.screenshot ?? DEFAULT_RUN_EXECUTION.screenshot)})
+          </option>
+          {SCREENSHOT_MODE_OPTIONS.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="text-xs text-gray-600">
+        Video
+        <select
+          value={value.video ?? ''}
+          onChange={(e) => update('video', (e.target.value || undefined) as RunExecutionSettings['video'])}
+          className={fieldClass}
+        >
+          <option value="">Default ({optionName(VIDEO_MODE_OPTIONS, inherited?.video ?? DEFAULT_RUN_EXECUTION.video)})</option>
+          {VIDEO_MODE_OPTIONS.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.name}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
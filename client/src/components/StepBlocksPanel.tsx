@@ -0,0 +1,261 @@
+import { useCallback, useEffect, useState } from 'react';
+import { api } from '../api/client';
+import type { StepBlock, StepBlockSummary, TestStepMetadata } from '../../../shared/types';
+
+type BlockDraft = Pick<StepBlock, 'name' | 'description' | 'steps'> & { variableNames: string };
+
+const EMPTY_DRAFT: BlockDraft = {
+  name: '',
+  description: '',
+  steps: [{ number: 1, qaSummary: '', playwrightCode: '' }],
+  variableNames: ''
+};
+
+function toDraft(block: StepBlock): BlockDraft {
+  return {
+    name: block.name,
+    description: block.description ?? '',
+    steps: block.steps,
+    variableNames: (block.variables ?? []).map((variable) => variable.name).join(', ')
+  };
+}
+
+function draftVariables(draft: BlockDraft, previous?: StepBlock) {
+  return draft.variableNames
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean)
+    .map((name) => previous?.variables?.find((variable) => variable.name === name) ?? { name });
+}
+
+/**
+ * Library of shared step blocks: named step sequences tests reference instead of copying
+ */
+export function StepBlocksPanel() {
+  const [blocks, setBlocks] = useState<StepBlockSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<BlockDraft>(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+
+  const loadBlocks = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const { blocks: list } = await api.listStepBlocks();
+      setBlocks(list);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load step blocks');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadBlocks();
+  }, [loadBlocks]);
+
+  function startEditing(block: StepBlockSummary | null) {
+    setEditingId(block ? block.id : 'new');
+    setDraft(block ? toDraft(block) : EMPTY_DRAFT);
+    setError(null);
+  }
+
+  function updateStep(index: number, changes: Partial<TestStepMetadata>) {
+    setDraft((prev) => ({
+      ...prev,
+      steps: prev.steps.map((step, stepIndex) => (stepIndex === index ? { ...step, ...changes } : step))
+    }));
+  }
+
+  async function handleSave() {
+    const previous = blocks.find((block) => block.id === editingId);
+    const payload = {
+      name: draft.name,
+      description: draft.description,
+      steps: draft.steps.map((step, index) => ({ ...step, number: index + 1 })),
+      variables: draftVariables(draft, previous)
+    };
+    setSaving(true);
+    setError(null);
+    try {
+      if (previous) {
+        await api.updateStepBlock(previous.id, payload);
+      } else {
+        await api.createStepBlock(payload);
+      }
+      setEditingId(null);
+      await loadBlocks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save step block');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(block: StepBlockSummary) {
+    if (!window.confirm(`Delete the step block "${block.name}"?`)) {
+      return;
+    }
+    setError(null);
+    try {
+      await api.deleteStepBlock(block.id);
+      await loadBlocks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete step block');
+    }
+  }
+
+  const editor = (
+    <div className="space-y-3 rounded-lg border border-blue-200 bg-blue-50/40 p-4">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <input
+          value={draft.name}
+          onChange={(event) => setDraft((prev) => ({ ...prev, name: event.target.value }))}
+          placeholder="Block name, e.g. Login"
+          className="rounded-md border border-gray-300 px-3 py-2 text-sm"
+        />
+        <input
+          value={draft.variableNames}
+          onChange={(event) => setDraft((prev) => ({ ...prev, variableNames: event.target.value }))}
+          placeholder="Variables, e.g. username, password"
+          className="rounded-md border border-gray-300 px-3 py-2 text-sm"
+        />
+      </div>
+      <input
+        value={draft.description ?? ''}
+        onChange={(event) => setDraft((prev) => ({ ...prev, description: event.target.value }))}
+        placeholder="Description (optional)"
+        className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+      />
+      <p className="text-xs text-gray-500">
+        Use <code>{'{{variable}}'}</code> in step code; each test fills in its own values.
+      </p>
+      {draft.steps.map((step, index) => (
+        <div key={index} className="space-y-2 rounded-md border border-gray-200 bg-white p-3">
+          <div className="flex items-center gap-2">
+            <span className="text-xs font-medium text-gray-500">{index + 1}.</span>
+            <input
+              value={step.qaSummary}
+              onChange={(event) => updateStep(index, { qaSummary: event.target.value })}
+              placeholder="What the step does"
+              className="flex-1 rounded-md border border-gray-300 px-2 py-1 text-sm"
+            />
+            <button
+              onClick={() =>
+                setDraft((prev) => ({ ...prev, steps: prev.steps.filter((_, stepIndex) => stepIndex !== index) }))
+              }
+              disabled={draft.steps.length === 1}
+              className="text-xs text-red-600 hover:text-red-800 disabled:opacity-40"
+            >
+              Remove
+            </button>
+          </div>
+          <textarea
+            value={step.playwrightCode}
+            onChange={(event) => updateStep(index, { playwrightCode: event.target.value })}
+            placeholder="await page.getByLabel('Username').fill('{{username}}');"
+            rows={2}
+            className="w-full rounded-md border border-gray-300 px-2 py-1 font-mono text-xs"
+          />
+        </div>
+      ))}
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() =>
+            setDraft((prev) => ({
+              ...prev,
+              steps: [...prev.steps, { number: prev.steps.length + 1, qaSummary: '', playwrightCode: '' }]
+            }))
+          }
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          + Add step
+        </button>
+        <div className="flex gap-2">
+          <button onClick={() => setEditingId(null)} className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900">
+            Cancel
+          </button>
+          <button
+            onClick={() => void handleSave()}
+            disabled={saving || !draft.name.trim()}
+            className="rounded-md bg-blue-600 px-4 py-1.5 text-sm text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving…' : 'Save block'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="mt-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500">
+          Tests call blocks instead of copying their steps, so fixing a block fixes every test using it.
+        </p>
+        {editingId === null && (
+          <button
+            onClick={() => startEditing(null)}
+            className="rounded-md border border-gray-300 px-3 py-1 text-xs text-gray-700 hover:bg-gray-50"
+          >
+            New block
+          </button>
+        )}
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {editingId === 'new' && editor}
+      {loading ? (
+        <p className="text-gray-500">Loading step blocks…</p>
+      ) : blocks.length === 0 && editingId !== 'new' ? (
+        <p className="text-gray-500">No step blocks yet.</p>
+      ) : (
+        <ul className="space-y-3">
+          {blocks.map((block) =>
+            editingId === block.id ? (
+              <li key={block.id}>{editor}</li>
+            ) : (
+              <li
+                key={block.id}
+                className="flex flex-col gap-3 rounded-lg border border-gray-200 p-4 sm:flex-row sm:items-center sm:justify-between"
+              >
+                <div className="min-w-0">
+                  <h3 className="text-base font-semibold text-gray-900">{block.name}</h3>
+                  {block.description && <p className="text-sm text-gray-600">{block.description}</p>}
+                  <div className="mt-1 flex flex-wrap gap-3 text-xs text-gray-500">
+                    <span>
+                      {block.steps.length} step{block.steps.length === 1 ? '' : 's'}
+                    </span>
+                    {block.variables?.length ? (
+                      <span>Variables: {block.variables.map((variable) => variable.name).join(', ')}</span>
+                    ) : null}
+                    <span>
+                      Used by {block.usedBy.length} test{block.usedBy.length === 1 ? '' : 's'}
+                    </span>
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => startEditing(block)}
+                    className="rounded-lg border border-gray-300 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => void handleDelete(block)}
+                    disabled={block.usedBy.length > 0}
+                    title={block.usedBy.length > 0 ? 'Remove the block from its tests first' : undefined}
+                    className="rounded-lg border border-red-200 px-4 py-2 text-sm text-red-600 hover:bg-red-50 disabled:opacity-50"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            )
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+import { useCallback, useEffect, useState } from 'react';
+import { api } from '../api/client';
+import type { TestCaseColumnMapping, TestCaseCsvField, TestCaseCsvPreset } from '../../../shared/types';
+
+export interface TestCaseExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  testIds: string[];
+}
+
+const FIELD_LABELS: Record<TestCaseCsvField, string> = {
+  testId: 'Test ID',
+  title: 'Title',
+  folder: 'Folder',
+  tags: 'Tags',
+  stepNumber: 'Step number',
+  action: 'Action (QA summary)',
+  expectedResult: 'Expected result',
+  lastRunStatus: 'Latest run status'
+};
+
+/**
+ * Modal for exporting tests to a test-management CSV: pick a preset, then
+ * adjust the column header of each field (the reverse of CSVImportModal)
+ */
+export function TestCaseExportModal({ isOpen, onClose, testIds }: TestCaseExportModalProps) {
+  const [fields, setFields] = useState<TestCaseCsvField[]>([]);
+  const [presets, setPresets] = useState<TestCaseCsvPreset[]>([]);
+  const [presetId, setPresetId] = useState('generic');
+  const [columnMapping, setColumnMapping] = useState<TestCaseColumnMapping>({});
+  const [repeatTestFields, setRepeatTestFields] = useState(true);
+  const [tagSeparator, setTagSeparator] = useState(', ');
+  const [error, setError] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const applyPreset = useCallback((preset: TestCaseCsvPreset) => {
+    setPresetId(preset.id);
+    setColumnMapping({ ...preset.mapping });
+    setRepeatTestFields(preset.repeatTestFields);
+    setTagSeparator(preset.tagSeparator);
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    api
+      .getTestCaseCsvPresets()
+      .then(({ fields: available, presets: loaded }) => {
+        setFields(available);
+        setPresets(loaded);
+        const initial = loaded.find((preset) => preset.id === 'generic') ?? loaded[0];
+        if (initial) {
+          applyPreset(initial);
+        }
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load CSV presets'));
+  }, [isOpen, applyPreset]);
+
+  const handleMappingChange = useCallback((field: TestCaseCsvField, header: string | null) => {
+    setColumnMapping((prev) => ({
+      ...prev,
+      [field]: header
+    }));
+  }, []);
+
+  const handleExport = useCallback(async () => {
+    const headers = fields.map((field) => columnMapping[field]?.trim()).filter(Boolean);
+    if (headers.length === 0) {
+      setError('Include at least one column');
+      return;
+    }
+    if (new Set(headers).size !== headers.length) {
+      setError('Column headers must be unique');
+      return;
+    }
+
+    setIsExporting(true);
+    setError(null);
+    try {
+      const blob = await api.exportTestCasesCsv({
+        testIds,
+        preset: presetId,
+        mapping: columnMapping,
+        repeatTestFields,
+        tagSeparator
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `test-cases-${presetId}.csv`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export test cases');
+    } finally {
+      setIsExporting(false);
+    }
+  }, [fields, columnMapping, testIds, presetId, repeatTestFields, tagSeparator, onClose]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Export Test Cases (CSV)</h2>
+          <p className="text-xs text-gray-500 mt-1">
+            {testIds.length} test{testIds.length === 1 ? '' : 's'}, one row per step
+          </p>
+        </div>
+
+        <div className="px-6 py-4 overflow-y-auto flex-1">
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 mb-2">Format</label>
+            <select
+              value={presetId}
+              onChange={(e) => {
+                const preset = presets.find((candidate) => candidate.id === e.target.value);
+                if (preset) applyPreset(preset);
+              }}
+              className="w-full text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            >
+              {presets.map((preset) => (
+                <option key={preset.id} value={preset.id}>
+                  {preset.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded text-sm text-red-700">{error}</div>
+          )}
+
+          <div className="mb-6">
+            <h3 className="text-sm font-semibold text-gray-700 mb-3">Column Mapping</h3>
+            <p className="text-xs text-gray-500 mb-3">
+              Set the column header for each field. Fields without a header are left out.
+            </p>
+            <div className="space-y-2">
+              {fields.map((field) => (
+                <div key={field} className="flex items-center gap-3">
+                  <div className="flex-1">
+                    <span className="text-sm bg-gray-100 px-2 py-1 rounded">{FIELD_LABELS[field]}</span>
+                  </div>
+                  <div className="flex-shrink-0 text-gray-400">→</div>
+                  <div className="flex-1">
+                    <input
+                      value={columnMapping[field] ?? ''}
+                      onChange={(e) => handleMappingChange(field, e.target.value || null)}
+                      placeholder="(Skip field)"
+                      className="w-full text-sm font-mono border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">Tag separator</label>
+            <input
+              value={tagSeparator}
+              onChange={(e) => setTagSeparator(e.target.value)}
+              className="w-24 text-sm font-mono border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+          </div>
+
+          <label className="flex items-start gap-2">
+            <input
+              type="checkbox"
+              checked={repeatTestFields}
+              onChange={(e) => setRepeatTestFields(e.target.checked)}
+              className="mt-0.5"
+            />
+            <div>
+              <div className="text-sm font-medium">Repeat test details on every step row</div>
+              <div className="text-xs text-gray-500">
+                Turn off for tools that treat rows with an empty title as further steps of the previous test
+              </div>
+            </div>
+          </label>
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            disabled={isExporting}
+            className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => void handleExport()}
+            disabled={isExporting || testIds.length === 0}
+            className="px-4 py-2 text-sm bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isExporting ? 'Exporting...' : 'Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+import { useCallback, useEffect, useState } from 'react';
+import { api } from '../api/client';
+import type { DiffLine, GitLogEntry, TestRevisionDiff, TestRevisionSummary } from '../../../shared/types';
+
+export interface TestHistoryPanelProps {
+  testId: string;
+  onRestored: () => void;
+}
+
+const diffLineStyles: Record<DiffLine['type'], string> = {
+  added: 'bg-emerald-50 text-emerald-800',
+  removed: 'bg-red-50 text-red-800',
+  unchanged: 'text-gray-600'
+};
+
+const diffLinePrefix: Record<DiffLine['type'], string> = {
+  added: '+',
+  removed: '-',
+  unchanged: ' '
+};
+
+function formatTimestamp(iso: string) {
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return iso;
+  return new Intl.DateTimeFormat(undefined, { dateStyle: 'medium', timeStyle: 'short' }).format(date);
+}
+
+function DiffBlock({ title, lines }: { title: string; lines: DiffLine[] }) {
+  const changed = lines.some((line) => line.type !== 'unchanged');
+  return (
+    <div>
+      <h4 className="text-xs font-semibold uppercase text-gray-500 mb-1">{title}</h4>
+      {changed ? (
+        <pre className="max-h-96 overflow-auto rounded border border-gray-200 text-xs font-mono">
+          {lines.map((line, index) => (
+            <div key={index} className={`px-2 whitespace-pre-wrap ${diffLineStyles[line.type]}`}>
+              {diffLinePrefix[line.type]} {line.text}
+            </div>
+          ))}
+        </pre>
+      ) : (
+        <p className="text-xs text-gray-500">No changes</p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Revision history for a test: every saved version with diff against the
+ * current file (or the previous revision) and one-click restore
+ */
+export function TestHistoryPanel({ testId, onRestored }: TestHistoryPanelProps) {
+  const [revisions, setRevisions] = useState<TestRevisionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareTo, setCompareTo] = useState<'current' | 'previous'>('current');
+  const [diff, setDiff] = useState<TestRevisionDiff | null>(null);
+  const [loadingDiff, setLoadingDiff] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [commits, setCommits] = useState<GitLogEntry[]>([]);
+
+  const loadRevisions = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const { revisions: list } = await api.listTestRevisions(testId);
+      setRevisions(list);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load history');
+    } finally {
+      setLoading(false);
+    }
+  }, [testId]);
+
+  useEffect(() => {
+    void loadRevisions();
+  }, [loadRevisions]);
+
+  useEffect(() => {
+    // Empty unless the test directory lives in a git repository
+    api
+      .getTestGitLog(testId)
+      .then(({ entries }) => setCommits(entries))
+      .catch(() => setCommits([]));
+  }, [testId, revisions]);
+
+  useEffect(() => {
+    if (!selectedId) {
+      setDiff(null);
+      return;
+    }
+
+    const index = revisions.findIndex((revision) => revision.id === selectedId);
+    const previous = revisions[index + 1];
+    // "previous" shows what this revision changed; "current" shows what restoring it would change
+    const [from, to] =
+      compareTo === 'previous'
+        ? [previous?.id, selectedId]
+        : [selectedId, 'current'];
+
+    if (!from) {
+      setDiff(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoadingDiff(true);
+    api
+      .diffTestRevisions(testId, from, to)
+      .then(({ diff: result }) => {
+        if (!cancelled) setDiff(result);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load diff');
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingDiff(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [testId, selectedId, compareTo, revisions]);
+
+  async function handleRestore(revision: TestRevisionSummary) {
+    if (!window.confirm(`Restore the version from ${formatTimestamp(revision.createdAt)}? The current version stays in history.`)) {
+      return;
+    }
+    setRestoring(true);
+    setError(null);
+    try {
+      await api.restoreTestRevision(testId, revision.id);
+      setSelectedId(null);
+      await loadRevisions();
+      onRestored();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore revision');
+    } finally {
+      setRestoring(false);
+    }
+  }
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading history...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {revisions.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No saved versions yet. A version is recorded every time the test is created, edited or imported.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100 rounded-lg border border-gray-200">
+          {revisions.map((revision, index) => (
+            <li key={revision.id} className={selectedId === revision.id ? 'bg-blue-50' : undefined}>
+              <div className="flex items-center justify-between gap-3 px-4 py-3">
+                <button
+                  onClick={() => setSelectedId(selectedId === revision.id ? null : revision.id)}
+                  className="flex-1 text-left"
+                >
+                  <p className="text-sm font-medium text-gray-900">
+                    {revision.action}
+                    {index === 0 && <span className="ml-2 text-xs font-normal text-gray-500">(latest)</span>}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {formatTimestamp(revision.createdAt)} · {revision.name} · {revision.stepCount} steps
+                  </p>
+                </button>
+                {index > 0 && (
+                  <button
+                    onClick={() => handleRestore(revision)}
+                    disabled={restoring}
+                    className="text-xs px-3 py-1.5 rounded border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Restore
+                  </button>
+                )}
+              </div>
+
+              {selectedId === revision.id && (
+                <div className="space-y-3 px-4 pb-4">
+                  <div className="flex gap-2 text-xs">
+                    <button
+                      onClick={() => setCompareTo('current')}
+                      className={`px-2 py-1 rounded ${compareTo === 'current' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700'}`}
+                    >
+                      Compare with current
+                    </button>
+                    <button
+                      onClick={() => setCompareTo('previous')}
+                      className={`px-2 py-1 rounded ${compareTo === 'previous' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700'}`}
+                    >
+                      Changes in this version
+                    </button>
+                  </div>
+                  {loadingDiff ? (
+                    <p className="text-xs text-gray-500">Loading diff...</p>
+                  ) : diff ? (
+                    <>
+                      <DiffBlock title="Code" lines={diff.code} />
+                      <DiffBlock title="Metadata" lines={diff.metadata} />
+                    </>
+                  ) : (
+                    <p className="text-xs text-gray-500">This is the first recorded version.</p>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {commits.length > 0 && (
+        <div>
+          <h3 className="mb-2 text-xs font-semibold uppercase text-gray-500">Git commits</h3>
+          <ul className="divide-y divide-gray-100 rounded-lg border border-gray-200">
+            {commits.map((commit) => (
+              <li key={commit.hash} className="flex items-center justify-between gap-3 px-4 py-2">
+                <div className="min-w-0">
+                  <p className="truncate text-sm text-gray-900">{commit.subject}</p>
+                  <p className="text-xs text-gray-500">
+                    {formatTimestamp(commit.date)} · {commit.author}
+                  </p>
+                </div>
+                <span className="font-mono text-xs text-gray-400">{commit.hash.slice(0, 7)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
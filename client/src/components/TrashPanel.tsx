@@ -0,0 +1,149 @@
+import { useCallback, useEffect, useState } from 'react';
+import { api } from '../api/client';
+import type { TrashEntry } from '../../../shared/types';
+
+export interface TrashPanelProps {
+  onRestored: () => void;
+}
+
+function formatTimestamp(iso: string) {
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return iso;
+  return new Intl.DateTimeFormat(undefined, { dateStyle: 'medium', timeStyle: 'short' }).format(date);
+}
+
+/**
+ * Deleted tests waiting in the trash with restore and permanent delete
+ */
+export function TrashPanel({ onRestored }: TrashPanelProps) {
+  const [entries, setEntries] = useState<TrashEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadTrash = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const { entries: list } = await api.listTrash();
+      setEntries(list);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load trash');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadTrash();
+  }, [loadTrash]);
+
+  async function handleRestore(entry: TrashEntry) {
+    setBusyId(entry.testId);
+    setError(null);
+    try {
+      await api.restoreFromTrash(entry.testId);
+      await loadTrash();
+      onRestored();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore test');
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handlePurge(entry: TrashEntry) {
+    if (!window.confirm(`Permanently delete "${entry.name}" with its data, screenshots and runs? This cannot be undone.`)) {
+      return;
+    }
+    setBusyId(entry.testId);
+    setError(null);
+    try {
+      await api.purgeTrashEntry(entry.testId);
+      await loadTrash();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete test');
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handleEmpty() {
+    if (!window.confirm(`Permanently delete all ${entries.length} test(s) in the trash? This cannot be undone.`)) {
+      return;
+    }
+    setBusyId('*');
+    setError(null);
+    try {
+      await api.emptyTrash();
+      await loadTrash();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to empty trash');
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-center justify-between mb-3">
+        <p className="text-sm text-gray-500">
+          Deleted tests keep their data, screenshots and runs until they are purged.
+        </p>
+        {entries.length > 0 && (
+          <button
+            onClick={() => void handleEmpty()}
+            disabled={busyId !== null}
+            className="rounded-md border border-red-200 px-3 py-1 text-xs text-red-600 hover:bg-red-50 disabled:opacity-50"
+          >
+            Empty trash
+          </button>
+        )}
+      </div>
+      {error && <p className="mb-3 text-sm text-red-600">{error}</p>}
+      {loading ? (
+        <p className="text-gray-500">Loading trash…</p>
+      ) : entries.length === 0 ? (
+        <p className="text-gray-500">Trash is empty.</p>
+      ) : (
+        <ul className="space-y-3">
+          {entries.map((entry) => (
+            <li
+              key={entry.testId}
+              className="flex flex-col gap-3 rounded-lg border border-gray-200 p-4 sm:flex-row sm:items-center sm:justify-between"
+            >
+              <div className="min-w-0">
+                <h3 className="text-base font-semibold text-gray-900">{entry.name}</h3>
+                <div className="mt-1 flex flex-wrap gap-3 text-xs text-gray-500">
+                  <span>Deleted {formatTimestamp(entry.deletedAt)}</span>
+                  {entry.folder && <span>{entry.folder}</span>}
+                  <span>
+                    {entry.runIds.length} run{entry.runIds.length === 1 ? '' : 's'}
+                  </span>
+                  {entry.hasTestData && <span>CSV data</span>}
+                  {entry.hasScreenshots && <span>Screenshots</span>}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => void handleRestore(entry)}
+                  disabled={busyId !== null}
+                  className="rounded-lg border border-gray-300 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  {busyId === entry.testId ? 'Working…' : 'Restore'}
+                </button>
+                <button
+                  onClick={() => void handlePurge(entry)}
+                  disabled={busyId !== null}
+                  className="rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700 disabled:opacity-50"
+                >
+                  Delete forever
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
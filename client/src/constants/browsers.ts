@@ -0,0 +1,12 @@
+import type { BrowserName } from '../../../shared/types';
+
+export interface BrowserOption {
+  id: BrowserName;
+  name: string;
+}
+
+export const BROWSER_OPTIONS: BrowserOption[] = [
+  { id: 'chromium', name: 'Chromium' },
+  { id: 'firefox', name: 'Firefox' },
+  { id: 'webkit', name: 'WebKit (Safari)' },
+];
@@ -0,0 +1,30 @@
+import type { ScreenshotMode, TraceMode, VideoMode } from '../../../shared/types';
+
+export const TRACE_MODE_OPTIONS: Array<{ id: TraceMode; name: string }> = [
+  { id: 'on', name: 'Always' },
+  { id: 'retain-on-failure', name: 'Keep on failure' },
+  { id: 'on-first-retry', name: 'On first retry' },
+  { id: 'off', name: 'Off' },
+];
+
+export const SCREENSHOT_MODE_OPTIONS: Array<{ id: ScreenshotMode; name: string }> = [
+  { id: 'on', name: 'Always' },
+  { id: 'only-on-failure', name: 'On failure' },
+  { id: 'off', name: 'Off' },
+];
+
+export const VIDEO_MODE_OPTIONS: Array<{ id: VideoMode; name: string }> = [
+  { id: 'retain-on-failure', name: 'Keep on failure' },
+  { id: 'on', name: 'Always' },
+  { id: 'on-first-retry', name: 'On first retry' },
+  { id: 'off', name: 'Off' },
+];
+
+/** Values the generated playwright.config falls back to */
+export const DEFAULT_RUN_EXECUTION = {
+  timeoutSeconds: 45,
+  retries: 1,
+  trace: 'on',
+  screenshot: 'on',
+  video: 'retain-on-failure',
+} as const;
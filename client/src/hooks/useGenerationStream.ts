@@ -1,5 +1,6 @@
 import { useEffect, useState } from 'react';
 import type { LiveGenerationState, RecordedStep } from '../../../shared/types';
+import { apiUrl } from '../api/client';
 
 export function useGenerationStream(sessionId: string) {
   const [state, setState] = useState<LiveGenerationState | null>(null);
@@ -9,7 +10,7 @@ export function useGenerationStream(sessionId: string) {
   useEffect(() => {
     if (!sessionId) return;
 
-    const eventSource = new EventSource(`/api/generate/${sessionId}/events`);
+    const eventSource = new EventSource(apiUrl(`/generate/${sessionId}/events`));
 
     eventSource.addEventListener('state', (e) => {
       const newState = JSON.parse(e.data);
@@ -62,14 +63,14 @@ export function useGenerationStream(sessionId: string) {
   const stopRecording = async () => {
     if (!sessionId || state?.mode !== 'record') return;
 
-    await fetch(`/api/generate/${sessionId}/record/stop`, {
+    await fetch(apiUrl(`/generate/${sessionId}/record/stop`), {
       method: 'POST',
     });
   };
 
   const deleteStep = async (stepNumber: number): Promise<boolean> => {
     try {
-      const response = await fetch(`/api/generate/${sessionId}/steps/${stepNumber}`, {
+      const response = await fetch(apiUrl(`/generate/${sessionId}/steps/${stepNumber}`), {
         method: 'DELETE',
       });
 
@@ -1,8 +1,10 @@
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { api } from '../api/client';
+import { api, apiUrl } from '../api/client';
 import type { ApiCredential } from '../api/client';
 import { SCREEN_SIZE_PRESETS } from '../constants/screenSizes';
+import { BROWSER_OPTIONS } from '../constants/browsers';
+import type { BrowserName, TestTemplate, VariableDefinition } from '../../../shared/types';
 
 export default function GenerateStart() {
   const navigate = useNavigate();
@@ -28,7 +30,13 @@ export default function GenerateStart() {
   const [savingCredential, setSavingCredential] = useState(false);
   const [credentialError, setCredentialError] = useState<string | null>(null);
   const [selectedScreenSize, setSelectedScreenSize] = useState('');
+  const [browser, setBrowser] = useState<BrowserName | ''>('');
   const [mode, setMode] = useState<'auto' | 'manual' | 'record' | ''>('');
+  const [templates, setTemplates] = useState<TestTemplate[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState('');
+  const [templateVariables, setTemplateVariables] = useState<VariableDefinition[]>([]);
+  const [templateTags, setTemplateTags] = useState<string[]>([]);
+  const [templateMessage, setTemplateMessage] = useState<string | null>(null);
 
   useEffect(() => {
     let cancelled = false;
@@ -46,6 +54,15 @@ export default function GenerateStart() {
 
     void loadCredentials();
 
+    api
+      .listTemplates()
+      .then(({ templates: list }) => {
+        if (!cancelled) {
+          setTemplates(list);
+        }
+      })
+      .catch(() => void 0);
+
     return () => {
       cancelled = true;
     };
@@ -94,6 +111,64 @@ export default function GenerateStart() {
     }
   }
 
+  function applyTemplate(templateId: string) {
+    setSelectedTemplateId(templateId);
+    setTemplateMessage(null);
+    const template = templates.find((candidate) => candidate.id === templateId);
+    if (!template) {
+      setTemplateVariables([]);
+      setTemplateTags([]);
+      return;
+    }
+    setGoal(template.goal ?? '');
+    setSuccessCriteria(template.successCriteria ?? '');
+    setStartUrl(template.startUrl || defaultStartUrl || '');
+    setSelectedCredentialId(template.credentialId ?? '');
+    setSelectedScreenSize(
+      SCREEN_SIZE_PRESETS.find(
+        (preset) =>
+          preset.viewport.width === template.viewportSize?.width &&
+          preset.viewport.height === template.viewportSize?.height
+      )?.id ?? ''
+    );
+    setTemplateVariables(template.variables ?? []);
+    setTemplateTags(template.tags ?? []);
+  }
+
+  async function handleSaveTemplate() {
+    const name = window.prompt('Template name');
+    if (!name?.trim()) return;
+    try {
+      const { template } = await api.createTemplate({
+        name: name.trim(),
+        goal: goal.trim() || undefined,
+        successCriteria: successCriteria.trim() || undefined,
+        startUrl: startUrl.trim() || undefined,
+        credentialId: selectedCredentialId || undefined,
+        viewportSize: SCREEN_SIZE_PRESETS.find((preset) => preset.id === selectedScreenSize)?.viewport,
+        variables: templateVariables.length ? templateVariables : undefined,
+        tags: templateTags.length ? templateTags : undefined
+      });
+      setTemplates((prev) => [...prev, template].sort((a, b) => a.name.localeCompare(b.name)));
+      setSelectedTemplateId(template.id);
+      setTemplateMessage(`Saved template "${template.name}"`);
+    } catch (err) {
+      setTemplateMessage(err instanceof Error ? err.message : 'Failed to save template');
+    }
+  }
+
+  async function handleDeleteTemplate() {
+    const template = templates.find((candidate) => candidate.id === selectedTemplateId);
+    if (!template || !window.confirm(`Delete the template "${template.name}"?`)) return;
+    try {
+      await api.deleteTemplate(template.id);
+      setTemplates((prev) => prev.filter((candidate) => candidate.id !== template.id));
+      applyTemplate('');
+    } catch (err) {
+      setTemplateMessage(err instanceof Error ? err.message : 'Failed to delete template');
+    }
+  }
+
   async function handleSubmit(event: React.FormEvent) {
     event.preventDefault();
 
@@ -127,13 +202,15 @@ export default function GenerateStart() {
 
     try {
       if (mode === 'record') {
-        const response = await fetch('/api/generate/record/start', {
+        const response = await fetch(apiUrl('/generate/record/start'), {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             name: recordTestName.trim(),
             startUrl: trimmedUrl,
-            description: successCriteria.trim() || undefined
+            description: successCriteria.trim() || undefined,
+            variables: templateVariables.length ? templateVariables : undefined,
+            tags: templateTags.length ? templateTags : undefined
           })
         });
 
@@ -165,7 +242,10 @@ export default function GenerateStart() {
         keepBrowserOpen: mode === 'auto' ? keepBrowserOpen : true,
         credentialId: mode === 'auto' ? selectedCredentialId || undefined : undefined,
         viewportSize,
-        mode
+        mode,
+        browser: browser || undefined,
+        variables: templateVariables.length ? templateVariables : undefined,
+        tags: templateTags.length ? templateTags : undefined
       };
 
       if (mode === 'auto') {
@@ -201,6 +281,54 @@ export default function GenerateStart() {
       </div>
 
         <form onSubmit={handleSubmit} className="rounded-lg bg-white p-6 shadow space-y-5">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Template (optional)</label>
+            <div className="flex flex-wrap items-center gap-3">
+              <select
+                value={selectedTemplateId}
+                onChange={(e) => applyTemplate(e.target.value)}
+                className="flex-1 rounded-lg border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Start from scratch</option>
+                {templates.map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {template.name}
+                  </option>
+                ))}
+              </select>
+              {selectedTemplateId && (
+                <button
+                  type="button"
+                  onClick={() => void handleDeleteTemplate()}
+                  className="text-xs font-medium text-red-600 hover:underline"
+                >
+                  Delete template
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => void handleSaveTemplate()}
+                className="text-xs font-medium text-blue-600 hover:underline"
+              >
+                Save form as template
+              </button>
+            </div>
+            {(templateVariables.length > 0 || templateTags.length > 0) && (
+              <div className="mt-2 space-y-1 text-xs text-gray-600">
+                {templateVariables.length > 0 && (
+                  <p>
+                    Variables:{' '}
+                    {templateVariables
+                      .map((variable) => (variable.sampleValue ? `${variable.name} = ${variable.sampleValue}` : variable.name))
+                      .join(', ')}
+                  </p>
+                )}
+                {templateTags.length > 0 && <p>Tags: {templateTags.join(', ')}</p>}
+              </div>
+            )}
+            {templateMessage && <p className="mt-2 text-xs text-gray-600">{templateMessage}</p>}
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">Mode</label>
             <div className="grid gap-3 md:grid-cols-3">
@@ -447,6 +575,24 @@ export default function GenerateStart() {
                 </p>
               </div>
 
+              {mode !== 'record' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Browser (optional)</label>
+                  <select
+                    value={browser}
+                    onChange={(e) => setBrowser(e.target.value as BrowserName | '')}
+                    className="w-full rounded-lg border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Default (from Settings)</option>
+                    {BROWSER_OPTIONS.map((option) => (
+                      <option key={option.id} value={option.id}>
+                        {option.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               {mode === 'auto' && (
                 <label className="flex items-start gap-3 rounded-lg border border-gray-200 px-3 py-3">
                   <input
@@ -456,7 +602,7 @@ export default function GenerateStart() {
                     className="mt-1 rounded"
                   />
                   <span className="text-sm text-gray-700">
-                    Leave the Chromium window open after generation completes
+                    Leave the browser window open after generation completes
                     <span className="block text-xs text-gray-500">
                       Useful for inspecting the final state before saving.
                     </span>
@@ -501,6 +647,7 @@ export default function GenerateStart() {
                 setCredentialError(null);
                 setKeepBrowserOpen(false);
                 setMessage(null);
+                applyTemplate('');
               }}
               className="rounded-lg border border-gray-300 px-4 py-2 text-gray-700 hover:bg-gray-50"
               disabled={isStarting}
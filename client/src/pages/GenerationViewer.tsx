@@ -1,6 +1,6 @@
 import { useEffect, useState, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { api } from '../api/client';
+import { api, apiUrl } from '../api/client';
 import type { ApiTestMetadata, ApiCredential } from '../api/client';
 import type {
   LiveGenerationState,
@@ -564,7 +564,7 @@ export default function GenerationViewer() {
 
     setIsStopping(true);
     try {
-      await fetch(`/api/generate/${sessionId}/record/stop`, {
+      await fetch(apiUrl(`/generate/${sessionId}/record/stop`), {
         method: 'POST',
       });
     } catch (err) {
@@ -585,7 +585,7 @@ export default function GenerationViewer() {
 
     setIsDiscarding(true);
     try {
-      await fetch(`/api/generate/${sessionId}/record/discard`, {
+      await fetch(apiUrl(`/generate/${sessionId}/record/discard`), {
         method: 'POST',
       });
       // Navigate to landing page after successful discard
@@ -878,7 +878,8 @@ export default function GenerationViewer() {
     setSaveModalError(null);
 
     let suggestedName = savedTest?.name || steps[0]?.qaSummary || 'AI Generated Test';
-    let suggestedTags = savedTest?.tags ?? ['ai-generated', 'live-session'];
+    // Tags from the session's template win over AI suggestions
+    let suggestedTags = savedTest?.tags ?? state?.tags ?? ['ai-generated', 'live-session'];
 
     try {
       if (!savedTest && steps.length > 0) {
@@ -892,7 +893,7 @@ export default function GenerationViewer() {
           suggestedName = nameResult.value.suggestedName.trim();
         }
 
-        if (tagsResult.status === 'fulfilled' && tagsResult.value?.suggestedTags?.length) {
+        if (!state?.tags?.length && tagsResult.status === 'fulfilled' && tagsResult.value?.suggestedTags?.length) {
           suggestedTags = tagsResult.value.suggestedTags;
         }
       }
@@ -5,6 +5,20 @@ import { api } from '../api/client';
 import type { ApiTestMetadata } from '../api/client';
 import RunBuilderDrawer from '../components/RunBuilderDrawer';
 import MultiRunProgress from '../components/MultiRunProgress';
+import { TrashPanel } from '../components/TrashPanel';
+import { StepBlocksPanel } from '../components/StepBlocksPanel';
+import { FlakyTestsPanel } from '../components/FlakyTestsPanel';
+import { FolderTree } from '../components/FolderTree';
+import { ProjectSwitcher } from '../components/ProjectSwitcher';
+import { TestCaseExportModal } from '../components/TestCaseExportModal';
+import type { FolderSelection } from '../components/FolderTree';
+import type {
+  GitFileStatus,
+  TestFolder,
+  TestHealthIssue,
+  TestSearchHit,
+  TestSearchMatch
+} from '../../../shared/types';
 
 const dateFormatter = new Intl.DateTimeFormat(undefined, {
   dateStyle: 'medium',
@@ -22,9 +36,60 @@ function formatTimestamp(iso?: string) {
   return dateFormatter.format(date);
 }
 
+const searchFieldLabels: Record<TestSearchMatch['field'], string> = {
+  name: 'Name',
+  description: 'Description',
+  prompt: 'Prompt',
+  successCriteria: 'Success criteria',
+  step: 'Step',
+  code: 'Code'
+};
+
+function HighlightedSnippet({ match }: { match: TestSearchMatch }) {
+  const parts: Array<{ text: string; highlighted: boolean }> = [];
+  let cursor = 0;
+  match.highlights.forEach(([start, end]) => {
+    if (start > cursor) {
+      parts.push({ text: match.snippet.slice(cursor, start), highlighted: false });
+    }
+    parts.push({ text: match.snippet.slice(start, end), highlighted: true });
+    cursor = end;
+  });
+  if (cursor < match.snippet.length) {
+    parts.push({ text: match.snippet.slice(cursor), highlighted: false });
+  }
+
+  const label =
+    match.field === 'step'
+      ? `Step ${match.stepNumber}`
+      : match.field === 'code' && match.line
+        ? `Code line ${match.line}`
+        : searchFieldLabels[match.field];
+
+  return (
+    <div className="flex gap-2 text-xs text-gray-600">
+      <span className="shrink-0 font-medium text-gray-500">{label}</span>
+      <span className={`min-w-0 truncate ${match.field === 'code' ? 'font-mono' : ''}`}>
+        {parts.map((part, index) =>
+          part.highlighted ? (
+            <mark key={index} className="rounded bg-yellow-100 px-0.5 text-gray-900">
+              {part.text}
+            </mark>
+          ) : (
+            <span key={index}>{part.text}</span>
+          )
+        )}
+      </span>
+    </div>
+  );
+}
+
 export default function Home() {
   const navigate = useNavigate();
   const [tests, setTests] = useState<ApiTestMetadata[]>([]);
+  const [folders, setFolders] = useState<TestFolder[]>([]);
+  const [corruptTests, setCorruptTests] = useState<TestHealthIssue[]>([]);
+  const [gitStatusById, setGitStatusById] = useState<Record<string, GitFileStatus>>({});
   const [loading, setLoading] = useState(true);
   const [healthStatus, setHealthStatus] = useState<'ok' | 'error' | null>(null);
 
@@ -38,12 +103,18 @@ export default function Home() {
   const [importing, setImporting] = useState(false);
   const [importMessage, setImportMessage] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const specInputRef = useRef<HTMLInputElement>(null);
+  const specFolderInputRef = useRef<HTMLInputElement>(null);
+  const sideInputRef = useRef<HTMLInputElement>(null);
+  const [splitSpecTests, setSplitSpecTests] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [searchHits, setSearchHits] = useState<TestSearchHit[] | null>(null);
   const [activeTag, setActiveTag] = useState<string | null>(null);
-  const [selectedCategory, setSelectedCategory] = useState<'all' | 'uncategorized' | string>('all');
+  const [selectedCategory, setSelectedCategory] = useState<FolderSelection>('all');
   const [sortBy, setSortBy] = useState<'recent' | 'name' | 'created' | 'status'>('recent');
   const [selectedTests, setSelectedTests] = useState<string[]>([]);
   const [bulkAction, setBulkAction] = useState('');
+  const [showTestCaseExport, setShowTestCaseExport] = useState(false);
   const [bulkTagInput, setBulkTagInput] = useState('');
   const [bulkCategoryInput, setBulkCategoryInput] = useState('');
   const [bulkFeedback, setBulkFeedback] = useState<string | null>(null);
@@ -53,24 +124,99 @@ export default function Home() {
   const [showRunBuilder, setShowRunBuilder] = useState(false);
   const [activeMultiRunId, setActiveMultiRunId] = useState<string | null>(null);
 
+  const [libraryView, setLibraryView] = useState<'tests' | 'trash' | 'blocks' | 'flaky'>('tests');
+
   const runStatusPills: Record<string, string> = {
     passed: 'bg-emerald-50 text-emerald-700',
     failed: 'bg-red-50 text-red-600',
+    flaky: 'bg-amber-50 text-amber-700',
     stopped: 'bg-orange-50 text-orange-700',
     skipped: 'bg-gray-100 text-gray-600',
     completed: 'bg-emerald-50 text-emerald-700'
   };
 
+  const gitStatusPills: Partial<Record<GitFileStatus, string>> = {
+    modified: 'bg-amber-50 text-amber-700',
+    untracked: 'bg-sky-50 text-sky-700',
+    added: 'bg-emerald-50 text-emerald-700',
+    conflicted: 'bg-red-50 text-red-600'
+  };
+
   useEffect(() => {
     loadTests();
     checkHealth();
     loadConfig();
   }, []);
 
-  async function loadTests() {
+  // Specs edited on disk (editor, git pull) refresh the library without a reload
+  useEffect(() => {
+    const source = api.connectToTestEvents(() => {
+      void loadTests({ silent: true });
+    });
+    return () => source.close();
+  }, []);
+
+  // Server-side search covers step summaries and code; debounce so typing stays responsive
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearchHits(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      api
+        .searchTests(query)
+        .then(({ hits }) => {
+          if (!cancelled) setSearchHits(hits);
+        })
+        .catch((err) => {
+          console.error('Search failed:', err);
+          if (!cancelled) setSearchHits(null);
+        });
+    }, 200);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery]);
+
+  const searchHitsById = useMemo(() => {
+    const map = new Map<string, { rank: number; hit: TestSearchHit }>();
+    searchHits?.forEach((hit, rank) => map.set(hit.test.id, { rank, hit }));
+    return map;
+  }, [searchHits]);
+
+  // Matches worth showing under a test card (the name is already visible)
+  const searchSnippetsById = useMemo(() => {
+    const map = new Map<string, TestSearchMatch[]>();
+    searchHits?.forEach((hit) => {
+      const matches = hit.matches.filter((match) => match.field !== 'name').slice(0, 3);
+      if (matches.length > 0) {
+        map.set(hit.test.id, matches);
+      }
+    });
+    return map;
+  }, [searchHits]);
+
+  async function loadTests({ silent = false }: { silent?: boolean } = {}) {
     try {
-      setLoading(true);
-      const { tests: data } = await api.listTests();
+      if (!silent) setLoading(true);
+      const [{ tests: data }, { folders: folderList }] = await Promise.all([
+        api.listTests(),
+        api.listFolders()
+      ]);
+      setFolders(folderList);
+      api
+        .getTestsHealth()
+        .then((report) => setCorruptTests(report.corrupt))
+        .catch((err) => console.error('Failed to check test health:', err));
+      api
+        .getGitStatus()
+        .then((status) => setGitStatusById(status.tests))
+        .catch((err) => console.error('Failed to read git status:', err));
       const sorted = [...data].sort(
         (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
       );
@@ -107,23 +253,38 @@ export default function Home() {
     }
   }
 
+  function downloadBlob(blob: Blob, fileName: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  }
+
   async function handleExportTest(testId: string) {
     try {
       const blob = await api.exportTest(testId);
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `${testId}-trailwright-export.zip`;
-      document.body.appendChild(link);
-      link.click();
-      link.remove();
-      URL.revokeObjectURL(url);
+      downloadBlob(blob, `${testId}-trailwright-export.zip`);
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to export test';
       alert(message);
     }
   }
 
+  async function handleDuplicateTest(testId: string) {
+    try {
+      const { test: copy } = await api.duplicateTest(testId);
+      await loadTests();
+      setImportMessage(`Duplicated as "${copy.name}"`);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to duplicate test';
+      alert(message);
+    }
+  }
+
   function handleImportClick() {
     setImportMessage(null);
     fileInputRef.current?.click();
@@ -151,6 +312,74 @@ export default function Home() {
     }
   }
 
+  function handleImportSpecsClick(fromFolder: boolean) {
+    setImportMessage(null);
+    (fromFolder ? specFolderInputRef : specInputRef).current?.click();
+  }
+
+  async function handleImportSpecsChange(event: ChangeEvent<HTMLInputElement>) {
+    // Folder picks include every file; only Playwright sources are sent
+    const files = Array.from(event.target.files ?? []).filter(
+      (file) => /\.[cm]?[jt]s$/.test(file.name) && !/\.d\.ts$/.test(file.name)
+    );
+    event.target.value = '';
+    if (files.length === 0) {
+      return;
+    }
+
+    setImporting(true);
+    setImportMessage(null);
+
+    try {
+      const payload = await Promise.all(
+        files.map(async (file) => ({ path: file.webkitRelativePath || file.name, content: await file.text() }))
+      );
+      const { imported, skipped } = await api.importSpecFiles({ files: payload, split: splitSpecTests });
+      const skippedNote = skipped.length ? ` (skipped ${skipped.length} file${skipped.length === 1 ? '' : 's'} without tests)` : '';
+      setImportMessage(`Imported ${imported.length} test${imported.length === 1 ? '' : 's'}${skippedNote}`);
+      await loadTests();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to import spec files';
+      setImportMessage(message);
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  function handleImportSideClick() {
+    setImportMessage(null);
+    sideInputRef.current?.click();
+  }
+
+  async function handleImportSideChange(event: ChangeEvent<HTMLInputElement>) {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) {
+      return;
+    }
+
+    setImporting(true);
+    setImportMessage(null);
+
+    try {
+      const payload = await Promise.all(files.map(async (file) => ({ path: file.name, content: await file.text() })));
+      const { imported, skipped } = await api.importSideFiles({ files: payload });
+      const flagged = imported.reduce(
+        (count, test) => count + (test.steps ?? []).filter((step) => step.needsReview).length,
+        0
+      );
+      const flaggedNote = flagged ? `; ${flagged} step${flagged === 1 ? '' : 's'} need review` : '';
+      const skippedNote = skipped.length ? ` (skipped ${skipped.length} file${skipped.length === 1 ? '' : 's'})` : '';
+      setImportMessage(`Imported ${imported.length} Selenium IDE test${imported.length === 1 ? '' : 's'}${flaggedNote}${skippedNote}`);
+      await loadTests();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to import Selenium IDE projects';
+      setImportMessage(message);
+    } finally {
+      setImporting(false);
+    }
+  }
+
   function openDeleteModal(test: ApiTestMetadata) {
     setTestToDelete(test);
     setShowDeleteModal(true);
@@ -172,7 +401,7 @@ export default function Home() {
       closeDeleteModal();
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to delete test';
-      alert(`Unable to delete test: ${message}`);
+      alert(`Unable to move test to trash: ${message}`);
       setIsDeleting(false);
     }
   }
@@ -185,20 +414,73 @@ export default function Home() {
     return Array.from(tags).sort((a, b) => a.localeCompare(b));
   }, [tests]);
 
-  const categoryOptions = useMemo(() => {
-    const folders = new Set<string>();
-    tests.forEach((test) => {
-      if (test.folder) {
-        folders.add(test.folder);
+  // Folders are nested by path, so a folder also contains every test in its subfolders
+  function isInFolder(folder: string | null | undefined, folderPath: string) {
+    return Boolean(folder) && (folder === folderPath || folder?.startsWith(`${folderPath}/`));
+  }
+
+  async function handleCreateFolder(parent: string | null) {
+    const name = window.prompt(parent ? `New folder inside "${parent}"` : 'New folder (use / for nesting, e.g. Checkout/Payments)');
+    if (!name?.trim()) {
+      return;
+    }
+    try {
+      const { path } = await api.createFolder(parent ? `${parent}/${name}` : name);
+      await loadTests();
+      setSelectedCategory(path);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to create folder');
+    }
+  }
+
+  async function handleRenameFolder(folder: TestFolder) {
+    const target = window.prompt('Rename or move folder (full path)', folder.path);
+    if (!target?.trim() || target.trim() === folder.path) {
+      return;
+    }
+    try {
+      await api.renameFolder(folder.path, target);
+      if (selectedCategory === folder.path) {
+        setSelectedCategory(target.trim());
       }
-    });
-    return Array.from(folders).sort((a, b) => a.localeCompare(b));
-  }, [tests]);
+      await loadTests();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to rename folder');
+    }
+  }
+
+  async function handleDeleteFolder(folder: TestFolder) {
+    if (!window.confirm(`Delete folder "${folder.path}"?`)) {
+      return;
+    }
+    try {
+      await api.deleteFolder(folder.path);
+      if (isInFolder(selectedCategory, folder.path)) {
+        setSelectedCategory('all');
+      }
+      await loadTests();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete folder');
+    }
+  }
+
+  function handleRunFolder(folder: TestFolder) {
+    const ids = tests.filter((test) => isInFolder(test.folder, folder.path)).map((test) => test.id);
+    if (ids.length === 0) {
+      return;
+    }
+    setSelectedTests(ids);
+    setShowRunBuilder(true);
+  }
 
   const filteredTests = useMemo(() => {
     const query = searchQuery.trim().toLowerCase();
     return tests.filter((test) => {
-      if (query) {
+      if (query && searchHits) {
+        if (!searchHitsById.has(test.id)) {
+          return false;
+        }
+      } else if (query) {
         const haystack = [
           test.name,
           test.description,
@@ -221,31 +503,36 @@ export default function Home() {
         if (test.folder) {
           return false;
         }
-      } else if (selectedCategory !== 'all' && test.folder !== selectedCategory) {
+      } else if (selectedCategory !== 'all' && !isInFolder(test.folder, selectedCategory)) {
         return false;
       }
       return true;
     });
-  }, [tests, searchQuery, activeTag, selectedCategory]);
+  }, [tests, searchQuery, searchHits, searchHitsById, activeTag, selectedCategory]);
 
   const sortedTests = useMemo(() => {
     const statusRank: Record<string, number> = {
       failed: 0,
-      stopped: 1,
-      passed: 2,
-      skipped: 3,
-      completed: 4
+      flaky: 1,
+      stopped: 2,
+      passed: 3,
+      skipped: 4,
+      completed: 5
     };
     const data = [...filteredTests];
     data.sort((a, b) => {
+      // Search results keep the server's relevance order
+      if (searchQuery.trim() && searchHits) {
+        return (searchHitsById.get(a.id)?.rank ?? 0) - (searchHitsById.get(b.id)?.rank ?? 0);
+      }
       switch (sortBy) {
         case 'name':
           return a.name.localeCompare(b.name);
         case 'created':
           return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
         case 'status': {
-          const rankA = statusRank[a.lastRunStatus ?? ''] ?? 5;
-          const rankB = statusRank[b.lastRunStatus ?? ''] ?? 5;
+          const rankA = statusRank[a.lastRunStatus ?? ''] ?? 6;
+          const rankB = statusRank[b.lastRunStatus ?? ''] ?? 6;
           if (rankA === rankB) {
             return new Date(b.updatedAt || b.createdAt).getTime() - new Date(a.updatedAt || a.createdAt).getTime();
           }
@@ -260,7 +547,7 @@ export default function Home() {
       }
     });
     return data;
-  }, [filteredTests, sortBy]);
+  }, [filteredTests, sortBy, searchQuery, searchHits, searchHitsById]);
 
   function toggleSelect(testId: string) {
     setSelectedTests((prev) =>
@@ -305,7 +592,7 @@ export default function Home() {
         }
         case 'delete': {
           const confirmed = window.confirm(
-            `Delete ${selectedTests.length} test(s)? This cannot be undone.`
+            `Move ${selectedTests.length} test(s) to the trash? They can be restored from the Trash view.`
           );
           if (!confirmed) {
             setPerformingBulk(false);
@@ -314,7 +601,7 @@ export default function Home() {
           for (const id of selectedTests) {
             await api.deleteTest(id);
           }
-          setBulkFeedback(`Deleted ${selectedTests.length} test(s).`);
+          setBulkFeedback(`Moved ${selectedTests.length} test(s) to the trash.`);
           break;
         }
         case 'tag': {
@@ -336,15 +623,24 @@ export default function Home() {
           setBulkFeedback(`Added tags to ${selectedTests.length} test(s).`);
           break;
         }
+        case 'export-project': {
+          const blob = await api.exportPlaywrightProject(selectedTests);
+          downloadBlob(blob, 'trailwright-playwright-project.zip');
+          setBulkFeedback(`Exported ${selectedTests.length} test(s) as a Playwright project.`);
+          break;
+        }
+        case 'export-csv': {
+          setShowTestCaseExport(true);
+          setPerformingBulk(false);
+          return;
+        }
         case 'category': {
           const targetCategory = bulkCategoryInput.trim();
-          for (const id of selectedTests) {
-            await api.updateTestMetadata(id, { folder: targetCategory || null });
-          }
+          await api.moveTestsToFolder(selectedTests, targetCategory || null);
           setBulkFeedback(
             targetCategory
               ? `Moved ${selectedTests.length} test(s) to "${targetCategory}".`
-              : `Cleared category on ${selectedTests.length} test(s).`
+              : `Cleared folder on ${selectedTests.length} test(s).`
           );
           break;
         }
@@ -369,12 +665,15 @@ export default function Home() {
             <img src="/favicon.png" alt="TrailWright Logo" className="h-10 w-10 object-contain" />
             <h1 className="text-4xl font-bold text-gray-900">TrailWright QA</h1>
           </div>
-          <button
-            onClick={() => navigate('/settings')}
-            className="px-4 py-2 text-gray-600 hover:text-gray-900"
-          >
-            Settings
-          </button>
+          <div className="flex items-center gap-4">
+            <ProjectSwitcher />
+            <button
+              onClick={() => navigate('/settings')}
+              className="px-4 py-2 text-gray-600 hover:text-gray-900"
+            >
+              Settings
+            </button>
+          </div>
         </header>
 
         <section className="grid gap-6 md:grid-cols-1 mb-8">
@@ -415,6 +714,60 @@ export default function Home() {
                 onChange={handleImportFileChange}
                 className="hidden"
               />
+              <button
+                onClick={() => handleImportSpecsClick(false)}
+                disabled={importing}
+                className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                Import Playwright Specs
+              </button>
+              <button
+                onClick={() => handleImportSpecsClick(true)}
+                disabled={importing}
+                className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                Import Spec Folder
+              </button>
+              <button
+                onClick={handleImportSideClick}
+                disabled={importing}
+                className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                Import Selenium IDE
+              </button>
+              <input
+                ref={sideInputRef}
+                type="file"
+                accept=".side,application/json"
+                multiple
+                onChange={handleImportSideChange}
+                className="hidden"
+              />
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={splitSpecTests}
+                  onChange={(event) => setSplitSpecTests(event.target.checked)}
+                />
+                Split multi-test files
+              </label>
+              <input
+                ref={specInputRef}
+                type="file"
+                accept=".ts,.js,.mts,.mjs"
+                multiple
+                onChange={handleImportSpecsChange}
+                className="hidden"
+              />
+              <input
+                ref={specFolderInputRef}
+                type="file"
+                // @ts-expect-error webkitdirectory is not in React's input attribute types
+                webkitdirectory=""
+                multiple
+                onChange={handleImportSpecsChange}
+                className="hidden"
+              />
             </div>
             {healthStatus === 'error' && (
               <p className="text-sm text-red-600">
@@ -428,238 +781,329 @@ export default function Home() {
 
         </section>
 
+        {corruptTests.length > 0 && (
+          <section className="mb-6 rounded-lg border border-amber-200 bg-amber-50 p-4 text-sm text-amber-900">
+            <p className="font-medium">
+              {corruptTests.length} test file{corruptTests.length === 1 ? '' : 's'} could not be loaded because of
+              invalid metadata:
+            </p>
+            <ul className="mt-2 space-y-1">
+              {corruptTests.map((issue) => (
+                <li key={issue.testId}>
+                  <span className="font-mono">{issue.file}</span> — {issue.errors.join('; ')}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
         <section className="bg-white rounded-lg shadow p-6">
           <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between mb-4">
             <div>
-              <h2 className="text-xl font-semibold text-gray-900">Test Library</h2>
-              <p className="text-sm text-gray-500">
-                Showing {sortedTests.length} of {tests.length} total
-              </p>
+              <h2 className="text-xl font-semibold text-gray-900">
+                {libraryView === 'trash'
+                  ? 'Trash'
+                  : libraryView === 'blocks'
+                    ? 'Step Blocks'
+                    : libraryView === 'flaky'
+                      ? 'Flaky Tests'
+                      : 'Test Library'}
+              </h2>
+              {libraryView === 'tests' && (
+                <p className="text-sm text-gray-500">
+                  Showing {sortedTests.length} of {tests.length} total
+                </p>
+              )}
             </div>
             <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
-              <div className="relative">
-                <input
-                  type="search"
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  placeholder="Search by name, URL, or tag"
-                  className="w-full rounded-lg border border-gray-300 px-4 py-2 pr-10 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                />
-                <span className="absolute right-3 top-2.5 text-gray-400">⌕</span>
-              </div>
-              <select
-                value={sortBy}
-                onChange={(e) => setSortBy(e.target.value as typeof sortBy)}
-                className="rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
-              >
-                <option value="recent">Sort: Last updated</option>
-                <option value="name">Sort: Name (A–Z)</option>
-                <option value="created">Sort: Oldest first</option>
-                <option value="status">Sort: Status (failed first)</option>
-              </select>
-            </div>
-          </div>
-
-          <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
-            <div className="flex items-center gap-2">
-              <span className="text-xs uppercase text-gray-500">Category</span>
-              <select
-                value={selectedCategory}
-                onChange={(e) => setSelectedCategory(e.target.value as typeof selectedCategory)}
-                className="rounded-md border border-gray-300 px-2 py-1 text-sm"
-              >
-                <option value="all">All categories</option>
-                <option value="uncategorized">Uncategorized</option>
-                {categoryOptions.map((folderName) => (
-                  <option key={folderName} value={folderName}>
-                    {folderName}
-                  </option>
-                ))}
-              </select>
-            </div>
-            <div className="flex flex-wrap gap-2">
-              {tagOptions.length === 0 ? (
-                <span className="text-xs text-gray-400">No tags yet.</span>
-              ) : (
-                tagOptions.map((tag) => (
+              {libraryView === 'tests' ? (
+                <>
                   <button
-                    key={tag}
-                    onClick={() => setActiveTag(activeTag === tag ? null : tag)}
-                    className={`rounded-full border px-3 py-1 text-xs ${activeTag === tag
-                        ? 'border-blue-500 bg-blue-50 text-blue-600'
-                        : 'border-gray-200 text-gray-600 hover:border-blue-300'
-                      }`}
+                    onClick={() => setLibraryView('flaky')}
+                    className="rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-700 hover:bg-gray-50"
                   >
-                    #{tag}
+                    Flaky tests
                   </button>
-                ))
-              )}
-            </div>
-            <button
-              onClick={selectAllFiltered}
-              className="rounded-md border border-gray-200 px-2 py-1 text-xs text-gray-600 hover:border-blue-300 hover:text-blue-700"
-              type="button"
-            >
-              Select filtered
-            </button>
-            {(searchQuery || activeTag || selectedCategory !== 'all') && (
-              <button
-                onClick={() => {
-                  setSearchQuery('');
-                  setActiveTag(null);
-                  setSelectedCategory('all');
-                }}
-                className="text-xs text-blue-600 hover:underline"
-              >
-                Clear filters
-              </button>
-            )}
-          </div>
-
-          {selectedTests.length > 0 && (
-            <div className="mt-4 rounded-lg border border-blue-200 bg-blue-50 p-4">
-              <div className="flex flex-col gap-3 lg:flex-row lg:items-center lg:justify-between">
-                <div className="text-sm text-blue-900">
-                  {selectedTests.length} test{selectedTests.length === 1 ? '' : 's'} selected
-                </div>
-                <div className="flex flex-wrap gap-3">
-                  <select
-                    value={bulkAction}
-                    onChange={(e) => setBulkAction(e.target.value)}
-                    className="rounded-md border border-blue-300 px-3 py-2 text-sm"
-                  >
-                    <option value="">Bulk action…</option>
-                    <option value="run">Run selected</option>
-                    <option value="tag">Add tags</option>
-                    <option value="category">Move to category</option>
-                    <option value="delete">Delete</option>
-                  </select>
-                  {bulkAction === 'tag' && (
-                    <input
-                      type="text"
-                      value={bulkTagInput}
-                      onChange={(e) => setBulkTagInput(e.target.value)}
-                      placeholder="comma-separated tags"
-                      className="rounded-md border border-blue-300 px-3 py-2 text-sm"
-                    />
-                  )}
-                  {bulkAction === 'category' && (
-                    <input
-                      type="text"
-                      value={bulkCategoryInput}
-                      onChange={(e) => setBulkCategoryInput(e.target.value)}
-                      placeholder="Category name"
-                      className="rounded-md border border-blue-300 px-3 py-2 text-sm"
-                    />
-                  )}
                   <button
-                    onClick={() => void handleBulkApply()}
-                    disabled={!bulkAction || performingBulk}
-                    className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                    onClick={() => setLibraryView('blocks')}
+                    className="rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-700 hover:bg-gray-50"
                   >
-                    {performingBulk ? 'Applying…' : 'Apply'}
+                    Step blocks
                   </button>
                   <button
-                    onClick={clearSelection}
-                    className="rounded-md border border-blue-200 px-3 py-2 text-sm text-blue-700 hover:bg-blue-100"
-                    type="button"
+                    onClick={() => setLibraryView('trash')}
+                    className="rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-700 hover:bg-gray-50"
                   >
-                    Clear
+                    Trash
                   </button>
-                </div>
-              </div>
-              {bulkFeedback && <p className="mt-2 text-xs text-blue-900">{bulkFeedback}</p>}
-            </div>
-          )}
-
-          {loading ? (
-            <p className="mt-4 text-gray-500" data-testid="tests-loading">
-              Loading test library…
-            </p>
-          ) : tests.length === 0 ? (
-            <p className="mt-4 text-gray-500" data-testid="tests-empty">
-              No test sets yet. Generate one with AI to get started.
-            </p>
-          ) : sortedTests.length === 0 ? (
-            <p className="mt-4 text-gray-500">No tests match the current filters.</p>
-          ) : (
-            <div className="mt-4 space-y-3">
-              {sortedTests.map((test) => (
-                <div
-                  key={test.id}
-                  className="flex flex-col gap-3 rounded-lg border border-gray-200 p-4 hover:bg-gray-50 sm:flex-row sm:items-start sm:justify-between"
+                </>
+              ) : (
+                <button
+                  onClick={() => setLibraryView('tests')}
+                  className="rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-700 hover:bg-gray-50"
                 >
-                  <div className="flex flex-1 gap-3">
+                  Back to library
+                </button>
+              )}
+              {libraryView === 'tests' && (
+                <>
+                  <div className="relative">
                     <input
-                      type="checkbox"
-                      checked={selectedTests.includes(test.id)}
-                      onChange={() => toggleSelect(test.id)}
-                      className="mt-1 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      type="search"
+                      value={searchQuery}
+                      onChange={(e) => setSearchQuery(e.target.value)}
+                      placeholder="Search names, steps, prompts, code"
+                      className="w-full rounded-lg border border-gray-300 px-4 py-2 pr-10 focus:outline-none focus:ring-2 focus:ring-blue-500"
                     />
-                    <div className="min-w-0 flex-1">
-                      <div className="flex flex-wrap items-center gap-2">
-                        <h3 className="text-lg font-semibold text-gray-900">{test.name}</h3>
-                        {test.folder ? (
-                          <span className="rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-600">
-                            {test.folder}
-                          </span>
-                        ) : (
-                          <span className="rounded-full bg-gray-50 px-2 py-0.5 text-xs text-gray-400">
-                            Uncategorized
-                          </span>
-                        )}
-                      </div>
-                      <p className="mt-1 text-sm text-gray-600 line-clamp-2">
-                        {test.description || test.prompt || 'No description provided.'}
-                      </p>
-                      <div className="mt-2 flex flex-wrap items-center gap-3 text-xs text-gray-500">
-                        <span>Created {formatTimestamp(test.createdAt)}</span>
-                        {test.lastRunStatus && (
-                          <span
-                            className={`rounded-full px-2 py-0.5 text-xs font-medium ${runStatusPills[test.lastRunStatus] ?? 'bg-gray-100 text-gray-600'}`}
+                    <span className="absolute right-3 top-2.5 text-gray-400">⌕</span>
+                  </div>
+                  <select
+                    value={sortBy}
+                    onChange={(e) => setSortBy(e.target.value as typeof sortBy)}
+                    className="rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="recent">Sort: Last updated</option>
+                    <option value="name">Sort: Name (A–Z)</option>
+                    <option value="created">Sort: Oldest first</option>
+                    <option value="status">Sort: Status (failed first)</option>
+                  </select>
+                </>
+              )}
+            </div>
+          </div>
+
+          {libraryView === 'trash' ? (
+            <TrashPanel onRestored={() => void loadTests()} />
+          ) : libraryView === 'blocks' ? (
+            <StepBlocksPanel />
+          ) : libraryView === 'flaky' ? (
+            <FlakyTestsPanel />
+          ) : (
+            <div className="mt-4 flex flex-col gap-6 lg:flex-row">
+              <aside className="lg:w-60 lg:shrink-0">
+                <FolderTree
+                  folders={folders}
+                  totalCount={tests.length}
+                  uncategorizedCount={tests.filter((test) => !test.folder).length}
+                  selected={selectedCategory}
+                  onSelect={setSelectedCategory}
+                  onCreate={(parent) => void handleCreateFolder(parent)}
+                  onRename={(folder) => void handleRenameFolder(folder)}
+                  onDelete={(folder) => void handleDeleteFolder(folder)}
+                  onRunAll={handleRunFolder}
+                />
+              </aside>
+              <div className="min-w-0 flex-1">
+                  <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+                    <div className="flex flex-wrap gap-2">
+                      {tagOptions.length === 0 ? (
+                        <span className="text-xs text-gray-400">No tags yet.</span>
+                      ) : (
+                        tagOptions.map((tag) => (
+                          <button
+                            key={tag}
+                            onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+                            className={`rounded-full border px-3 py-1 text-xs ${activeTag === tag
+                                ? 'border-blue-500 bg-blue-50 text-blue-600'
+                                : 'border-gray-200 text-gray-600 hover:border-blue-300'
+                              }`}
                           >
-                            {test.lastRunStatus}
-                            {test.lastRunAt ? ` · ${formatTimestamp(test.lastRunAt)}` : ''}
-                          </span>
-                        )}
-                      </div>
-                      {test.tags && test.tags.length > 0 && (
-                        <div className="mt-2 flex flex-wrap gap-2">
-                          {test.tags.map((tag) => (
-                            <button
-                              key={`${test.id}-${tag}`}
-                              onClick={() => setActiveTag(tag)}
-                              className="rounded-full border border-gray-200 px-2 py-0.5 text-xs text-gray-600 hover:border-blue-300 hover:text-blue-700"
-                            >
-                              #{tag}
-                            </button>
-                          ))}
-                        </div>
+                            #{tag}
+                          </button>
+                        ))
                       )}
                     </div>
-                  </div>
-                  <div className="flex flex-wrap gap-2">
                     <button
-                      onClick={() => navigate(`/tests/${test.id}`)}
-                      className="rounded-lg bg-green-600 px-4 py-2 text-sm font-medium text-white hover:bg-green-700"
+                      onClick={selectAllFiltered}
+                      className="rounded-md border border-gray-200 px-2 py-1 text-xs text-gray-600 hover:border-blue-300 hover:text-blue-700"
+                      type="button"
                     >
-                      Open Workspace
-                    </button>
-                    <button
-                      onClick={() => handleExportTest(test.id)}
-                      className="rounded-lg border border-gray-300 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
-                    >
-                      Export
-                    </button>
-                    <button
-                      onClick={() => openDeleteModal(test)}
-                      className="rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700"
-                    >
-                      Delete
+                      Select filtered
                     </button>
+                    {(searchQuery || activeTag || selectedCategory !== 'all') && (
+                      <button
+                        onClick={() => {
+                          setSearchQuery('');
+                          setActiveTag(null);
+                          setSelectedCategory('all');
+                        }}
+                        className="text-xs text-blue-600 hover:underline"
+                      >
+                        Clear filters
+                      </button>
+                    )}
                   </div>
-                </div>
-              ))}
+
+                  {selectedTests.length > 0 && (
+                    <div className="mt-4 rounded-lg border border-blue-200 bg-blue-50 p-4">
+                      <div className="flex flex-col gap-3 lg:flex-row lg:items-center lg:justify-between">
+                        <div className="text-sm text-blue-900">
+                          {selectedTests.length} test{selectedTests.length === 1 ? '' : 's'} selected
+                        </div>
+                        <div className="flex flex-wrap gap-3">
+                          <select
+                            value={bulkAction}
+                            onChange={(e) => setBulkAction(e.target.value)}
+                            className="rounded-md border border-blue-300 px-3 py-2 text-sm"
+                          >
+                            <option value="">Bulk action…</option>
+                            <option value="run">Run selected</option>
+                            <option value="tag">Add tags</option>
+                            <option value="category">Move to folder</option>
+                            <option value="export-project">Export as Playwright project</option>
+                            <option value="export-csv">Export to test-management CSV</option>
+                            <option value="delete">Delete</option>
+                          </select>
+                          {bulkAction === 'tag' && (
+                            <input
+                              type="text"
+                              value={bulkTagInput}
+                              onChange={(e) => setBulkTagInput(e.target.value)}
+                              placeholder="comma-separated tags"
+                              className="rounded-md border border-blue-300 px-3 py-2 text-sm"
+                            />
+                          )}
+                          {bulkAction === 'category' && (
+                            <input
+                              type="text"
+                              value={bulkCategoryInput}
+                              onChange={(e) => setBulkCategoryInput(e.target.value)}
+                              placeholder="Folder path, e.g. Checkout/Payments"
+                              className="rounded-md border border-blue-300 px-3 py-2 text-sm"
+                            />
+                          )}
+                          <button
+                            onClick={() => void handleBulkApply()}
+                            disabled={!bulkAction || performingBulk}
+                            className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                          >
+                            {performingBulk ? 'Applying…' : 'Apply'}
+                          </button>
+                          <button
+                            onClick={clearSelection}
+                            className="rounded-md border border-blue-200 px-3 py-2 text-sm text-blue-700 hover:bg-blue-100"
+                            type="button"
+                          >
+                            Clear
+                          </button>
+                        </div>
+                      </div>
+                      {bulkFeedback && <p className="mt-2 text-xs text-blue-900">{bulkFeedback}</p>}
+                    </div>
+                  )}
+
+                  {loading ? (
+                    <p className="mt-4 text-gray-500" data-testid="tests-loading">
+                      Loading test library…
+                    </p>
+                  ) : tests.length === 0 ? (
+                    <p className="mt-4 text-gray-500" data-testid="tests-empty">
+                      No test sets yet. Generate one with AI to get started.
+                    </p>
+                  ) : sortedTests.length === 0 ? (
+                    <p className="mt-4 text-gray-500">No tests match the current filters.</p>
+                  ) : (
+                    <div className="mt-4 space-y-3">
+                      {sortedTests.map((test) => (
+                        <div
+                          key={test.id}
+                          className="flex flex-col gap-3 rounded-lg border border-gray-200 p-4 hover:bg-gray-50 sm:flex-row sm:items-start sm:justify-between"
+                        >
+                          <div className="flex flex-1 gap-3">
+                            <input
+                              type="checkbox"
+                              checked={selectedTests.includes(test.id)}
+                              onChange={() => toggleSelect(test.id)}
+                              className="mt-1 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                            />
+                            <div className="min-w-0 flex-1">
+                              <div className="flex flex-wrap items-center gap-2">
+                                <h3 className="text-lg font-semibold text-gray-900">{test.name}</h3>
+                                {test.folder ? (
+                                  <span className="rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-600">
+                                    {test.folder}
+                                  </span>
+                                ) : (
+                                  <span className="rounded-full bg-gray-50 px-2 py-0.5 text-xs text-gray-400">
+                                    Uncategorized
+                                  </span>
+                                )}
+                              </div>
+                              <p className="mt-1 text-sm text-gray-600 line-clamp-2">
+                                {test.description || test.prompt || 'No description provided.'}
+                              </p>
+                              {searchSnippetsById.has(test.id) && (
+                                <div className="mt-2 space-y-1 rounded-md bg-gray-50 px-2 py-1">
+                                  {searchSnippetsById.get(test.id)?.map((match, index) => (
+                                    <HighlightedSnippet key={`${test.id}-match-${index}`} match={match} />
+                                  ))}
+                                </div>
+                              )}
+                              <div className="mt-2 flex flex-wrap items-center gap-3 text-xs text-gray-500">
+                                <span>Created {formatTimestamp(test.createdAt)}</span>
+                                {test.lastRunStatus && (
+                                  <span
+                                    className={`rounded-full px-2 py-0.5 text-xs font-medium ${runStatusPills[test.lastRunStatus] ?? 'bg-gray-100 text-gray-600'}`}
+                                  >
+                                    {test.lastRunStatus}
+                                    {test.lastRunAt ? ` · ${formatTimestamp(test.lastRunAt)}` : ''}
+                                  </span>
+                                )}
+                                {gitStatusById[test.id] && (
+                                  <span
+                                    className={`rounded-full px-2 py-0.5 text-xs font-medium ${gitStatusPills[gitStatusById[test.id]] ?? 'bg-gray-100 text-gray-600'}`}
+                                    title="Git status of the spec file"
+                                  >
+                                    git: {gitStatusById[test.id]}
+                                  </span>
+                                )}
+                              </div>
+                              {test.tags && test.tags.length > 0 && (
+                                <div className="mt-2 flex flex-wrap gap-2">
+                                  {test.tags.map((tag) => (
+                                    <button
+                                      key={`${test.id}-${tag}`}
+                                      onClick={() => setActiveTag(tag)}
+                                      className="rounded-full border border-gray-200 px-2 py-0.5 text-xs text-gray-600 hover:border-blue-300 hover:text-blue-700"
+                                    >
+                                      #{tag}
+                                    </button>
+                                  ))}
+                                </div>
+                              )}
+                            </div>
+                          </div>
+                          <div className="flex flex-wrap gap-2">
+                            <button
+                              onClick={() => navigate(`/tests/${test.id}`)}
+                              className="rounded-lg bg-green-600 px-4 py-2 text-sm font-medium text-white hover:bg-green-700"
+                            >
+                              Open Workspace
+                            </button>
+                            <button
+                              onClick={() => handleExportTest(test.id)}
+                              className="rounded-lg border border-gray-300 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                            >
+                              Export
+                            </button>
+                            <button
+                              onClick={() => void handleDuplicateTest(test.id)}
+                              className="rounded-lg border border-gray-300 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                            >
+                              Duplicate
+                            </button>
+                            <button
+                              onClick={() => openDeleteModal(test)}
+                              className="rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700"
+                            >
+                              Delete
+                            </button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+              </div>
             </div>
           )}
         </section>
@@ -671,7 +1115,8 @@ export default function Home() {
             <div className="mb-4">
               <h2 className="text-xl font-semibold text-gray-900">Delete Test Set</h2>
               <p className="text-sm text-gray-600 mt-2">
-                Are you sure you want to delete "{testToDelete.name}"? This action cannot be undone.
+                Move "{testToDelete.name}" to the trash? Its data, screenshots and runs go with it
+                and can be restored from the Trash view.
               </p>
             </div>
 
@@ -688,13 +1133,19 @@ export default function Home() {
                 disabled={isDeleting}
                 className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
               >
-                {isDeleting ? 'Deleting…' : 'Delete'}
+                {isDeleting ? 'Moving…' : 'Move to trash'}
               </button>
             </div>
           </div>
         </div>
       )}
 
+      <TestCaseExportModal
+        isOpen={showTestCaseExport}
+        onClose={() => setShowTestCaseExport(false)}
+        testIds={selectedTests}
+      />
+
       {/* Run Builder Drawer */}
       <RunBuilderDrawer
         isOpen={showRunBuilder}
@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { RecordModeSetup } from '../components/RecordModeSetup';
 import { GenerationViewer } from '../components/GenerationViewer';
+import { apiUrl } from '../api/client';
 
 export function RecordModePage() {
   const [sessionId, setSessionId] = useState<string | null>(null);
@@ -11,7 +12,7 @@ export function RecordModePage() {
     description?: string;
   }) => {
     try {
-      const response = await fetch('/api/generate/record/start', {
+      const response = await fetch(apiUrl('/generate/record/start'), {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(config),
@@ -1,13 +1,14 @@
 import { useEffect, useMemo, useState, useCallback, useRef } from 'react';
 import type { FormEvent } from 'react';
 import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
-import { api } from '../api/client';
+import { api, runArtifactUrl } from '../api/client';
 import type {
   LiveRunState,
   RunLogEntry,
   StepSummary,
   ChatMessage,
-  RunStatus
+  RunStatus,
+  RowResult
 } from '../../../shared/types';
 import type { ApiTestMetadata } from '../api/client';
 import type { RunStreamEvent, RunControlAction } from '../api/client';
@@ -33,7 +34,8 @@ const statusStyles: Record<RunStatus, string> = {
 const stepStatusStyles = {
   pending: 'border-blue-200 bg-blue-50',
   passed: 'border-emerald-200 bg-emerald-50',
-  failed: 'border-red-200 bg-red-50'
+  failed: 'border-red-200 bg-red-50',
+  skipped: 'border-gray-200 bg-gray-50'
 } as const;
 
 function formatTimestamp(iso?: string) {
@@ -71,6 +73,7 @@ export default function RunSession() {
   const [chatInput, setChatInput] = useState('');
   const [sendingChat, setSendingChat] = useState(false);
   const [logsExpanded, setLogsExpanded] = useState(true);
+  const [rerunningRow, setRerunningRow] = useState<number | null>(null);
 
   const logsRef = useRef<HTMLDivElement>(null);
   const chatRef = useRef<HTMLDivElement>(null);
@@ -325,6 +328,63 @@ export default function RunSession() {
     }
   }
 
+  async function handleOpenRowTrace(row: RowResult) {
+    if (!runId) return;
+    try {
+      await api.openTrace(runId, row.rowIndex);
+    } catch (err) {
+      const message =
+        err instanceof Error && err.message
+          ? err.message
+          : 'Unable to open Playwright trace for this row.';
+      setError(message);
+    }
+  }
+
+  async function handleRerunFailedRows() {
+    if (!run?.result?.rowResults) return;
+    const failedRows = run.result.rowResults.filter((row) => row.status === 'failed');
+    if (!failedRows.length) return;
+    try {
+      setRerunningRow(-1);
+      setError(null);
+      const { runId: newRunId } = await api.runTest(run.testId, {
+        headed: run.options?.headed,
+        speed: run.options?.speed,
+        browsers: run.options?.browsers,
+        rowIndexes: Array.from(new Set(failedRows.map((row) => row.rowIndex)))
+      });
+      navigate(`/runs/${newRunId}`);
+    } catch (err) {
+      const message =
+        err instanceof Error && err.message ? err.message : 'Failed to rerun the failed rows.';
+      setError(message);
+    } finally {
+      setRerunningRow(null);
+    }
+  }
+
+  async function handleRerunRow(row: RowResult) {
+    if (!run || !row.testTitle) return;
+    try {
+      setRerunningRow(row.rowIndex);
+      setError(null);
+      const { runId: newRunId } = await api.runTest(run.testId, {
+        headed: run.options?.headed,
+        speed: run.options?.speed,
+        browser: row.browser,
+        testTitle: row.testTitle
+      });
+      navigate(`/runs/${newRunId}`);
+    } catch (err) {
+      const message =
+        err instanceof Error && err.message ? err.message : 'Failed to rerun this row.';
+      setError(message);
+    } finally {
+      setRerunningRow(null);
+    }
+  }
+
   if (!runId) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
@@ -437,6 +497,161 @@ export default function RunSession() {
                       <span className="font-semibold text-gray-800">Speed:</span>{' '}
                       {run.options.speed.toFixed(1)}x
                     </span>
+                    {run.options.startFromStep && run.options.startFromStep > 1 && (
+                      <span>
+                        <span className="font-semibold text-gray-800">Started from:</span>{' '}
+                        Step {run.options.startFromStep}
+                      </span>
+                    )}
+                    {(run.options.rowIndexes?.length || run.options.rowFilter) && (
+                      <span>
+                        <span className="font-semibold text-gray-800">Rows:</span>{' '}
+                        {[
+                          run.options.rowIndexes?.map((index) => index + 1).join(', '),
+                          run.options.rowFilter
+                        ]
+                          .filter(Boolean)
+                          .join(' / ')}
+                      </span>
+                    )}
+                    {run.options.browsers && run.options.browsers.length > 0 && (
+                      <span>
+                        <span className="font-semibold text-gray-800">Engines:</span>{' '}
+                        {run.options.browsers.join(', ')}
+                      </span>
+                    )}
+                  </div>
+                )}
+
+                {run.options?.testTitle && (
+                  <p className="text-sm text-gray-600">
+                    <span className="font-semibold text-gray-800">Only running:</span> {run.options.testTitle}
+                  </p>
+                )}
+
+                {run.result?.rowResults && run.result.rowResults.length > 0 && (
+                  <div className="border border-gray-100 rounded-lg overflow-x-auto">
+                    <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+                      <div>
+                        <h3 className="text-sm font-semibold text-gray-900">Data Rows</h3>
+                        <p className="text-xs text-gray-500">
+                          {run.result.rowResults.filter((row) => row.status === 'passed').length} of{' '}
+                          {run.result.rowResults.length} rows passed
+                        </p>
+                      </div>
+                      {run.result.rowResults.some((row) => row.status === 'failed') && (
+                        <button
+                          onClick={handleRerunFailedRows}
+                          disabled={rerunningRow !== null}
+                          className="px-3 py-1.5 text-xs rounded-lg border border-red-200 text-red-700 hover:bg-red-50 disabled:opacity-40"
+                        >
+                          {rerunningRow === -1 ? 'Starting…' : 'Rerun failed rows'}
+                        </button>
+                      )}
+                    </div>
+                    <table className="min-w-full text-sm">
+                      <thead className="bg-gray-50 text-left text-xs uppercase text-gray-500">
+                        <tr>
+                          <th className="px-4 py-2">Row</th>
+                          <th className="px-4 py-2">Data</th>
+                          <th className="px-4 py-2">Status</th>
+                          <th className="px-4 py-2">Duration</th>
+                          <th className="px-4 py-2" />
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {run.result.rowResults.map((row) => (
+                          <tr
+                            key={`${row.browser ?? ''}-${row.rowIndex}`}
+                            className={row.status === 'failed' ? 'bg-red-50' : undefined}
+                          >
+                            <td className="px-4 py-2 text-gray-700">
+                              {row.rowIndex + 1}
+                              {row.browser && <span className="ml-1 text-xs text-gray-500">({row.browser})</span>}
+                            </td>
+                            <td className="px-4 py-2 text-gray-700">
+                              <div className="font-mono text-xs">
+                                {Object.entries(row.rowData)
+                                  .map(([key, value]) => `${key}=${value}`)
+                                  .join(', ')}
+                              </div>
+                              {row.error && (
+                                <p className="mt-1 text-xs text-red-700 line-clamp-2">{row.error}</p>
+                              )}
+                            </td>
+                            <td className="px-4 py-2">
+                              <span
+                                className={`px-2 py-0.5 text-xs font-medium rounded ${
+                                  row.status === 'passed'
+                                    ? 'bg-emerald-100 text-emerald-700'
+                                    : 'bg-red-100 text-red-700'
+                                }`}
+                              >
+                                {row.status.toUpperCase()}
+                              </span>
+                            </td>
+                            <td className="px-4 py-2 text-gray-600">{formatDuration(row.duration)}</td>
+                            <td className="px-4 py-2">
+                              <div className="flex justify-end gap-3 whitespace-nowrap text-xs">
+                                {row.screenshotPath && (
+                                  <a
+                                    href={runArtifactUrl(run.runId, row.screenshotPath)}
+                                    target="_blank"
+                                    rel="noreferrer"
+                                    className="text-blue-600 hover:underline"
+                                  >
+                                    Screenshot
+                                  </a>
+                                )}
+                                {row.tracePath && (
+                                  <button
+                                    onClick={() => handleOpenRowTrace(row)}
+                                    className="text-blue-600 hover:underline"
+                                  >
+                                    Trace
+                                  </button>
+                                )}
+                                {row.testTitle && (
+                                  <button
+                                    onClick={() => handleRerunRow(row)}
+                                    disabled={rerunningRow !== null}
+                                    className="text-blue-600 hover:underline disabled:opacity-40"
+                                  >
+                                    {rerunningRow === row.rowIndex ? 'Starting…' : 'Rerun'}
+                                  </button>
+                                )}
+                              </div>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                {run.result?.browserResults && run.result.browserResults.length > 0 && (
+                  <div className="grid gap-3 sm:grid-cols-3">
+                    {run.result.browserResults.map((result) => (
+                      <div
+                        key={result.browser}
+                        className={`rounded-lg border px-4 py-3 ${
+                          result.status === 'passed'
+                            ? 'border-emerald-200 bg-emerald-50'
+                            : result.status === 'failed'
+                            ? 'border-red-200 bg-red-50'
+                            : 'border-gray-200 bg-gray-50'
+                        }`}
+                      >
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm font-semibold text-gray-900 capitalize">{result.browser}</span>
+                          <span className="text-xs font-medium uppercase text-gray-600">{result.status}</span>
+                        </div>
+                        <p className="mt-1 text-xs text-gray-500">{(result.duration / 1000).toFixed(1)}s</p>
+                        {result.error && (
+                          <p className="mt-1 text-xs text-red-700 line-clamp-3">{result.error}</p>
+                        )}
+                      </div>
+                    ))}
                   </div>
                 )}
 
@@ -520,6 +735,11 @@ export default function RunSession() {
                                   ✗ Failed
                                 </span>
                               )}
+                              {step.status === 'skipped' && (
+                                <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
+                                  Skipped
+                                </span>
+                              )}
                               {step.status === 'pending' && (
                                 <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
                                   Running
@@ -547,7 +767,7 @@ export default function RunSession() {
                               {stepScreenshots.map((screenshot, idx) => (
                                 <div key={idx} className="border border-gray-200 rounded overflow-hidden">
                                   <img
-                                    src={`/api/runs/${runId}/artifacts/${screenshot.path}`}
+                                    src={runArtifactUrl(run.runId, screenshot.path)}
                                     alt={screenshot.description || `Screenshot for ${step.title}`}
                                     className="w-full"
                                     onError={(e) => {
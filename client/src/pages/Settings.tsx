@@ -1,7 +1,9 @@
 import { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { api } from '../api/client';
-import type { ApiCredential, TestDirectoryInfo } from '../api/client';
+import type { ApiCredential, ApiTestMetadata, TestDirectoryInfo } from '../api/client';
+import { GitPanel } from '../components/GitPanel';
+import { CredentialSessionPanel } from '../components/CredentialSessionPanel';
 
 type Config = {
   apiProvider: 'anthropic' | 'openai' | 'gemini';
@@ -11,6 +13,9 @@ type Config = {
   anthropicModel?: string;
   openaiModel?: string;
   geminiModel?: string;
+  trashRetentionDays?: number;
+  gitAutoCommit?: boolean;
+  sessionMaxAgeHours?: number;
 };
 
 const defaultConfig: Config = {
@@ -20,7 +25,9 @@ const defaultConfig: Config = {
   defaultStartUrl: '',
   anthropicModel: 'claude-sonnet-4-5',
   openaiModel: 'gpt-5',
-  geminiModel: 'gemini-2.5-flash'
+  geminiModel: 'gemini-2.5-flash',
+  trashRetentionDays: 30,
+  sessionMaxAgeHours: 12
 };
 
 const AVAILABLE_MODELS = {
@@ -66,6 +73,7 @@ export default function Settings() {
   });
   const [savingCredential, setSavingCredential] = useState(false);
   const [revealedCredentialId, setRevealedCredentialId] = useState<string | null>(null);
+  const [tests, setTests] = useState<ApiTestMetadata[]>([]);
 
   // Test directory state
   const [testDirInfo, setTestDirInfo] = useState<TestDirectoryInfo | null>(null);
@@ -78,6 +86,10 @@ export default function Settings() {
     loadConfig();
     loadCredentials();
     loadTestDirectoryInfo();
+    api
+      .listTests()
+      .then(({ tests: list }) => setTests(list))
+      .catch((err) => console.error('Failed to load tests:', err));
 
     const refreshTimer = setTimeout(() => {
       loadConfig();
@@ -145,6 +157,15 @@ export default function Settings() {
     setConfig((prev) => ({ ...prev, ...partial }));
   }
 
+  async function handleGitAutoCommitChange(value: boolean) {
+    updateConfig({ gitAutoCommit: value });
+    try {
+      await api.saveConfig({ gitAutoCommit: value });
+    } catch (err) {
+      setTestDirMessage('Error: ' + (err instanceof Error ? err.message : 'Unable to save git settings'));
+    }
+  }
+
   async function handleSave() {
     setSaving(true);
     setMessage('');
@@ -343,6 +364,42 @@ export default function Settings() {
             </div>
           </section>
 
+          <section>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Trash Retention (days)
+            </label>
+            <input
+              type="number"
+              min={0}
+              value={config.trashRetentionDays ?? 30}
+              onChange={(e) =>
+                updateConfig({ trashRetentionDays: Math.max(0, Number.parseInt(e.target.value, 10) || 0) })
+              }
+              className="w-32 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Deleted tests, with their data and runs, are purged from the trash after this many days. Use 0 to keep them until you empty the trash.
+            </p>
+          </section>
+
+          <section>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Saved Login Sessions (hours)
+            </label>
+            <input
+              type="number"
+              min={1}
+              value={config.sessionMaxAgeHours ?? 12}
+              onChange={(e) =>
+                updateConfig({ sessionMaxAgeHours: Math.max(1, Number.parseInt(e.target.value, 10) || 1) })
+              }
+              className="w-32 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Sessions captured by a credential's login test are reused for this long (or until their session cookie expires), then captured again.
+            </p>
+          </section>
+
           <div className="pt-2">
             <button
               onClick={handleSave}
@@ -436,6 +493,12 @@ export default function Settings() {
                   {testDirMessage}
                 </p>
               )}
+
+              <GitPanel
+                key={testDirInfo.resolvedTestsDirectory}
+                autoCommit={config.gitAutoCommit !== false}
+                onAutoCommitChange={(value) => void handleGitAutoCommitChange(value)}
+              />
             </div>
           )}
         </div>
@@ -624,6 +687,11 @@ export default function Settings() {
                           Last used {new Date(credential.lastUsedAt).toLocaleString()}
                         </p>
                       )}
+                      <CredentialSessionPanel
+                        credential={credential}
+                        tests={tests}
+                        onCredentialChange={() => void loadCredentials()}
+                      />
                     </div>
                     <div className="flex gap-2">
                       <button
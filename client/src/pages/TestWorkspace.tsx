@@ -1,9 +1,10 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import type { FormEvent } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
-import { api } from '../api/client';
+import { api, apiUrl, runArtifactUrl } from '../api/client';
 import type {
   ApiTest,
+  ApiTestStepMetadata,
   RunStreamEvent,
   RunControlAction,
   ApiCredential
@@ -14,11 +15,18 @@ import type {
   RunStatus,
   RunResult,
   RunScreenshot,
-  StepCounts
+  StepCounts,
+  BrowserName,
+  StepBlockSummary,
+  RunExecutionSettings
 } from '../../../shared/types';
 import { SCREEN_SIZE_PRESETS } from '../constants/screenSizes';
+import { BROWSER_OPTIONS } from '../constants/browsers';
+import { parseRowNumbers } from '../utils/rowSelection';
 import { VariableDataGrid } from '../components/VariableDataGrid';
+import { TestHistoryPanel } from '../components/TestHistoryPanel';
 import { CSVImportModal } from '../components/CSVImportModal';
+import { RunExecutionFields } from '../components/RunExecutionFields';
 import type { VariableDefinition, VariableRow, ColumnMapping, ImportMode } from '../components/CSVImportModal';
 
 const statusLabels: Record<RunStatus, string> = {
@@ -42,7 +50,8 @@ const statusStyles: Record<RunStatus, string> = {
 const _stepStatusStyles = {
   pending: 'border-blue-200 bg-blue-50',
   passed: 'border-emerald-200 bg-emerald-50',
-  failed: 'border-red-200 bg-red-50'
+  failed: 'border-red-200 bg-red-50',
+  skipped: 'border-gray-200 bg-gray-50'
 } as const;
 
 function formatTimestamp(iso?: string) {
@@ -70,6 +79,8 @@ function formatRunResultStatus(status: RunResult['status']): string {
   switch (status) {
     case 'passed':
       return 'Passed';
+    case 'flaky':
+      return 'Passed on retry';
     case 'failed':
       return 'Failed';
     case 'skipped':
@@ -115,6 +126,8 @@ function summarizeStepData(
       if (step.title) {
         failed.add(step.title);
       }
+    } else if (step.status === 'skipped') {
+      counts.skipped = (counts.skipped ?? 0) + 1;
     } else {
       counts.pending += 1;
     }
@@ -154,6 +167,11 @@ export default function TestWorkspace() {
   const [keepBrowserOpen, setKeepBrowserOpen] = useState(false);
   const [stopOnFailure, setStopOnFailure] = useState(false);
   const [selectedScreenSize, setSelectedScreenSize] = useState('');
+  const [runBrowsers, setRunBrowsers] = useState<BrowserName[]>([]);
+  const [runRows, setRunRows] = useState('');
+  const [runRowFilter, setRunRowFilter] = useState('');
+  const [runExecution, setRunExecution] = useState<RunExecutionSettings>({});
+  const [savingExecution, setSavingExecution] = useState(false);
   const [startingRun, setStartingRun] = useState(false);
 
   const [activeRunId, setActiveRunId] = useState<string | null>(null);
@@ -162,6 +180,9 @@ export default function TestWorkspace() {
   const [chatInput, setChatInput] = useState('');
   const [_sendingChat, _setSendingChat] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [duplicating, setDuplicating] = useState(false);
+  const [templateNotice, setTemplateNotice] = useState<string | null>(null);
+  const [diskNotice, setDiskNotice] = useState<string | null>(null);
   const logsRef = useRef<HTMLDivElement>(null);
   const chatRef = useRef<HTMLDivElement>(null);
   const runDetailsRef = useRef<HTMLDivElement>(null);
@@ -173,14 +194,16 @@ export default function TestWorkspace() {
   const [defaultStartUrl, setDefaultStartUrl] = useState('');
 
   // Tab and variable data management
-  const [activeTab, setActiveTab] = useState<'details' | 'data'>('details');
+  const [activeTab, setActiveTab] = useState<'details' | 'data' | 'history'>('details');
+  const [testReloadKey, setTestReloadKey] = useState(0);
   const [variables, setVariables] = useState<VariableDefinition[]>([]);
   const [variableData, setVariableData] = useState<VariableRow[]>([]);
   const [loadingVariables, setLoadingVariables] = useState(false);
   const [showCSVImport, setShowCSVImport] = useState(false);
 
   // Step editing state
-  const [editedSteps, setEditedSteps] = useState<Array<{ number: number; qaSummary: string; playwrightCode: string; screenshotPath?: string }>>([]);
+  const [editedSteps, setEditedSteps] = useState<ApiTestStepMetadata[]>([]);
+  const [stepBlocks, setStepBlocks] = useState<StepBlockSummary[]>([]);
   const [stepsModified, setStepsModified] = useState(false);
   const [savingSteps, setSavingSteps] = useState(false);
   const [insertAfterStep, setInsertAfterStep] = useState<number | null>(null);
@@ -190,6 +213,7 @@ export default function TestWorkspace() {
   const [insertionSessionId, setInsertionSessionId] = useState<string | null>(null);
   const [initializingInsertion, setInitializingInsertion] = useState(false);
   const [insertionError, setInsertionError] = useState<string | null>(null);
+  const [stepsInserted, setStepsInserted] = useState(false);
   const [logsExpanded, setLogsExpanded] = useState(false);
 
   const refreshRuns = useCallback(async () => {
@@ -276,6 +300,30 @@ export default function TestWorkspace() {
     return () => {
       cancelled = true;
     };
+  }, [testId, testReloadKey]);
+
+  useEffect(() => {
+    api
+      .listStepBlocks()
+      .then(({ blocks }) => setStepBlocks(blocks))
+      .catch((err) => console.error('Failed to load step blocks', err));
+  }, []);
+
+  // Reload when this spec is edited outside TrailWright
+  useEffect(() => {
+    if (!testId) return;
+    const source = api.connectToTestEvents((event) => {
+      if (event.payload.testId !== testId) return;
+      if (event.type === 'test_removed') {
+        setDiskNotice('This test file was deleted or moved on disk.');
+      } else if (event.payload.error) {
+        setDiskNotice(`The test file changed on disk but could not be read: ${event.payload.error}`);
+      } else {
+        setDiskNotice('Reloaded changes made to the test file on disk.');
+        setTestReloadKey((key) => key + 1);
+      }
+    });
+    return () => source.close();
   }, [testId]);
 
   useEffect(() => {
@@ -517,7 +565,17 @@ export default function TestWorkspace() {
         ? SCREEN_SIZE_PRESETS.find((p) => p.id === selectedScreenSize)?.viewport
         : undefined;
 
-      const { runId } = await api.runTest(testId, { headed, speed, keepBrowserOpen, stopOnFailure, viewportSize });
+      const { runId } = await api.runTest(testId, {
+        headed,
+        speed,
+        keepBrowserOpen,
+        stopOnFailure,
+        viewportSize,
+        browsers: runBrowsers.length ? runBrowsers : undefined,
+        rowIndexes: parseRowNumbers(runRows),
+        rowFilter: runRowFilter.trim() || undefined,
+        execution: Object.keys(runExecution).length ? runExecution : undefined
+      });
       setActiveRunId(runId);
       setRunState(null);
       setTimeout(() => {
@@ -531,6 +589,24 @@ export default function TestWorkspace() {
     }
   }
 
+  /**
+   * Store the run settings as this test's defaults (an empty set clears them)
+   */
+  async function handleSaveExecutionDefaults(execution: RunExecutionSettings) {
+    if (!testId) return;
+    setSavingExecution(true);
+    setError(null);
+    try {
+      const { test: updated } = await api.updateTestMetadata(testId, { execution });
+      setTest((prev) => (prev ? { ...prev, metadata: { ...prev.metadata, execution: updated.execution } } : prev));
+      setRunExecution({});
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save run defaults');
+    } finally {
+      setSavingExecution(false);
+    }
+  }
+
   async function handleSelectRun(runId: string) {
     setActiveRunId(runId);
     setRunState(null);
@@ -633,6 +709,54 @@ export default function TestWorkspace() {
     }
   }
 
+  async function handleDuplicate() {
+    if (!testId) return;
+    setDuplicating(true);
+    try {
+      const { test: copy } = await api.duplicateTest(testId);
+      navigate(`/tests/${copy.id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to duplicate test');
+    } finally {
+      setDuplicating(false);
+    }
+  }
+
+  async function handleSaveAsTemplate() {
+    if (!testId || !test) return;
+    const name = window.prompt('Template name', `${test.metadata.name} template`);
+    if (!name?.trim()) return;
+    try {
+      const { template } = await api.createTemplateFromTest(testId, name.trim());
+      setTemplateNotice(`Saved template "${template.name}"`);
+      setTimeout(() => setTemplateNotice(null), 3000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save template');
+    }
+  }
+
+  async function handleDownloadManualScript(choice: string) {
+    if (!testId || !test || !choice) return;
+    const [scopeKind, format] = choice.split(':') as ['test' | 'folder', 'markdown' | 'html'];
+    const folderPath = test.metadata.folder;
+    const scope: { testId: string } | { folder: string } =
+      scopeKind === 'folder' && folderPath ? { folder: folderPath } : { testId };
+    try {
+      const blob = await api.downloadManualScript(scope, format);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      const baseName = 'folder' in scope ? scope.folder.replace(/[^A-Za-z0-9]+/g, '-') : testId;
+      link.download = `${baseName}-manual-test.${format === 'html' ? 'html' : 'md'}`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export manual test script');
+    }
+  }
+
   async function handleOpenTrace(targetRunId?: string) {
     const runId = targetRunId ?? activeRunId;
     if (!runId) return;
@@ -655,13 +779,77 @@ export default function TestWorkspace() {
     setStepsModified(true);
   }
 
+  function handleInsertBlock(blockId: string) {
+    const block = stepBlocks.find((candidate) => candidate.id === blockId);
+    if (!block) return;
+    const blockArgs = Object.fromEntries((block.variables ?? []).map((variable) => [variable.name, variable.sampleValue ?? '']));
+    setEditedSteps((prev) => [
+      ...prev,
+      { number: prev.length + 1, qaSummary: block.name, playwrightCode: '', blockId: block.id, blockArgs }
+    ]);
+    setStepsModified(true);
+  }
+
+  function handleBlockArgChange(stepNumber: number, name: string, value: string) {
+    setEditedSteps((prev) =>
+      prev.map((step) =>
+        step.number === stepNumber ? { ...step, blockArgs: { ...step.blockArgs, [name]: value } } : step
+      )
+    );
+    setStepsModified(true);
+  }
+
+  function handleMarkStepReviewed(stepNumber: number) {
+    setEditedSteps((prev) =>
+      prev.map((step) => (step.number === stepNumber ? { ...step, needsReview: undefined } : step))
+    );
+    setStepsModified(true);
+  }
+
+  /**
+   * Turn a range of this test's steps into a shared block and reference it in their place
+   */
+  async function handleExtractBlock() {
+    const range = window.prompt('Steps to turn into a shared block (e.g. 1-3)');
+    const match = range?.trim().match(/^(\d+)\s*(?:-\s*(\d+))?$/);
+    if (!match) return;
+    const from = Number(match[1]);
+    const to = Number(match[2] ?? match[1]);
+    const selected = editedSteps.filter((step) => step.number >= from && step.number <= to);
+    if (selected.length === 0 || selected.some((step) => step.blockId)) {
+      setMetaMessage('Error: Pick steps that exist and are not block references');
+      return;
+    }
+    const blockName = window.prompt('Name of the new step block', selected[0].qaSummary);
+    if (!blockName?.trim()) return;
+
+    try {
+      const { block } = await api.createStepBlock({
+        name: blockName.trim(),
+        steps: selected.map(({ number, qaSummary, playwrightCode }) => ({ number, qaSummary, playwrightCode }))
+      });
+      setStepBlocks((prev) => [...prev, { ...block, usedBy: [] }]);
+      setEditedSteps((prev) =>
+        [
+          ...prev.filter((step) => step.number < from),
+          { number: from, qaSummary: block.name, playwrightCode: '', blockId: block.id },
+          ...prev.filter((step) => step.number > to)
+        ].map((step, index) => ({ ...step, number: index + 1 }))
+      );
+      setStepsModified(true);
+    } catch (err) {
+      setMetaMessage(`Error: ${err instanceof Error ? err.message : 'Failed to create step block'}`);
+    }
+  }
+
   async function handleSaveSteps() {
     if (!testId || !test) return;
 
     setSavingSteps(true);
     try {
       // Regenerate test code with updated steps
-      await api.updateTestSteps(testId, editedSteps);
+      await api.updateTestSteps(testId, editedSteps, stepsInserted ? 'step inserted' : 'steps edited');
+      setStepsInserted(false);
 
       // Refresh test data
       const { test: updatedTest } = await api.getTest(testId);
@@ -679,6 +867,28 @@ export default function TestWorkspace() {
     }
   }
 
+  async function handleSyncStepsFromCode() {
+    if (!testId) return;
+    if (stepsModified && !confirm('Discard your unsaved step edits and reload the steps from the code?')) {
+      return;
+    }
+
+    setSavingSteps(true);
+    try {
+      const { test: metadata, changed } = await api.syncTestSteps(testId);
+      setTest((prev) => (prev ? { ...prev, metadata } : prev));
+      setEditedSteps([...(metadata.steps ?? [])]);
+      setStepsModified(false);
+      setMetaMessage(changed ? 'Steps updated from the test code' : 'Steps already match the test code');
+      setTimeout(() => setMetaMessage(null), 3000);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to sync steps';
+      setMetaMessage(`Error: ${message}`);
+    } finally {
+      setSavingSteps(false);
+    }
+  }
+
   async function handleOpenInsertModal(afterStepNumber: number) {
     if (!testId) return;
 
@@ -774,6 +984,7 @@ export default function TestWorkspace() {
 
     setEditedSteps(combined);
     setStepsModified(true);
+    setStepsInserted(true);
 
     // Close the modal and cleanup session
     await handleCloseInsertModal();
@@ -802,12 +1013,13 @@ export default function TestWorkspace() {
     });
   }, [stepsForDisplay]);
   const screenshotDetails: RunScreenshot[] = useMemo(() => {
-    if (runState?.result?.screenshots) {
-      return runState.result.screenshots;
+    const result = runState?.result;
+    if (result?.screenshots) {
+      return result.screenshots.map((shot) => ({ ...shot, path: runArtifactUrl(result.id, shot.path) }));
     }
-    if (runState?.result?.screenshotPaths) {
-      return runState.result.screenshotPaths.map((path, index) => ({
-        path,
+    if (result?.screenshotPaths) {
+      return result.screenshotPaths.map((path, index) => ({
+        path: runArtifactUrl(result.id, path),
         stepTitle: `Screenshot ${index + 1}`,
         testTitle: undefined,
         description: undefined,
@@ -816,7 +1028,7 @@ export default function TestWorkspace() {
       }));
     }
     return [];
-  }, [runState?.result?.screenshots, runState?.result?.screenshotPaths]);
+  }, [runState?.result]);
   const runStepSummary = useMemo(
     () =>
       summarizeStepData(
@@ -833,13 +1045,14 @@ export default function TestWorkspace() {
     return runs.reduce(
       (acc, run) => {
         if (run.status === 'passed') acc.passed += 1;
+        else if (run.status === 'flaky') acc.flaky += 1;
         else if (run.status === 'failed') acc.failed += 1;
         else if (run.status === 'stopped') acc.stopped += 1;
         else if (run.status === 'partial') acc.partial += 1;
         else if (run.status === 'skipped') acc.skipped += 1;
         return acc;
       },
-      { passed: 0, failed: 0, stopped: 0, partial: 0, skipped: 0 }
+      { passed: 0, flaky: 0, failed: 0, stopped: 0, partial: 0, skipped: 0 }
     );
   }, [runs]);
 
@@ -867,8 +1080,42 @@ export default function TestWorkspace() {
           >
             ← Back to Dashboard
           </button>
-          <div className="text-sm text-gray-500">
-            {test ? `Test ID: ${test.metadata.id}` : 'Loading test…'}
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => void handleDuplicate()}
+              disabled={!test || duplicating}
+              className="rounded-md border border-gray-300 px-3 py-1 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              {duplicating ? 'Duplicating…' : 'Duplicate'}
+            </button>
+            <button
+              onClick={() => void handleSaveAsTemplate()}
+              disabled={!test}
+              className="rounded-md border border-gray-300 px-3 py-1 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              Save as template
+            </button>
+            <select
+              value=""
+              onChange={(event) => void handleDownloadManualScript(event.target.value)}
+              disabled={!test}
+              className="rounded-md border border-gray-300 px-2 py-1 text-sm text-gray-700 disabled:opacity-50"
+              title="Download a manual test script for testers and auditors"
+            >
+              <option value="">Manual test script…</option>
+              <option value="test:markdown">This test (Markdown)</option>
+              <option value="test:html">This test (HTML)</option>
+              {test?.metadata.folder && (
+                <>
+                  <option value="folder:markdown">Folder “{test.metadata.folder}” (Markdown)</option>
+                  <option value="folder:html">Folder “{test.metadata.folder}” (HTML)</option>
+                </>
+              )}
+            </select>
+            {templateNotice && <span className="text-sm text-green-700">{templateNotice}</span>}
+            <div className="text-sm text-gray-500">
+              {test ? `Test ID: ${test.metadata.id}` : 'Loading test…'}
+            </div>
           </div>
         </div>
 
@@ -878,6 +1125,15 @@ export default function TestWorkspace() {
           </div>
         )}
 
+        {diskNotice && (
+          <div className="mb-6 flex items-center justify-between rounded-md border border-blue-200 bg-blue-50 px-4 py-3 text-sm text-blue-800">
+            <span>{diskNotice}</span>
+            <button onClick={() => setDiskNotice(null)} className="text-xs text-blue-700 hover:underline">
+              Dismiss
+            </button>
+          </div>
+        )}
+
         <div className="grid gap-6 lg:grid-cols-[2fr,1fr]">
           <div className="space-y-6">
             <div className="rounded-lg bg-white p-6 shadow" ref={runDetailsRef}>
@@ -917,6 +1173,15 @@ export default function TestWorkspace() {
                 >
                   Data {variables.length > 0 && `(${variables.length})`}
                 </button>
+                <button
+                  onClick={() => setActiveTab('history')}
+                  className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors ${activeTab === 'history'
+                      ? 'border-blue-500 text-blue-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700'
+                    }`}
+                >
+                  History
+                </button>
               </div>
 
               {/* Details Tab */}
@@ -1041,6 +1306,17 @@ export default function TestWorkspace() {
               )}
 
               {/* Data Tab */}
+              {activeTab === 'history' && testId && (
+                <TestHistoryPanel
+                  testId={testId}
+                  onRestored={() => {
+                    setTestReloadKey((key) => key + 1);
+                    setMetaMessage('Version restored.');
+                    setTimeout(() => setMetaMessage(null), 3000);
+                  }}
+                />
+              )}
+
               {activeTab === 'data' && (
                 <div className="space-y-4">
                   {loadingVariables ? (
@@ -1145,6 +1421,89 @@ export default function TestWorkspace() {
                 </p>
               </div>
 
+              <div className="mt-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Browsers</label>
+                <div className="flex flex-wrap gap-3">
+                  {BROWSER_OPTIONS.map((option) => (
+                    <label key={option.id} className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={runBrowsers.includes(option.id)}
+                        onChange={(e) =>
+                          setRunBrowsers((prev) =>
+                            e.target.checked
+                              ? [...prev, option.id]
+                              : prev.filter((browser) => browser !== option.id)
+                          )
+                        }
+                        className="rounded"
+                      />
+                      {option.name}
+                    </label>
+                  ))}
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                  Leave all unchecked to use the default browser from Settings. Pick several to run on each.
+                </p>
+              </div>
+
+              {test?.metadata.dataSource && (
+                <div className="mt-4 space-y-2">
+                  <label className="block text-sm font-medium text-gray-700">Data Rows</label>
+                  <input
+                    type="text"
+                    value={runRows}
+                    onChange={(e) => setRunRows(e.target.value)}
+                    placeholder="All rows (or e.g. 3, 17, 42)"
+                    className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <input
+                    type="text"
+                    value={runRowFilter}
+                    onChange={(e) => setRunRowFilter(e.target.value)}
+                    placeholder="Filter, e.g. country=DE"
+                    className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <p className="text-xs text-gray-500">
+                    Run only these CSV rows (1-based) and/or rows where a column matches a value.
+                  </p>
+                </div>
+              )}
+
+              <details className="mt-4" open={!!test?.metadata.execution}>
+                <summary className="cursor-pointer text-sm font-medium text-gray-700">
+                  Retries, timeout &amp; artifacts
+                </summary>
+                <div className="mt-3 space-y-2">
+                  <RunExecutionFields
+                    value={runExecution}
+                    onChange={setRunExecution}
+                    inherited={test?.metadata.execution}
+                  />
+                  <p className="text-xs text-gray-500">
+                    Empty fields use {test?.metadata.execution ? "this test's defaults" : 'the standard settings'}.
+                  </p>
+                  <div className="flex flex-wrap gap-3 text-xs">
+                    <button
+                      onClick={() => void handleSaveExecutionDefaults({ ...test?.metadata.execution, ...runExecution })}
+                      disabled={savingExecution || Object.keys(runExecution).length === 0}
+                      className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                    >
+                      Save as this test's defaults
+                    </button>
+                    {test?.metadata.execution && (
+                      <button
+                        onClick={() => void handleSaveExecutionDefaults({})}
+                        disabled={savingExecution}
+                        className="text-gray-600 hover:text-gray-800 disabled:opacity-50"
+                      >
+                        Clear test defaults
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </details>
+
               <button
                 onClick={handleStartRun}
                 disabled={startingRun || !test}
@@ -1239,6 +1598,11 @@ export default function TestWorkspace() {
                           <span className="flex items-center gap-1 text-red-700">
                             ✗ {runStepSummary.counts.failed} failed
                           </span>
+                          {!!runStepSummary.counts.skipped && (
+                            <span className="flex items-center gap-1 text-gray-500">
+                              ↷ {runStepSummary.counts.skipped} skipped
+                            </span>
+                          )}
                           <span className="flex items-center gap-1 text-gray-700">
                             Σ {runStepSummary.counts.total} steps
                           </span>
@@ -1379,13 +1743,13 @@ export default function TestWorkspace() {
                             {step.screenshotPath ? (
                               <div className="mt-3">
                                 <a
-                                  href={`/api/tests/${testId}/screenshots/step-${step.number}.jpg`}
+                                  href={apiUrl(`/tests/${testId}/screenshots/step-${step.number}.jpg`)}
                                   target="_blank"
                                   rel="noreferrer"
                                   className="inline-block"
                                 >
                                   <img
-                                    src={`/api/tests/${testId}/screenshots/step-${step.number}.jpg`}
+                                    src={apiUrl(`/tests/${testId}/screenshots/step-${step.number}.jpg`)}
                                     alt={`Step ${step.number} screenshot`}
                                     className="max-w-xs rounded border border-gray-200 hover:border-blue-400 transition-colors"
                                     loading="lazy"
@@ -1435,6 +1799,13 @@ export default function TestWorkspace() {
                     <div className="rounded-lg border border-dashed border-gray-300 bg-gray-50 p-6 text-center text-gray-600">
                       <p className="mb-2">No test steps defined.</p>
                       <p className="text-sm text-gray-500">Create steps using AI generation to get started.</p>
+                      <button
+                        onClick={() => void handleSyncStepsFromCode()}
+                        disabled={savingSteps}
+                        className="mt-3 text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                      >
+                        Read steps from test code
+                      </button>
                     </div>
                   ) : (
                     <>
@@ -1466,7 +1837,43 @@ export default function TestWorkspace() {
                                     {step.number}
                                   </span>
                                   <p className="font-medium text-gray-900">{step.qaSummary}</p>
+                                  {step.blockId && (
+                                    <span className="rounded-full bg-purple-100 px-2 py-0.5 text-xs font-medium text-purple-700">
+                                      Shared block
+                                    </span>
+                                  )}
+                                  {step.needsReview && (
+                                    <span className="rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800">
+                                      Needs review
+                                    </span>
+                                  )}
                                 </div>
+                                {step.needsReview && (
+                                  <div className="flex items-center gap-3 text-xs text-amber-800">
+                                    <span>{step.needsReview}</span>
+                                    <button
+                                      onClick={() => handleMarkStepReviewed(step.number)}
+                                      className="text-amber-900 underline hover:text-amber-700"
+                                    >
+                                      Mark reviewed
+                                    </button>
+                                  </div>
+                                )}
+                                {step.blockId ? (
+                                  <div className="mt-2 flex flex-wrap gap-2">
+                                    {(stepBlocks.find((block) => block.id === step.blockId)?.variables ?? []).map((variable) => (
+                                      <label key={variable.name} className="flex items-center gap-1 text-xs text-gray-600">
+                                        {variable.name}
+                                        <input
+                                          value={step.blockArgs?.[variable.name] ?? ''}
+                                          onChange={(event) => handleBlockArgChange(step.number, variable.name, event.target.value)}
+                                          placeholder={variable.sampleValue || '{{column}}'}
+                                          className="rounded border border-gray-300 px-2 py-1 text-xs"
+                                        />
+                                      </label>
+                                    ))}
+                                  </div>
+                                ) : (
                                 <details className="mt-2">
                                   <summary className="cursor-pointer text-xs text-gray-500 hover:text-gray-700">
                                     Show Playwright code
@@ -1475,16 +1882,17 @@ export default function TestWorkspace() {
                                     {step.playwrightCode}
                                   </pre>
                                 </details>
+                                )}
                                 {step.screenshotPath && (
                                   <div className="mt-3">
                                     <a
-                                      href={`/api/tests/${testId}/screenshots/step-${step.number}.jpg`}
+                                      href={apiUrl(`/tests/${testId}/screenshots/step-${step.number}.jpg`)}
                                       target="_blank"
                                       rel="noreferrer"
                                       className="block"
                                     >
                                       <img
-                                        src={`/api/tests/${testId}/screenshots/step-${step.number}.jpg`}
+                                        src={apiUrl(`/tests/${testId}/screenshots/step-${step.number}.jpg`)}
                                         alt={`Step ${step.number} screenshot`}
                                         className="max-w-sm rounded border border-gray-200 hover:border-blue-400 transition-colors"
                                         loading="lazy"
@@ -1518,6 +1926,36 @@ export default function TestWorkspace() {
                         ))}
                       </div>
 
+                      <div className="flex flex-wrap items-center gap-3 mt-4">
+                        <select
+                          value=""
+                          onChange={(event) => handleInsertBlock(event.target.value)}
+                          disabled={stepBlocks.length === 0}
+                          className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm text-gray-700 disabled:opacity-50"
+                        >
+                          <option value="">+ Add shared step block…</option>
+                          {stepBlocks.map((block) => (
+                            <option key={block.id} value={block.id}>
+                              {block.name}
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={() => void handleExtractBlock()}
+                          className="text-sm text-purple-700 hover:text-purple-900"
+                        >
+                          Save steps as shared block…
+                        </button>
+                        <button
+                          onClick={() => void handleSyncStepsFromCode()}
+                          disabled={savingSteps}
+                          className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                          title="Rebuild this list from the test.step() blocks in the spec, e.g. after editing the file by hand"
+                        >
+                          Sync steps from code
+                        </button>
+                      </div>
+
                       <div className="flex items-center justify-between mt-6 pt-4 border-t border-gray-200">
                         <div className="flex items-center gap-3">
                           <button
@@ -1576,6 +2014,11 @@ export default function TestWorkspace() {
                     <span className="flex items-center gap-1 text-red-700">
                       ✗ {historyTotals.failed} fail
                     </span>
+                    {historyTotals.flaky > 0 && (
+                      <span className="flex items-center gap-1 text-amber-700">
+                        ↻ {historyTotals.flaky} flaky
+                      </span>
+                    )}
                     {historyTotals.stopped > 0 && (
                       <span className="flex items-center gap-1 text-amber-700">
                         ■ {historyTotals.stopped} stopped
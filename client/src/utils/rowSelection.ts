@@ -0,0 +1,13 @@
+/**
+ * Convert a user-entered list of 1-based row numbers ("3, 17, 42") into
+ * the zero-based rowIndexes the run API expects.
+ */
+export function parseRowNumbers(input: string): number[] | undefined {
+  const indexes = input
+    .split(',')
+    .map((value) => Number.parseInt(value.trim(), 10))
+    .filter((value) => Number.isInteger(value) && value > 0)
+    .map((value) => value - 1);
+
+  return indexes.length ? Array.from(new Set(indexes)) : undefined;
+}
@@ -468,3 +468,83 @@ Respond with comma-separated tags only (no explanations).`;
 
   return tags.slice(0, 6); // Max 6 tags
 }
+
+/**
+ * Write a plain-English qaSummary for each block of Playwright code (e.g. steps of an imported spec).
+ * Returns one summary per input, in order.
+ */
+export async function generateStepSummaries(
+  codeBlocks: string[],
+  provider: AIProvider,
+  apiKey: string,
+  baseUrl?: string,
+  model?: string
+): Promise<string[]> {
+  if (codeBlocks.length === 0) {
+    return [];
+  }
+
+  const formattedSteps = codeBlocks.map((code, index) => `Step ${index + 1}:\n${code}`).join('\n\n');
+
+  const prompt = `You are documenting an automated QA test for non-technical testers.
+
+Below are the steps of a Playwright test, each with its code:
+
+${formattedSteps}
+
+For each step write a short summary (max 10 words) of what it does from the user's point of view,
+e.g. "Click the Sign in button" or "Verify the dashboard greeting is shown".
+
+Respond with a JSON array of exactly ${codeBlocks.length} strings, in step order, and nothing else.`;
+
+  let response = '';
+
+  switch (provider) {
+    case 'anthropic': {
+      const client = new Anthropic({ apiKey });
+      const completion = await client.messages.create({
+        model: model || 'claude-haiku-4-5',
+        max_tokens: 60 * codeBlocks.length + 100,
+        messages: [{ role: 'user', content: prompt }]
+      });
+      const block = completion.content[0];
+      if (block?.type !== 'text') {
+        throw new Error('Unexpected response from Anthropic while summarizing steps');
+      }
+      response = block.text;
+      break;
+    }
+    case 'openai': {
+      const client = new OpenAI({ apiKey, baseURL: baseUrl });
+      const completion = await client.chat.completions.create({
+        model: model || 'gpt-5-nano',
+        messages: [{ role: 'user', content: prompt }],
+        max_tokens: 60 * codeBlocks.length + 100
+      });
+      response = completion.choices[0]?.message?.content || '';
+      break;
+    }
+    case 'gemini': {
+      const genAI = new GoogleGenAI({ apiKey });
+      const result = await genAI.models.generateContent({
+        model: model || 'gemini-2.5-flash-lite',
+        contents: prompt
+      });
+      response = result.text || '';
+      break;
+    }
+    default:
+      throw new Error(`Unsupported provider: ${provider}`);
+  }
+
+  const jsonMatch = response.match(/\[[\s\S]*\]/);
+  const summaries: unknown = jsonMatch ? JSON.parse(jsonMatch[0]) : null;
+  if (
+    !Array.isArray(summaries) ||
+    summaries.length !== codeBlocks.length ||
+    summaries.some((summary) => typeof summary !== 'string' || !summary.trim())
+  ) {
+    throw new Error('AI returned an unexpected number of step summaries');
+  }
+  return summaries.map((summary: string) => summary.trim());
+}
@@ -3,8 +3,10 @@ import cors from 'cors';
 import fs from 'node:fs';
 import path from 'node:path';
 import { CONFIG } from './config.js';
-import { initStorage } from './storage/index.js';
+import { getProjectDirectory, initWorkspace } from './storage/index.js';
 import { cleanupOrphanedTestArtifacts } from './storage/cleanup.js';
+import { purgeExpiredTrash } from './storage/trash.js';
+import { startTestWatcher } from './storage/testWatcher.js';
 import { ensurePlaywrightConfig } from './playwright/config.js';
 import testsRouter from './routes/tests.js';
 import runsRouter from './routes/runs.js';
@@ -13,6 +15,13 @@ import generateRouter from './routes/generate.js';
 import credentialsRouter from './routes/credentials.js';
 import variablesRouter from './routes/variables.js';
 import aiRouter from './routes/ai.js';
+import trashRouter from './routes/trash.js';
+import foldersRouter from './routes/folders.js';
+import gitRouter from './routes/git.js';
+import projectsRouter from './routes/projects.js';
+import stepBlocksRouter from './routes/stepBlocks.js';
+import templatesRouter from './routes/templates.js';
+import { resolveProject } from './routes/projectContext.js';
 
 const app = express();
 const CLIENT_DIST_DIR = path.resolve(process.cwd(), '../client/dist');
@@ -20,7 +29,8 @@ const CLIENT_INDEX_FILE = path.join(CLIENT_DIST_DIR, 'index.html');
 const hasClientBuild = fs.existsSync(CLIENT_INDEX_FILE);
 
 app.use(cors());
-app.use(express.json());
+// Spec imports post whole folders of source files as JSON
+app.use(express.json({ limit: '25mb' }));
 
 if (hasClientBuild) {
   app.use(express.static(CLIENT_DIST_DIR));
@@ -575,35 +585,64 @@ if (hasClientBuild) {
 }
 
 // Initialize storage on startup
-await initStorage(CONFIG.DATA_DIR);
-console.log(`[storage] Data directory: ${CONFIG.DATA_DIR}`);
-
-const cleanupSummary = await cleanupOrphanedTestArtifacts(CONFIG.DATA_DIR);
-const cleanupCount =
-  cleanupSummary.removedTestFolders.length +
-  cleanupSummary.removedRunFolders.length +
-  cleanupSummary.removedDataFiles.length;
-
-if (cleanupCount > 0) {
-  console.log(
-    `[storage] Cleaned ${cleanupCount} orphaned items (test folders: ${cleanupSummary.removedTestFolders.length}, runs: ${cleanupSummary.removedRunFolders.length}, data files: ${cleanupSummary.removedDataFiles.length})`
-  );
-}
+const projects = await initWorkspace(CONFIG.DATA_DIR);
+console.log(`[storage] Data directory: ${CONFIG.DATA_DIR} (${projects.length} project(s))`);
+
+for (const project of projects) {
+  const projectDir = getProjectDirectory(CONFIG.DATA_DIR, project.id);
+
+  const cleanupSummary = await cleanupOrphanedTestArtifacts(projectDir);
+  const cleanupCount =
+    cleanupSummary.removedTestFolders.length +
+    cleanupSummary.removedRunFolders.length +
+    cleanupSummary.removedDataFiles.length +
+    cleanupSummary.removedRevisionFolders.length;
+
+  if (cleanupCount > 0) {
+    console.log(
+      `[storage] ${project.name}: cleaned ${cleanupCount} orphaned items (test folders: ${cleanupSummary.removedTestFolders.length}, runs: ${cleanupSummary.removedRunFolders.length}, data files: ${cleanupSummary.removedDataFiles.length}, revision folders: ${cleanupSummary.removedRevisionFolders.length})`
+    );
+  }
+
+  const purgedTrash = await purgeExpiredTrash(projectDir).catch((error) => {
+    console.error('[storage] Failed to purge expired trash', error);
+    return [] as string[];
+  });
+  if (purgedTrash.length > 0) {
+    console.log(`[storage] ${project.name}: purged ${purgedTrash.length} expired tests from trash`);
+  }
 
-await ensurePlaywrightConfig(CONFIG.DATA_DIR);
+  await ensurePlaywrightConfig(projectDir);
+
+  await startTestWatcher(projectDir).catch((error) => {
+    console.error('[watcher] Unable to watch tests directory', error);
+  });
+}
 console.log(`[playwright] Configured`);
 
 app.get('/api/health', (req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
-app.use('/api/tests', testsRouter);
-app.use('/api/tests', variablesRouter);
-app.use('/api/runs', runsRouter);
-app.use('/api/config', configRouter);
-app.use('/api/generate', generateRouter);
-app.use('/api/credentials', credentialsRouter);
-app.use('/api/ai', aiRouter);
+// Everything except the project list is scoped to a project: /api/projects/:projectId/...
+const projectScopedRouter = express.Router({ mergeParams: true });
+projectScopedRouter.use('/tests', testsRouter);
+projectScopedRouter.use('/tests', variablesRouter);
+projectScopedRouter.use('/runs', runsRouter);
+projectScopedRouter.use('/config', configRouter);
+projectScopedRouter.use('/generate', generateRouter);
+projectScopedRouter.use('/credentials', credentialsRouter);
+projectScopedRouter.use('/ai', aiRouter);
+projectScopedRouter.use('/trash', trashRouter);
+projectScopedRouter.use('/folders', foldersRouter);
+projectScopedRouter.use('/git', gitRouter);
+projectScopedRouter.use('/blocks', stepBlocksRouter);
+projectScopedRouter.use('/templates', templatesRouter);
+
+app.use('/api/projects', projectsRouter);
+app.use('/api/projects/:projectId', resolveProject, projectScopedRouter);
+// Unscoped /api/* routes keep working and act on the Default project
+app.use('/api', resolveProject, projectScopedRouter);
 
 if (hasClientBuild) {
   // SPA fallback: serve built index.html for non-API GET requests
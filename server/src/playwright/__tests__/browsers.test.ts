@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { isBrowserName, parseBrowserList } from '../browsers.js';
+
+describe('browser helpers', () => {
+  it('recognizes supported engines only', () => {
+    expect(isBrowserName('firefox')).toBe(true);
+    expect(isBrowserName('edge')).toBe(false);
+    expect(isBrowserName(undefined)).toBe(false);
+  });
+
+  it('parses arrays and comma-separated strings', () => {
+    expect(parseBrowserList(['webkit', 'chromium'])).toEqual(['webkit', 'chromium']);
+    expect(parseBrowserList('chromium, Firefox')).toEqual(['chromium', 'firefox']);
+  });
+
+  it('drops unknown names and duplicates', () => {
+    expect(parseBrowserList(['chromium', 'opera', 'chromium'])).toEqual(['chromium']);
+    expect(parseBrowserList(['opera'])).toBeUndefined();
+    expect(parseBrowserList(undefined)).toBeUndefined();
+  });
+});
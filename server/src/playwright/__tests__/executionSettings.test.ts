@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { buildExecutionEnv, parseRunExecutionSettings, resolveRunExecution } from '../executionSettings.js';
+import { generatePlaywrightConfig } from '../config.js';
+import { validateTestMetadata } from '../../storage/metadata.js';
+
+describe('run execution settings', () => {
+  it('parses request values and rejects invalid ones', () => {
+    expect(parseRunExecutionSettings(undefined)).toBeUndefined();
+    expect(parseRunExecutionSettings({ timeout: '', trace: '' })).toBeUndefined();
+    expect(parseRunExecutionSettings({ timeout: '180000', retries: 0, trace: 'off', video: 'on' })).toEqual({
+      timeout: 180000,
+      retries: 0,
+      trace: 'off',
+      video: 'on'
+    });
+
+    expect(() => parseRunExecutionSettings({ timeout: -1 })).toThrow('execution.timeout');
+    expect(() => parseRunExecutionSettings({ retries: 11 })).toThrow('execution.retries must be between 0 and 10');
+    expect(() => parseRunExecutionSettings({ screenshot: 'on-first-retry' })).toThrow(
+      'execution.screenshot must be one of on, off, only-on-failure'
+    );
+  });
+
+  it('lets run settings override test defaults field by field', () => {
+    const merged = resolveRunExecution({ timeout: 180000, retries: 2 }, { retries: 0, trace: 'off', screenshot: undefined });
+
+    expect(merged).toEqual({ timeout: 180000, retries: 0, trace: 'off' });
+    expect(resolveRunExecution(undefined, undefined)).toBeUndefined();
+    expect(buildExecutionEnv(merged)).toEqual({
+      TRAILWRIGHT_TIMEOUT: '180000',
+      TRAILWRIGHT_RETRIES: '0',
+      TRAILWRIGHT_TRACE: 'off'
+    });
+  });
+
+  it('is read by the generated config with the previous values as defaults', () => {
+    const config = generatePlaywrightConfig();
+
+    expect(config).toContain("timeout: envCount('TRAILWRIGHT_TIMEOUT', 45000)");
+    expect(config).toContain("retries: envCount('TRAILWRIGHT_RETRIES', 1)");
+    expect(config).toContain("trace: envMode('TRAILWRIGHT_TRACE', ['on', 'off', 'retain-on-failure', 'on-first-retry'], 'on')");
+    expect(config).toContain("video: envMode('TRAILWRIGHT_VIDEO', ['on', 'off', 'retain-on-failure', 'on-first-retry'], 'retain-on-failure')");
+  });
+
+  it('is validated in test metadata', () => {
+    const metadata = { id: 'checkout', name: 'Checkout', createdAt: '2025-01-01T00:00:00.000Z' };
+
+    expect(validateTestMetadata({ ...metadata, execution: { timeout: 180000 } })).toEqual([]);
+    expect(validateTestMetadata({ ...metadata, execution: { trace: 'always' } })).toEqual([
+      'execution.trace must be one of on, off, retain-on-failure, on-first-retry'
+    ]);
+  });
+});
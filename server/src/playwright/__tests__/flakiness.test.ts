@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { initStorage, saveTest } from '../../storage/index.js';
+import { collectAttempts, statusFromAttempts } from '../runner.js';
+import { computeFlakiness, listFlakyTests } from '../flakiness.js';
+import type { RunResult } from '../../types.js';
+
+process.env.TRAILWRIGHT_SKIP_PLAYWRIGHT_INSTALL = '1';
+
+function run(testId: string, day: number, status: RunResult['status'], extra: Partial<RunResult> = {}): RunResult {
+  const startedAt = `2025-01-${String(day).padStart(2, '0')}T10:00:00.000Z`;
+  return { id: `${testId}-${day}`, testId, status, duration: 1000, startedAt, endedAt: startedAt, ...extra };
+}
+
+describe('run attempts', () => {
+  const report = {
+    suites: [
+      {
+        title: 'checkout.spec.ts',
+        specs: [],
+        suites: [
+          {
+            title: 'Checkout',
+            specs: [
+              {
+                title: 'pays by card',
+                tests: [
+                  {
+                    projectName: 'chromium',
+                    results: [
+                      {
+                        retry: 0,
+                        status: 'timedOut',
+                        duration: 45000,
+                        error: { message: 'Timeout 45000ms exceeded' },
+                        steps: [{ title: 'Open cart' }, { title: 'Pay', error: { message: 'Timeout' } }]
+                      },
+                      { retry: 1, status: 'passed', duration: 3000, steps: [] }
+                    ]
+                  }
+                ]
+              }
+            ]
+          }
+        ]
+      }
+    ]
+  };
+
+  it('records every attempt, including nested suites', () => {
+    expect(collectAttempts(report)).toEqual([
+      {
+        testTitle: 'pays by card',
+        testIndex: 0,
+        browser: 'chromium',
+        retry: 0,
+        status: 'timedOut',
+        duration: 45000,
+        error: 'Timeout 45000ms exceeded',
+        failedStepTitle: 'Pay'
+      },
+      { testTitle: 'pays by card', testIndex: 0, browser: 'chromium', retry: 1, status: 'passed', duration: 3000 }
+    ]);
+    expect(collectAttempts(null)).toEqual([]);
+  });
+
+  it('marks runs that pass only after a retry as flaky', () => {
+    const attempts = collectAttempts(report);
+
+    expect(statusFromAttempts(attempts)).toEqual({ status: 'flaky' });
+    expect(statusFromAttempts(attempts.slice(0, 1))).toEqual({ status: 'failed', error: 'Timeout 45000ms exceeded' });
+    expect(statusFromAttempts(attempts.slice(1))).toEqual({ status: 'passed' });
+  });
+
+  it('fails the run when one of two same-titled data rows never passes', () => {
+    const rowResults = (first: string, second: string) => [
+      { retry: 0, status: first, duration: 1000, error: { message: `Row ${first}` } },
+      { retry: 1, status: second, duration: 1000, ...(second === 'failed' ? { error: { message: 'Row A failed again' } } : {}) }
+    ];
+    const rows = {
+      suites: [
+        {
+          title: 'search.spec.ts',
+          specs: [
+            { title: 'Search - Socks', tests: [{ projectName: 'chromium', results: rowResults('failed', 'failed') }] },
+            { title: 'Search - Socks', tests: [{ projectName: 'chromium', results: rowResults('failed', 'passed') }] }
+          ]
+        }
+      ]
+    };
+
+    expect(statusFromAttempts(collectAttempts(rows))).toEqual({ status: 'failed', error: 'Row A failed again' });
+  });
+});
+
+describe('computeFlakiness', () => {
+  it('scores flaky runs and pass/fail flips over recent history', () => {
+    const summary = computeFlakiness('checkout', 'Checkout', [
+      run('checkout', 4, 'passed'),
+      run('checkout', 1, 'passed'),
+      run('checkout', 2, 'failed', { failedStepTitles: ['Pay'] }),
+      run('checkout', 5, 'stopped'),
+      run('checkout', 3, 'flaky', {
+        attempts: [
+          { testTitle: 'Checkout', retry: 0, status: 'failed', duration: 10, failedStepTitle: 'Pay' },
+          { testTitle: 'Checkout', retry: 1, status: 'failed', duration: 10, failedStepTitle: 'Pay' },
+          { testTitle: 'Checkout', retry: 2, status: 'passed', duration: 10 }
+        ]
+      })
+    ]);
+
+    expect(summary).toEqual({
+      testId: 'checkout',
+      testName: 'Checkout',
+      score: 0.75,
+      runs: 4,
+      flakyRuns: 1,
+      failedRuns: 1,
+      flips: 2,
+      lastFlakyAt: '2025-01-03T10:00:00.000Z',
+      failingSteps: [{ title: 'Pay', count: 2 }]
+    });
+    expect(computeFlakiness('login', 'Login', [run('login', 1, 'passed'), run('login', 2, 'passed')]).score).toBe(0);
+  });
+});
+
+describe('listFlakyTests', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = path.join(os.tmpdir(), 'trailwright-flakiness-' + Date.now());
+    await initStorage(dataDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  async function writeRun(result: RunResult): Promise<void> {
+    const runDir = path.join(dataDir, 'runs', result.id);
+    await fs.mkdir(runDir, { recursive: true });
+    await fs.writeFile(path.join(runDir, 'result.json'), JSON.stringify(result));
+  }
+
+  it('returns the worst offenders first and leaves out stable tests', async () => {
+    const code = "import { test } from '@playwright/test';\ntest('t', async () => {});\n";
+    for (const [id, name] of [['checkout', 'Checkout'], ['search', 'Search'], ['login', 'Login']]) {
+      await saveTest(dataDir, { metadata: { id, name, createdAt: '2025-01-01T00:00:00.000Z' }, code });
+    }
+
+    await writeRun(run('checkout', 1, 'flaky'));
+    await writeRun(run('checkout', 2, 'flaky'));
+    await writeRun(run('search', 1, 'passed'));
+    await writeRun(run('search', 2, 'passed'));
+    await writeRun(run('search', 3, 'flaky'));
+    await writeRun(run('login', 1, 'passed'));
+    await writeRun(run('deleted', 1, 'flaky'));
+
+    const flaky = await listFlakyTests(dataDir);
+    expect(flaky.map((summary) => [summary.testId, summary.testName, summary.score])).toEqual([
+      ['checkout', 'Checkout', 1],
+      ['search', 'Search', 1 / 3]
+    ]);
+    expect(await listFlakyTests(dataDir, { limit: 1 })).toHaveLength(1);
+  });
+});
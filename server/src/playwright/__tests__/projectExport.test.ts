@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { initStorage, saveTest, upsertCredential, VariableStorage } from '../../storage/index.js';
+import { buildPlaywrightProject } from '../projectExport.js';
+import { TestCodeGenerator } from '../testCodeGenerator.js';
+
+process.env.TRAILWRIGHT_SKIP_PLAYWRIGHT_INSTALL = '1';
+
+describe('buildPlaywrightProject', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = path.join(os.tmpdir(), 'trailwright-project-export-' + Date.now());
+    await initStorage(dataDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('packages specs, data, credentials and config', async () => {
+    const credential = await upsertCredential(dataDir, { name: 'Shop admin', username: 'admin', password: 'secret' });
+    const steps = [{ number: 1, qaSummary: 'Search', playwrightCode: "await page.fill('#q', '{{product}}');" }];
+    const variables = [{ name: 'product', type: 'string' as const }];
+    const code = new TestCodeGenerator().generateTestFile({
+      testId: 'search',
+      testName: 'Search',
+      startUrl: 'https://shop.example.com',
+      steps,
+      variables
+    });
+    await saveTest(dataDir, {
+      metadata: {
+        id: 'search',
+        name: 'Search',
+        createdAt: '2025-01-01T00:00:00.000Z',
+        steps,
+        variables,
+        credentialId: credential.id
+      },
+      code
+    });
+    await new VariableStorage(dataDir).writeVariables('search', [{ product: 'Socks' }]);
+
+    const files = await buildPlaywrightProject(dataDir, ['search']);
+    const byPath = new Map(files.map((file) => [file.path, file.content.toString()]));
+
+    expect(byPath.get('tests/search.spec.ts')).not.toContain('TRAILWRIGHT_METADATA');
+    expect(byPath.get('tests/search.spec.ts')).toMatch(/^import \{ test, expect \} from '@playwright\/test';/);
+    expect(byPath.get('test-data/search.csv')).toContain('Socks');
+    expect(byPath.get('playwright.config.ts')).toContain("process.env.TRAILWRIGHT_PROJECT_DIR || __dirname");
+    expect(byPath.get('playwright.config.ts')).not.toContain('trailwright-reporter');
+
+    const packageJson = JSON.parse(byPath.get('package.json')!);
+    expect(packageJson.dependencies).toMatchObject({
+      '@trailwright/credentials': 'file:./trailwright-credentials',
+      'csv-parse': expect.stringMatching(/^\^5\./)
+    });
+    expect(packageJson.devDependencies['@playwright/test']).toMatch(/^\^1\./);
+
+    expect(JSON.parse(byPath.get('trailwright-credentials/credentials.json')!)).toEqual([
+      { id: credential.id, name: 'Shop admin', username: 'admin' }
+    ]);
+    expect(byPath.get('.env.example')).toBe(
+      'TRAILWRIGHT_CREDENTIAL_SHOP_ADMIN_USERNAME=admin\nTRAILWRIGHT_CREDENTIAL_SHOP_ADMIN_PASSWORD=\n'
+    );
+    expect(files.some((file) => file.content.toString().includes('secret'))).toBe(false);
+  });
+
+  it('rejects unknown tests', async () => {
+    await expect(buildPlaywrightProject(dataDir, ['missing'])).rejects.toThrow('Test not found: missing');
+  });
+});
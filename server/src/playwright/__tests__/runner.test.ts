@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import {
+  initStorage,
+  saveTest,
+  createStepBlock,
+  upsertCredential,
+  getSessionStatePath,
+  VariableStorage
+} from '../../storage/index.js';
+import { createRunExecutionContext, finalizeRunExecution, prepareRunSessionState } from '../runner.js';
+import { STEP_BLOCKS_MODULE, TestCodeGenerator } from '../testCodeGenerator.js';
+
+process.env.TRAILWRIGHT_SKIP_PLAYWRIGHT_INSTALL = '1';
+
+function playwrightTest(title: string, status: string, error?: string) {
+  return {
+    title,
+    tests: [
+      {
+        projectName: 'chromium',
+        results: [{ status, duration: 1200, attachments: [], ...(error ? { error: { message: error } } : {}) }]
+      }
+    ]
+  };
+}
+
+describe('finalizeRunExecution row results', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = path.join(os.tmpdir(), 'trailwright-runner-test-' + Date.now());
+    await initStorage(dataDir);
+    await saveTest(dataDir, {
+      metadata: {
+        id: 'search',
+        name: 'Search',
+        createdAt: new Date().toISOString(),
+        dataSource: 'search.csv',
+        variables: [{ name: 'term' }]
+      },
+      code: "test('Search', async () => {});"
+    });
+    await new VariableStorage(dataDir).writeVariables('search', [
+      { term: 'shoes' },
+      { term: 'hats' },
+      { term: 'socks' }
+    ]);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('maps each generated row test back to its CSV row', async () => {
+    const context = await createRunExecutionContext(dataDir, 'search', { browser: 'chromium' });
+    const results = {
+      suites: [
+        {
+          specs: [
+            playwrightTest('Test: term=socks', 'passed'),
+            playwrightTest('Test: term=shoes', 'passed'),
+            playwrightTest('Test: term=hats', 'failed', 'Expected results to be visible')
+          ]
+        }
+      ]
+    };
+    await fs.writeFile(path.join(dataDir, 'runs', 'latest', 'results.json'), JSON.stringify(results));
+
+    const result = await finalizeRunExecution(context, 1, '');
+
+    expect(result.rowResults).toEqual([
+      expect.objectContaining({ rowIndex: 0, rowData: { term: 'shoes' }, status: 'passed', duration: 1200 }),
+      expect.objectContaining({
+        rowIndex: 1,
+        rowData: { term: 'hats' },
+        status: 'failed',
+        testTitle: 'Test: term=hats',
+        error: 'Expected results to be visible'
+      }),
+      expect.objectContaining({ rowIndex: 2, rowData: { term: 'socks' }, status: 'passed' })
+    ]);
+  });
+
+  it('omits rows that never ran', async () => {
+    const context = await createRunExecutionContext(dataDir, 'search', { browser: 'chromium' });
+    const results = {
+      suites: [{ specs: [playwrightTest('Test: term=shoes', 'passed'), playwrightTest('Test: term=hats', 'skipped')] }]
+    };
+    await fs.writeFile(path.join(dataDir, 'runs', 'latest', 'results.json'), JSON.stringify(results));
+
+    const result = await finalizeRunExecution(context, 0, '');
+
+    expect(result.rowResults?.map((row) => row.rowIndex)).toEqual([0]);
+  });
+
+  it('rejects row selection for specs that cannot read it', async () => {
+    await expect(
+      createRunExecutionContext(dataDir, 'search', { browser: 'chromium', rowIndexes: [1] })
+    ).rejects.toThrow('does not support running selected rows');
+  });
+});
+
+describe('createRunExecutionContext partial runs', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = path.join(os.tmpdir(), 'trailwright-partial-run-' + Date.now());
+    await initStorage(dataDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('points the step blocks import of the partial copy at the real module', async () => {
+    await createStepBlock(dataDir, {
+      name: 'Login',
+      steps: [{ number: 1, qaSummary: 'Fill username', playwrightCode: "await page.getByLabel('Username').fill('demo');" }]
+    });
+    const helper = TestCodeGenerator.blockFunctionName('login');
+    await saveTest(dataDir, {
+      metadata: { id: 'checkout', name: 'Checkout', createdAt: new Date().toISOString() },
+      code: `import { test } from '@playwright/test';
+import { ${helper} } from './${STEP_BLOCKS_MODULE}';
+
+test('Checkout', async ({ page }) => {
+  await test.step('Log in', async () => {
+    await ${helper}(page);
+  });
+  await test.step('Pay', async () => {
+    await page.getByRole('button', { name: 'Pay' }).click();
+  });
+});`
+    });
+
+    const context = await createRunExecutionContext(dataDir, 'checkout', { browser: 'chromium', startFromStep: 2 });
+    const partial = await fs.readFile(context.testFile, 'utf-8');
+    const importPath = /from '([^']*trailwright-blocks)'/.exec(partial)?.[1];
+
+    expect(context.derivedTestFile).toBe(true);
+    expect(importPath).toBe(`../${STEP_BLOCKS_MODULE}`);
+    await expect(fs.access(path.resolve(path.dirname(context.testFile), `${importPath}.ts`))).resolves.toBeUndefined();
+    expect(partial).toContain("await test.step.skip('Log in'");
+  });
+});
+
+describe('prepareRunSessionState', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = path.join(os.tmpdir(), 'trailwright-run-session-' + Date.now());
+    await initStorage(dataDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('attaches a fresh saved session after the run context exists', async () => {
+    const credential = await upsertCredential(dataDir, {
+      name: 'Admin',
+      username: 'admin',
+      password: 'secret',
+      sessionSetupTestId: 'login'
+    });
+    await saveTest(dataDir, {
+      metadata: { id: 'checkout', name: 'Checkout', createdAt: new Date().toISOString(), credentialId: credential.id },
+      code: "test('Checkout', async () => {});"
+    });
+    const statePath = getSessionStatePath(dataDir, credential.id);
+    await fs.mkdir(path.dirname(statePath), { recursive: true });
+    await fs.writeFile(statePath, JSON.stringify({ cookies: [], origins: [] }));
+
+    const context = await createRunExecutionContext(dataDir, 'checkout', { browser: 'chromium' });
+    expect(context.sessionState).toBeUndefined();
+
+    const messages: string[] = [];
+    await prepareRunSessionState(context, (message) => messages.push(message));
+
+    expect(context.sessionState).toEqual({ credentialId: credential.id, path: statePath });
+    expect(messages).toEqual([]);
+  });
+});
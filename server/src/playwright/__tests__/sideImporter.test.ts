@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { initStorage, loadTest } from '../../storage/index.js';
+import { convertSideTest, importSideFiles, seleniumLocator } from '../sideImporter.js';
+
+process.env.TRAILWRIGHT_SKIP_PLAYWRIGHT_INSTALL = '1';
+
+const SIDE_PROJECT = {
+  id: 'project-1',
+  version: '2.0',
+  name: 'Legacy shop',
+  url: 'https://shop.example.com',
+  tests: [
+    {
+      id: 'test-1',
+      name: 'Guest checkout',
+      commands: [
+        { command: 'open', target: '/cart', value: '' },
+        { command: 'click', target: 'linkText=Checkout', value: '' },
+        { command: 'type', target: 'id=email', value: "o'brien@example.com" },
+        { command: 'sendKeys', target: 'name=q', value: 'socks${KEY_ENTER}' },
+        { command: 'select', target: 'css=select.country', value: 'label=Canada' },
+        { command: '//click', target: 'id=disabled', value: '' },
+        { command: 'waitForElementVisible', target: 'xpath=//div[@class="total"]', value: '30000' },
+        { command: 'verifyText', target: 'id=total', value: '$10', comment: 'Total includes shipping' },
+        { command: 'storeText', target: 'id=order', value: 'orderId' },
+        { command: 'click', target: 'ui=button', targets: [['ui=button', 'ui'], ['css=#pay', 'css:finder']], value: '' }
+      ]
+    }
+  ],
+  suites: []
+};
+
+describe('seleniumLocator', () => {
+  it('maps Selenium locator strategies to Playwright locators', () => {
+    expect(seleniumLocator('id=login')).toBe("page.locator('#login')");
+    expect(seleniumLocator('id=user.name')).toBe('page.locator(\'[id="user.name"]\')');
+    expect(seleniumLocator('name=q')).toBe('page.locator(\'[name="q"]\')');
+    expect(seleniumLocator('css=.btn > span')).toBe("page.locator('.btn > span')");
+    expect(seleniumLocator('xpath=//a[1]')).toBe("page.locator('xpath=//a[1]')");
+    expect(seleniumLocator('//a[1]')).toBe("page.locator('xpath=//a[1]')");
+    expect(seleniumLocator('linkText=Sign in')).toBe("page.getByRole('link', { name: 'Sign in', exact: true })");
+    expect(seleniumLocator('partialLinkText=Sign')).toBe("page.getByRole('link', { name: 'Sign' })");
+    expect(seleniumLocator('ui=button')).toBeNull();
+  });
+});
+
+describe('convertSideTest', () => {
+  it('translates commands and flags the ones it cannot', () => {
+    const converted = convertSideTest(SIDE_PROJECT.tests[0], SIDE_PROJECT.url);
+
+    expect(converted.startUrl).toBe('https://shop.example.com/cart');
+    expect(converted.steps.map(({ step }) => step.playwrightCode)).toEqual([
+      "await page.getByRole('link', { name: 'Checkout', exact: true }).click();",
+      "await page.locator('#email').fill('o\\'brien@example.com');",
+      "await page.locator('[name=\"q\"]').pressSequentially('socks');\nawait page.locator('[name=\"q\"]').press('Enter');",
+      "await page.locator('select.country').selectOption({ label: 'Canada' });",
+      "await page.locator('xpath=//div[@class=\"total\"]').first().waitFor({ state: 'visible', timeout: 30000 });",
+      "await expect.soft(page.locator('#total')).toHaveText('$10');",
+      '// TODO: translate Selenium IDE command\n// storeText | id=order | orderId',
+      "await page.locator('#pay').click();"
+    ]);
+    expect(converted.steps.map(({ step }) => step.stepNumber)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(converted.steps[0].step.qaSummary).toBe('Click "Checkout"');
+    expect(converted.steps[5].step.qaSummary).toBe('Total includes shipping');
+    expect(converted.steps[6].step.qaSummary).toBe('TODO: storeText id=order');
+    expect(converted.steps[6].needsReview).toBe('Selenium command "storeText" has no Playwright translation');
+    expect(converted.steps.filter((step) => step.needsReview)).toHaveLength(1);
+  });
+});
+
+describe('importSideFiles', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = path.join(os.tmpdir(), 'trailwright-side-import-' + Date.now());
+    await initStorage(dataDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('saves each Selenium test as a generated spec with review flags', async () => {
+    const result = await importSideFiles(
+      dataDir,
+      [
+        { path: 'legacy.side', content: JSON.stringify(SIDE_PROJECT) },
+        { path: 'broken.side', content: '{"name": "no tests"}' }
+      ],
+      { folder: 'Legacy' }
+    );
+
+    expect(result.imported.map((test) => test.id)).toEqual(['guest-checkout']);
+    expect(result.skipped).toEqual([{ path: 'broken.side', reason: 'Not a Selenium IDE project (no tests array)' }]);
+
+    const saved = await loadTest(dataDir, 'guest-checkout');
+    expect(saved.metadata.folder).toBe('Legacy');
+    expect(saved.metadata.startUrl).toBe('https://shop.example.com/cart');
+    expect(saved.metadata.steps?.[6]).toMatchObject({ number: 7, needsReview: expect.stringContaining('storeText') });
+    expect(saved.code).toContain("await page.goto(\"https://shop.example.com/cart\");");
+    expect(saved.code).toContain("await test.step('Total includes shipping', async () => {");
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { initStorage, loadTest, listTests } from '../../storage/index.js';
+import { describeStepCode, importSpecFiles, parseSpecFile } from '../specImporter.js';
+
+process.env.TRAILWRIGHT_SKIP_PLAYWRIGHT_INSTALL = '1';
+
+const CODEGEN_SPEC = `import { test, expect } from '@playwright/test';
+
+test('test', async ({ page }) => {
+  await page.goto('https://shop.example.com/');
+  await page.getByRole('link', { name: 'Socks' }).click();
+  await page.getByLabel('Quantity').fill('2');
+  await expect(page.getByText('Added to cart')).toBeVisible();
+});
+`;
+
+const STEPPED_SPEC = `import { test, expect, type Page } from '@playwright/test';
+
+const login = async (page: Page) => {
+  await page.getByLabel('Email').fill('qa@example.com');
+};
+
+test.describe('Account', () => {
+  test('updates profile', async ({ page }) => {
+    await page.goto('https://app.example.com/login');
+    await test.step('Log in', async () => {
+      await login(page);
+      await page.getByRole('button', { name: 'Sign in' }).click();
+    });
+    await test.step('Change display name', async () => {
+      await page.getByLabel('Display name').fill('QA');
+    });
+  });
+
+  test('signs out', async ({ page }) => {
+    await page.goto('https://app.example.com/');
+    await page.getByRole('button', { name: 'Sign out' }).click();
+  });
+});
+`;
+
+const FIXTURE_SPEC = `import { test, expect } from '@playwright/test';
+
+test('totals', async ({ page, request }) => {
+  await page.goto('https://shop.example.com/cart');
+  await request.post('https://shop.example.com/api/cart', { data: { sku: 'socks' } });
+  await page.reload();
+  const total = await page.locator('#total').textContent();
+  expect(total).toBe('10');
+});
+`;
+
+const DESCRIBE_SETUP_SPEC = `import { test, expect } from '@playwright/test';
+
+test.describe('Orders', () => {
+  test.use({ locale: 'de-DE' });
+
+  test.beforeEach(async ({ page }) => {
+    await page.goto('https://shop.example.com/login');
+    await page.getByLabel('Email').fill('qa@example.com');
+  });
+
+  test('lists orders', async ({ page }) => {
+    await page.getByRole('link', { name: 'Orders' }).click();
+  });
+});
+`;
+
+describe('parseSpecFile', () => {
+  it('reads titles, start URLs and test.step blocks', () => {
+    const parsed = parseSpecFile(STEPPED_SPEC);
+
+    expect(parsed.tests.map((test) => test.title)).toEqual(['Account › updates profile', 'Account › signs out']);
+    expect(parsed.tests[0].startUrl).toBe('https://app.example.com/login');
+    expect(parsed.tests[0].steps).toEqual([
+      {
+        qaSummary: 'Log in',
+        playwrightCode: "await login(page);\nawait page.getByRole('button', { name: 'Sign in' }).click();"
+      },
+      { qaSummary: 'Change display name', playwrightCode: "await page.getByLabel('Display name').fill('QA');" }
+    ]);
+    expect(parsed.preamble).toContain("import { type Page } from '@playwright/test';");
+    expect(parsed.preamble).toContain('const login = async');
+  });
+
+  it('turns top-level statements into steps when there are no test.step blocks', () => {
+    const [test] = parseSpecFile(CODEGEN_SPEC).tests;
+
+    expect(test.startUrl).toBe('https://shop.example.com/');
+    expect(test.steps.map((step) => step.playwrightCode)).toEqual([
+      "await page.getByRole('link', { name: 'Socks' }).click();",
+      "await page.getByLabel('Quantity').fill('2');",
+      "await expect(page.getByText('Added to cart')).toBeVisible();"
+    ]);
+    expect(test.steps.every((step) => step.qaSummary === undefined)).toBe(true);
+  });
+
+  it('keeps declarations in the step that uses them and carries the fixtures over', () => {
+    const [test] = parseSpecFile(FIXTURE_SPEC).tests;
+
+    expect(test.fixtures).toBe('{ page, request }');
+    expect(test.steps.map((step) => step.playwrightCode)).toEqual([
+      "await request.post('https://shop.example.com/api/cart', { data: { sku: 'socks' } });",
+      'await page.reload();',
+      "const total = await page.locator('#total').textContent();\nexpect(total).toBe('10');"
+    ]);
+  });
+
+  it('keeps describe-level hooks and test.use with the tests inside', () => {
+    const [test] = parseSpecFile(DESCRIBE_SETUP_SPEC).tests;
+
+    expect(test.setup).toBe(
+      "test.use({ locale: 'de-DE' });\n" +
+        "test.beforeEach(async ({ page }) => {\n  await page.goto('https://shop.example.com/login');\n" +
+        "  await page.getByLabel('Email').fill('qa@example.com');\n});"
+    );
+  });
+
+  it('describes code when no summarizer is available', () => {
+    expect(describeStepCode("await page.getByRole('link', { name: 'Socks' }).click();")).toBe('Click "Socks"');
+    expect(describeStepCode("await page.getByLabel('Quantity').fill('2');")).toBe('Fill in "Quantity"');
+    expect(describeStepCode("await expect(page.getByText('Added')).toBeVisible();")).toBe('Verify "Added"');
+  });
+});
+
+describe('importSpecFiles', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = path.join(os.tmpdir(), 'trailwright-spec-import-' + Date.now());
+    await initStorage(dataDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('rebuilds a codegen spec with summarized steps', async () => {
+    const result = await importSpecFiles(dataDir, [{ path: 'e2e/add-to-cart.spec.ts', content: CODEGEN_SPEC }], {
+      folder: 'Imported',
+      summarizeSteps: async (blocks) => blocks.map((_, index) => `AI step ${index + 1}`)
+    });
+
+    expect(result.skipped).toEqual([]);
+    const { metadata, code } = await loadTest(dataDir, result.imported[0].id);
+    expect(metadata).toMatchObject({
+      name: 'test',
+      startUrl: 'https://shop.example.com/',
+      folder: 'Imported',
+      tags: ['imported'],
+      description: 'Imported from e2e/add-to-cart.spec.ts'
+    });
+    expect(metadata.steps.map((step) => step.qaSummary)).toEqual(['AI step 1', 'AI step 2', 'AI step 3']);
+    expect(code).toContain("await test.step('AI step 2', async () => {");
+    expect(code).toContain("await page.goto(\"https://shop.example.com/\");");
+  });
+
+  it('keeps multi-test files together unless asked to split them', async () => {
+    const files = [{ path: 'account.spec.ts', content: STEPPED_SPEC }];
+
+    const together = await importSpecFiles(dataDir, files);
+    expect(together.imported).toHaveLength(1);
+    expect(together.imported[0].name).toBe('Account');
+    expect(together.imported[0].steps.map((step) => step.qaSummary)).toEqual([
+      'Account › updates profile: Log in',
+      'Account › updates profile: Change display name',
+      'Click "Sign out"'
+    ]);
+    const kept = await loadTest(dataDir, together.imported[0].id);
+    expect(kept.code).toContain("test.describe('Account'");
+
+    const split = await importSpecFiles(dataDir, files, { split: true });
+    expect(split.imported.map((test) => test.name)).toEqual(['Account › updates profile', 'Account › signs out']);
+    const profile = await loadTest(dataDir, split.imported[0].id);
+    expect(profile.code).toContain('const login = async');
+    expect(profile.code).toContain("import { type Page } from '@playwright/test';");
+
+    expect(await listTests(dataDir)).toHaveLength(3);
+  });
+
+  it('rebuilds specs with their fixtures, variables and describe setup in scope', async () => {
+    const result = await importSpecFiles(dataDir, [
+      { path: 'totals.spec.ts', content: FIXTURE_SPEC },
+      { path: 'orders.spec.ts', content: DESCRIBE_SETUP_SPEC }
+    ]);
+
+    const totals = await loadTest(dataDir, result.imported[0].id);
+    expect(totals.code).toContain("test('totals', async ({ page, request }) => {");
+    expect(totals.code).toContain(
+      "async () => {\n    const total = await page.locator('#total').textContent();\nexpect(total).toBe('10');\n  });"
+    );
+
+    const orders = await loadTest(dataDir, result.imported[1].id);
+    expect(orders.code).toContain("test.use({ locale: 'de-DE' });");
+    expect(orders.code).toContain("await page.goto('https://shop.example.com/login');");
+    expect(orders.code.indexOf('test.beforeEach(')).toBeLessThan(orders.code.indexOf("test('Orders › lists orders'"));
+  });
+
+  it('skips files without tests', async () => {
+    const result = await importSpecFiles(dataDir, [{ path: 'helpers.ts', content: 'export const x = 1;\n' }]);
+    expect(result).toEqual({ imported: [], skipped: [{ path: 'helpers.ts', reason: 'No test() calls found' }] });
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { initStorage, saveTest, loadTest } from '../../storage/index.js';
+import { extractStepsFromCode, skipStepsBefore, stepsFromCode, syncTestSteps } from '../stepExtractor.js';
+
+process.env.TRAILWRIGHT_SKIP_PLAYWRIGHT_INSTALL = '1';
+
+const sampleCode = `test('Checkout', async ({ page }) => {
+  await page.goto("https://example.com");
+
+  await test.step('Open cart', async () => {
+    await page.getByRole('link', { name: 'Cart' }).click();
+  });
+
+  await test.step("Fill address", async () => {
+    await page.getByLabel('Street').fill('Main St');
+  });
+
+  await test.step('Place order', async () => {
+    await page.getByRole('button', { name: 'Place order' }).click();
+  });
+});`;
+
+describe('skipStepsBefore', () => {
+  it('returns code unchanged when starting from the beginning', () => {
+    expect(skipStepsBefore(sampleCode, 0)).toBe(sampleCode);
+    expect(skipStepsBefore(sampleCode, 1)).toBe(sampleCode);
+  });
+
+  it('skips every step before the chosen step', () => {
+    const code = skipStepsBefore(sampleCode, 3);
+
+    expect(code).toContain("await test.step.skip('Open cart'");
+    expect(code).toContain('await test.step.skip("Fill address"');
+    expect(code).toContain("await test.step('Place order'");
+  });
+
+  it('keeps the start URL navigation', () => {
+    const code = skipStepsBefore(sampleCode, 2);
+
+    expect(code).toContain('await page.goto("https://example.com");');
+    expect(code.match(/test\.step\.skip\(/g)).toHaveLength(1);
+  });
+
+  it('skips all steps when the start step is past the end', () => {
+    const code = skipStepsBefore(sampleCode, 10);
+
+    expect(code.match(/test\.step\.skip\(/g)).toHaveLength(3);
+  });
+
+  it('keeps running the outer steps a nested start step sits in', () => {
+    const nestedCode = `test('Checkout', async ({ page }) => {
+  await test.step('Open cart', async () => {
+    await page.getByRole('link', { name: 'Cart' }).click();
+  });
+
+  await test.step('Pay', async () => {
+    await test.step('Enter card', async () => {
+      await page.getByLabel('Card').fill('4242');
+    });
+    await test.step('Confirm', async () => {
+      await page.getByRole('button', { name: 'Pay' }).click();
+    });
+  });
+});`;
+
+    const code = skipStepsBefore(nestedCode, 4);
+
+    expect(code).toContain("await test.step.skip('Open cart'");
+    expect(code).toContain("await test.step('Pay'");
+    expect(code).toContain("await test.step.skip('Enter card'");
+    expect(code).toContain("await test.step('Confirm'");
+  });
+});
+
+describe('extractStepsFromCode', () => {
+  it('reads titles, line ranges and bodies', () => {
+    const steps = extractStepsFromCode(sampleCode);
+
+    expect(steps.map((step) => step.title)).toEqual(['Open cart', 'Fill address', 'Place order']);
+    expect(steps[0]).toMatchObject({
+      number: 1,
+      lineNumber: 4,
+      endLineNumber: 6,
+      depth: 0,
+      code: "await page.getByRole('link', { name: 'Cart' }).click();"
+    });
+  });
+
+  it('handles escaped quotes, template literals and nested steps', () => {
+    const code = `test('Profile', async ({ page }) => {
+  await test.step('Open \\'My account\\'', async () => {
+    await test.step(\`Search \${row.name}\`, async () => {
+      await page.getByRole('searchbox').fill('x');
+    });
+    await page.getByText('Saved').click();
+  });
+});`;
+    const steps = extractStepsFromCode(code);
+
+    expect(steps).toHaveLength(2);
+    expect(steps[0]).toMatchObject({ title: "Open 'My account'", depth: 0, lineNumber: 2, endLineNumber: 7 });
+    expect(steps[0].code).toContain("await page.getByText('Saved').click();");
+    expect(steps[1]).toMatchObject({ title: 'Search ${row.name}', depth: 1, parentNumber: 1 });
+  });
+
+  it('ignores test.step text inside strings and comments', () => {
+    const code = `// test.step('commented', ...)
+test('x', async ({ page }) => {
+  await page.fill('#q', "test.step('not a step')");
+  await test.step('Real', async () => {});
+});`;
+    expect(extractStepsFromCode(code).map((step) => step.title)).toEqual(['Real']);
+  });
+});
+
+describe('stepsFromCode', () => {
+  it('restores variable placeholders and keeps block steps', () => {
+    const code = `for (const row of testData) {
+  test(\`Search\`, async ({ page }) => {
+    await test.step('Log in', async () => {
+      await blockLogin(page);
+    });
+    await test.step('Search product', async () => {
+      await page.getByRole('searchbox').fill(\`\${row.product}\`);
+    });
+  });
+}`;
+    const steps = stepsFromCode(
+      code,
+      [{ number: 1, qaSummary: 'Log in', playwrightCode: 'await page.fill("#user", "qa");', blockId: 'login' }],
+      { variables: true }
+    );
+
+    expect(steps).toEqual([
+      { number: 1, qaSummary: 'Log in', playwrightCode: 'await page.fill("#user", "qa");', blockId: 'login' },
+      { number: 2, qaSummary: 'Search product', playwrightCode: "await page.getByRole('searchbox').fill('{{product}}');" }
+    ]);
+  });
+});
+
+describe('syncTestSteps', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = path.join(os.tmpdir(), 'trailwright-step-sync-' + Date.now());
+    await initStorage(dataDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('rewrites metadata steps from code edited by hand', async () => {
+    await saveTest(dataDir, {
+      metadata: {
+        id: 'checkout',
+        name: 'Checkout',
+        createdAt: '2025-01-01T00:00:00.000Z',
+        steps: [{ number: 1, qaSummary: 'Open cart', playwrightCode: 'await page.click("#cart");' }]
+      },
+      code: sampleCode
+    });
+
+    const result = await syncTestSteps(dataDir, 'checkout');
+    expect(result.changed).toBe(true);
+    const { metadata, code } = await loadTest(dataDir, 'checkout');
+    expect(metadata.steps?.map((step) => step.qaSummary)).toEqual(['Open cart', 'Fill address', 'Place order']);
+    expect(metadata.steps?.[1].playwrightCode).toBe("await page.getByLabel('Street').fill('Main St');");
+    expect(code.trim()).toBe(sampleCode);
+
+    expect((await syncTestSteps(dataDir, 'checkout')).changed).toBe(false);
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
+import ts from 'typescript';
 import { TestCodeGenerator } from '../testCodeGenerator.js';
-import type { TestMetadata, VariableDefinition } from '../../types.js';
+import type { StepBlock, TestMetadata, VariableDefinition } from '../../types.js';
 import type { RecordedStep } from '../../../../shared/types.js';
 
 describe('TestCodeGenerator', () => {
@@ -111,6 +112,20 @@ describe('TestCodeGenerator', () => {
       expect(code).toContain('test(`Test: product=${row.product}, color=${row.color}`');
     });
 
+    it('narrows CSV rows from the runner row selection env vars', () => {
+      const code = generator.generateTestFile({
+        testId: 'test-var-rows',
+        testName: 'Row selection test',
+        startUrl: 'https://example.com',
+        steps: sampleSteps,
+        variables
+      });
+
+      expect(code).toContain('process.env.TRAILWRIGHT_ROW_INDEXES');
+      expect(code).toContain('process.env.TRAILWRIGHT_ROW_FILTER');
+      expect(code).toContain('rowIndexes.includes(index)');
+    });
+
     it('converts {{varName}} placeholders to ${row.varName} in step code', () => {
       const stepsWithVariables: RecordedStep[] = [
         {
@@ -255,4 +270,102 @@ describe('TestCodeGenerator', () => {
       expect(code).toContain("await page.fill('#search', `${row.product} ${row.color}`);");
     });
   });
+
+  describe('shared step blocks', () => {
+    const loginBlock: StepBlock = {
+      id: 'login',
+      name: 'Login',
+      description: 'Signs in through the login form',
+      steps: [
+        { number: 1, qaSummary: 'Fill username', playwrightCode: "await page.getByLabel('Username').fill('{{username}}');" },
+        { number: 2, qaSummary: 'Submit', playwrightCode: "await page.getByRole('button', { name: 'Sign in' }).click();" }
+      ],
+      variables: [{ name: 'username', type: 'string', sampleValue: 'demo' }],
+      createdAt: '2025-01-01T00:00:00.000Z'
+    };
+
+    it('emits one helper per block with variables as defaulted parameters', () => {
+      const code = generator.generateStepBlocksModule([
+        loginBlock,
+        {
+          id: 'accept-cookie-banner',
+          name: 'Accept cookie banner',
+          steps: [{ number: 1, qaSummary: 'Accept', playwrightCode: "await page.getByRole('button', { name: 'Accept' }).click();" }],
+          createdAt: '2025-01-01T00:00:00.000Z'
+        }
+      ]);
+
+      expect(code).toContain("import { test, expect, type Page } from '@playwright/test';");
+      expect(code).toContain(
+        'export async function blockLogin(page: Page, { username = "demo" }: { username?: string } = {}): Promise<void> {'
+      );
+      expect(code).toContain("await page.getByLabel('Username').fill(`${username}`);");
+      expect(code).toContain("await test.step('Fill username', async () => {");
+      expect(code).toContain('export async function blockAcceptCookieBanner(page: Page): Promise<void> {');
+    });
+
+    it('imports referenced blocks and calls them with their arguments', () => {
+      const steps = [
+        { qaSummary: 'Login', playwrightCode: '', blockId: 'login', blockArgs: { username: '{{user}}' } },
+        ...sampleSteps
+      ];
+
+      const simple = generator.generateTestFile({
+        testId: 'test-block',
+        testName: 'Uses a block',
+        startUrl: 'https://example.com',
+        steps
+      });
+      expect(simple).toContain("import { blockLogin } from './trailwright-blocks';");
+      expect(simple).toContain("await test.step('Login', async () => {\n    await blockLogin(page, { username: \"{{user}}\" });");
+
+      const parameterized = generator.generateTestFile({
+        testId: 'test-block-vars',
+        testName: 'Uses a block with data',
+        startUrl: 'https://example.com',
+        steps,
+        variables: [{ name: 'user', type: 'string' }]
+      });
+      expect(parameterized).toContain('await blockLogin(page, { username: `${row.user}` });');
+    });
+
+    it('derives valid function names from block ids', () => {
+      expect(TestCodeGenerator.blockFunctionName('accept-cookie-banner')).toBe('blockAcceptCookieBanner');
+      expect(TestCodeGenerator.blockFunctionName('2fa-login')).toBe('block2faLogin');
+    });
+
+    it('never clashes with the module imports, the page parameter or reserved words', () => {
+      const names = ['test', 'expect', 'page', 'delete', 'new', 'switch', 'default'].map((id) =>
+        TestCodeGenerator.blockFunctionName(id)
+      );
+      expect(names).toEqual(['blockTest', 'blockExpect', 'blockPage', 'blockDelete', 'blockNew', 'blockSwitch', 'blockDefault']);
+
+      const code = generator.generateStepBlocksModule(
+        ['test', 'page', 'delete'].map((id) => ({ ...loginBlock, id, name: id, steps: loginBlock.steps.slice(1), variables: [] }))
+      );
+      const diagnostics = ts.transpileModule(code, { reportDiagnostics: true }).diagnostics ?? [];
+      expect(diagnostics).toEqual([]);
+      expect(code).toContain('export async function blockPage(page: Page): Promise<void> {');
+    });
+  });
+
+  describe('session setup file', () => {
+    it('replays the login steps and saves the storage state', () => {
+      const code = generator.generateSessionSetupFile({
+        testName: 'Session setup: Admin',
+        startUrl: 'https://example.com/login',
+        steps: [
+          { qaSummary: 'Login', playwrightCode: '', blockId: 'login' },
+          { qaSummary: 'Submit', playwrightCode: "await page.getByRole('button', { name: 'Sign in' }).click();" }
+        ],
+        blocksImportPath: '../tests/trailwright-blocks'
+      });
+
+      expect(code).toContain("import { blockLogin } from '../tests/trailwright-blocks';");
+      expect(code).toContain('await page.goto("https://example.com/login");');
+      expect(code).toMatch(
+        /click\(\);\n  \}\);\n\n  await page\.context\(\)\.storageState\(\{ path: process\.env\.TRAILWRIGHT_STORAGE_STATE_OUT \}\);\n\}\);/
+      );
+    });
+  });
 });
@@ -5,13 +5,15 @@
  * Uses Playwright's browser server to allow multiple tests to connect to the same browser.
  */
 
-import { chromium, type BrowserServer } from 'playwright';
-import type { ViewportSize } from '../../../shared/types.js';
+import type { BrowserServer, LaunchOptions } from 'playwright';
+import type { BrowserName, ViewportSize } from '../../../shared/types.js';
+import { getBrowserType } from './browsers.js';
 
 export interface BrowserPoolOptions {
   headed?: boolean;
   slowMo?: number;
   viewportSize?: ViewportSize;
+  browser?: BrowserName;
 }
 
 interface ManagedBrowser {
@@ -49,14 +51,15 @@ class BrowserPool {
       return existing.wsEndpoint;
     }
 
-    console.log(`[BrowserPool] Launching new browser for config ${configId}`);
+    const browserName = options.browser ?? 'chromium';
+    console.log(`[BrowserPool] Launching new ${browserName} browser for config ${configId}`);
 
-    const launchOptions: Parameters<typeof chromium.launchServer>[0] = {
-      headless: options.headed === false ? false : !options.headed,
+    const launchOptions: LaunchOptions = {
+      headless: !options.headed,
     };
 
     // Launch browser server
-    const server = await chromium.launchServer(launchOptions);
+    const server = await getBrowserType(browserName).launchServer(launchOptions);
     const wsEndpoint = server.wsEndpoint();
 
     const managed: ManagedBrowser = {
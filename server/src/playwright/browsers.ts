@@ -0,0 +1,66 @@
+/**
+ * Browser engine helpers
+ *
+ * Resolves which Playwright engine(s) to use for generation, runs and multi-runs.
+ * Falls back to Config.defaultBrowser, then chromium.
+ */
+
+import { chromium, firefox, webkit, type BrowserType } from 'playwright';
+import type { BrowserName } from '../types.js';
+import { loadConfig } from '../storage/config.js';
+
+export const SUPPORTED_BROWSERS: readonly BrowserName[] = ['chromium', 'firefox', 'webkit'];
+
+const BROWSER_TYPES: Record<BrowserName, BrowserType> = {
+  chromium,
+  firefox,
+  webkit
+};
+
+export function isBrowserName(value: unknown): value is BrowserName {
+  return typeof value === 'string' && (SUPPORTED_BROWSERS as readonly string[]).includes(value);
+}
+
+/**
+ * Get the Playwright BrowserType for an engine name (chromium when omitted)
+ */
+export function getBrowserType(browser?: BrowserName): BrowserType {
+  return BROWSER_TYPES[browser ?? 'chromium'];
+}
+
+/**
+ * Normalize a list of engine names from a request body (array or comma-separated string).
+ * Unknown names are dropped and duplicates removed; returns undefined when nothing valid remains.
+ */
+export function parseBrowserList(value: unknown): BrowserName[] | undefined {
+  const rawValues = Array.isArray(value)
+    ? value
+    : typeof value === 'string'
+      ? value.split(',')
+      : [];
+
+  const browsers: BrowserName[] = [];
+  for (const raw of rawValues) {
+    const name = typeof raw === 'string' ? raw.trim().toLowerCase() : raw;
+    if (isBrowserName(name) && !browsers.includes(name)) {
+      browsers.push(name);
+    }
+  }
+
+  return browsers.length ? browsers : undefined;
+}
+
+/**
+ * Read the configured default browser, falling back to chromium
+ */
+export async function resolveDefaultBrowser(dataDir: string): Promise<BrowserName> {
+  try {
+    const config = await loadConfig(dataDir);
+    if (isBrowserName(config.defaultBrowser)) {
+      return config.defaultBrowser;
+    }
+  } catch {
+    // Config missing or unreadable – use chromium
+  }
+  return 'chromium';
+}
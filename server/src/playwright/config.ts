@@ -1,30 +1,81 @@
 import path from 'path';
 import fs from 'fs/promises';
+import { writeFileAtomic } from '../storage/fileStore.js';
+import { DEFAULT_RUN_EXECUTION, SCREENSHOT_MODES, TRACE_MODES, VIDEO_MODES } from './executionSettings.js';
 
 const REPORTER_FILE = 'trailwright-reporter.js';
-const CONFIG_SENTINEL = 'trailwright-reporter.js';
-const REPORTER_SENTINEL = 'TW_EVENT:';
+// Bump the version whenever the generated config changes so existing data dirs pick it up
+const CONFIG_SENTINEL = 'trailwright-config v5';
+// Bump the version whenever the reporter source changes so existing data dirs pick it up
+const REPORTER_SENTINEL = 'trailwright-reporter v2';
+
+export interface PlaywrightConfigOptions {
+  /**
+   * Config for an exported project run outside TrailWright: headless unless
+   * TRAILWRIGHT_HEADLESS=false, plain reporters, CSV data read next to the
+   * config, ES module export for playwright.config.ts
+   */
+  standalone?: boolean;
+}
+
+const modeList = (modes: readonly string[]) => `[${modes.map((mode) => `'${mode}'`).join(', ')}]`;
+
+export function generatePlaywrightConfig(options: PlaywrightConfigOptions = {}): string {
+  const { standalone = false } = options;
+  const header = standalone
+    ? `// @ts-nocheck
+// Exported from TrailWright. The TRAILWRIGHT_* environment variables below are optional overrides.
+// Data-driven specs read their CSV rows from ./test-data
+process.env.TRAILWRIGHT_PROJECT_DIR = process.env.TRAILWRIGHT_PROJECT_DIR || __dirname;`
+    : `// @ts-check
+// ${CONFIG_SENTINEL}`;
+  const reporter = standalone
+    ? `[
+    ['list', { printSteps: true }],
+    ['html', { open: 'never' }]
+  ]`
+    : `[
+    ['list', { printSteps: true }],
+    ['html', { outputFolder: 'runs/latest/html-report', open: 'never' }],
+    ['json', { outputFile: 'runs/latest/results.json' }],
+    ['./${REPORTER_FILE}']
+  ]`;
+
+  return `${header}
+const browserNames = (process.env.TRAILWRIGHT_BROWSERS || 'chromium')
+  .split(',')
+  .map((name) => name.trim())
+  .filter((name) => ['chromium', 'firefox', 'webkit'].includes(name));
+const testTitle = process.env.TRAILWRIGHT_TEST_TITLE;
+const escapeRegExp = (value) => value.replace(/[.*+?^$\{}()|[\\]\\\\]/g, '\\\\$&');
+// Retries, timeout and artifact capture per run (see playwright/executionSettings.ts)
+const envCount = (name, fallback) => {
+  const value = Number.parseInt(process.env[name] ?? '', 10);
+  return Number.isInteger(value) && value >= 0 ? value : fallback;
+};
+const envMode = (name, modes, fallback) => (modes.includes(process.env[name]) ? process.env[name] : fallback);
 
-export function generatePlaywrightConfig(): string {
-  return `// @ts-check
 /** @type {import('@playwright/test').PlaywrightTestConfig} */
 const config = {
-  testDir: './tests',
-  timeout: 45000,
-  retries: 1,
+  // Session capture points this at ./auth to run a credential's login spec
+  testDir: process.env.TRAILWRIGHT_TEST_DIR || './tests',
+  timeout: envCount('TRAILWRIGHT_TIMEOUT', ${DEFAULT_RUN_EXECUTION.timeout}),
+  retries: envCount('TRAILWRIGHT_RETRIES', ${DEFAULT_RUN_EXECUTION.retries}),
   use: (() => {
-    const headless = process.env.TRAILWRIGHT_HEADLESS === 'true';
+    const headless = ${standalone ? "process.env.TRAILWRIGHT_HEADLESS !== 'false'" : "process.env.TRAILWRIGHT_HEADLESS === 'true'"};
     const slowMo = Number.parseInt(process.env.TRAILWRIGHT_SLOWMO ?? '0', 10) || 0;
     const viewportWidth = process.env.TRAILWRIGHT_VIEWPORT_WIDTH;
     const viewportHeight = process.env.TRAILWRIGHT_VIEWPORT_HEIGHT;
     const wsEndpoint = process.env.TRAILWRIGHT_WS_ENDPOINT;
+    const storageState = process.env.TRAILWRIGHT_STORAGE_STATE;
 
     const config = {
       headless,
       slowMo,
-      trace: 'on', // Always capture traces for debugging
-      screenshot: 'on', // Capture screenshots for every run (supports reporting/export)
-      video: 'retain-on-failure', // Retain videos only when failures occur to control storage
+      // Full traces and screenshots by default (reporting/export); videos only when a test fails
+      trace: envMode('TRAILWRIGHT_TRACE', ${modeList(TRACE_MODES)}, '${DEFAULT_RUN_EXECUTION.trace}'),
+      screenshot: envMode('TRAILWRIGHT_SCREENSHOT', ${modeList(SCREENSHOT_MODES)}, '${DEFAULT_RUN_EXECUTION.screenshot}'),
+      video: envMode('TRAILWRIGHT_VIDEO', ${modeList(VIDEO_MODES)}, '${DEFAULT_RUN_EXECUTION.video}'),
     };
 
     // Apply viewport size if specified
@@ -35,6 +86,11 @@ const config = {
       };
     }
 
+    // Start logged in with the credential's saved session
+    if (storageState) {
+      config.storageState = storageState;
+    }
+
     // Connect to existing browser if WebSocket endpoint provided (for multi-run browser reuse)
     if (wsEndpoint) {
       config.connectOptions = {
@@ -44,20 +100,23 @@ const config = {
 
     return config;
   })(),
-  reporter: [
-    ['list', { printSteps: true }],
-    ['html', { outputFolder: 'runs/latest/html-report', open: 'never' }],
-    ['json', { outputFile: 'runs/latest/results.json' }],
-    ['./${REPORTER_FILE}']
-  ],
+  // One project per engine so browser matrix results are reported side by side
+  projects: (browserNames.length ? browserNames : ['chromium']).map((browserName) => ({
+    name: browserName,
+    use: { browserName }
+  })),
+  // Only run the test with this exact title (e.g. rerunning a single data row)
+  ...(testTitle ? { grep: new RegExp(escapeRegExp(testTitle) + '$') } : {}),
+  reporter: ${reporter},
 };
 
-module.exports = config;
+${standalone ? 'export default config;' : 'module.exports = config;'}
 `;
 }
 
 export function generateTrailwrightReporterSource(): string {
-  return `'const EVENT_PREFIX = "TW_EVENT:";
+  return `// ${REPORTER_SENTINEL}
+const EVENT_PREFIX = "TW_EVENT:";
 const timestamp = () => new Date().toISOString();
 
 function emit(event) {
@@ -105,7 +164,7 @@ class TrailwrightReporter {
       type: "step:end",
       stepId: id,
       testId: this._testId(test),
-      status: step.error ? "failed" : "passed",
+      status: this._stepStatus(step),
       duration: step.duration,
       error: step.error ? this._error(step.error) : undefined,
       timestamp: timestamp()
@@ -148,6 +207,17 @@ class TrailwrightReporter {
     return existing;
   }
 
+  _stepStatus(step) {
+    if (step.error) {
+      return "failed";
+    }
+    const annotations = Array.isArray(step.annotations) ? step.annotations : [];
+    if (annotations.some((annotation) => annotation && annotation.type === "skip")) {
+      return "skipped";
+    }
+    return "passed";
+  }
+
   _depth(step) {
     let depth = 0;
     let current = step.parent;
@@ -193,7 +263,7 @@ async function ensureFileWithSentinel(filePath: string, sentinel: string, conten
     // Missing file, will write below
   }
 
-  await fs.writeFile(filePath, contents, 'utf-8');
+  await writeFileAtomic(filePath, contents);
 }
 
 export async function ensurePlaywrightConfig(dataDir: string): Promise<void> {
@@ -0,0 +1,102 @@
+/**
+ * Run execution settings - retries, timeout and artifact capture
+ *
+ * Tests carry defaults in metadata.execution and runs may override them. The
+ * merged settings reach the generated playwright.config via TRAILWRIGHT_* env
+ * vars; anything unset keeps the config's defaults (DEFAULT_RUN_EXECUTION).
+ */
+
+import type { RunExecutionSettings, ScreenshotMode, TraceMode, VideoMode } from '../types.js';
+
+export const TRACE_MODES: readonly TraceMode[] = ['on', 'off', 'retain-on-failure', 'on-first-retry'];
+export const SCREENSHOT_MODES: readonly ScreenshotMode[] = ['on', 'off', 'only-on-failure'];
+export const VIDEO_MODES: readonly VideoMode[] = ['on', 'off', 'retain-on-failure', 'on-first-retry'];
+
+/** What the generated config uses when neither the test nor the run sets a value */
+export const DEFAULT_RUN_EXECUTION: Required<RunExecutionSettings> = {
+  timeout: 45000,
+  retries: 1,
+  trace: 'on',
+  screenshot: 'on',
+  video: 'retain-on-failure'
+};
+
+const MAX_RETRIES = 10;
+
+/**
+ * Validate execution settings from a request body or test metadata.
+ * Returns undefined when nothing is set; throws on invalid values.
+ */
+export function parseRunExecutionSettings(value: unknown): RunExecutionSettings | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('execution must be an object');
+  }
+  const raw = value as Record<string, unknown>;
+  const settings: RunExecutionSettings = {};
+
+  if (raw.timeout !== undefined && raw.timeout !== null && raw.timeout !== '') {
+    const timeout = Number(raw.timeout);
+    if (!Number.isInteger(timeout) || timeout < 0) {
+      throw new Error('execution.timeout must be a whole number of milliseconds');
+    }
+    settings.timeout = timeout;
+  }
+  if (raw.retries !== undefined && raw.retries !== null && raw.retries !== '') {
+    const retries = Number(raw.retries);
+    if (!Number.isInteger(retries) || retries < 0 || retries > MAX_RETRIES) {
+      throw new Error(`execution.retries must be between 0 and ${MAX_RETRIES}`);
+    }
+    settings.retries = retries;
+  }
+
+  const modes: Array<['trace' | 'screenshot' | 'video', readonly string[]]> = [
+    ['trace', TRACE_MODES],
+    ['screenshot', SCREENSHOT_MODES],
+    ['video', VIDEO_MODES]
+  ];
+  for (const [field, allowed] of modes) {
+    const mode = raw[field];
+    if (mode === undefined || mode === null || mode === '') continue;
+    if (typeof mode !== 'string' || !allowed.includes(mode)) {
+      throw new Error(`execution.${field} must be one of ${allowed.join(', ')}`);
+    }
+    (settings as Record<string, string>)[field] = mode;
+  }
+
+  return Object.keys(settings).length ? settings : undefined;
+}
+
+/**
+ * Run settings win over the test's defaults, field by field
+ */
+export function resolveRunExecution(
+  testDefaults?: RunExecutionSettings,
+  overrides?: RunExecutionSettings
+): RunExecutionSettings | undefined {
+  const merged: RunExecutionSettings = { ...testDefaults };
+  for (const [field, value] of Object.entries(overrides ?? {})) {
+    if (value !== undefined) {
+      (merged as Record<string, unknown>)[field] = value;
+    }
+  }
+  return Object.keys(merged).length ? merged : undefined;
+}
+
+/**
+ * Env vars read by the generated playwright.config
+ */
+export function buildExecutionEnv(settings?: RunExecutionSettings): Record<string, string> {
+  if (!settings) {
+    return {};
+  }
+  return {
+    ...(settings.timeout !== undefined ? { TRAILWRIGHT_TIMEOUT: String(settings.timeout) } : {}),
+    ...(settings.retries !== undefined ? { TRAILWRIGHT_RETRIES: String(settings.retries) } : {}),
+    ...(settings.trace ? { TRAILWRIGHT_TRACE: settings.trace } : {}),
+    ...(settings.screenshot ? { TRAILWRIGHT_SCREENSHOT: settings.screenshot } : {}),
+    ...(settings.video ? { TRAILWRIGHT_VIDEO: settings.video } : {})
+  };
+}
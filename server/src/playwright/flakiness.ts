@@ -0,0 +1,102 @@
+/**
+ * Flaky test detection from run history
+ *
+ * A run is flaky when it passed only after a retry. Tests are scored over their
+ * most recent finished runs: each flaky run counts, and so does every flip
+ * between passing and failing from one run to the next.
+ */
+
+import type { FlakyTestSummary, RunResult } from '../types.js';
+import { listTests } from '../storage/tests.js';
+import { listRuns } from './runner.js';
+
+/** How many recent runs of a test are scored */
+export const FLAKINESS_WINDOW = 20;
+const MAX_FAILING_STEPS = 5;
+
+const SCORED_STATUSES = new Set<RunResult['status']>(['passed', 'flaky', 'failed']);
+
+/**
+ * Score one test's runs (any order). Stopped and skipped runs are ignored.
+ */
+export function computeFlakiness(
+  testId: string,
+  testName: string,
+  runs: RunResult[]
+): FlakyTestSummary {
+  const scored = runs
+    .filter((run) => SCORED_STATUSES.has(run.status))
+    .sort((a, b) => new Date(a.startedAt).getTime() - new Date(b.startedAt).getTime())
+    .slice(-FLAKINESS_WINDOW);
+
+  let flakyRuns = 0;
+  let failedRuns = 0;
+  let flips = 0;
+  let lastFlakyAt: string | undefined;
+  const stepCounts = new Map<string, number>();
+
+  scored.forEach((run, index) => {
+    if (run.status === 'flaky') {
+      flakyRuns += 1;
+      lastFlakyAt = run.startedAt;
+    } else if (run.status === 'failed') {
+      failedRuns += 1;
+    }
+    // A flaky run still ended green, so it counts as a pass for flips
+    if (index > 0 && (run.status === 'failed') !== (scored[index - 1].status === 'failed')) {
+      flips += 1;
+    }
+
+    // Each step counts once per run, however many attempts it failed in
+    const failedSteps = new Set<string>(run.failedStepTitles ?? []);
+    for (const attempt of run.attempts ?? []) {
+      if (attempt.failedStepTitle) {
+        failedSteps.add(attempt.failedStepTitle);
+      }
+    }
+    failedSteps.forEach((title) => stepCounts.set(title, (stepCounts.get(title) ?? 0) + 1));
+  });
+
+  const failingSteps = Array.from(stepCounts, ([title, count]) => ({ title, count }))
+    .sort((a, b) => b.count - a.count || a.title.localeCompare(b.title))
+    .slice(0, MAX_FAILING_STEPS);
+
+  return {
+    testId,
+    testName,
+    score: scored.length ? Math.min(1, (flakyRuns + flips) / scored.length) : 0,
+    runs: scored.length,
+    flakyRuns,
+    failedRuns,
+    flips,
+    ...(lastFlakyAt ? { lastFlakyAt } : {}),
+    failingSteps
+  };
+}
+
+/**
+ * Tests with any flakiness in their recent history, worst first
+ */
+export async function listFlakyTests(
+  dataDir: string,
+  options: { limit?: number } = {}
+): Promise<FlakyTestSummary[]> {
+  const [runs, tests] = await Promise.all([listRuns(dataDir), listTests(dataDir)]);
+  const names = new Map(tests.map((test) => [test.id, test.name]));
+
+  const runsByTest = new Map<string, RunResult[]>();
+  for (const run of runs) {
+    // Runs of deleted tests are left out
+    if (!names.has(run.testId)) continue;
+    runsByTest.set(run.testId, [...(runsByTest.get(run.testId) ?? []), run]);
+  }
+
+  const summaries = Array.from(runsByTest, ([testId, testRuns]) =>
+    computeFlakiness(testId, names.get(testId) ?? testId, testRuns)
+  ).filter((summary) => summary.score > 0);
+
+  summaries.sort(
+    (a, b) => b.score - a.score || b.flakyRuns - a.flakyRuns || a.testName.localeCompare(b.testName)
+  );
+  return summaries.slice(0, options.limit ?? 10);
+}
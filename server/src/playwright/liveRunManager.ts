@@ -13,10 +13,15 @@ import {
   createRunExecutionContext,
   finalizeRunExecution,
   FinalizeRunOptions,
-  RunExecutionContext
+  RunExecutionContext,
+  RunPreferences,
+  buildRowSelectionEnv,
+  buildSessionStateEnv,
+  prepareRunSessionState
 } from './runner.js';
 import { resolveNpxInvocation } from '../utils/npx.js';
 import { serializeCredentialsBlob } from '../storage/credentials.js';
+import { buildExecutionEnv } from './executionSettings.js';
 
 const EVENT_PREFIX = 'TW_EVENT:';
 
@@ -55,19 +60,48 @@ export class LiveRunSession {
   private softPaused = false;
   private pausedEventQueue: LiveRunEvent[] = [];
 
-  constructor(context: RunExecutionContext, proc: ChildProcessWithoutNullStreams) {
+  constructor(context: RunExecutionContext) {
     this.context = context;
-    this.process = proc;
+    this.process = null;
     this.startedAt = new Date(context.startTime).toISOString();
     this.updatedAt = this.startedAt;
     this.options = context.options;
     this.emitter.setMaxListeners(100);
+  }
 
+  /** True when the run was stopped while still queued (e.g. during session setup) */
+  get stoppedBeforeStart(): boolean {
+    return this.terminated && !this.process;
+  }
+
+  attachProcess(proc: ChildProcessWithoutNullStreams): void {
+    this.process = proc;
     this.attachProcessListeners();
+    if (this.terminated) {
+      // Stopped while Playwright was being spawned; closing it finalizes the run
+      proc.kill('SIGTERM');
+      return;
+    }
     this.updateStatus('running');
     this.appendLog('system', 'Playwright run started');
   }
 
+  /** Progress of work done before Playwright starts, shown in the run log */
+  reportSetup(message: string): void {
+    this.appendLog('system', message);
+  }
+
+  /**
+   * Finish a run that never started Playwright: stopped while queued, or failed to launch
+   */
+  async finishWithoutProcess(error?: string): Promise<void> {
+    if (error) {
+      this.appendLog('system', error);
+      this.stderrAggregate += error;
+    }
+    await this.handleProcessClose(error ? 1 : null);
+  }
+
   get id(): string {
     return this.context.runId;
   }
@@ -90,7 +124,13 @@ export class LiveRunSession {
       options: {
         headed: this.options.headed,
         speed: this.options.speed,
-        keepOpen: this.options.keepOpen
+        keepOpen: this.options.keepOpen,
+        startFromStep: this.options.startFromStep,
+        browsers: this.options.browsers,
+        testTitle: this.options.testTitle,
+        rowIndexes: this.options.rowIndexes,
+        rowFilter: this.options.rowFilter,
+        execution: this.options.execution
       }
     };
   }
@@ -144,12 +184,20 @@ export class LiveRunSession {
   }
 
   async stop(): Promise<void> {
-    if (!this.process) {
-      throw new Error('Run has already completed');
-    }
     if (this.status === 'stopped') {
       return;
     }
+    if (!this.process) {
+      if (this.status !== 'queued') {
+        throw new Error('Run has already completed');
+      }
+      // Still in session setup; the launcher finishes the run instead of starting Playwright
+      this.terminated = true;
+      this.terminationReason = 'Run stopped by user';
+      this.appendLog('system', 'Stopping run...');
+      this.updateStatus('stopped');
+      return;
+    }
 
     this.terminated = true;
     this.terminationReason = 'Run stopped by user';
@@ -208,7 +256,7 @@ export class LiveRunSession {
       this.softPaused = false;
       this.flushPausedEvents();
 
-      if (result.status === 'passed') {
+      if (result.status === 'passed' || result.status === 'flaky') {
         this.updateStatus('completed');
       } else if (result.status === 'stopped') {
         this.updateStatus('stopped');
@@ -293,7 +341,12 @@ export class LiveRunSession {
               event.title ??
               this.stepMap.get(event.stepId)?.title ??
               'Unnamed step',
-            status: event.status === 'failed' ? 'failed' : 'passed',
+            status:
+              event.status === 'failed'
+                ? 'failed'
+                : event.status === 'skipped'
+                  ? 'skipped'
+                  : 'passed',
             startedAt:
               this.stepMap.get(event.stepId)?.startedAt ??
               event.timestamp ??
@@ -400,12 +453,47 @@ export class LiveRunSession {
   }
 }
 
+export interface LiveRunPreferences extends RunPreferences {
+  stopOnFailure?: boolean;
+  /** Browser server endpoint to connect to instead of launching a new browser (multi-run reuse) */
+  wsEndpoint?: string;
+}
+
 export async function startLiveRun(
   dataDir: string,
   testId: string,
-  preferences?: { headed?: boolean; speed?: number; keepOpen?: boolean; stopOnFailure?: boolean; viewportSize?: { width: number; height: number } }
+  preferences?: LiveRunPreferences
 ): Promise<LiveRunSession> {
   const context = await createRunExecutionContext(dataDir, testId, preferences);
+  const session = new LiveRunSession(context);
+  sessions.set(session.id, session);
+  // Session setup may log in first, which can take minutes; the caller gets the run id right away
+  void launchLiveRun(session, context, preferences);
+  return session;
+}
+
+async function launchLiveRun(
+  session: LiveRunSession,
+  context: RunExecutionContext,
+  preferences?: LiveRunPreferences
+): Promise<void> {
+  try {
+    await prepareRunSessionState(context, (message) => session.reportSetup(message));
+    if (session.stoppedBeforeStart) {
+      await session.finishWithoutProcess();
+      return;
+    }
+    session.attachProcess(await spawnPlaywright(context, preferences));
+  } catch (error: any) {
+    await session.finishWithoutProcess(`Failed to start Playwright: ${error?.message ?? String(error)}`);
+  }
+}
+
+async function spawnPlaywright(
+  context: RunExecutionContext,
+  preferences?: LiveRunPreferences
+): Promise<ChildProcessWithoutNullStreams> {
+  const { dataDir } = context;
   const npx = await resolveNpxInvocation();
   const baseEnv = npx.env ?? process.env;
   const credentialsBlob = await serializeCredentialsBlob(dataDir);
@@ -415,6 +503,20 @@ export async function startLiveRun(
   const relativeTestPath = path.relative(context.dataDir, context.testFile).replace(/\\/g, '/');
 
   console.log(`[liveRun] Executing: playwright test ${relativeTestPath} from ${context.dataDir}`);
+  if (context.options.startFromStep) {
+    console.log(`[liveRun] Skipping steps before step ${context.options.startFromStep}`);
+  }
+  if (context.options.testTitle) {
+    console.log(`[liveRun] Only running "${context.options.testTitle}"`);
+  }
+  if (context.options.rowIndexes || context.options.rowFilter) {
+    console.log(
+      `[liveRun] Row selection: ${[
+        context.options.rowIndexes ? `rows ${context.options.rowIndexes.join(',')}` : '',
+        context.options.rowFilter ?? ''
+      ].filter(Boolean).join(' / ')}`
+    );
+  }
 
   const args = [...npx.argsPrefix, 'playwright', 'test', relativeTestPath, '--workers=1'];
   if (context.options.headed) {
@@ -429,7 +531,14 @@ export async function startLiveRun(
     TRAILWRIGHT_RUN_ID: context.runId,
     TRAILWRIGHT_HEADLESS: context.options.headed ? 'false' : 'true',
     TRAILWRIGHT_SLOWMO: String(context.options.slowMo),
+    TRAILWRIGHT_BROWSERS: context.options.browsers.join(','),
+    TRAILWRIGHT_PROJECT_DIR: context.dataDir,
+    ...(context.options.testTitle ? { TRAILWRIGHT_TEST_TITLE: context.options.testTitle } : {}),
+    ...buildRowSelectionEnv(context.options),
+    ...buildExecutionEnv(context.options.execution),
+    ...buildSessionStateEnv(context),
     PLAYWRIGHT_JUNIT_OUTPUT_NAME: `trailwright-${context.runId}.xml`,
+    ...(preferences?.wsEndpoint ? { TRAILWRIGHT_WS_ENDPOINT: preferences.wsEndpoint } : {}),
     ...(credentialsBlob ? { TRAILWRIGHT_CREDENTIALS_BLOB: credentialsBlob } : {}),
     ...(context.options.viewportSize ? {
       TRAILWRIGHT_VIEWPORT_WIDTH: String(context.options.viewportSize.width),
@@ -437,15 +546,11 @@ export async function startLiveRun(
     } : {})
   };
 
-  const proc = spawn(npx.command, args, {
+  return spawn(npx.command, args, {
     cwd: context.dataDir,
     env,
     shell: true
   });
-
-  const session = new LiveRunSession(context, proc);
-  sessions.set(session.id, session);
-  return session;
 }
 
 export function getLiveRunSession(runId: string): LiveRunSession | undefined {
@@ -1,4 +1,4 @@
-import { chromium, Browser, Page } from 'playwright';
+import { Browser, Page } from 'playwright';
 import { EventEmitter } from 'events';
 import path from 'node:path';
 import fs from 'node:fs/promises';
@@ -15,7 +15,8 @@ import type {
   ViewportSize,
   GenerationMode,
   StepPlan,
-  PlannedStep
+  PlannedStep,
+  BrowserName
 } from '../../../shared/types.js';
 import type { TestMetadata, CredentialRecord } from '../types.js';
 import { capturePageState, formatPageStateForAI, resetHashTracking } from './pageStateCapture.js';
@@ -30,6 +31,7 @@ import { CONFIG } from '../config.js';
 import { PlaywrightMCPAdapter } from './mcpAdapter.js';
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { RecordingCapture } from './recordingCapture.js';
+import { getBrowserType } from './browsers.js';
 
 const DEFAULT_MAX_STEPS = 20;
 
@@ -51,6 +53,8 @@ type NormalizedGenerationOptions = {
   keepBrowserOpen: boolean;
   viewportSize?: ViewportSize;
   mode: GenerationMode;
+  browser: BrowserName;
+  tags?: string[];
 };
 
 export class LiveTestGenerator extends EventEmitter {
@@ -97,6 +101,7 @@ export class LiveTestGenerator extends EventEmitter {
   private isHybridRecording = false;
   private hybridRecordingIndicatorInjected = false;
   private hybridRecordingStartCount = 0;
+  private storageStatePath?: string; // Saved login session of the credential, if captured
 
   constructor(
     options: LiveGenerationOptions,
@@ -104,7 +109,8 @@ export class LiveTestGenerator extends EventEmitter {
     apiKey: string,
     baseUrl?: string,
     credential?: CredentialRecord,
-    model?: string
+    model?: string,
+    storageStatePath?: string
   ) {
     super();
     this.sessionId = `gen-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
@@ -124,11 +130,14 @@ export class LiveTestGenerator extends EventEmitter {
       successCriteria: options.successCriteria?.trim() || undefined,
       keepBrowserOpen: Boolean(options.keepBrowserOpen),
       viewportSize: options.viewportSize,
-      mode: this.mode
+      mode: this.mode,
+      browser: options.browser ?? 'chromium',
+      tags: options.tags?.length ? options.tags : undefined
     };
 
     this.provider = provider;
     this.apiKey = apiKey;
+    this.storageStatePath = storageStatePath;
     this.baseUrl = baseUrl;
     this.model = model;
     this.credential = credential;
@@ -173,7 +182,8 @@ export class LiveTestGenerator extends EventEmitter {
         : undefined,
       mode: this.mode,
       pendingPlan: this.pendingPlan,
-      isHybridRecording: this.isHybridRecording
+      isHybridRecording: this.isHybridRecording,
+      tags: this.options.tags
     };
   }
 
@@ -191,11 +201,15 @@ export class LiveTestGenerator extends EventEmitter {
       await this.prepareStorage(true);
 
       // Launch browser in headed mode
-      this.browser = await chromium.launch({ headless: false });
+      this.log(`Launching ${this.options.browser} browser`);
+      this.browser = await getBrowserType(this.options.browser).launch({ headless: false });
       const contextOptions: any = {};
       if (this.options.viewportSize) {
         contextOptions.viewport = this.options.viewportSize;
       }
+      if (this.storageStatePath) {
+        contextOptions.storageState = this.storageStatePath;
+      }
       const context = await this.browser.newContext(contextOptions);
       this.page = await context.newPage();
       // Reduced timeouts for faster failure detection and user feedback
@@ -523,6 +537,9 @@ export class LiveTestGenerator extends EventEmitter {
       prompt += `\n\nCREDENTIALS AVAILABLE:\n- Name: ${this.credential.name}\n- Username: ${this.credential.username
         }\n- Password: ${this.credential.password}\n${this.credential.notes ? `- Notes: ${this.credential.notes}` : ''
         }\nUse these when authentication is required.`;
+      if (this.storageStatePath) {
+        prompt += `\nThe browser starts with this user's saved login session, so you are most likely already logged in; only log in if the page asks for it.`;
+      }
     }
 
     if (this.recordedSteps.length > 0) {
@@ -1222,11 +1239,14 @@ export class LiveTestGenerator extends EventEmitter {
 
       // Re-open browser if closed
       if (!this.browser || !this.page) {
-        this.browser = await chromium.launch({ headless: false });
+        this.browser = await getBrowserType(this.options.browser).launch({ headless: false });
         const contextOptions: any = {};
         if (this.options.viewportSize) {
           contextOptions.viewport = this.options.viewportSize;
         }
+        if (this.storageStatePath) {
+          contextOptions.storageState = this.storageStatePath;
+        }
         const context = await this.browser.newContext(contextOptions);
         this.page = await context.newPage();
         context.setDefaultTimeout(30000);
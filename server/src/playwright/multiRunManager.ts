@@ -12,11 +12,13 @@ import type {
   MultiRunEvent,
   MultiRunEventType,
   QueuedTestWithState,
-  RunResult
+  RunResult,
+  BrowserName
 } from '../../../shared/types.js';
 import { browserPool } from './browserPool.js';
 import { startLiveRun, getLiveRunSession, LiveRunSession } from './liveRunManager.js';
 import { loadTest } from '../storage/tests.js';
+import { resolveDefaultBrowser } from './browsers.js';
 
 export type MultiRunControlAction = 'pause' | 'resume' | 'stop' | 'skip';
 
@@ -36,6 +38,7 @@ export class MultiRunSession {
   private tests: QueuedTestWithState[] = [];
   private currentRun: LiveRunSession | null = null;
   private wsEndpoint: string | null = null;
+  private browsers: BrowserName[] = [];
   private startedAt: string;
   private endedAt?: string;
   private totalDuration = 0;
@@ -201,13 +204,26 @@ export class MultiRunSession {
     this.updateStatus('running');
     this.log(`Starting multi-run with ${this.tests.length} tests`);
 
+    const matrix = this.config.options.browserMatrix ?? [];
+    this.browsers = matrix.length
+      ? matrix
+      : [this.config.options.browser ?? (await resolveDefaultBrowser(this.dataDir))];
+    this.log(`Browser${this.browsers.length > 1 ? ' matrix' : ''}: ${this.browsers.join(', ')}`);
+
+    // A shared browser server is a single engine, so reuse is only possible without a matrix
+    const reuseBrowser = this.config.options.reusesBrowser && this.browsers.length === 1;
+    if (this.config.options.reusesBrowser && !reuseBrowser) {
+      this.log('Browser reuse is disabled for browser matrix runs');
+    }
+
     // Acquire browser if reusing
-    if (this.config.options.reusesBrowser) {
+    if (reuseBrowser) {
       try {
         this.wsEndpoint = await browserPool.acquire(this.configId, {
           headed: this.config.options.headed,
           slowMo: this.config.options.speed < 1 ? Math.round((1 - this.config.options.speed) * 1000) : 0,
-          viewportSize: this.config.options.viewportSize
+          viewportSize: this.config.options.viewportSize,
+          browser: this.browsers[0]
         });
         this.log(`Browser acquired for reuse: ${this.wsEndpoint}`);
       } catch (error: any) {
@@ -280,9 +296,12 @@ export class MultiRunSession {
 
       // Start the test run
       // Pass browser endpoint if reusing
-      const session = await this.startTestWithOptions(test.testId);
+      const session = await this.startTestWithOptions(test);
       this.currentRun = session;
       test.runId = session.id;
+      if (test.startFromStep && test.startFromStep > 1) {
+        this.log(`Starting ${test.testName} from step ${test.startFromStep}; earlier steps are skipped`);
+      }
 
       // Wait for completion
       const result = await this.waitForCompletion(session);
@@ -290,8 +309,9 @@ export class MultiRunSession {
       test.duration = Date.now() - testStartTime;
 
       if (result) {
-        test.status = result.status === 'passed' ? 'passed' : 'failed';
+        test.status = result.status === 'passed' || result.status === 'flaky' ? 'passed' : 'failed';
         test.error = result.error;
+        test.browserResults = result.browserResults;
       } else {
         test.status = 'failed';
         test.error = 'Test did not produce a result';
@@ -315,14 +335,19 @@ export class MultiRunSession {
   /**
    * Start a test run with multi-run options
    */
-  private async startTestWithOptions(testId: string): Promise<LiveRunSession> {
-    // For now, we'll use the standard startLiveRun
-    // TODO: Pass wsEndpoint via environment variable for browser reuse
-    const session = await startLiveRun(this.dataDir, testId, {
+  private async startTestWithOptions(test: QueuedTestWithState): Promise<LiveRunSession> {
+    // Reused browsers are shared through the browser server endpoint (TRAILWRIGHT_WS_ENDPOINT)
+    const session = await startLiveRun(this.dataDir, test.testId, {
       headed: this.config.options.headed,
       speed: this.config.options.speed,
       stopOnFailure: false, // We handle this at multi-run level
-      viewportSize: this.config.options.viewportSize
+      viewportSize: this.config.options.viewportSize,
+      startFromStep: test.startFromStep,
+      rowIndexes: test.rowIndexes,
+      rowFilter: test.rowFilter,
+      browsers: this.browsers,
+      execution: this.config.options.execution,
+      wsEndpoint: this.wsEndpoint ?? undefined
     });
 
     return session;
@@ -433,7 +458,8 @@ export class MultiRunSession {
       status: test.status,
       duration: test.duration,
       error: test.error,
-      runId: test.runId
+      runId: test.runId,
+      browserResults: test.browserResults
     });
   }
 
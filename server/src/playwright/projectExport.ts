@@ -0,0 +1,212 @@
+/**
+ * Project export - packages tests as a standalone Playwright project that runs
+ * with `npm install && npx playwright test`, without TrailWright.
+ *
+ * The zip holds the specs (metadata headers stripped), the shared step block
+ * module when a spec imports it, CSV data for data-driven tests, an env-var
+ * based @trailwright/credentials package, playwright.config.ts and package.json.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { createRequire } from 'module';
+import { getTestsDirectory } from '../storage/config.js';
+import { getCredentialById } from '../storage/credentials.js';
+import { generatePortableCredentialHelper, portableCredentialEnvKey } from '../storage/credentialBridge.js';
+import { extractMetadataHeader } from '../storage/metadata.js';
+import { loadTest } from '../storage/tests.js';
+import type { RunExecutionSettings, Test } from '../types.js';
+import { generatePlaywrightConfig } from './config.js';
+import { buildExecutionEnv } from './executionSettings.js';
+import { STEP_BLOCKS_MODULE } from './testCodeGenerator.js';
+
+export interface ProjectExportFile {
+  /** Path inside the exported project, POSIX separators */
+  path: string;
+  content: string | Buffer;
+}
+
+const CREDENTIALS_PACKAGE_DIR = 'trailwright-credentials';
+const require = createRequire(import.meta.url);
+
+/**
+ * Version range of an installed dependency, so the export pins what TrailWright runs with
+ */
+async function installedRange(packageName: string, entry: string, fallback: string): Promise<string> {
+  try {
+    let dir = path.dirname(require.resolve(entry));
+    while (dir !== path.dirname(dir)) {
+      try {
+        const manifest = JSON.parse(await fs.readFile(path.join(dir, 'package.json'), 'utf-8'));
+        if (manifest.name === packageName && manifest.version) {
+          return `^${manifest.version}`;
+        }
+      } catch {
+        // No package.json at this level
+      }
+      dir = path.dirname(dir);
+    }
+  } catch {
+    // Not resolvable from here
+  }
+  return fallback;
+}
+
+async function readOptional(filePath: string): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(filePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Spec code without TrailWright metadata. Generated and step-edited tests keep
+ * the generator's own header inside their code, below the one saveTest writes.
+ */
+function stripMetadataHeaders(code: string): string {
+  let stripped = code;
+  for (let header = extractMetadataHeader(stripped); header; header = extractMetadataHeader(stripped)) {
+    stripped = header.code;
+  }
+  return stripped;
+}
+
+/**
+ * README note for a test with its own retries/timeout/artifact modes
+ */
+function describeExecution(execution?: RunExecutionSettings): string {
+  const env = Object.entries(buildExecutionEnv(execution)).map(([name, value]) => `${name}=${value}`);
+  return env.length ? ` (run with \`${env.join(' ')}\`)` : '';
+}
+
+function buildReadme(tests: Test[], credentialEnv: string[]): string {
+  const lines = [
+    '# Playwright tests exported from TrailWright',
+    '',
+    '```sh',
+    'npm install',
+    'npx playwright install',
+    'npx playwright test',
+    '```',
+    '',
+    '## Tests',
+    '',
+    ...tests.map((test) => `- \`tests/${test.metadata.id}.spec.ts\` - ${test.metadata.name}${describeExecution(test.metadata.execution)}`),
+    '',
+    '## Options',
+    '',
+    'The config reads optional environment variables: `TRAILWRIGHT_BROWSERS` (e.g. `chromium,firefox`),',
+    '`TRAILWRIGHT_HEADLESS=false`, `TRAILWRIGHT_SLOWMO`, `TRAILWRIGHT_VIEWPORT_WIDTH`/`_HEIGHT`,',
+    '`TRAILWRIGHT_STORAGE_STATE` (a saved login state file), `TRAILWRIGHT_TIMEOUT` (ms), `TRAILWRIGHT_RETRIES`,',
+    '`TRAILWRIGHT_TRACE` / `TRAILWRIGHT_SCREENSHOT` / `TRAILWRIGHT_VIDEO` (Playwright artifact modes) and,',
+    'for data-driven tests, `TRAILWRIGHT_ROW_INDEXES` / `TRAILWRIGHT_ROW_FILTER`.',
+    'Tests with their own run settings in TrailWright list the variables to run them with above.'
+  ];
+  if (credentialEnv.length) {
+    lines.push(
+      '',
+      '## Credentials',
+      '',
+      'Passwords are not exported. Set these variables (see `.env.example`) before running:',
+      '',
+      ...credentialEnv.map((name) => `- \`${name}\``)
+    );
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Collect the files of a standalone Playwright project for the given tests
+ */
+export async function buildPlaywrightProject(dataDir: string, testIds: string[]): Promise<ProjectExportFile[]> {
+  const ids = Array.from(new Set(testIds.map((id) => id.trim()).filter(Boolean)));
+  if (ids.length === 0) {
+    throw new Error('Select at least one test to export');
+  }
+
+  const tests: Test[] = [];
+  for (const id of ids) {
+    try {
+      tests.push(await loadTest(dataDir, id));
+    } catch {
+      throw new Error(`Test not found: ${id}`);
+    }
+  }
+
+  const files: ProjectExportFile[] = [];
+  const testsDir = await getTestsDirectory(dataDir);
+  let usesBlocks = false;
+  let usesData = false;
+
+  for (const test of tests) {
+    const { id, variables } = test.metadata;
+    files.push({ path: `tests/${id}.spec.ts`, content: `${stripMetadataHeaders(test.code).trim()}\n` });
+    usesBlocks ||= test.code.includes(`from './${STEP_BLOCKS_MODULE}'`);
+
+    if (variables?.length) {
+      const csv = await readOptional(path.join(dataDir, 'test-data', `${id}.csv`));
+      if (csv) {
+        files.push({ path: `test-data/${id}.csv`, content: csv });
+        usesData = true;
+      }
+    }
+  }
+
+  if (usesBlocks) {
+    const blocksModule = await readOptional(path.join(testsDir, `${STEP_BLOCKS_MODULE}.ts`));
+    if (!blocksModule) {
+      throw new Error(`${STEP_BLOCKS_MODULE}.ts is missing from the tests directory`);
+    }
+    files.push({ path: `tests/${STEP_BLOCKS_MODULE}.ts`, content: blocksModule });
+  }
+
+  // Only the credentials the exported tests use, without their passwords
+  const credentialIds = Array.from(new Set(tests.map((test) => test.metadata.credentialId).filter(Boolean) as string[]));
+  const credentials = [];
+  for (const credentialId of credentialIds) {
+    const credential = await getCredentialById(dataDir, credentialId);
+    if (credential) {
+      credentials.push({ id: credential.id, name: credential.name, username: credential.username, notes: credential.notes });
+    }
+  }
+  for (const [file, content] of generatePortableCredentialHelper(credentials)) {
+    files.push({ path: `${CREDENTIALS_PACKAGE_DIR}/${file}`, content });
+  }
+
+  const credentialEnv = credentials.flatMap((credential) => [
+    `${portableCredentialEnvKey(credential.name, 'USERNAME')}=${credential.username}`,
+    `${portableCredentialEnvKey(credential.name, 'PASSWORD')}=`
+  ]);
+  if (credentialEnv.length) {
+    files.push({ path: '.env.example', content: `${credentialEnv.join('\n')}\n` });
+  }
+
+  const packageJson = {
+    name: 'trailwright-playwright-tests',
+    version: '1.0.0',
+    private: true,
+    scripts: {
+      test: 'playwright test'
+    },
+    dependencies: {
+      '@trailwright/credentials': `file:./${CREDENTIALS_PACKAGE_DIR}`,
+      ...(usesData ? { 'csv-parse': await installedRange('csv-parse', 'csv-parse/sync', '^5.6.0') } : {})
+    },
+    devDependencies: {
+      '@playwright/test': await installedRange('@playwright/test', '@playwright/test', '^1.56.1')
+    }
+  };
+
+  files.push(
+    { path: 'package.json', content: `${JSON.stringify(packageJson, null, 2)}\n` },
+    { path: 'playwright.config.ts', content: generatePlaywrightConfig({ standalone: true }) },
+    { path: '.gitignore', content: 'node_modules/\ntest-results/\nplaywright-report/\n.env\n' },
+    { path: 'README.md', content: buildReadme(tests, credentialEnv.map((line) => line.split('=')[0])) }
+  );
+
+  return files;
+}
@@ -10,6 +10,8 @@ export interface RecordModeConfig {
   description?: string;
   aiProvider: 'anthropic' | 'openai' | 'gemini';
   credentialId?: string;
+  /** Default tags for the saved test */
+  tags?: string[];
 }
 
 interface Variable {
@@ -61,7 +63,8 @@ export class RecordModeGenerator extends EventEmitter {
       recordingActive: false,
       assertionPickerActive: false,
       testName: config.name,
-      createdAt: now
+      createdAt: now,
+      ...(config.tags?.length ? { tags: config.tags } : {})
     } as LiveGenerationState;
   }
 
@@ -2,13 +2,33 @@ import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
 import path from 'path';
 import fs from 'fs/promises';
 import type { Dirent } from 'fs';
-import type { RunResult, RunScreenshot, StepSummary, StepCounts } from '../types.js';
+import type {
+  RunResult,
+  RunScreenshot,
+  StepSummary,
+  StepCounts,
+  BrowserName,
+  BrowserRunResult,
+  RowResult,
+  VariableDefinition,
+  VariableRow,
+  RunExecutionSettings,
+  RunAttempt
+} from '../types.js';
 import type { ViewportSize } from '../../../shared/types.js';
-import { serializeCredentialsBlob } from '../storage/credentials.js';
+import { getCredentialById, serializeCredentialsBlob } from '../storage/credentials.js';
 import { resolveNpxInvocation } from '../utils/npx.js';
-import { loadTest, saveTest } from '../storage/tests.js';
+import { loadTest } from '../storage/tests.js';
+import { recordLastRun } from '../storage/lastRuns.js';
+import { writeFileAtomic } from '../storage/fileStore.js';
 import { summarizeError } from '../ai/index.js';
 import { loadConfig } from '../storage/config.js';
+import { VariableStorage } from '../storage/variables.js';
+import { skipStepsBefore } from './stepExtractor.js';
+import { STEP_BLOCKS_MODULE } from './testCodeGenerator.js';
+import { isBrowserName, resolveDefaultBrowser } from './browsers.js';
+import { detectLoginRedirect, ensureSessionState, refreshSessionState } from './sessionState.js';
+import { buildExecutionEnv, resolveRunExecution } from './executionSettings.js';
 
 export interface RunTestOptions {
   dataDir: string;
@@ -17,6 +37,13 @@ export interface RunTestOptions {
   speed?: number;
   keepOpen?: boolean;
   viewportSize?: ViewportSize;
+  startFromStep?: number;
+  browser?: BrowserName;
+  browsers?: BrowserName[];
+  testTitle?: string;
+  rowIndexes?: number[];
+  rowFilter?: string;
+  execution?: RunExecutionSettings;
 }
 
 export interface RunExecutionContext {
@@ -26,15 +53,50 @@ export interface RunExecutionContext {
   runId: string;
   runDir: string;
   startTime: number;
+  /** True when testFile is a per-run copy (e.g. partial run) that must be removed afterwards */
+  derivedTestFile?: boolean;
+  /** Saved login session of the test's credential, loaded as the browser's storageState */
+  sessionState?: { credentialId: string; path: string };
   options: {
     headed: boolean;
     speed: number;
     slowMo: number;
     keepOpen: boolean;
     viewportSize?: ViewportSize;
+    startFromStep?: number;
+    browsers: BrowserName[];
+    testTitle?: string;
+    rowIndexes?: number[];
+    rowFilter?: string;
+    /** Test defaults merged with the run's overrides */
+    execution?: RunExecutionSettings;
   };
 }
 
+export interface RunPreferences {
+  headed?: boolean;
+  speed?: number;
+  keepOpen?: boolean;
+  viewportSize?: ViewportSize;
+  startFromStep?: number;
+  /** Single engine for the run; defaults to Config.defaultBrowser */
+  browser?: BrowserName;
+  /** Browser matrix – runs the spec once per engine (takes precedence over browser) */
+  browsers?: BrowserName[];
+  /** Only run the Playwright test with this exact title (e.g. a single data row) */
+  testTitle?: string;
+  /** Data-driven tests: zero-based CSV rows to run */
+  rowIndexes?: number[];
+  /** Data-driven tests: only run rows matching `column=value` */
+  rowFilter?: string;
+  /** Retries, timeout and artifact modes; override the test's metadata.execution */
+  execution?: RunExecutionSettings;
+}
+
+const PARTIAL_RUNS_FOLDER = '_partial-runs';
+// Read by the CSV-loading code emitted by TestCodeGenerator.generateDataPath
+const ROW_SELECTION_ENV_MARKER = 'TRAILWRIGHT_ROW_INDEXES';
+
 export interface FinalizeRunOptions {
   terminated?: boolean;
   terminationReason?: string;
@@ -65,7 +127,8 @@ function summarizeSteps(
     total: steps.length,
     passed: 0,
     failed: 0,
-    pending: 0
+    pending: 0,
+    skipped: 0
   };
   const failedTitles: string[] = [];
 
@@ -77,6 +140,8 @@ function summarizeSteps(
       if (step.title) {
         failedTitles.push(step.title);
       }
+    } else if (step.status === 'skipped') {
+      counts.skipped = (counts.skipped ?? 0) + 1;
     } else {
       counts.pending += 1;
     }
@@ -246,17 +311,356 @@ function collectScreenshotAttachments(playwrightResults: any): ScreenshotAttachm
   return attachments;
 }
 
+function collectBrowserResults(playwrightResults: any): BrowserRunResult[] {
+  const byBrowser = new Map<BrowserName, BrowserRunResult>();
+
+  function walkSuite(suite: any): void {
+    if (!suite) return;
+
+    for (const spec of suite.specs ?? []) {
+      for (const test of spec.tests ?? []) {
+        const browser = test.projectName;
+        if (!isBrowserName(browser)) {
+          continue;
+        }
+
+        const results: any[] = test.results ?? [];
+        const finalResult = results[results.length - 1];
+        const status: BrowserRunResult['status'] =
+          !finalResult || finalResult.status === 'skipped'
+            ? 'skipped'
+            : finalResult.status === 'passed'
+              ? 'passed'
+              : 'failed';
+        const duration = results.reduce((total, result) => total + (Number(result?.duration) || 0), 0);
+
+        const entry = byBrowser.get(browser) ?? { browser, status: 'skipped', duration: 0 };
+        entry.duration += duration;
+        if (status === 'failed') {
+          entry.status = 'failed';
+          entry.error =
+            entry.error || finalResult?.error?.message || finalResult?.error?.value || 'Test failed';
+        } else if (status === 'passed' && entry.status === 'skipped') {
+          entry.status = 'passed';
+        }
+        byBrowser.set(browser, entry);
+      }
+    }
+
+    (suite.suites ?? []).forEach((child: any) => walkSuite(child));
+  }
+
+  (playwrightResults?.suites ?? []).forEach((suite: any) => walkSuite(suite));
+  return Array.from(byBrowser.values());
+}
+
+const ATTEMPT_STATUSES = new Set<RunAttempt['status']>(['passed', 'failed', 'timedOut', 'interrupted', 'skipped']);
+
+/**
+ * Flatten Playwright's JSON report into one entry per attempt, retries included
+ */
+export function collectAttempts(playwrightResults: any): RunAttempt[] {
+  const attempts: RunAttempt[] = [];
+  let testIndex = 0;
+
+  function walkSuite(suite: any): void {
+    if (!suite) return;
+
+    for (const spec of suite.specs ?? []) {
+      for (const test of spec.tests ?? []) {
+        const browser = isBrowserName(test.projectName) ? test.projectName : undefined;
+        const entryIndex = testIndex++;
+        (test.results ?? []).forEach((result: any, index: number) => {
+          const status: RunAttempt['status'] = ATTEMPT_STATUSES.has(result?.status) ? result.status : 'failed';
+          const failedStep = (result?.steps ?? []).find((step: any) => step?.error);
+          const error = result?.error?.message || result?.error?.value;
+          attempts.push({
+            testTitle: String(spec.title ?? ''),
+            testIndex: entryIndex,
+            ...(browser ? { browser } : {}),
+            retry: typeof result?.retry === 'number' ? result.retry : index,
+            status,
+            duration: Number(result?.duration) || 0,
+            ...(error ? { error: String(error) } : {}),
+            ...(failedStep?.title ? { failedStepTitle: String(failedStep.title) } : {})
+          });
+        });
+      }
+    }
+
+    (suite.suites ?? []).forEach((child: any) => walkSuite(child));
+  }
+
+  (playwrightResults?.suites ?? []).forEach((suite: any) => walkSuite(suite));
+  return attempts;
+}
+
+const isFailedAttempt = (attempt: RunAttempt) =>
+  attempt.status === 'failed' || attempt.status === 'timedOut' || attempt.status === 'interrupted';
+
+/**
+ * A run fails when any test's last attempt failed; it is flaky when every
+ * test ended up passing but at least one needed a retry to get there
+ */
+export function statusFromAttempts(attempts: RunAttempt[]): { status: RunResult['status']; error?: string } {
+  const finalAttempts = new Map<string, RunAttempt>();
+  for (const attempt of attempts) {
+    // Results saved before testIndex existed fall back to the title
+    const key =
+      attempt.testIndex !== undefined ? String(attempt.testIndex) : `${attempt.browser ?? ''}:${attempt.testTitle}`;
+    const current = finalAttempts.get(key);
+    if (!current || attempt.retry >= current.retry) {
+      finalAttempts.set(key, attempt);
+    }
+  }
+
+  const failed = Array.from(finalAttempts.values()).find(isFailedAttempt);
+  if (failed) {
+    return { status: 'failed', error: failed.error || 'Test failed – see Playwright trace for details' };
+  }
+  return { status: attempts.some(isFailedAttempt) ? 'flaky' : 'passed' };
+}
+
+/**
+ * Title generated for a CSV row by TestCodeGenerator.generateParameterizedTest
+ */
+function buildRowTestTitle(variables: VariableDefinition[], row: VariableRow): string {
+  return `Test: ${variables.map((variable) => `${variable.name}=${row[variable.name] ?? ''}`).join(', ')}`;
+}
+
+/**
+ * Map each generated `Test: var=value` result back to its CSV row.
+ * Titles are matched against the rows first; anything unmatched falls back to
+ * spec order, which follows the order rows are read from the CSV.
+ */
+async function collectRowResults(
+  context: RunExecutionContext,
+  playwrightResults: any,
+  artifactRecords: ArtifactRecord[]
+): Promise<RowResult[]> {
+  if (!playwrightResults?.suites) {
+    return [];
+  }
+
+  let variables: VariableDefinition[] = [];
+  try {
+    const test = await loadTest(context.dataDir, context.testId);
+    variables = test.metadata.variables ?? [];
+  } catch {
+    return [];
+  }
+  if (!variables.length) {
+    return [];
+  }
+
+  const rows = await new VariableStorage(context.dataDir).readVariables(context.testId).catch(() => []);
+  if (!rows.length) {
+    return [];
+  }
+
+  const rowIndexesByTitle = new Map<string, number[]>();
+  rows.forEach((row, index) => {
+    const title = buildRowTestTitle(variables, row);
+    rowIndexesByTitle.set(title, [...(rowIndexesByTitle.get(title) ?? []), index]);
+  });
+
+  const findArtifact = (attachments: any[], predicate: (attachment: any) => boolean) => {
+    for (const attachment of attachments) {
+      if (typeof attachment?.path !== 'string' || !predicate(attachment)) {
+        continue;
+      }
+      const sourceKey = normalizePath(attachment.path);
+      const record = artifactRecords.find((artifact) => artifact.sourceKey === sourceKey);
+      if (record) {
+        return record;
+      }
+    }
+    return undefined;
+  };
+
+  const rowResults: RowResult[] = [];
+  const ordinalByBrowser = new Map<string, number>();
+  const titleUsesByKey = new Map<string, number>();
+
+  function walkSuite(suite: any): void {
+    if (!suite) return;
+
+    for (const spec of suite.specs ?? []) {
+      for (const test of spec.tests ?? []) {
+        const projectName = String(test.projectName ?? '');
+        const ordinal = ordinalByBrowser.get(projectName) ?? 0;
+        ordinalByBrowser.set(projectName, ordinal + 1);
+
+        const results: any[] = test.results ?? [];
+        const finalResult = results[results.length - 1];
+        if (!finalResult || finalResult.status === 'skipped') {
+          continue;
+        }
+
+        // Rows with identical values share a title – hand them out in CSV order
+        const titleMatches = rowIndexesByTitle.get(spec.title) ?? [];
+        const titleKey = `${projectName}:${spec.title}`;
+        const titleUses = titleUsesByKey.get(titleKey) ?? 0;
+        titleUsesByKey.set(titleKey, titleUses + 1);
+        const rowIndex = titleMatches.length
+          ? titleMatches[Math.min(titleUses, titleMatches.length - 1)]
+          : ordinal;
+        if (rowIndex >= rows.length) {
+          continue;
+        }
+
+        const attachments = results.flatMap((result) => result.attachments ?? []);
+        const traceRecord = findArtifact(
+          attachments,
+          (attachment) => attachment.name === 'trace' || String(attachment.path).endsWith('.zip')
+        );
+        const screenshotRecord = findArtifact(
+          [...attachments].reverse(),
+          (attachment) => String(attachment.contentType || '').includes('image/')
+        );
+        const passed = finalResult.status === 'passed';
+
+        rowResults.push({
+          rowIndex,
+          rowData: rows[rowIndex],
+          status: passed ? 'passed' : 'failed',
+          duration: results.reduce((total, result) => total + (Number(result?.duration) || 0), 0),
+          testTitle: spec.title,
+          ...(context.options.browsers.length > 1 && isBrowserName(projectName) ? { browser: projectName } : {}),
+          ...(traceRecord ? { tracePath: traceRecord.filename } : {}),
+          ...(screenshotRecord
+            ? { screenshotPath: screenshotRecord.filename }
+            : {}),
+          ...(!passed
+            ? { error: finalResult.error?.message || finalResult.error?.value || 'Row failed' }
+            : {})
+        });
+      }
+    }
+
+    (suite.suites ?? []).forEach((child: any) => walkSuite(child));
+  }
+
+  (playwrightResults.suites ?? []).forEach((suite: any) => walkSuite(suite));
+  return rowResults.sort((a, b) => a.rowIndex - b.rowIndex);
+}
+
+/**
+ * Write a copy of the spec where every step before startFromStep is skipped.
+ * Lives in a sub-folder of tests/ so the Playwright config's testDir still picks it up;
+ * leftover folders are pruned by cleanupOrphanedTestArtifacts on startup.
+ * The step blocks import is re-pointed at the module next to the original spec.
+ */
+async function writePartialTestFile(
+  dataDir: string,
+  sourceFile: string,
+  runId: string,
+  startFromStep: number
+): Promise<string> {
+  const content = await fs.readFile(sourceFile, 'utf-8');
+  const partialDir = path.join(dataDir, 'tests', PARTIAL_RUNS_FOLDER);
+  await fs.mkdir(partialDir, { recursive: true });
+  const partialFile = path.join(partialDir, `${runId}.spec.ts`);
+  const blocksImportPath = path
+    .relative(partialDir, path.join(path.dirname(sourceFile), STEP_BLOCKS_MODULE))
+    .replace(/\\/g, '/');
+  const code = skipStepsBefore(content, startFromStep).replace(
+    new RegExp(`(from\\s+)(['"])\\./${STEP_BLOCKS_MODULE}\\2`, 'g'),
+    (_match, from: string, quote: string) => `${from}${quote}${blocksImportPath}${quote}`
+  );
+  await fs.writeFile(partialFile, code, 'utf-8');
+  return partialFile;
+}
+
+/**
+ * Specs generated before row selection existed load every CSV row regardless of the env vars
+ */
+async function assertRowSelectionSupported(testFile: string): Promise<void> {
+  const content = await fs.readFile(testFile, 'utf-8');
+  if (!content.includes(ROW_SELECTION_ENV_MARKER)) {
+    throw new Error(
+      'This test does not support running selected rows yet. Save its steps again to regenerate the code.'
+    );
+  }
+}
+
+/**
+ * Env vars that narrow which CSV rows a data-driven spec runs
+ */
+export function buildRowSelectionEnv(options: RunExecutionContext['options']): Record<string, string> {
+  return {
+    ...(options.rowIndexes?.length ? { TRAILWRIGHT_ROW_INDEXES: options.rowIndexes.join(',') } : {}),
+    ...(options.rowFilter ? { TRAILWRIGHT_ROW_FILTER: options.rowFilter } : {})
+  };
+}
+
+/**
+ * Attach the saved session for the test's credential, capturing it first when stale.
+ * A capture replays the login test and can take minutes, so live runs call this
+ * after the run exists and report the messages as its session setup phase.
+ * A credential's own setup test always runs logged out.
+ */
+export async function prepareRunSessionState(
+  context: RunExecutionContext,
+  report: (message: string) => void = () => void 0
+): Promise<void> {
+  const { dataDir, testId } = context;
+  try {
+    const { metadata } = await loadTest(dataDir, testId);
+    if (!metadata.credentialId) {
+      return;
+    }
+    const credential = await getCredentialById(dataDir, metadata.credentialId);
+    if (!credential?.sessionSetupTestId || credential.sessionSetupTestId === testId) {
+      return;
+    }
+    let captured = false;
+    const statePath = await ensureSessionState(dataDir, credential.id, ({ name }) => {
+      captured = true;
+      report(`Session setup: logging in as ${name} to save a fresh session`);
+    });
+    if (statePath) {
+      context.sessionState = { credentialId: credential.id, path: statePath };
+      if (captured) {
+        report('Session setup: session saved');
+      }
+    }
+  } catch (error) {
+    console.warn(`[runner] Running ${testId} without a saved session:`, error);
+    report(`Session setup failed, running without a saved session: ${(error as Error)?.message ?? error}`);
+  }
+}
+
+/**
+ * The test's own execution defaults; a test that cannot be loaded runs with the config's
+ */
+async function loadTestExecutionSettings(dataDir: string, testId: string): Promise<RunExecutionSettings | undefined> {
+  try {
+    const { metadata } = await loadTest(dataDir, testId);
+    return metadata.execution;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Env vars every Playwright run of the context needs beyond the browser options
+ */
+export function buildSessionStateEnv(context: RunExecutionContext): Record<string, string> {
+  return context.sessionState ? { TRAILWRIGHT_STORAGE_STATE: context.sessionState.path } : {};
+}
+
+/**
+ * Everything a run needs before Playwright starts, except the saved session (see prepareRunSessionState)
+ */
 export async function createRunExecutionContext(
   dataDir: string,
   testId: string,
-  preferences?: { headed?: boolean; speed?: number; keepOpen?: boolean; viewportSize?: ViewportSize }
+  preferences?: RunPreferences
 ): Promise<RunExecutionContext> {
   const runId = `${new Date().toISOString().replace(/[:.]/g, '-')}_${testId}`;
   const runDir = path.join(dataDir, 'runs', runId);
-  const testFile = path.join(dataDir, 'tests', `${testId}.spec.ts`);
-
-  await fs.mkdir(runDir, { recursive: true });
-  await fs.mkdir(path.join(dataDir, 'runs', 'latest'), { recursive: true });
+  let testFile = path.join(dataDir, 'tests', `${testId}.spec.ts`);
 
   const headed = typeof preferences?.headed === 'boolean' ? preferences.headed : true;
   const rawSpeed = typeof preferences?.speed === 'number' ? preferences.speed : 1;
@@ -264,6 +668,36 @@ export async function createRunExecutionContext(
   const slowMo = normalizedSpeed < 1 ? Math.round((1 - normalizedSpeed) * 1000) : 0;
   const keepOpen = Boolean(preferences?.keepOpen);
   const viewportSize = preferences?.viewportSize;
+  const startFromStep =
+    typeof preferences?.startFromStep === 'number' && preferences.startFromStep > 1
+      ? Math.floor(preferences.startFromStep)
+      : undefined;
+
+  const testTitle = preferences?.testTitle?.trim() || undefined;
+
+  const browsers = preferences?.browsers?.length
+    ? preferences.browsers
+    : [isBrowserName(preferences?.browser) ? preferences.browser : await resolveDefaultBrowser(dataDir)];
+
+  const rowIndexes = preferences?.rowIndexes?.length
+    ? Array.from(new Set(preferences.rowIndexes.filter((index) => Number.isInteger(index) && index >= 0)))
+    : undefined;
+  const rowFilter = preferences?.rowFilter?.trim() || undefined;
+
+  if (rowIndexes?.length || rowFilter) {
+    await assertRowSelectionSupported(testFile);
+  }
+
+  await fs.mkdir(runDir, { recursive: true });
+  await fs.mkdir(path.join(dataDir, 'runs', 'latest'), { recursive: true });
+
+  let derivedTestFile = false;
+  if (startFromStep) {
+    testFile = await writePartialTestFile(dataDir, testFile, runId, startFromStep);
+    derivedTestFile = true;
+  }
+
+  const execution = resolveRunExecution(await loadTestExecutionSettings(dataDir, testId), preferences?.execution);
 
   return {
     dataDir,
@@ -272,21 +706,23 @@ export async function createRunExecutionContext(
     runId,
     runDir,
     startTime: Date.now(),
+    derivedTestFile,
     options: {
       headed,
       speed: normalizedSpeed,
       slowMo,
       keepOpen,
-      viewportSize
+      viewportSize,
+      startFromStep,
+      browsers,
+      testTitle,
+      ...(rowIndexes?.length ? { rowIndexes } : {}),
+      ...(rowFilter ? { rowFilter } : {}),
+      ...(execution ? { execution } : {})
     }
   };
 }
 
-function buildArtifactUrl(runId: string, file: string): string {
-  const encoded = encodeURIComponent(file);
-  return `/api/runs/${runId}/artifacts/${encoded}`;
-}
-
 export async function finalizeRunExecution(
   context: RunExecutionContext,
   exitCode: number | null,
@@ -311,6 +747,11 @@ export async function finalizeRunExecution(
   // Move generated artifacts into run directory
   const artifactRecords = await moveLatestArtifacts(context);
 
+  if (context.derivedTestFile) {
+    await fs.unlink(context.testFile).catch(() => void 0);
+  }
+
+  const attempts = collectAttempts(playwrightResults);
   let status: RunResult['status'] = 'passed';
   let error: string | undefined;
 
@@ -333,26 +774,7 @@ export async function finalizeRunExecution(
     status = 'failed';
     error = stderr || 'Test execution failed';
   } else if (playwrightResults?.suites) {
-    const suites = playwrightResults.suites ?? [];
-    const specs = suites.flatMap((suite: any) => suite.specs ?? []);
-
-    const failingSpec = specs.find((spec: any) =>
-      spec.tests?.some((test: any) =>
-        test.results?.some((result: any) => result.status === 'failed')
-      )
-    );
-
-    if (failingSpec) {
-      status = 'failed';
-      const failingResult =
-        failingSpec.tests?.[0]?.results?.find((result: any) => result.status === 'failed') ?? null;
-      error =
-        failingResult?.error?.message ||
-        failingResult?.error?.value ||
-        'Test failed – see Playwright trace for details';
-    } else {
-      status = 'passed';
-    }
+    ({ status, error } = statusFromAttempts(attempts));
   }
 
   const traceRecord =
@@ -373,7 +795,7 @@ export async function finalizeRunExecution(
     }
     matchedScreenshots.add(record.filename);
     screenshotDetails.push({
-      path: buildArtifactUrl(context.runId, record.filename), // Use full URL for client
+      path: record.filename, // Relative to the run; the client builds the project-scoped URL
       stepTitle: attachment.stepTitle || undefined, // Use step title from test.step()
       testTitle: attachment.testTitle,
       capturedAt: attachment.capturedAt,
@@ -386,16 +808,18 @@ export async function finalizeRunExecution(
   );
   remainingScreenshots.forEach((record, index) => {
     screenshotDetails.push({
-      path: buildArtifactUrl(context.runId, record.filename), // Use full URL for client
+      path: record.filename, // Relative to the run; the client builds the project-scoped URL
       stepTitle: `Screenshot ${screenshotDetails.length + index + 1}`
     });
   });
 
   const screenshotPaths = screenshotDetails.map((detail) => detail.path);
-  const tracePath = traceRecord ? path.join(context.runDir, traceRecord.filename) : undefined;
-  const videoPath = videoRecord
-    ? buildArtifactUrl(context.runId, videoRecord.filename)
-    : undefined;
+  const tracePath = traceRecord?.filename;
+  const videoPath = videoRecord?.filename;
+
+  const browsers = context.options.browsers;
+  const browserResults = browsers.length > 1 ? collectBrowserResults(playwrightResults) : [];
+  const rowResults = await collectRowResults(context, playwrightResults, artifactRecords);
 
   // Summarize error with AI if available and test failed
   let errorSummary: string | undefined;
@@ -428,32 +852,57 @@ export async function finalizeRunExecution(
     screenshots: screenshotDetails.length ? screenshotDetails : undefined,
     error,
     errorSummary,
+    ...(browsers.length === 1 ? { browser: browsers[0] } : {}),
+    ...(browserResults.length ? { browserResults } : {}),
     ...(normalizedSteps ? { steps: normalizedSteps } : {}),
     ...(stepCounts ? { stepCounts } : {}),
     ...(failedTitles ? { failedStepTitles: failedTitles } : {}),
+    ...(rowResults.length ? { rowResults } : {}),
+    ...(attempts.length ? { attempts } : {}),
     ...(options.logs && options.logs.length ? { logs: options.logs } : {})
   };
 
-  await fs.writeFile(path.join(context.runDir, 'result.json'), JSON.stringify(result, null, 2));
+  await writeFileAtomic(path.join(context.runDir, 'result.json'), JSON.stringify(result, null, 2));
   await updateTestRunMetadata(context, result).catch(() => void 0);
+  if (status === 'failed' && context.sessionState) {
+    // Not awaited: the check opens a browser and may re-run the login
+    void refreshSessionIfLoggedOut(context);
+  }
 
   return result;
 }
 
+/**
+ * A failed run may just mean the saved session was revoked server-side; if the
+ * start URL now redirects to login, capture a fresh session for the next run
+ */
+async function refreshSessionIfLoggedOut(context: RunExecutionContext): Promise<void> {
+  const { dataDir, testId, sessionState } = context;
+  if (!sessionState) {
+    return;
+  }
+  try {
+    const { metadata } = await loadTest(dataDir, testId);
+    if (metadata.startUrl && (await detectLoginRedirect(dataDir, sessionState.credentialId, metadata.startUrl))) {
+      console.log(`[runner] Saved session for ${sessionState.credentialId} was logged out; capturing it again`);
+      await refreshSessionState(dataDir, sessionState.credentialId);
+    }
+  } catch (error) {
+    console.warn(`[runner] Unable to refresh the saved session for ${sessionState.credentialId}:`, error);
+  }
+}
+
 async function updateTestRunMetadata(
   context: RunExecutionContext,
   result: RunResult
 ): Promise<void> {
   try {
-    const test = await loadTest(context.dataDir, context.testId);
-    test.metadata = {
-      ...test.metadata,
+    // Recorded beside the spec, not in it, so a run never shows up as a spec change
+    await recordLastRun(context.dataDir, context.testId, {
       lastRunAt: result.endedAt,
       lastRunStatus: result.status,
-      lastRunId: result.id,
-      updatedAt: new Date().toISOString()
-    };
-    await saveTest(context.dataDir, test);
+      lastRunId: result.id
+    });
   } catch (error) {
     console.warn(
       `[runner] Unable to update run metadata for ${context.testId}:`,
@@ -467,8 +916,16 @@ export async function runTest(options: RunTestOptions): Promise<RunResult> {
     headed: options.headed,
     speed: options.speed,
     keepOpen: options.keepOpen,
-    viewportSize: options.viewportSize
+    viewportSize: options.viewportSize,
+    startFromStep: options.startFromStep,
+    browser: options.browser,
+    browsers: options.browsers,
+    testTitle: options.testTitle,
+    rowIndexes: options.rowIndexes,
+    rowFilter: options.rowFilter,
+    execution: options.execution
   });
+  await prepareRunSessionState(context);
   const npx = await resolveNpxInvocation();
   const baseEnv = npx.env ?? process.env;
   const credentialsBlob = await serializeCredentialsBlob(options.dataDir);
@@ -491,6 +948,12 @@ export async function runTest(options: RunTestOptions): Promise<RunResult> {
       TRAILWRIGHT_HEADLESS: context.options.headed ? 'false' : 'true',
       TRAILWRIGHT_SLOWMO: String(context.options.slowMo),
       TRAILWRIGHT_KEEP_BROWSER_OPEN: context.options.keepOpen ? 'true' : 'false',
+      TRAILWRIGHT_BROWSERS: context.options.browsers.join(','),
+      TRAILWRIGHT_PROJECT_DIR: context.dataDir,
+      ...(context.options.testTitle ? { TRAILWRIGHT_TEST_TITLE: context.options.testTitle } : {}),
+      ...buildRowSelectionEnv(context.options),
+      ...buildExecutionEnv(context.options.execution),
+      ...buildSessionStateEnv(context),
       ...(credentialsBlob ? { TRAILWRIGHT_CREDENTIALS_BLOB: credentialsBlob } : {}),
       ...(context.options.viewportSize ? {
         TRAILWRIGHT_VIEWPORT_WIDTH: String(context.options.viewportSize.width),
@@ -0,0 +1,216 @@
+/**
+ * Capture and reuse logged-in browser sessions per credential.
+ *
+ * A credential can name a "session setup" test that logs in. Capturing replays
+ * that test's steps in a throwaway spec which saves the browser's storageState
+ * to `<dataDir>/auth/<credentialId>.json`; runs, multi-runs and AI generation
+ * for tests using the credential then start from that state instead of logging
+ * in again. Stale states are captured again on demand.
+ */
+
+import { spawn } from 'child_process';
+import fs from 'fs/promises';
+import path from 'path';
+import { chromium } from 'playwright';
+import { getCredentialById, serializeCredentialsBlob } from '../storage/credentials.js';
+import { getTestsDirectory } from '../storage/config.js';
+import { loadTest } from '../storage/tests.js';
+import {
+  SESSION_STATES_DIR,
+  getSessionStatePath,
+  getSessionStatus,
+  invalidateSessionState
+} from '../storage/sessionStates.js';
+import { resolveNpxInvocation } from '../utils/npx.js';
+import type { CredentialRecord } from '../types.js';
+import { STEP_BLOCKS_MODULE, STORAGE_STATE_OUT_ENV, TestCodeGenerator } from './testCodeGenerator.js';
+
+const CAPTURE_TIMEOUT_MS = 3 * 60 * 1000;
+
+// In-flight captures keyed by state file, so concurrent runs share one login
+const pendingCaptures = new Map<string, Promise<string>>();
+
+/**
+ * Run the credential's session setup test and save its storageState.
+ * Returns the path of the saved state.
+ */
+export function captureSessionState(dataDir: string, credentialId: string): Promise<string> {
+  const statePath = getSessionStatePath(dataDir, credentialId);
+  const pending = pendingCaptures.get(statePath);
+  if (pending) {
+    return pending;
+  }
+
+  const capture = runSessionSetup(dataDir, credentialId).finally(() => {
+    pendingCaptures.delete(statePath);
+  });
+  pendingCaptures.set(statePath, capture);
+  return capture;
+}
+
+async function runSessionSetup(dataDir: string, credentialId: string): Promise<string> {
+  const credential = await getCredentialById(dataDir, credentialId);
+  if (!credential) {
+    throw new Error('Credential not found');
+  }
+  if (!credential.sessionSetupTestId) {
+    throw new Error(`Credential ${credential.name} has no session setup test`);
+  }
+
+  let setupTest;
+  try {
+    setupTest = await loadTest(dataDir, credential.sessionSetupTestId);
+  } catch {
+    throw new Error(`Session setup test not found: ${credential.sessionSetupTestId}`);
+  }
+  const { metadata } = setupTest;
+  if (!metadata.steps?.length || !metadata.startUrl) {
+    throw new Error(`Session setup test ${metadata.name} needs a start URL and recorded steps`);
+  }
+  if (metadata.variables?.length) {
+    throw new Error(`Session setup test ${metadata.name} cannot use data-driven variables`);
+  }
+
+  const authDir = path.join(dataDir, SESSION_STATES_DIR);
+  await fs.mkdir(authDir, { recursive: true });
+  const specName = `${credentialId}.setup.spec.ts`;
+  const specPath = path.join(authDir, specName);
+  const outputDir = path.join(authDir, `.output-${credentialId}`);
+  const statePath = getSessionStatePath(dataDir, credentialId);
+  const blocksImportPath = path
+    .relative(authDir, path.join(await getTestsDirectory(dataDir), STEP_BLOCKS_MODULE))
+    .replace(/\\/g, '/');
+
+  await fs.writeFile(
+    specPath,
+    new TestCodeGenerator().generateSessionSetupFile({
+      testName: `Session setup: ${credential.name}`,
+      startUrl: metadata.startUrl,
+      steps: metadata.steps,
+      blocksImportPath: blocksImportPath.startsWith('.') ? blocksImportPath : `./${blocksImportPath}`
+    }),
+    'utf-8'
+  );
+
+  const npx = await resolveNpxInvocation();
+  const credentialsBlob = await serializeCredentialsBlob(dataDir);
+  const capturePath = `${statePath}.capture`;
+
+  try {
+    const { code, output } = await new Promise<{ code: number | null; output: string }>((resolve, reject) => {
+      const proc = spawn(
+        npx.command,
+        [...npx.argsPrefix, 'playwright', 'test', specName, '--reporter=line', `--output=${outputDir}`, '--retries=0'],
+        {
+          cwd: dataDir,
+          env: {
+            ...(npx.env ?? process.env),
+            TRAILWRIGHT_TEST_DIR: `./${SESSION_STATES_DIR}`,
+            TRAILWRIGHT_HEADLESS: 'true',
+            TRAILWRIGHT_BROWSERS: 'chromium',
+            TRAILWRIGHT_PROJECT_DIR: dataDir,
+            [STORAGE_STATE_OUT_ENV]: capturePath,
+            ...(credentialsBlob ? { TRAILWRIGHT_CREDENTIALS_BLOB: credentialsBlob } : {})
+          }
+        }
+      );
+      let output = '';
+      const timer = setTimeout(() => proc.kill(), CAPTURE_TIMEOUT_MS);
+      proc.stdout.on('data', (data) => (output += data.toString()));
+      proc.stderr.on('data', (data) => (output += data.toString()));
+      proc.on('error', (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      proc.on('close', (exitCode) => {
+        clearTimeout(timer);
+        resolve({ code: exitCode, output });
+      });
+    });
+
+    if (code !== 0) {
+      const tail = output.trim().split('\n').slice(-8).join('\n');
+      throw new Error(`Session setup test failed${tail ? `:\n${tail}` : ''}`);
+    }
+    // Only replace the previous state once the new one was written completely
+    await fs.chmod(capturePath, 0o600);
+    await fs.rename(capturePath, statePath);
+    return statePath;
+  } finally {
+    await Promise.all([
+      fs.rm(specPath, { force: true }),
+      fs.rm(capturePath, { force: true }),
+      fs.rm(outputDir, { recursive: true, force: true })
+    ]);
+  }
+}
+
+/**
+ * Path of a usable saved session for the credential, capturing a fresh one when
+ * it is missing or stale. Returns null when the credential has no setup test.
+ * `onCapture` is called before a capture starts, since that can take minutes.
+ */
+export async function ensureSessionState(
+  dataDir: string,
+  credentialId: string,
+  onCapture?: (credential: CredentialRecord) => void
+): Promise<string | null> {
+  const credential = await getCredentialById(dataDir, credentialId);
+  if (!credential) {
+    return null;
+  }
+
+  const status = await getSessionStatus(dataDir, credential);
+  if (status.captured && !status.expired) {
+    return getSessionStatePath(dataDir, credentialId);
+  }
+  if (!credential.sessionSetupTestId) {
+    return null;
+  }
+  onCapture?.(credential);
+  return captureSessionState(dataDir, credentialId);
+}
+
+function pageKey(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.origin}${parsed.pathname.replace(/\/+$/, '')}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * After a failed run: open the test's start URL with the saved session and check
+ * whether the app bounced us to the login page (the setup test's start URL).
+ */
+export async function detectLoginRedirect(dataDir: string, credentialId: string, startUrl: string): Promise<boolean> {
+  const credential = await getCredentialById(dataDir, credentialId);
+  if (!credential?.sessionSetupTestId) {
+    return false;
+  }
+
+  const setupTest = await loadTest(dataDir, credential.sessionSetupTestId).catch(() => null);
+  const loginPage = setupTest?.metadata.startUrl ? pageKey(setupTest.metadata.startUrl) : null;
+  if (!loginPage || pageKey(startUrl) === loginPage) {
+    return false;
+  }
+
+  const browser = await chromium.launch({ headless: true });
+  try {
+    const context = await browser.newContext({ storageState: getSessionStatePath(dataDir, credentialId) });
+    const page = await context.newPage();
+    await page.goto(startUrl, { waitUntil: 'domcontentloaded', timeout: 30000 });
+    return pageKey(page.url()) === loginPage;
+  } finally {
+    await browser.close();
+  }
+}
+
+/**
+ * Drop a session that no longer logs in and capture a new one
+ */
+export async function refreshSessionState(dataDir: string, credentialId: string): Promise<string> {
+  await invalidateSessionState(dataDir, credentialId);
+  return captureSessionState(dataDir, credentialId);
+}
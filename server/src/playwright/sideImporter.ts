@@ -0,0 +1,405 @@
+/**
+ * Selenium IDE importer - turns the tests of `.side` project files into
+ * TrailWright library entries.
+ *
+ * Each Selenium command (open, click, type, select, assertText,
+ * waitForElement...) becomes a RecordedStep whose code uses the Playwright
+ * equivalent of its locator, and the spec is built by TestCodeGenerator like a
+ * recorded test. Commands without a translation are kept as TODO steps flagged
+ * `needsReview` so they show up for review in the workspace.
+ */
+
+import type { TestMetadata, TestStepMetadata } from '../types.js';
+import type { RecordedStep } from '../../../shared/types.js';
+import { getTestsDirectory } from '../storage/config.js';
+import { extractMetadataHeader } from '../storage/metadata.js';
+import { saveTest } from '../storage/tests.js';
+import { TestCodeGenerator } from './testCodeGenerator.js';
+import { describeStepCode, uniqueTestId } from './specImporter.js';
+import type { SpecFileInput, SpecImportResult } from './specImporter.js';
+
+export interface SideCommand {
+  command: string;
+  target?: string;
+  /** Alternative locators recorded for the target: [locator, strategy] */
+  targets?: string[][];
+  value?: string;
+  comment?: string;
+}
+
+export interface SideTest {
+  name: string;
+  commands: SideCommand[];
+}
+
+export interface SideProject {
+  name?: string;
+  /** Base URL that relative `open` targets resolve against */
+  url?: string;
+  tests: SideTest[];
+}
+
+export interface SideImportStep {
+  step: RecordedStep;
+  needsReview?: string;
+}
+
+export interface ConvertedSideTest {
+  name: string;
+  startUrl?: string;
+  steps: SideImportStep[];
+}
+
+/** Selenium IDE key names used in sendKeys values, e.g. ${KEY_ENTER} */
+const SELENIUM_KEYS: Record<string, string> = {
+  ENTER: 'Enter',
+  TAB: 'Tab',
+  ESC: 'Escape',
+  ESCAPE: 'Escape',
+  BACKSPACE: 'Backspace',
+  BKSP: 'Backspace',
+  DELETE: 'Delete',
+  DEL: 'Delete',
+  SPACE: 'Space',
+  UP: 'ArrowUp',
+  DOWN: 'ArrowDown',
+  LEFT: 'ArrowLeft',
+  RIGHT: 'ArrowRight',
+  HOME: 'Home',
+  END: 'End',
+  PAGE_UP: 'PageUp',
+  PAGE_DOWN: 'PageDown'
+};
+
+function literal(text: string): string {
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\r?\n/g, '\\n')}'`;
+}
+
+function cssString(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Playwright locator expression for a Selenium locator (id=, name=, css=,
+ * xpath=, linkText=, partialLinkText= or a bare XPath), or null when the
+ * strategy has no equivalent
+ */
+export function seleniumLocator(target: string): string | null {
+  if (target.startsWith('/') || target.startsWith('(')) {
+    return `page.locator(${literal(`xpath=${target}`)})`;
+  }
+  const match = target.match(/^(\w+)=([\s\S]+)$/);
+  if (!match) {
+    return null;
+  }
+  const [, strategy, value] = match;
+  switch (strategy) {
+    case 'id':
+      return `page.locator(${literal(/^[A-Za-z][\w-]*$/.test(value) ? `#${value}` : `[id=${cssString(value)}]`)})`;
+    case 'name':
+      return `page.locator(${literal(`[name=${cssString(value)}]`)})`;
+    case 'css':
+      return `page.locator(${literal(value)})`;
+    case 'xpath':
+      return `page.locator(${literal(`xpath=${value}`)})`;
+    case 'linkText':
+      return `page.getByRole('link', { name: ${literal(value)}, exact: true })`;
+    case 'partialLinkText':
+      return `page.getByRole('link', { name: ${literal(value)} })`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Locator for a command's target, falling back to the alternatives Selenium
+ * IDE recorded when the primary strategy has no equivalent
+ */
+function commandLocator(command: SideCommand, field: 'target' | 'value' = 'target'): string {
+  const target = (command[field] ?? '').trim();
+  const candidates = field === 'target' ? [target, ...(command.targets ?? []).map(([locator]) => locator)] : [target];
+  for (const candidate of candidates) {
+    const locator = candidate ? seleniumLocator(candidate) : null;
+    if (locator) {
+      return locator;
+    }
+  }
+  throw new Error(target ? `Unsupported Selenium locator: ${target}` : `Selenium command "${command.command}" has no target`);
+}
+
+function resolveUrl(target: string, baseUrl?: string): string {
+  try {
+    return new URL(target, baseUrl || undefined).href;
+  } catch {
+    return target;
+  }
+}
+
+/**
+ * sendKeys mixes text with ${KEY_*} tokens; text is typed and keys are pressed
+ */
+function sendKeysCode(locator: string, value: string): string {
+  const lines: string[] = [];
+  for (const part of value.split(/(\$\{KEY_\w+\})/)) {
+    if (!part) continue;
+    const key = part.match(/^\$\{KEY_(\w+)\}$/)?.[1];
+    if (key) {
+      const playwrightKey = SELENIUM_KEYS[key];
+      if (!playwrightKey) {
+        throw new Error(`Unsupported Selenium key: ${part}`);
+      }
+      lines.push(`await ${locator}.press(${literal(playwrightKey)});`);
+    } else {
+      lines.push(`await ${locator}.pressSequentially(${literal(part)});`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Selenium option locators: label=, value=, index= or a bare label
+ */
+function selectOptionArgument(option: string): string {
+  const match = option.match(/^(label|value|index)=([\s\S]*)$/);
+  if (!match) {
+    if (/^\w+=/.test(option)) {
+      throw new Error(`Unsupported Selenium option locator: ${option}`);
+    }
+    return `{ label: ${literal(option)} }`;
+  }
+  const [, kind, value] = match;
+  return kind === 'index' ? `{ index: ${Number(value)} }` : `{ ${kind}: ${literal(value)} }`;
+}
+
+function waitOptions(state: string, timeout?: string): string {
+  return /^\d+$/.test(timeout ?? '') ? `{ state: '${state}', timeout: ${timeout} }` : `{ state: '${state}' }`;
+}
+
+/**
+ * Playwright code for one Selenium command; throws with the reason when the
+ * command cannot be translated
+ */
+function translateCommand(
+  command: SideCommand,
+  baseUrl?: string
+): { code: string; interactionType?: RecordedStep['interactionType'] } {
+  const target = command.target ?? '';
+  const value = command.value ?? '';
+  // verify* commands keep the test running on failure, like soft assertions
+  const name = command.command.replace(/^verify/, 'assert');
+  const expect = command.command.startsWith('verify') ? 'expect.soft' : 'expect';
+  const element = () => commandLocator(command);
+
+  switch (name) {
+    case 'open':
+      return { code: `await page.goto(${literal(resolveUrl(target, baseUrl))});`, interactionType: 'navigate' };
+    case 'click':
+    case 'clickAt':
+      return { code: `await ${element()}.click();`, interactionType: 'click' };
+    case 'doubleClick':
+    case 'doubleClickAt':
+      return { code: `await ${element()}.dblclick();`, interactionType: 'click' };
+    case 'mouseOver':
+      return { code: `await ${element()}.hover();` };
+    case 'check':
+    case 'uncheck':
+      return { code: `await ${element()}.${name}();`, interactionType: 'click' };
+    case 'type':
+      return { code: `await ${element()}.fill(${literal(value)});`, interactionType: 'fill' };
+    case 'sendKeys':
+      return { code: sendKeysCode(element(), value), interactionType: 'fill' };
+    case 'select':
+      return { code: `await ${element()}.selectOption(${selectOptionArgument(value)});`, interactionType: 'select' };
+    case 'dragAndDropToObject':
+      return { code: `await ${element()}.dragTo(${commandLocator(command, 'value')});` };
+    case 'pause':
+      return { code: `await page.waitForTimeout(${Number(target || value) || 0});` };
+    case 'setWindowSize': {
+      const size = target.match(/^(\d+)x(\d+)$/);
+      if (!size) {
+        throw new Error(`Unsupported window size: ${target}`);
+      }
+      return { code: `await page.setViewportSize({ width: ${size[1]}, height: ${size[2]} });` };
+    }
+    case 'echo':
+      return { code: `console.log(${literal(target)});` };
+    case 'assertTitle':
+      return { code: `await ${expect}(page).toHaveTitle(${literal(target)});`, interactionType: 'assert' };
+    case 'assertText':
+      return { code: `await ${expect}(${element()}).toHaveText(${literal(value)});`, interactionType: 'assert' };
+    case 'assertNotText':
+      return { code: `await ${expect}(${element()}).not.toHaveText(${literal(value)});`, interactionType: 'assert' };
+    case 'assertValue':
+    case 'assertSelectedValue':
+      return { code: `await ${expect}(${element()}).toHaveValue(${literal(value)});`, interactionType: 'assert' };
+    case 'assertChecked':
+      return { code: `await ${expect}(${element()}).toBeChecked();`, interactionType: 'assert' };
+    case 'assertNotChecked':
+      return { code: `await ${expect}(${element()}).not.toBeChecked();`, interactionType: 'assert' };
+    case 'assertEditable':
+      return { code: `await ${expect}(${element()}).toBeEditable();`, interactionType: 'assert' };
+    case 'assertNotEditable':
+      return { code: `await ${expect}(${element()}).not.toBeEditable();`, interactionType: 'assert' };
+    case 'assertElementPresent':
+      return { code: `await ${expect}(${element()}.first()).toBeAttached();`, interactionType: 'assert' };
+    case 'assertElementNotPresent':
+      return { code: `await ${expect}(${element()}).toHaveCount(0);`, interactionType: 'assert' };
+    case 'waitForElementPresent':
+      return { code: `await ${element()}.first().waitFor(${waitOptions('attached', value)});` };
+    case 'waitForElementNotPresent':
+      return { code: `await ${element()}.first().waitFor(${waitOptions('detached', value)});` };
+    case 'waitForElementVisible':
+      return { code: `await ${element()}.first().waitFor(${waitOptions('visible', value)});` };
+    case 'waitForElementNotVisible':
+      return { code: `await ${element()}.first().waitFor(${waitOptions('hidden', value)});` };
+    case 'waitForElementEditable':
+      return { code: `await expect(${element()}).toBeEditable();` };
+    case 'waitForText':
+      return { code: `await expect(${element()}).toHaveText(${literal(value)});` };
+    default:
+      throw new Error(`Selenium command "${command.command}" has no Playwright translation`);
+  }
+}
+
+/**
+ * Convert one Selenium command into a recorded step. Disabled commands
+ * (prefixed with "//") and blank rows are dropped.
+ */
+export function convertSideCommand(command: SideCommand, stepNumber: number, baseUrl?: string): SideImportStep | null {
+  const name = (command.command ?? '').trim();
+  if (!name || name.startsWith('//')) {
+    return null;
+  }
+  const target = command.target ?? '';
+  const comment = command.comment?.trim();
+  const base = { stepNumber, timestamp: new Date().toISOString(), ...(target ? { elementInfo: { selector: target } } : {}) };
+
+  try {
+    const { code, interactionType } = translateCommand({ ...command, command: name }, baseUrl);
+    // ${name} outside of sendKeys' key tokens is a Selenium stored variable
+    const variable = [target, command.value ?? ''].join(' ').match(/\$\{(?!KEY_)(\w+)\}/)?.[1];
+    return {
+      step: {
+        ...base,
+        playwrightCode: code,
+        qaSummary: comment || describeStepCode(code),
+        ...(interactionType ? { interactionType } : {})
+      },
+      ...(variable ? { needsReview: `Uses the Selenium variable \${${variable}}; replace it with a value or a test variable` } : {})
+    };
+  } catch (error) {
+    const original = [name, target, command.value ?? ''].filter(Boolean).join(' | ');
+    return {
+      step: {
+        ...base,
+        playwrightCode: `// TODO: translate Selenium IDE command\n// ${original.replace(/\r?\n/g, ' ')}`,
+        qaSummary: comment || `TODO: ${name}${target ? ` ${target}` : ''}`
+      },
+      needsReview: (error as Error).message
+    };
+  }
+}
+
+/**
+ * Convert a Selenium IDE test. A leading `open` becomes the start URL, since
+ * the generated spec navigates there itself.
+ */
+export function convertSideTest(test: SideTest, baseUrl?: string): ConvertedSideTest {
+  let commands = test.commands ?? [];
+  let startUrl: string | undefined;
+  const first = commands.findIndex((command) => command.command?.trim() && !command.command.trim().startsWith('//'));
+  if (first >= 0 && commands[first].command.trim() === 'open' && commands[first].target) {
+    startUrl = resolveUrl(commands[first].target!, baseUrl);
+    commands = commands.slice(first + 1);
+  }
+
+  const steps: SideImportStep[] = [];
+  for (const command of commands) {
+    const converted = convertSideCommand(command, steps.length + 1, baseUrl);
+    if (converted) steps.push(converted);
+  }
+  return { name: test.name?.trim() || 'Imported Selenium test', ...(startUrl ? { startUrl } : {}), steps };
+}
+
+/**
+ * Parse a `.side` file; throws when it is not a Selenium IDE project
+ */
+export function parseSideProject(content: string): SideProject {
+  let project: any;
+  try {
+    project = JSON.parse(content);
+  } catch {
+    throw new Error('Not valid JSON');
+  }
+  if (!project || !Array.isArray(project.tests)) {
+    throw new Error('Not a Selenium IDE project (no tests array)');
+  }
+  return project as SideProject;
+}
+
+/**
+ * Import every test of the given `.side` projects into the library
+ */
+export async function importSideFiles(
+  dataDir: string,
+  files: SpecFileInput[],
+  options: { folder?: string } = {}
+): Promise<SpecImportResult> {
+  const testsDir = await getTestsDirectory(dataDir);
+  const generator = new TestCodeGenerator();
+  const usedIds = new Set<string>();
+  const result: SpecImportResult = { imported: [], skipped: [] };
+
+  for (const file of files) {
+    let project: SideProject;
+    try {
+      project = parseSideProject(file.content);
+    } catch (error) {
+      result.skipped.push({ path: file.path, reason: (error as Error).message });
+      continue;
+    }
+    if (project.tests.length === 0) {
+      result.skipped.push({ path: file.path, reason: 'No tests found' });
+      continue;
+    }
+
+    for (const test of project.tests) {
+      const converted = convertSideTest(test, project.url);
+      const id = await uniqueTestId(testsDir, converted.name, usedIds);
+      const steps: TestStepMetadata[] = converted.steps.map(({ step, needsReview }) => ({
+        number: step.stepNumber,
+        qaSummary: step.qaSummary,
+        playwrightCode: step.playwrightCode,
+        ...(needsReview ? { needsReview } : {})
+      }));
+
+      const now = new Date().toISOString();
+      const metadata: TestMetadata = {
+        id,
+        name: converted.name,
+        description: `Imported from Selenium IDE project ${project.name?.trim() || file.path}`,
+        tags: ['imported', 'selenium-ide'],
+        ...(converted.startUrl ? { startUrl: converted.startUrl } : {}),
+        steps,
+        ...(options.folder ? { folder: options.folder } : {}),
+        createdAt: now,
+        updatedAt: now
+      };
+
+      const code =
+        extractMetadataHeader(
+          generator.generateTestFile({
+            testId: id,
+            testName: converted.name,
+            startUrl: converted.startUrl ?? '',
+            steps: converted.steps.map(({ step }) => step)
+          })
+        )?.code ?? '';
+
+      await saveTest(dataDir, { metadata, code: `${code.trim()}\n` }, { revision: 'imported' });
+      result.imported.push(metadata);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,111 @@
+/**
+ * Spec AST helpers - TypeScript compiler API utilities shared by the step
+ * extractor and the spec importer for reading test(), describe() and
+ * test.step() calls out of Playwright specs.
+ */
+
+import ts from 'typescript';
+
+const TEST_FUNCTIONS = new Set(['test', 'it']);
+const DESCRIBE_FUNCTIONS = new Set(['describe', 'test.describe']);
+
+export function parseSpecSource(content: string, fileName = 'test.spec.ts'): ts.SourceFile {
+  return ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+}
+
+/**
+ * Dotted callee name, e.g. "test.describe.serial" for test.describe.serial(...)
+ */
+export function calleeName(expression: ts.Expression): string | null {
+  if (ts.isIdentifier(expression)) {
+    return expression.text;
+  }
+  if (ts.isPropertyAccessExpression(expression)) {
+    const owner = calleeName(expression.expression);
+    return owner ? `${owner}.${expression.name.text}` : null;
+  }
+  return null;
+}
+
+/**
+ * The call made by `foo(...)` / `await foo(...)`, as a statement or a concise arrow body
+ */
+export function unwrapCall(node: ts.Node): ts.CallExpression | null {
+  let expression: ts.Node = ts.isExpressionStatement(node) ? node.expression : node;
+  if (ts.isAwaitExpression(expression)) {
+    expression = expression.expression;
+  }
+  return ts.isCallExpression(expression) ? expression : null;
+}
+
+export function isTestCall(call: ts.CallExpression): boolean {
+  const name = calleeName(call.expression);
+  return !!name && (TEST_FUNCTIONS.has(name) || /^(test|it)\.only$/.test(name));
+}
+
+export function isDescribeCall(call: ts.CallExpression): boolean {
+  const name = calleeName(call.expression);
+  return !!name && (DESCRIBE_FUNCTIONS.has(name) || /^(test\.)?describe\.(only|serial|parallel)$/.test(name));
+}
+
+/**
+ * test.step(...) and its modifiers (test.step.skip)
+ */
+export function isStepCall(call: ts.CallExpression): boolean {
+  const name = calleeName(call.expression);
+  return name === 'test.step' || name === 'test.step.skip';
+}
+
+/**
+ * Text of a title argument: string literals are unescaped, template literals
+ * keep their `${...}` placeholders, anything else is returned as source
+ */
+export function literalText(node: ts.Expression | undefined, sourceFile: ts.SourceFile): string {
+  if (!node) {
+    return '';
+  }
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+    return node.text;
+  }
+  if (ts.isTemplateExpression(node)) {
+    return node.getText(sourceFile).slice(1, -1);
+  }
+  return node.getText(sourceFile);
+}
+
+/**
+ * The call's last function argument, e.g. the body of test() or test.step()
+ */
+export function callbackFunction(call: ts.CallExpression): ts.ArrowFunction | ts.FunctionExpression | undefined {
+  return [...call.arguments]
+    .reverse()
+    .find((arg): arg is ts.ArrowFunction | ts.FunctionExpression => ts.isArrowFunction(arg) || ts.isFunctionExpression(arg));
+}
+
+/**
+ * Statements of the callback passed as the call's last function argument
+ */
+export function callbackBody(call: ts.CallExpression): readonly ts.Node[] {
+  const callback = callbackFunction(call);
+  if (!callback) {
+    return [];
+  }
+  if (ts.isBlock(callback.body)) {
+    return callback.body.statements;
+  }
+  return [callback.body];
+}
+
+/**
+ * Source text of a statement range with the common indentation removed
+ */
+export function statementsText(statements: readonly ts.Node[], sourceFile: ts.SourceFile): string {
+  if (statements.length === 0) {
+    return '';
+  }
+  const start = statements[0].getStart(sourceFile);
+  const end = statements[statements.length - 1].end;
+  const indent = sourceFile.getLineAndCharacterOfPosition(start).character;
+  const [first, ...rest] = sourceFile.text.slice(start, end).split('\n');
+  return [first, ...rest.map((line) => line.replace(new RegExp(`^[ \\t]{0,${indent}}`), ''))].join('\n');
+}
@@ -0,0 +1,466 @@
+/**
+ * Spec importer - turns plain Playwright specs (codegen output, tests from an
+ * existing repo) into TrailWright library entries.
+ *
+ * Specs are parsed with the TypeScript compiler API. Each `test()` becomes an
+ * entry whose name is the test title, whose start URL is its first
+ * `page.goto()`, and whose steps are its `test.step()` blocks - or, when it has
+ * none, its top-level statements (a variable stays in one step with its uses).
+ * Its fixture parameters and the hooks of enclosing describe blocks are kept.
+ * Steps without a title get a qaSummary from the caller's summarizer (AI) or a
+ * description derived from the code.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import ts from 'typescript';
+import type { TestMetadata, TestStepMetadata } from '../types.js';
+import { getTestsDirectory } from '../storage/config.js';
+import { extractMetadataHeader } from '../storage/metadata.js';
+import { saveTest } from '../storage/tests.js';
+import { TestCodeGenerator } from './testCodeGenerator.js';
+import {
+  callbackBody,
+  callbackFunction,
+  isDescribeCall,
+  isStepCall,
+  isTestCall,
+  literalText,
+  parseSpecSource,
+  statementsText,
+  unwrapCall
+} from './specAst.js';
+
+export interface SpecFileInput {
+  /** File path as uploaded, e.g. "e2e/checkout.spec.ts" */
+  path: string;
+  content: string;
+}
+
+export interface ParsedSpecStep {
+  /** Title of the test.step() block; absent for plain statements */
+  qaSummary?: string;
+  playwrightCode: string;
+}
+
+export interface ParsedSpecTest {
+  title: string;
+  startUrl?: string;
+  /** Parameter list of the test callback, e.g. "{ page, request }" */
+  fixtures: string;
+  /** Hooks, test.use and shared code of the describe blocks around the test */
+  setup?: string;
+  steps: ParsedSpecStep[];
+}
+
+export interface ParsedSpecFile {
+  /** Imports and top-level code (helpers, test.use, hooks) the tests rely on */
+  preamble: string;
+  tests: ParsedSpecTest[];
+}
+
+export interface SpecImportOptions {
+  /** Import every test() of a multi-test file as its own entry */
+  split?: boolean;
+  folder?: string;
+  /** Write qaSummary text for untitled steps, one per code block */
+  summarizeSteps?: (codeBlocks: string[]) => Promise<string[]>;
+}
+
+export interface SpecImportResult {
+  imported: TestMetadata[];
+  skipped: Array<{ path: string; reason: string }>;
+}
+
+/**
+ * URL of an `await page.goto('...')` statement, if that is what the statement is
+ */
+function gotoUrl(statement: ts.Node): string | undefined {
+  const call = unwrapCall(statement);
+  if (!call || !ts.isPropertyAccessExpression(call.expression) || call.expression.name.text !== 'goto') {
+    return undefined;
+  }
+  const [url] = call.arguments;
+  return url && (ts.isStringLiteral(url) || ts.isNoSubstitutionTemplateLiteral(url)) ? url.text : undefined;
+}
+
+function findFirstGoto(node: ts.Node): string | undefined {
+  let found: string | undefined;
+  const visit = (child: ts.Node) => {
+    if (found) return;
+    if (ts.isExpressionStatement(child) || ts.isAwaitExpression(child)) {
+      found = gotoUrl(child);
+    }
+    if (!found) ts.forEachChild(child, visit);
+  };
+  visit(node);
+  return found;
+}
+
+function bindingNames(name: ts.BindingName): string[] {
+  if (ts.isIdentifier(name)) {
+    return [name.text];
+  }
+  return name.elements.flatMap((element) => (ts.isBindingElement(element) ? bindingNames(element.name) : []));
+}
+
+function declaredNames(statement: ts.Node): string[] {
+  if (ts.isVariableStatement(statement)) {
+    return statement.declarationList.declarations.flatMap((declaration) => bindingNames(declaration.name));
+  }
+  if ((ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) && statement.name) {
+    return [statement.name.text];
+  }
+  return [];
+}
+
+function referencedNames(statement: ts.Node): Set<string> {
+  const names = new Set<string>();
+  const visit = (node: ts.Node) => {
+    if (ts.isIdentifier(node) && !(ts.isPropertyAccessExpression(node.parent) && node.parent.name === node)) {
+      names.add(node.text);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(statement);
+  return names;
+}
+
+/**
+ * Split a test body into steps. Each step runs in its own test.step() callback,
+ * so a variable and every statement that uses it must end up in the same step.
+ */
+function groupStatements(statements: readonly ts.Node[]): ts.Node[][] {
+  const declaredAt = new Map<string, number>();
+  const joinsNext = statements.map(() => false);
+  statements.forEach((statement, index) => {
+    for (const name of referencedNames(statement)) {
+      const declaredIndex = declaredAt.get(name);
+      for (let joined = declaredIndex ?? index; joined < index; joined++) {
+        joinsNext[joined] = true;
+      }
+    }
+    for (const name of declaredNames(statement)) {
+      declaredAt.set(name, index);
+    }
+  });
+
+  const groups: ts.Node[][] = [];
+  statements.forEach((statement, index) => {
+    if (index > 0 && joinsNext[index - 1]) {
+      groups[groups.length - 1].push(statement);
+    } else {
+      groups.push([statement]);
+    }
+  });
+  return groups;
+}
+
+function parseTestBody(title: string, call: ts.CallExpression, sourceFile: ts.SourceFile): ParsedSpecTest {
+  const statements = callbackBody(call);
+  const fixtures = callbackFunction(call)?.parameters.map((parameter) => parameter.getText(sourceFile)).join(', ') ?? '';
+  let body = [...statements];
+  // The generated spec navigates to the start URL itself, so a leading goto is dropped
+  let startUrl = body.length ? gotoUrl(body[0]) : undefined;
+  if (startUrl !== undefined) {
+    body = body.slice(1);
+  } else {
+    startUrl = statements.map((statement) => findFirstGoto(statement)).find(Boolean);
+  }
+
+  const steps = groupStatements(body).map((group): ParsedSpecStep => {
+    const stepCall = group.length === 1 ? unwrapCall(group[0]) : null;
+    if (stepCall && isStepCall(stepCall)) {
+      return {
+        qaSummary: literalText(stepCall.arguments[0], sourceFile).trim() || undefined,
+        playwrightCode: statementsText(callbackBody(stepCall), sourceFile)
+      };
+    }
+    return { playwrightCode: statementsText(group, sourceFile) };
+  });
+
+  return {
+    title,
+    ...(startUrl ? { startUrl } : {}),
+    fixtures,
+    steps: steps.filter((step) => step.playwrightCode.trim())
+  };
+}
+
+/**
+ * `import { test, expect } from '@playwright/test'` is emitted by the generator;
+ * any other bindings from that import are kept
+ */
+function rewritePlaywrightImport(statement: ts.ImportDeclaration, sourceFile: ts.SourceFile): string | null {
+  const bindings = statement.importClause?.namedBindings;
+  if (!bindings || !ts.isNamedImports(bindings) || statement.importClause?.name) {
+    return null;
+  }
+  const kept = bindings.elements.filter((element) => !['test', 'expect'].includes(element.name.text));
+  if (kept.length === 0) {
+    return null;
+  }
+  return `import { ${kept.map((element) => element.getText(sourceFile)).join(', ')} } from '@playwright/test';`;
+}
+
+/**
+ * Parse a plain Playwright spec into its tests and the shared code around them
+ */
+export function parseSpecFile(content: string, fileName = 'imported.spec.ts'): ParsedSpecFile {
+  const header = extractMetadataHeader(content);
+  const source = header ? header.code : content;
+  const sourceFile = parseSpecSource(source, fileName);
+  const preamble: string[] = [];
+  const tests: ParsedSpecTest[] = [];
+
+  // Describe-level hooks (beforeEach logins, test.use) apply to the tests inside,
+  // so each test carries those of its enclosing describe blocks
+  const collect = (statements: readonly ts.Node[], titlePrefix: string[], setup: string[] | null) => {
+    const ownSetup = setup ? [...setup] : null;
+    if (ownSetup) {
+      for (const statement of statements) {
+        const call = unwrapCall(statement);
+        if (!call || !(isTestCall(call) || isDescribeCall(call))) {
+          ownSetup.push(statementsText([statement], sourceFile));
+        }
+      }
+    }
+    for (const statement of statements) {
+      const call = unwrapCall(statement);
+      if (call && isTestCall(call)) {
+        const title = [...titlePrefix, literalText(call.arguments[0], sourceFile)].filter(Boolean).join(' › ');
+        const test = parseTestBody(title || 'Imported test', call, sourceFile);
+        tests.push(ownSetup?.length ? { ...test, setup: ownSetup.join('\n') } : test);
+      } else if (call && isDescribeCall(call)) {
+        collect(callbackBody(call), [...titlePrefix, literalText(call.arguments[0], sourceFile)], ownSetup ?? []);
+      } else if (!setup) {
+        if (
+          ts.isImportDeclaration(statement) &&
+          ts.isStringLiteral(statement.moduleSpecifier) &&
+          statement.moduleSpecifier.text === '@playwright/test'
+        ) {
+          const rewritten = rewritePlaywrightImport(statement, sourceFile);
+          if (rewritten) preamble.push(rewritten);
+        } else {
+          preamble.push(statement.getFullText(sourceFile).trim());
+        }
+      }
+    }
+  };
+  collect(sourceFile.statements, [], null);
+
+  return { preamble: preamble.join('\n'), tests };
+}
+
+function quoted(text: string | undefined): string {
+  return text ? `"${text}"` : '';
+}
+
+/**
+ * Readable summary of a code block when no AI provider is available
+ */
+export function describeStepCode(code: string): string {
+  const firstLine = code.trim().split('\n')[0];
+  const target =
+    firstLine.match(/getBy(?:Role)\([^)]*name:\s*(['"`])(.+?)\1/)?.[2] ??
+    firstLine.match(/getBy(?:Text|Label|Placeholder|TestId|Title|AltText)\(\s*(['"`])(.+?)\1/)?.[2] ??
+    firstLine.match(/locator\(\s*(['"`])(.+?)\1/)?.[2];
+
+  const url = firstLine.match(/\.goto\(\s*(['"`])(.+?)\1/)?.[2];
+  if (url) return `Open ${url}`;
+  if (/\bexpect(?:\.soft)?\(/.test(firstLine)) return `Verify ${quoted(target) || 'the page state'}`.trim();
+  if (/\.(fill|type|pressSequentially)\(/.test(firstLine)) return `Fill in ${quoted(target) || 'the field'}`;
+  if (/\.(check|uncheck)\(/.test(firstLine)) return `Toggle ${quoted(target) || 'the checkbox'}`;
+  if (/\.selectOption\(/.test(firstLine)) return `Select an option in ${quoted(target) || 'the dropdown'}`;
+  if (/\.press\(/.test(firstLine)) return `Press a key${target ? ` in "${target}"` : ''}`;
+  if (/\.waitFor\(/.test(firstLine)) return `Wait for ${quoted(target) || 'the element'}`;
+  if (/\.hover\(/.test(firstLine)) return `Hover over ${quoted(target) || 'the element'}`;
+  if (/\.(click|dblclick|tap)\(/.test(firstLine)) return `Click ${quoted(target) || 'the element'}`;
+
+  const compact = firstLine.replace(/^await\s+/, '').replace(/;$/, '');
+  return compact.length > 60 ? `${compact.slice(0, 57)}...` : compact;
+}
+
+function humanizeFileName(filePath: string): string {
+  const base = path.basename(filePath).replace(/\.(spec|test)\.[cm]?[jt]sx?$/, '').replace(/\.[cm]?[jt]sx?$/, '');
+  const words = base.replace(/[-_.]+/g, ' ').trim();
+  return words ? words.charAt(0).toUpperCase() + words.slice(1) : 'Imported test';
+}
+
+function slugify(name: string): string {
+  return (
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 50) || 'imported-test'
+  );
+}
+
+async function fileExists(target: string): Promise<boolean> {
+  try {
+    await fs.access(target);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Id for an imported test: its slugified name, suffixed when a spec with that
+ * id exists or an earlier test of the same import took it
+ */
+export async function uniqueTestId(testsDir: string, name: string, usedIds: Set<string>): Promise<string> {
+  const base = slugify(name);
+  let id = base;
+  for (let suffix = 2; usedIds.has(id) || (await fileExists(path.join(testsDir, `${id}.spec.ts`))); suffix++) {
+    id = `${base}-${suffix}`;
+  }
+  usedIds.add(id);
+  return id;
+}
+
+/**
+ * Fill in qaSummary for untitled steps: one summarizer call for the whole import
+ */
+async function summarizeUntitledSteps(
+  steps: ParsedSpecStep[],
+  summarize?: SpecImportOptions['summarizeSteps']
+): Promise<string[]> {
+  const untitled = steps.filter((step) => !step.qaSummary);
+  let summaries: string[] | null = null;
+  if (untitled.length && summarize) {
+    try {
+      summaries = await summarize(untitled.map((step) => step.playwrightCode));
+    } catch (error) {
+      console.warn('[import] Step summaries fall back to code descriptions:', (error as Error)?.message || error);
+    }
+  }
+  let index = 0;
+  return steps.map((step) => step.qaSummary ?? summaries?.[index++] ?? describeStepCode(step.playwrightCode));
+}
+
+function withPreamble(code: string, preamble: string): string {
+  if (!preamble) {
+    return code;
+  }
+  const lines = code.split('\n');
+  const lastImport = lines.reduce((last, line, index) => (line.startsWith('import ') ? index : last), -1);
+  lines.splice(lastImport + 1, 0, '', preamble);
+  return lines.join('\n');
+}
+
+/**
+ * Import plain specs into the library. Single-test files (and every test of a
+ * file when `split` is set) are rebuilt as TrailWright specs with one
+ * test.step() per step; other multi-test files are kept verbatim as one entry.
+ */
+export async function importSpecFiles(
+  dataDir: string,
+  files: SpecFileInput[],
+  options: SpecImportOptions = {}
+): Promise<SpecImportResult> {
+  const testsDir = await getTestsDirectory(dataDir);
+  const generator = new TestCodeGenerator();
+  const usedIds = new Set<string>();
+  const result: SpecImportResult = { imported: [], skipped: [] };
+
+  // Parse everything first so all untitled steps are summarized in one request
+  const entries: Array<{
+    file: SpecFileInput;
+    name: string;
+    startUrl?: string;
+    fixtures?: string;
+    steps: ParsedSpecStep[];
+    code?: string;
+    preamble: string;
+  }> = [];
+  for (const file of files) {
+    let parsed: ParsedSpecFile;
+    try {
+      parsed = parseSpecFile(file.content, path.basename(file.path));
+    } catch (error) {
+      result.skipped.push({ path: file.path, reason: (error as Error)?.message || 'Unable to parse file' });
+      continue;
+    }
+    if (parsed.tests.length === 0) {
+      result.skipped.push({ path: file.path, reason: 'No test() calls found' });
+      continue;
+    }
+
+    if (parsed.tests.length > 1 && !options.split) {
+      const header = extractMetadataHeader(file.content);
+      entries.push({
+        file,
+        name: humanizeFileName(file.path),
+        startUrl: parsed.tests.find((test) => test.startUrl)?.startUrl,
+        steps: parsed.tests.flatMap((test) =>
+          test.steps.map((step) => ({ ...step, qaSummary: step.qaSummary ? `${test.title}: ${step.qaSummary}` : undefined }))
+        ),
+        code: header ? header.code : file.content,
+        preamble: parsed.preamble
+      });
+      continue;
+    }
+
+    for (const test of parsed.tests) {
+      entries.push({
+        file,
+        name: test.title,
+        startUrl: test.startUrl,
+        fixtures: test.fixtures,
+        steps: test.steps,
+        preamble: [parsed.preamble, test.setup].filter(Boolean).join('\n\n')
+      });
+    }
+  }
+
+  const summaries = await summarizeUntitledSteps(
+    entries.flatMap((entry) => entry.steps),
+    options.summarizeSteps
+  );
+
+  let summaryIndex = 0;
+  for (const entry of entries) {
+    const steps: TestStepMetadata[] = entry.steps.map((step, index) => ({
+      number: index + 1,
+      qaSummary: summaries[summaryIndex++],
+      playwrightCode: step.playwrightCode
+    }));
+
+    const id = await uniqueTestId(testsDir, entry.name, usedIds);
+
+    const now = new Date().toISOString();
+    const metadata: TestMetadata = {
+      id,
+      name: entry.name,
+      description: `Imported from ${entry.file.path}`,
+      tags: ['imported'],
+      ...(entry.startUrl ? { startUrl: entry.startUrl } : {}),
+      steps,
+      ...(options.folder ? { folder: options.folder } : {}),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    const code =
+      entry.code ??
+      withPreamble(
+        extractMetadataHeader(
+          generator.generateTestFile({
+            testId: id,
+            testName: entry.name,
+            startUrl: entry.startUrl ?? '',
+            steps,
+            fixtures: entry.fixtures
+          })
+        )?.code ?? '',
+        entry.preamble
+      );
+
+    await saveTest(dataDir, { metadata, code: `${code.trim()}\n` }, { revision: 'imported' });
+    result.imported.push(metadata);
+  }
+
+  return result;
+}
@@ -1,13 +1,20 @@
 /**
  * Step Extractor - Extracts step metadata from test files
  *
- * Primary source: Test metadata (steps array in TRAILWRIGHT_METADATA)
- * Fallback: Parse test.step() calls from code using regex
+ * Primary source: test.step() calls in the code, parsed with the TypeScript AST
+ * Fallback: Test metadata (steps array in TRAILWRIGHT_METADATA) for specs without steps
  */
 
 import fs from 'fs/promises';
 import path from 'path';
+import ts from 'typescript';
 import type { ExtractedStep, TestStepMetadata } from '../../../shared/types.js';
+import type { TestMetadata } from '../types.js';
+import { extractMetadataHeader } from '../storage/metadata.js';
+import { getTestsDirectory } from '../storage/config.js';
+import { loadTest, saveTest } from '../storage/tests.js';
+import { callbackBody, isStepCall, literalText, parseSpecSource, statementsText } from './specAst.js';
+import { TestCodeGenerator } from './testCodeGenerator.js';
 
 /**
  * Extract steps from a test file
@@ -18,46 +25,26 @@ import type { ExtractedStep, TestStepMetadata } from '../../../shared/types.js';
 export async function extractStepsFromTestFile(testFilePath: string): Promise<ExtractedStep[]> {
   const content = await fs.readFile(testFilePath, 'utf-8');
 
-  // First, try to extract from metadata (preferred)
-  const metadataSteps = extractStepsFromMetadata(content);
-  if (metadataSteps.length > 0) {
-    return metadataSteps;
+  // The code is what runs (and what skipStepsBefore numbers), so it wins over metadata
+  const codeSteps = extractStepsFromCode(content);
+  if (codeSteps.length > 0) {
+    return codeSteps;
   }
 
-  // Fallback: parse test.step() calls from code
-  return extractStepsFromCode(content);
+  return extractStepsFromMetadata(content);
 }
 
 /**
  * Extract steps from test metadata in the file header
  */
 function extractStepsFromMetadata(content: string): ExtractedStep[] {
-  // Match the TRAILWRIGHT_METADATA JSON block
-  // Format 1: Raw JSON at top (newer format)
-  const rawJsonMatch = content.match(/^\/\*\*\s*\n\s*\/\/\s*===\s*TRAILWRIGHT_METADATA\s*===\s*\n\s*(\{[\s\S]*?\})\s*\n\s*\*\//m);
-
-  // Format 2: Commented JSON (older format)
-  const commentedJsonMatch = content.match(/\/\*\*\s*\n\s*\*\s*\/\/\s*===\s*TRAILWRIGHT_METADATA\s*===\s*\n([\s\S]*?)\s*\*\//m);
+  // Same header parsing as the storage layer, so every header layout is accepted
+  const header = extractMetadataHeader(content);
 
   let metadata: any = null;
-
-  if (rawJsonMatch) {
-    try {
-      metadata = JSON.parse(rawJsonMatch[1]);
-    } catch {
-      // Invalid JSON, continue to next method
-    }
-  }
-
-  if (!metadata && commentedJsonMatch) {
+  if (header) {
     try {
-      // Remove comment markers (* at start of lines)
-      const cleanedJson = commentedJsonMatch[1]
-        .split('\n')
-        .map(line => line.replace(/^\s*\*\s?/, ''))
-        .join('\n')
-        .trim();
-      metadata = JSON.parse(cleanedJson);
+      metadata = JSON.parse(header.json);
     } catch {
       // Invalid JSON, continue to fallback
     }
@@ -75,40 +62,165 @@ function extractStepsFromMetadata(content: string): ExtractedStep[] {
 }
 
 /**
- * Extract steps from test.step() calls in the code
- * This is a fallback for tests without metadata
+ * test.step() calls in source order (outer steps before the steps nested in them)
+ */
+function findStepCalls(sourceFile: ts.SourceFile): Array<{ call: ts.CallExpression; parent?: ts.CallExpression }> {
+  const calls: Array<{ call: ts.CallExpression; parent?: ts.CallExpression }> = [];
+  const visit = (node: ts.Node, parent?: ts.CallExpression) => {
+    if (ts.isCallExpression(node) && isStepCall(node)) {
+      calls.push({ call: node, parent });
+      ts.forEachChild(node, (child) => visit(child, node));
+      return;
+    }
+    ts.forEachChild(node, (child) => visit(child, parent));
+  };
+  visit(sourceFile);
+  return calls;
+}
+
+/**
+ * Extract steps from test.step() calls in the code, with their line range,
+ * callback body and nesting
+ */
+export function extractStepsFromCode(content: string): ExtractedStep[] {
+  const sourceFile = parseSpecSource(content);
+  const calls = findStepCalls(sourceFile);
+  const numbers = new Map<ts.CallExpression, number>();
+  const depths = new Map<ts.CallExpression, number>();
+
+  return calls.map(({ call, parent }, index) => {
+    const number = index + 1;
+    const depth = parent ? depths.get(parent)! + 1 : 0;
+    numbers.set(call, number);
+    depths.set(call, depth);
+
+    return {
+      number,
+      title: literalText(call.arguments[0], sourceFile),
+      lineNumber: sourceFile.getLineAndCharacterOfPosition(call.getStart(sourceFile)).line + 1,
+      endLineNumber: sourceFile.getLineAndCharacterOfPosition(call.end).line + 1,
+      code: statementsText(callbackBody(call), sourceFile),
+      depth,
+      ...(parent ? { parentNumber: numbers.get(parent) } : {})
+    };
+  });
+}
+
+/**
+ * Rewrite test code so every test.step() before `startFromStep` becomes test.step.skip(),
+ * except the outer steps the start step is nested in
+ *
+ * Step numbers follow the same source order as extractStepsFromCode, so the
+ * number picked in the Run Builder lines up with the block that gets kept.
+ * Skipped blocks are reported by Playwright with a `skip` annotation.
+ */
+export function skipStepsBefore(content: string, startFromStep: number): string {
+  if (!Number.isFinite(startFromStep) || startFromStep <= 1) {
+    return content;
+  }
+
+  const sourceFile = parseSpecSource(content);
+  const calls = findStepCalls(sourceFile);
+
+  // Outer steps that contain the start step have to run for it to run
+  const parentOf = new Map(calls.map(({ call, parent }) => [call, parent]));
+  const ancestors = new Set<ts.CallExpression>();
+  for (let parent = parentOf.get(calls[startFromStep - 1]?.call); parent; parent = parentOf.get(parent)) {
+    ancestors.add(parent);
+  }
+
+  // Insert `.skip` right after each `test.step` callee, last first so earlier offsets stay valid
+  const insertAt = calls
+    .slice(0, startFromStep - 1)
+    .filter(({ call }) => !ancestors.has(call))
+    .filter(({ call }) => !/\.skip$/.test(call.expression.getText(sourceFile)))
+    .map(({ call }) => call.expression.end)
+    .sort((a, b) => b - a);
+
+  return insertAt.reduce((code, position) => `${code.slice(0, position)}.skip${code.slice(position)}`, content);
+}
+
+/**
+ * Undo the generator's `{{name}}` -> `${row.name}` rewrite so synced steps
+ * keep their variable placeholders
+ */
+function restoreVariablePlaceholders(code: string): string {
+  return code.replace(/`([^`\\]*)`/g, (match, body: string) => {
+    // Only literals the generator wrote: every substitution is a plain ${row.name}
+    if (!/\$\{row\.\w+\}/.test(body) || /\$\{(?!row\.\w+\})/.test(body)) {
+      return match;
+    }
+    const restored = body.replace(/\$\{row\.(\w+)\}/g, '{{$1}}');
+    return restored.includes("'") ? `"${restored}"` : `'${restored}'`;
+  });
+}
+
+/**
+ * Build metadata steps from the top-level test.step() blocks of `code`.
+ * Block steps whose helper call is still in place, screenshots of steps
+ * that kept their title or code, and review flags of steps whose code is
+ * unchanged carry over from `existingSteps`.
  */
-function extractStepsFromCode(content: string): ExtractedStep[] {
-  const steps: ExtractedStep[] = [];
-  const lines = content.split('\n');
-
-  // Match patterns like:
-  // await test.step('Step title', async () => {
-  // await test.step("Step title", async () => {
-  // test.step('Step title', ...
-  const stepPattern = /(?:await\s+)?test\.step\s*\(\s*(['"`])(.*?)\1/g;
-
-  let stepNumber = 0;
-  let lineNumber = 0;
-
-  for (const line of lines) {
-    lineNumber++;
-    let match;
-
-    // Reset lastIndex for each line
-    stepPattern.lastIndex = 0;
-
-    while ((match = stepPattern.exec(line)) !== null) {
-      stepNumber++;
-      steps.push({
-        number: stepNumber,
-        title: match[2],
-        lineNumber
-      });
+export function stepsFromCode(
+  code: string,
+  existingSteps: TestStepMetadata[] = [],
+  options: { variables?: boolean } = {}
+): TestStepMetadata[] {
+  const steps = extractStepsFromCode(code).filter((step) => step.depth === 0);
+
+  return steps.map((step, index): TestStepMetadata => {
+    const existing = existingSteps[index];
+    const playwrightCode = options.variables ? restoreVariablePlaceholders(step.code ?? '') : step.code ?? '';
+
+    if (existing?.blockId && playwrightCode.includes(`${TestCodeGenerator.blockFunctionName(existing.blockId)}(`)) {
+      return { ...existing, number: index + 1, qaSummary: step.title };
     }
+    const unchanged = existing && (existing.qaSummary === step.title || existing.playwrightCode === playwrightCode);
+    return {
+      number: index + 1,
+      qaSummary: step.title,
+      playwrightCode,
+      ...(unchanged && existing.screenshotPath ? { screenshotPath: existing.screenshotPath } : {}),
+      ...(existing?.needsReview && existing.playwrightCode === playwrightCode ? { needsReview: existing.needsReview } : {})
+    };
+  });
+}
+
+/**
+ * Rewrite a test's metadata.steps from its code so the step list matches
+ * what actually runs. The code itself is left untouched.
+ */
+export async function syncTestSteps(
+  dataDir: string,
+  testId: string
+): Promise<{ metadata: TestMetadata; changed: boolean }> {
+  const test = await loadTest(dataDir, testId);
+  const steps = stepsFromCode(test.code, test.metadata.steps, { variables: !!test.metadata.variables?.length });
+  if (steps.length === 0) {
+    throw new Error('No test.step() blocks found in the test code');
+  }
+
+  const current = (test.metadata.steps ?? []).map(({ number, qaSummary, playwrightCode, blockId, blockArgs }) => ({
+    number,
+    qaSummary,
+    playwrightCode,
+    blockId,
+    blockArgs
+  }));
+  const next = steps.map(({ number, qaSummary, playwrightCode, blockId, blockArgs }) => ({
+    number,
+    qaSummary,
+    playwrightCode,
+    blockId,
+    blockArgs
+  }));
+  if (JSON.stringify(current) === JSON.stringify(next)) {
+    return { metadata: test.metadata, changed: false };
   }
 
-  return steps;
+  const metadata: TestMetadata = { ...test.metadata, steps, updatedAt: new Date().toISOString() };
+  await saveTest(dataDir, { ...test, metadata }, { revision: 'steps synced from code' });
+  return { metadata, changed: true };
 }
 
 /**
@@ -119,7 +231,7 @@ function extractStepsFromCode(content: string): ExtractedStep[] {
  * @returns Array of extracted steps
  */
 export async function getTestSteps(dataDir: string, testId: string): Promise<ExtractedStep[]> {
-  const testFilePath = path.join(dataDir, 'tests', `${testId}.spec.ts`);
+  const testFilePath = path.join(await getTestsDirectory(dataDir), `${testId}.spec.ts`);
 
   try {
     return await extractStepsFromTestFile(testFilePath);
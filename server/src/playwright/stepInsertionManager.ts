@@ -9,6 +9,7 @@ import Anthropic from '@anthropic-ai/sdk';
 import OpenAI from 'openai';
 import { GoogleGenAI } from '@google/genai';
 import type { AIProvider } from '../ai/index.js';
+import { expandStepBlocks } from '../storage/stepBlocks.js';
 
 /**
  * Manages step insertion by replaying test up to insertion point,
@@ -24,14 +25,17 @@ export class StepInsertionManager extends EventEmitter {
   private insertAfterStep: number;
   private currentUrl: string = '';
   private variableValues: Map<string, string> = new Map();
+  private dataDir: string;
 
   constructor(
     test: Test,
     insertAfterStep: number,
     provider: AIProvider,
-    apiKey: string
+    apiKey: string,
+    dataDir: string
   ) {
     super();
+    this.dataDir = dataDir;
     this.test = test;
     this.insertAfterStep = insertAfterStep;
     this.provider = provider;
@@ -51,8 +55,7 @@ export class StepInsertionManager extends EventEmitter {
     if (this.test.metadata.dataSource) {
       try {
         const { VariableStorage } = await import('../storage/variables.js');
-        const { CONFIG } = await import('../config.js');
-        const storage = new VariableStorage(CONFIG.DATA_DIR);
+        const storage = new VariableStorage(this.dataDir);
         const data = await storage.readVariables(this.test.metadata.id);
 
         if (data && data.length > 0) {
@@ -129,8 +132,11 @@ export class StepInsertionManager extends EventEmitter {
       await this.page.goto(this.currentUrl, { waitUntil: 'domcontentloaded' });
     }
 
-    // Execute all steps up to the insertion point
-    const stepsToExecute = this.test.metadata.steps?.slice(0, this.insertAfterStep) || [];
+    // Execute all steps up to the insertion point (shared step blocks run their own steps)
+    const stepsToExecute = await expandStepBlocks(
+      this.dataDir,
+      this.test.metadata.steps?.slice(0, this.insertAfterStep) || []
+    );
 
     for (const step of stepsToExecute) {
       // Parse the playwright code to determine action type
@@ -1,15 +1,35 @@
-import type { TestMetadata, VariableDefinition } from '../types.js';
+import type { StepBlock, TestMetadata, TestStepMetadata, VariableDefinition } from '../types.js';
 import type { RecordedStep } from '../../../shared/types.js';
 
+/** Module in the tests directory that exports one helper function per shared step block */
+export const STEP_BLOCKS_MODULE = 'trailwright-blocks';
+
+/** Recorded steps and saved step metadata both carry what the generator needs */
+export type GeneratorStep = Pick<RecordedStep, 'qaSummary' | 'playwrightCode'> &
+  Pick<TestStepMetadata, 'blockId' | 'blockArgs'>;
+
 export interface GenerateTestFileOptions {
   testId: string;
   testName: string;
   startUrl: string;
-  steps: RecordedStep[];
+  steps: GeneratorStep[];
   variables?: VariableDefinition[];
   metadata?: Partial<TestMetadata>;
+  /** Parameter list of the test callback; defaults to "{ page }" */
+  fixtures?: string;
+}
+
+export interface GenerateSessionSetupFileOptions {
+  testName: string;
+  startUrl: string;
+  steps: GeneratorStep[];
+  /** Import path of the step blocks module as seen from the setup spec */
+  blocksImportPath?: string;
 }
 
+/** Env var naming the file the session setup spec saves its storageState to */
+export const STORAGE_STATE_OUT_ENV = 'TRAILWRIGHT_STORAGE_STATE_OUT';
+
 /**
  * Generates Playwright test file code with optional variable parameterization
  */
@@ -18,18 +38,36 @@ export class TestCodeGenerator {
    * Generate complete test file as string
    */
   generateTestFile(options: GenerateTestFileOptions): string {
-    const { testId, testName, startUrl, steps, variables, metadata } = options;
+    const { testId, testName, startUrl, steps, variables, metadata, fixtures } = options;
 
     const hasVariables = !!variables && variables.length > 0;
     const metadataHeader = this.generateMetadataHeader(testId, testName, metadata, hasVariables);
-    const imports = this.generateImports(hasVariables);
+    const imports = this.generateImports(hasVariables, steps);
     const testBody = hasVariables
       ? this.generateParameterizedTest(testId, testName, startUrl, steps, variables)
-      : this.generateSimpleTest(testName, startUrl, steps);
+      : this.generateSimpleTest(testName, startUrl, steps, undefined, fixtures);
 
     return `${metadataHeader}\n${imports}\n${testBody}\n`;
   }
 
+  /**
+   * Generate the spec that replays a credential's login test and saves the
+   * browser's storageState, so later runs can start already logged in
+   */
+  generateSessionSetupFile(options: GenerateSessionSetupFileOptions): string {
+    const { testName, startUrl, steps, blocksImportPath } = options;
+    let imports = this.generateImports(false, steps);
+    if (blocksImportPath) {
+      imports = imports.replace(`from './${STEP_BLOCKS_MODULE}'`, `from '${blocksImportPath}'`);
+    }
+    const saveState = `  await page.context().storageState({ path: process.env.${STORAGE_STATE_OUT_ENV} });`;
+
+    return `// Session setup generated by TrailWright; removed after the session is captured.
+${imports}
+${this.generateSimpleTest(testName, startUrl, steps, saveState)}
+`;
+  }
+
   /**
    * Generate metadata header comment block
    */
@@ -60,21 +98,94 @@ export class TestCodeGenerator {
   /**
    * Generate import statements
    */
-  private generateImports(hasVariables: boolean): string {
+  private generateImports(hasVariables: boolean, steps: GeneratorStep[]): string {
+    const blockIds = Array.from(new Set(steps.map((step) => step.blockId).filter(Boolean) as string[]));
+    const blockImport = blockIds.length
+      ? `\nimport { ${blockIds.map((id) => TestCodeGenerator.blockFunctionName(id)).join(', ')} } from './${STEP_BLOCKS_MODULE}';`
+      : '';
+
     if (!hasVariables) {
-      return `import { test, expect } from '@playwright/test';`;
+      return `import { test, expect } from '@playwright/test';${blockImport}`;
     }
 
     return `import { test, expect } from '@playwright/test';
 import { parse } from 'csv-parse/sync';
 import { readFileSync } from 'fs';
-import { join } from 'path';`;
+import { join } from 'path';${blockImport}`;
+  }
+
+  /**
+   * Generate the shared helper module: one exported function per step block.
+   * Block variables become destructured parameters defaulting to their sample values.
+   */
+  generateStepBlocksModule(blocks: StepBlock[]): string {
+    const helpers = blocks.map((block) => {
+      const variables = block.variables ?? [];
+      const params = variables.length
+        ? `, { ${variables
+            .map((variable) => `${variable.name} = ${JSON.stringify(variable.sampleValue ?? '')}`)
+            .join(', ')} }: { ${variables.map((variable) => `${variable.name}?: string`).join('; ')} } = {}`
+        : '';
+      const stepCode = block.steps
+        .map((step) => {
+          const code = this.injectVariablesIntoCode(step.playwrightCode, '');
+          return `  await test.step('${this.escapeString(step.qaSummary)}', async () => {
+    ${code}
+  });`;
+        })
+        .join('\n\n');
+      const doc = [block.name, block.description].filter(Boolean).map((line) => ` * ${line}`).join('\n');
+
+      return `/**
+${doc}
+ */
+export async function ${TestCodeGenerator.blockFunctionName(block.id)}(page: Page${params}): Promise<void> {
+${stepCode}
+}`;
+    });
+
+    return `// Shared step blocks generated by TrailWright. Edit the blocks in TrailWright;
+// changes made to this file are overwritten.
+import { test, expect, type Page } from '@playwright/test';
+
+${helpers.join('\n\n')}
+`;
+  }
+
+  /**
+   * Helper function name for a block id, e.g. "accept-cookie-banner" -> "blockAcceptCookieBanner".
+   * Always prefixed: ids like "page", "test" or "delete" would otherwise clash with
+   * the module's own bindings or reserved words.
+   */
+  static blockFunctionName(blockId: string): string {
+    const name = blockId.replace(/[^A-Za-z0-9]+(.)?/g, (_match, next: string | undefined) => (next ? next.toUpperCase() : ''));
+    return `block${name.charAt(0).toUpperCase()}${name.slice(1)}`;
+  }
+
+  /**
+   * Code for one step: inline Playwright code, or a call to the shared block helper
+   */
+  private generateStepCode(step: GeneratorStep): string {
+    if (!step.blockId) {
+      return step.playwrightCode;
+    }
+    const args = Object.entries(step.blockArgs ?? {});
+    const argsCode = args.length
+      ? `, { ${args.map(([name, value]) => `${name}: ${JSON.stringify(value)}`).join(', ')} }`
+      : '';
+    return `await ${TestCodeGenerator.blockFunctionName(step.blockId)}(page${argsCode});`;
   }
 
   /**
    * Generate simple (non-parameterized) test
    */
-  private generateSimpleTest(testName: string, startUrl: string, steps: RecordedStep[]): string {
+  private generateSimpleTest(
+    testName: string,
+    startUrl: string,
+    steps: GeneratorStep[],
+    afterSteps?: string,
+    fixtures = '{ page }'
+  ): string {
     const startUrlLiteral = JSON.stringify(startUrl);
 
     // Wrap each step in test.step() with QA summary as the step name
@@ -82,17 +193,22 @@ import { join } from 'path';`;
       .map((step) => {
         const escapedSummary = this.escapeString(step.qaSummary);
         return `  await test.step('${escapedSummary}', async () => {
-    ${step.playwrightCode}
+    ${this.generateStepCode(step)}
   });`;
       })
       .join('\n\n');
-
-    return `
-test('${this.escapeString(testName)}', async ({ page }) => {
-  // Navigate to starting URL
+    const trailer = afterSteps ? `\n\n${afterSteps}` : '';
+    // Imported specs may not open a fixed URL; their steps navigate themselves
+    const navigation = startUrl
+      ? `  // Navigate to starting URL
   await page.goto(${startUrlLiteral});
 
-${stepCode}
+`
+      : '';
+
+    return `
+test('${this.escapeString(testName)}', async (${fixtures}) => {
+${navigation}${stepCode}${trailer}
 });`;
   }
 
@@ -103,7 +219,7 @@ ${stepCode}
     testId: string,
     testName: string,
     startUrl: string,
-    steps: RecordedStep[],
+    steps: GeneratorStep[],
     variables: VariableDefinition[]
   ): string {
     const startUrlLiteral = JSON.stringify(startUrl);
@@ -116,7 +232,7 @@ ${stepCode}
     const stepCode = steps
       .map((step) => {
         const escapedSummary = this.escapeString(step.qaSummary);
-        const code = this.injectVariablesIntoCode(step.playwrightCode);
+        const code = this.injectVariablesIntoCode(this.generateStepCode(step));
         return `    await test.step('${escapedSummary}', async () => {
       ${code}
     });`;
@@ -138,13 +254,23 @@ ${stepCode}
 
   /**
    * Generate data path and CSV loading code
+   * Rows can be narrowed with TRAILWRIGHT_ROW_INDEXES / TRAILWRIGHT_ROW_FILTER (see runner.ts).
+   * The runner passes the project's data directory in TRAILWRIGHT_PROJECT_DIR.
    */
   private generateDataPath(testId: string): string {
-    return `const dataPath = join(process.env.HOME || process.env.USERPROFILE || '', '.trailwright/test-data/${testId}.csv');
+    return `const dataPath = process.env.TRAILWRIGHT_PROJECT_DIR
+  ? join(process.env.TRAILWRIGHT_PROJECT_DIR, 'test-data/${testId}.csv')
+  : join(process.env.HOME || process.env.USERPROFILE || '', '.trailwright/test-data/${testId}.csv');
+// Optional row selection passed by the runner: "0,4,17" and/or "column=value"
+const rowIndexes = (process.env.TRAILWRIGHT_ROW_INDEXES || '').split(',').filter(Boolean).map(Number);
+const [filterColumn = '', ...filterValue] = (process.env.TRAILWRIGHT_ROW_FILTER || '').split('=');
 const testData = parse(readFileSync(dataPath, 'utf-8'), {
   columns: true,
   skip_empty_lines: true
-});`;
+}).filter((row, index) =>
+  (!rowIndexes.length || rowIndexes.includes(index)) &&
+  (!filterColumn.trim() || String(row[filterColumn.trim()] ?? '').trim() === filterValue.join('=').trim())
+);`;
   }
 
   /**
@@ -166,8 +292,9 @@ const testData = parse(readFileSync(dataPath, 'utf-8'), {
   /**
    * Detect {{varName}} placeholders in code and convert to ${row.varName}
    * e.g., "await page.fill('input', '{{product}}')" -> "await page.fill('input', `${row.product}`)"
+   * Block helpers pass an empty source so placeholders read their own parameters.
    */
-  private injectVariablesIntoCode(code: string): string {
+  private injectVariablesIntoCode(code: string, source = 'row.'): string {
     // Pattern to detect {{varName}} placeholders
     const placeholderPattern = /\{\{(\w+)\}\}/g;
 
@@ -178,10 +305,10 @@ const testData = parse(readFileSync(dataPath, 'utf-8'), {
     // Replace string literals containing placeholders with template literals
     // This handles cases like: .fill('{{product}}') -> .fill(`${row.product}`)
     return code.replace(/'([^']*\{\{[^}]+\}\}[^']*)'/g, (match, content) => {
-      const replaced = content.replace(/\{\{(\w+)\}\}/g, '${row.$1}');
+      const replaced = content.replace(/\{\{(\w+)\}\}/g, `\${${source}$1}`);
       return `\`${replaced}\``;
     }).replace(/"([^"]*\{\{[^}]+\}\}[^"]*)"/g, (match, content) => {
-      const replaced = content.replace(/\{\{(\w+)\}\}/g, '${row.$1}');
+      const replaced = content.replace(/\{\{(\w+)\}\}/g, `\${${source}$1}`);
       return `\`${replaced}\``;
     });
   }
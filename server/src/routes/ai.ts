@@ -1,7 +1,7 @@
 import express from 'express';
 import { chatWithAI } from '../ai/index.js';
 import { loadConfig } from '../storage/config.js';
-import { CONFIG } from '../config.js';
+import { getDataDir } from './projectContext.js';
 
 const router = express.Router();
 
@@ -16,7 +16,7 @@ router.post('/generate-step', async (req, res) => {
       return res.status(400).json({ error: 'Prompt is required' });
     }
 
-    const config = await loadConfig(CONFIG.DATA_DIR);
+    const config = await loadConfig(getDataDir(req));
 
     if (!config.apiProvider || !config.apiKey) {
       return res.status(400).json({
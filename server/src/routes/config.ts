@@ -2,15 +2,17 @@ import express from 'express';
 import fs from 'fs/promises';
 import path from 'path';
 import { loadConfig, saveConfig, getTestsDirectory, getDefaultTestsDirectory } from '../storage/config.js';
-import { CONFIG } from '../config.js';
+import { getDataDir } from './projectContext.js';
+import { refreshTestWatcher } from '../storage/testWatcher.js';
+import { writeStepBlocksModule } from '../storage/stepBlocks.js';
 
 const router = express.Router();
 
 router.get('/', async (req, res) => {
   try {
-    const config = await loadConfig(CONFIG.DATA_DIR);
-    const resolvedTestsDirectory = await getTestsDirectory(CONFIG.DATA_DIR);
-    const defaultTestsDirectory = getDefaultTestsDirectory(CONFIG.DATA_DIR);
+    const config = await loadConfig(getDataDir(req));
+    const resolvedTestsDirectory = await getTestsDirectory(getDataDir(req));
+    const defaultTestsDirectory = getDefaultTestsDirectory(getDataDir(req));
 
     // Don't send full API key to client, just indicate if set
     res.json({
@@ -37,7 +39,27 @@ router.post('/', async (req, res) => {
     // Don't allow testDirectory changes via this endpoint - use /test-directory instead
     delete updates.testDirectory;
 
-    await saveConfig(CONFIG.DATA_DIR, updates);
+    if (updates.trashRetentionDays !== undefined) {
+      const days = Number(updates.trashRetentionDays);
+      if (!Number.isInteger(days) || days < 0) {
+        return res.status(400).json({ error: 'trashRetentionDays must be a whole number of days (0 keeps deleted tests until emptied)' });
+      }
+      updates.trashRetentionDays = days;
+    }
+
+    if (updates.sessionMaxAgeHours !== undefined) {
+      const hours = Number(updates.sessionMaxAgeHours);
+      if (!Number.isFinite(hours) || hours <= 0) {
+        return res.status(400).json({ error: 'sessionMaxAgeHours must be a positive number of hours' });
+      }
+      updates.sessionMaxAgeHours = hours;
+    }
+
+    if (updates.gitAutoCommit !== undefined && typeof updates.gitAutoCommit !== 'boolean') {
+      return res.status(400).json({ error: 'gitAutoCommit must be true or false' });
+    }
+
+    await saveConfig(getDataDir(req), updates);
     res.json({ success: true });
   } catch (err: any) {
     res.status(500).json({ error: err.message });
@@ -53,8 +75,8 @@ router.post('/', async (req, res) => {
 router.post('/test-directory', async (req, res) => {
   try {
     const { newPath, moveTests } = req.body;
-    const defaultDir = getDefaultTestsDirectory(CONFIG.DATA_DIR);
-    const currentDir = await getTestsDirectory(CONFIG.DATA_DIR);
+    const defaultDir = getDefaultTestsDirectory(getDataDir(req));
+    const currentDir = await getTestsDirectory(getDataDir(req));
 
     // Normalize the new path (empty string = use default)
     const normalizedNewPath = newPath?.trim() || '';
@@ -125,9 +147,14 @@ router.post('/test-directory', async (req, res) => {
     }
 
     // Update config with new path (or clear it if using default)
-    await saveConfig(CONFIG.DATA_DIR, {
+    await saveConfig(getDataDir(req), {
       testDirectory: normalizedNewPath || undefined
     });
+    // Specs import the shared step blocks from their own directory
+    await writeStepBlocksModule(getDataDir(req));
+    await refreshTestWatcher(getDataDir(req)).catch((error) => {
+      console.error('[watcher] Unable to watch new tests directory', error);
+    });
 
     res.json({
       success: true,
@@ -149,9 +176,9 @@ router.post('/test-directory', async (req, res) => {
  */
 router.get('/test-directory', async (req, res) => {
   try {
-    const config = await loadConfig(CONFIG.DATA_DIR);
-    const resolvedTestsDirectory = await getTestsDirectory(CONFIG.DATA_DIR);
-    const defaultTestsDirectory = getDefaultTestsDirectory(CONFIG.DATA_DIR);
+    const config = await loadConfig(getDataDir(req));
+    const resolvedTestsDirectory = await getTestsDirectory(getDataDir(req));
+    const defaultTestsDirectory = getDefaultTestsDirectory(getDataDir(req));
 
     // Count tests
     let testCount = 0;
@@ -1,11 +1,13 @@
 import express from 'express';
-import { CONFIG } from '../config.js';
+import { getDataDir } from './projectContext.js';
 import {
   deleteCredential,
   getCredentialById,
   listCredentials,
   upsertCredential
 } from '../storage/credentials.js';
+import { getSessionStatus, invalidateSessionState } from '../storage/sessionStates.js';
+import { captureSessionState } from '../playwright/sessionState.js';
 
 const router = express.Router();
 
@@ -18,13 +20,35 @@ function sanitizeCredential(record: Awaited<ReturnType<typeof upsertCredential>>
     notes: record.notes,
     createdAt: record.createdAt,
     updatedAt: record.updatedAt,
-    lastUsedAt: record.lastUsedAt
+    lastUsedAt: record.lastUsedAt,
+    sessionSetupTestId: record.sessionSetupTestId
   };
 }
 
-router.get('/', async (_req, res) => {
+/**
+ * undefined keeps the current setup test; null or '' clears it
+ */
+function parseSessionSetupTestId(value: unknown): string | null | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function sessionErrorStatus(message: string): number {
+  if (/not found/i.test(message)) {
+    return 404;
+  }
+  // Setup test misconfigured, as opposed to the login itself failing
+  if (/no session setup test|needs a start URL|cannot use/i.test(message)) {
+    return 400;
+  }
+  return 500;
+}
+
+router.get('/', async (req, res) => {
   try {
-    const credentials = await listCredentials(CONFIG.DATA_DIR);
+    const credentials = await listCredentials(getDataDir(req));
     res.json({
       credentials: credentials.map((record) => sanitizeCredential(record))
     });
@@ -34,17 +58,18 @@ router.get('/', async (_req, res) => {
 });
 
 router.post('/', async (req, res) => {
-  const { name, username, password, notes } = req.body ?? {};
+  const { name, username, password, notes, sessionSetupTestId } = req.body ?? {};
   if (!name || !username || !password) {
     return res.status(400).json({ error: 'Name, username, and password are required' });
   }
 
   try {
-    const record = await upsertCredential(CONFIG.DATA_DIR, {
+    const record = await upsertCredential(getDataDir(req), {
       name: String(name),
       username: String(username),
       password: String(password),
-      notes: typeof notes === 'string' ? notes : undefined
+      notes: typeof notes === 'string' ? notes : undefined,
+      sessionSetupTestId: parseSessionSetupTestId(sessionSetupTestId)
     });
     res.status(201).json({ credential: sanitizeCredential(record) });
   } catch (error: any) {
@@ -54,24 +79,33 @@ router.post('/', async (req, res) => {
 
 router.put('/:id', async (req, res) => {
   const { id } = req.params;
-  const { name, username, password, notes } = req.body ?? {};
+  const { name, username, password, notes, sessionSetupTestId } = req.body ?? {};
   if (!name || !username) {
     return res.status(400).json({ error: 'Name and username are required' });
   }
 
   try {
-    const existing = await getCredentialById(CONFIG.DATA_DIR, id);
+    const existing = await getCredentialById(getDataDir(req), id);
     if (!existing) {
       return res.status(404).json({ error: 'Credential not found' });
     }
 
-    const record = await upsertCredential(CONFIG.DATA_DIR, {
+    const record = await upsertCredential(getDataDir(req), {
       id,
       name: String(name),
       username: String(username),
       password: typeof password === 'string' && password.trim() ? String(password) : existing.password,
-      notes: typeof notes === 'string' ? notes : undefined
+      notes: typeof notes === 'string' ? notes : undefined,
+      sessionSetupTestId: parseSessionSetupTestId(sessionSetupTestId)
     });
+    // A session captured for the old login (or by another setup test) is no longer trustworthy
+    if (
+      record.username !== existing.username ||
+      record.password !== existing.password ||
+      record.sessionSetupTestId !== existing.sessionSetupTestId
+    ) {
+      await invalidateSessionState(getDataDir(req), id);
+    }
     res.json({ credential: sanitizeCredential(record) });
   } catch (error: any) {
     res.status(500).json({ error: error?.message || 'Unable to update credential' });
@@ -81,11 +115,50 @@ router.put('/:id', async (req, res) => {
 router.delete('/:id', async (req, res) => {
   const { id } = req.params;
   try {
-    await deleteCredential(CONFIG.DATA_DIR, id);
+    await deleteCredential(getDataDir(req), id);
+    await invalidateSessionState(getDataDir(req), id);
     res.json({ success: true });
   } catch (error: any) {
     res.status(404).json({ error: error?.message || 'Credential not found' });
   }
 });
 
+router.get('/:id/session', async (req, res) => {
+  try {
+    const credential = await getCredentialById(getDataDir(req), req.params.id);
+    if (!credential) {
+      return res.status(404).json({ error: 'Credential not found' });
+    }
+    res.json({ session: await getSessionStatus(getDataDir(req), credential) });
+  } catch (error: any) {
+    res.status(500).json({ error: error?.message || 'Unable to load session status' });
+  }
+});
+
+/**
+ * Run the credential's session setup test now and save the logged-in state
+ */
+router.post('/:id/session/capture', async (req, res) => {
+  try {
+    const credential = await getCredentialById(getDataDir(req), req.params.id);
+    if (!credential) {
+      return res.status(404).json({ error: 'Credential not found' });
+    }
+    await captureSessionState(getDataDir(req), credential.id);
+    res.json({ session: await getSessionStatus(getDataDir(req), credential) });
+  } catch (error: any) {
+    const message = error?.message || 'Unable to capture session';
+    res.status(sessionErrorStatus(message)).json({ error: message });
+  }
+});
+
+router.delete('/:id/session', async (req, res) => {
+  try {
+    await invalidateSessionState(getDataDir(req), req.params.id);
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error?.message || 'Unable to clear session' });
+  }
+});
+
 export default router;
@@ -0,0 +1,74 @@
+import express from 'express';
+import {
+  listFolders,
+  createFolder,
+  renameFolder,
+  moveTestsToFolder,
+  deleteFolder
+} from '../storage/folders.js';
+import { getDataDir } from './projectContext.js';
+
+const router = express.Router();
+
+function folderErrorStatus(message: string): number {
+  if (message.startsWith('Folder not found')) return 404;
+  if (message.startsWith('Folder already exists')) return 409;
+  return 400;
+}
+
+router.get('/', async (req, res) => {
+  try {
+    const folders = await listFolders(getDataDir(req));
+    res.json({ folders });
+  } catch (err: any) {
+    res.status(500).json({ error: err.message || 'Failed to list folders' });
+  }
+});
+
+// Folder paths contain `/`, so they travel in the body or query instead of the URL path
+router.post('/', async (req, res) => {
+  try {
+    const folder = await createFolder(getDataDir(req), req.body?.path);
+    res.json({ success: true, path: folder });
+  } catch (err: any) {
+    res.status(folderErrorStatus(err.message ?? '')).json({ error: err.message || 'Failed to create folder' });
+  }
+});
+
+router.post('/rename', async (req, res) => {
+  try {
+    const { from, to } = req.body ?? {};
+    const movedTestIds = await renameFolder(getDataDir(req), from, to);
+    res.json({ success: true, movedTestIds });
+  } catch (err: any) {
+    res.status(folderErrorStatus(err.message ?? '')).json({ error: err.message || 'Failed to rename folder' });
+  }
+});
+
+router.post('/move', async (req, res) => {
+  try {
+    const { testIds, folder } = req.body ?? {};
+    if (!Array.isArray(testIds) || !testIds.every((id) => typeof id === 'string')) {
+      return res.status(400).json({ error: 'testIds must be an array of test ids' });
+    }
+    await moveTestsToFolder(getDataDir(req), testIds, typeof folder === 'string' ? folder : null);
+    res.json({ success: true });
+  } catch (err: any) {
+    if (err?.code === 'ENOENT') {
+      return res.status(404).json({ error: 'Test not found' });
+    }
+    res.status(folderErrorStatus(err.message ?? '')).json({ error: err.message || 'Failed to move tests' });
+  }
+});
+
+router.delete('/', async (req, res) => {
+  try {
+    const folderPath = typeof req.query.path === 'string' ? req.query.path : '';
+    await deleteFolder(getDataDir(req), folderPath);
+    res.json({ success: true });
+  } catch (err: any) {
+    res.status(folderErrorStatus(err.message ?? '')).json({ error: err.message || 'Failed to delete folder' });
+  }
+});
+
+export default router;
@@ -8,16 +8,19 @@ import type {
   LiveGenerationEvent,
   Test,
   TestMetadata,
-  GenerationStatus
+  GenerationStatus,
+  VariableDefinition
 } from '../../../shared/types.js';
 import { LiveTestGenerator } from '../playwright/liveTestGenerator.js';
+import { ensureSessionState } from '../playwright/sessionState.js';
 import { RecordModeGenerator, type RecordModeConfig } from '../playwright/recordModeGenerator.js';
 import { loadConfig } from '../storage/config.js';
 import { saveTest } from '../storage/tests.js';
 import { saveStepScreenshots } from '../storage/screenshots.js';
 import { getCredentialById } from '../storage/credentials.js';
 import { VariableStorage } from '../storage/variables.js';
-import { CONFIG } from '../config.js';
+import { getDataDir } from './projectContext.js';
+import { isBrowserName } from '../playwright/browsers.js';
 
 const router = express.Router();
 
@@ -60,6 +63,7 @@ function summarizeTags(tags?: string[]): string[] {
 }
 
 async function persistGeneratorTest(
+  dataDir: string,
   generator: LiveTestGenerator,
   options: PersistOptions = {}
 ): Promise<TestMetadata> {
@@ -94,7 +98,7 @@ async function persistGeneratorTest(
     description: isManual
       ? incomingDescription
       : incomingDescription || `Goal: ${state.goal}`,
-    tags: summarizeTags(options.tags ?? existing?.tags),
+    tags: summarizeTags(options.tags ?? existing?.tags ?? state.tags),
     prompt: isManual ? incomingPrompt : incomingPrompt || state.goal,
     successCriteria: isManual
       ? incomingSuccess
@@ -129,11 +133,11 @@ async function persistGeneratorTest(
     })
   };
 
-  await saveTest(CONFIG.DATA_DIR, test);
+  await saveTest(dataDir, test, { revision: 'created' });
 
   // Create CSV file with sample data if variables are present
   if (variables && variables.length > 0) {
-    const variableStorage = new VariableStorage(CONFIG.DATA_DIR);
+    const variableStorage = new VariableStorage(dataDir);
     const sampleRow: Record<string, string> = {};
 
     for (const variable of variables) {
@@ -148,19 +152,39 @@ async function persistGeneratorTest(
   return metadata;
 }
 
+/**
+ * Define the variables a session starts with (e.g. from a template).
+ * Sessions need a sample value to substitute, so variables without one are skipped.
+ */
+function seedSessionVariables(
+  generator: Pick<LiveTestGenerator, 'setVariable'> | Pick<RecordModeGenerator, 'setVariable'>,
+  variables?: VariableDefinition[]
+): void {
+  for (const variable of Array.isArray(variables) ? variables : []) {
+    if (typeof variable?.name === 'string' && typeof variable.sampleValue === 'string' && variable.sampleValue.trim()) {
+      generator.setVariable(variable.name, variable.sampleValue, variable.type === 'number' ? 'number' : 'string');
+    }
+  }
+}
+
+function normalizeTags(tags: unknown): string[] | undefined {
+  const list = Array.isArray(tags) ? tags.filter((tag): tag is string => typeof tag === 'string' && !!tag.trim()) : [];
+  return list.length ? list.map((tag) => tag.trim()) : undefined;
+}
+
 function broadcastSessionEvent(sessionId: string, event: LiveGenerationEvent): void {
   const clients = sseClients.get(sessionId) || [];
   const data = JSON.stringify(event);
   clients.forEach((client) => client.write(`data: ${data}\n\n`));
 }
 
-async function handleAutoSave(generator: LiveTestGenerator): Promise<void> {
+async function handleAutoSave(dataDir: string, generator: LiveTestGenerator): Promise<void> {
   if (persistedSessions.has(generator.id)) {
     return;
   }
 
   try {
-    const metadata = await persistGeneratorTest(generator);
+    const metadata = await persistGeneratorTest(dataDir, generator);
     broadcastSessionEvent(generator.id, {
       type: 'auto_saved',
       timestamp: new Date().toISOString(),
@@ -176,7 +200,7 @@ async function handleAutoSave(generator: LiveTestGenerator): Promise<void> {
  */
 router.post('/start', async (req, res) => {
   try {
-    const options: LiveGenerationOptions = req.body;
+    const options: LiveGenerationOptions = { ...req.body, tags: normalizeTags(req.body?.tags) };
 
     if (!options.startUrl || !options.goal) {
       return res.status(400).json({ error: 'startUrl and goal are required' });
@@ -187,13 +211,19 @@ router.post('/start', async (req, res) => {
         : undefined;
 
     // Load config for AI provider
-    const config = await loadConfig(CONFIG.DATA_DIR);
+    const config = await loadConfig(getDataDir(req));
     const apiKey = (config.apiKey || '').trim();
 
     if (!apiKey || /^sk-test/i.test(apiKey)) {
       return res.status(400).json({ error: 'API key not configured' });
     }
 
+    options.browser = isBrowserName(options.browser)
+      ? options.browser
+      : isBrowserName(config.defaultBrowser)
+        ? config.defaultBrowser
+        : 'chromium';
+
     // Get selected model for the provider
     const modelKey = `${config.apiProvider}Model` as keyof typeof config;
     const selectedModel = config[modelKey] as string | undefined;
@@ -201,22 +231,33 @@ router.post('/start', async (req, res) => {
     // Create new generation session
     let credentialRecord = undefined;
     if (trimmedCredentialId) {
-      credentialRecord = await getCredentialById(CONFIG.DATA_DIR, trimmedCredentialId);
+      credentialRecord = await getCredentialById(getDataDir(req), trimmedCredentialId);
       if (!credentialRecord) {
         return res.status(404).json({ error: 'Credential not found' });
       }
       options.credentialId = credentialRecord.id;
     }
 
+    // Start already logged in when the credential has a saved session
+    const storageStatePath = credentialRecord
+      ? await ensureSessionState(getDataDir(req), credentialRecord.id).catch((error) => {
+          console.warn('[generate] Starting without a saved session:', error?.message || error);
+          return null;
+        })
+      : null;
+
     const generator = new LiveTestGenerator(
       options,
       config.apiProvider,
       apiKey,
       config.baseUrl,
       credentialRecord,
-      selectedModel
+      selectedModel,
+      storageStatePath ?? undefined
     );
+    seedSessionVariables(generator, options.variables);
     sessions.set(generator.id, generator);
+    const dataDir = getDataDir(req);
     console.log(`[generate] Created session ${generator.id}. Total active sessions: ${sessions.size}`);
 
     // Setup event forwarding to SSE clients
@@ -224,7 +265,7 @@ router.post('/start', async (req, res) => {
       broadcastSessionEvent(generator.id, event);
 
       if (event.type === 'completed') {
-        void handleAutoSave(generator);
+        void handleAutoSave(dataDir, generator);
       }
     });
 
@@ -244,7 +285,7 @@ router.post('/start', async (req, res) => {
 // Start a new record mode session
 router.post('/record/start', async (req, res) => {
   try {
-    const { name, startUrl, description, credentialId } = req.body ?? {};
+    const { name, startUrl, description, credentialId, variables, tags } = req.body ?? {};
 
     if (!name || !startUrl) {
       return res.status(400).json({
@@ -252,7 +293,7 @@ router.post('/record/start', async (req, res) => {
       });
     }
 
-    const config = await loadConfig(CONFIG.DATA_DIR);
+    const config = await loadConfig(getDataDir(req));
     const sessionId = `record-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
     const recordConfig: RecordModeConfig = {
@@ -261,10 +302,12 @@ router.post('/record/start', async (req, res) => {
       startUrl,
       description,
       aiProvider: config.apiProvider,
-      credentialId
+      credentialId,
+      tags: normalizeTags(tags)
     };
 
     const generator = new RecordModeGenerator(recordConfig);
+    seedSessionVariables(generator, variables);
     recordSessions.set(sessionId, generator);
 
     const browser = await chromium.launch({ headless: false });
@@ -484,7 +527,7 @@ router.get('/:sessionId/screenshots/:fileName', async (req, res) => {
   const { sessionId, fileName } = req.params;
   const sanitized = path.basename(fileName);
   const filePath = path.join(
-    CONFIG.DATA_DIR,
+    getDataDir(req),
     'live-generation',
     sessionId,
     'screenshots',
@@ -1157,14 +1200,14 @@ router.post('/:sessionId/save', async (req, res) => {
       const steps = recordGenerator.getSteps();
 
       // Save screenshots to disk and get paths
-      const screenshotPaths = await saveStepScreenshots(CONFIG.DATA_DIR, sessionId, steps);
+      const screenshotPaths = await saveStepScreenshots(getDataDir(req), sessionId, steps);
 
       // Create test metadata matching the expected structure
       const metadata: TestMetadata = {
         id: sessionId,
         name: name || state.testName || 'Recorded Test',
         description: description || state.goal || undefined,
-        tags: tags || ['ai-generated', 'record-mode'],
+        tags: tags || state.tags || ['ai-generated', 'record-mode'],
         folder: folder || undefined,
         credentialId: credentialId || undefined,
         startUrl: state.startUrl,
@@ -1205,10 +1248,10 @@ ${testSteps}
 });`;
 
       // Use saveTest from storage layer to write file with proper metadata
-      await saveTest(CONFIG.DATA_DIR, {
+      await saveTest(getDataDir(req), {
         metadata,
         code: testCode
-      });
+      }, { revision: 'recorded' });
 
       await recordGenerator.cleanup();
       recordSessions.delete(sessionId);
@@ -1232,14 +1275,14 @@ ${testSteps}
       const steps = cached.steps;
 
       // Save screenshots to disk and get paths
-      const screenshotPaths = await saveStepScreenshots(CONFIG.DATA_DIR, sessionId, steps);
+      const screenshotPaths = await saveStepScreenshots(getDataDir(req), sessionId, steps);
 
       // Create test metadata matching the expected structure
       const metadata: TestMetadata = {
         id: sessionId,
         name: name || state.testName || 'Recorded Test',
         description: description || state.goal || undefined,
-        tags: tags || ['ai-generated', 'record-mode'],
+        tags: tags || state.tags || ['ai-generated', 'record-mode'],
         folder: folder || undefined,
         credentialId: credentialId || undefined,
         startUrl: state.startUrl,
@@ -1280,10 +1323,10 @@ ${testSteps}
 });`;
 
       // Use saveTest from storage layer to write file with proper metadata
-      await saveTest(CONFIG.DATA_DIR, {
+      await saveTest(getDataDir(req), {
         metadata,
         code: testCode
-      });
+      }, { revision: 'recorded' });
 
       recordedStepsCache.delete(sessionId); // Clear cache after saving
 
@@ -1313,7 +1356,7 @@ ${testSteps}
   }
 
   try {
-    const metadata = await persistGeneratorTest(generator, {
+    const metadata = await persistGeneratorTest(getDataDir(req), generator, {
       name,
       description,
       tags,
@@ -0,0 +1,50 @@
+import express from 'express';
+import { getGitStatus, getTestGitLog, pullTests, pushTests } from '../storage/git.js';
+import { getDataDir } from './projectContext.js';
+
+const router = express.Router();
+
+function gitErrorStatus(message: string): number {
+  return message.startsWith('The test directory is not inside a git repository') ? 400 : 500;
+}
+
+router.get('/status', async (req, res) => {
+  try {
+    const status = await getGitStatus(getDataDir(req));
+    res.json(status);
+  } catch (err: any) {
+    res.status(500).json({ error: err.message || 'Failed to read git status' });
+  }
+});
+
+router.get('/log/:testId', async (req, res) => {
+  try {
+    const limit = Number(req.query.limit) || 50;
+    const entries = await getTestGitLog(getDataDir(req), req.params.testId, Math.min(limit, 500));
+    res.json({ entries });
+  } catch (err: any) {
+    res.status(500).json({ error: err.message || 'Failed to read git log' });
+  }
+});
+
+router.post('/pull', async (req, res) => {
+  try {
+    const output = await pullTests(getDataDir(req));
+    const status = await getGitStatus(getDataDir(req));
+    res.json({ success: true, output, status });
+  } catch (err: any) {
+    res.status(gitErrorStatus(err.message ?? '')).json({ error: err.message || 'Failed to pull' });
+  }
+});
+
+router.post('/push', async (req, res) => {
+  try {
+    const output = await pushTests(getDataDir(req));
+    const status = await getGitStatus(getDataDir(req));
+    res.json({ success: true, output, status });
+  } catch (err: any) {
+    res.status(gitErrorStatus(err.message ?? '')).json({ error: err.message || 'Failed to push' });
+  }
+});
+
+export default router;
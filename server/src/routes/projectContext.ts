@@ -0,0 +1,36 @@
+import type { NextFunction, Request, Response } from 'express';
+import { CONFIG } from '../config.js';
+import { DEFAULT_PROJECT_ID, getProject, getProjectDirectory } from '../storage/projects.js';
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    /** Project resolved from /api/projects/:projectId (Default for legacy /api/* routes) */
+    project?: { id: string; dataDir: string };
+  }
+}
+
+/**
+ * Resolve `:projectId` (or the Default project for unscoped routes) to the
+ * project's data directory; 404 for unknown projects
+ */
+export async function resolveProject(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const projectId = req.params.projectId ?? DEFAULT_PROJECT_ID;
+  try {
+    const project = await getProject(CONFIG.DATA_DIR, projectId);
+    if (!project) {
+      res.status(404).json({ error: `Project not found: ${projectId}` });
+      return;
+    }
+    req.project = { id: project.id, dataDir: getProjectDirectory(CONFIG.DATA_DIR, project.id) };
+    next();
+  } catch (err: any) {
+    res.status(400).json({ error: err.message || 'Invalid project' });
+  }
+}
+
+/**
+ * Data directory of the project the request is scoped to
+ */
+export function getDataDir(req: Request): string {
+  return req.project?.dataDir ?? getProjectDirectory(CONFIG.DATA_DIR, DEFAULT_PROJECT_ID);
+}
@@ -0,0 +1,67 @@
+import express from 'express';
+import { CONFIG } from '../config.js';
+import {
+  DEFAULT_PROJECT_ID,
+  createProject,
+  deleteProject,
+  getProjectDirectory,
+  listProjects,
+  updateProject
+} from '../storage/projects.js';
+import { startTestWatcher, stopTestWatcher } from '../storage/testWatcher.js';
+import { ensurePlaywrightConfig } from '../playwright/config.js';
+
+const router = express.Router();
+
+function projectErrorStatus(message: string): number {
+  if (message.startsWith('Project not found')) return 404;
+  if (message.startsWith('Project already exists') || message.startsWith('Project is not empty')) return 409;
+  return 400;
+}
+
+router.get('/', async (_req, res) => {
+  try {
+    const projects = await listProjects(CONFIG.DATA_DIR);
+    res.json({ projects, defaultProjectId: DEFAULT_PROJECT_ID });
+  } catch (err: any) {
+    res.status(500).json({ error: err.message || 'Failed to list projects' });
+  }
+});
+
+router.post('/', async (req, res) => {
+  try {
+    const { name, description, defaultStartUrl, baseUrl } = req.body ?? {};
+    const project = await createProject(CONFIG.DATA_DIR, { name, description, defaultStartUrl, baseUrl });
+    const projectDir = getProjectDirectory(CONFIG.DATA_DIR, project.id);
+    await ensurePlaywrightConfig(projectDir);
+    await startTestWatcher(projectDir).catch((error) => {
+      console.error('[watcher] Unable to watch tests directory', error);
+    });
+    res.json({ project: { ...project, testCount: 0 } });
+  } catch (err: any) {
+    res.status(projectErrorStatus(err.message ?? '')).json({ error: err.message || 'Failed to create project' });
+  }
+});
+
+router.patch('/:projectId', async (req, res) => {
+  try {
+    const { name, description } = req.body ?? {};
+    const project = await updateProject(CONFIG.DATA_DIR, req.params.projectId, { name, description });
+    res.json({ project });
+  } catch (err: any) {
+    res.status(projectErrorStatus(err.message ?? '')).json({ error: err.message || 'Failed to update project' });
+  }
+});
+
+router.delete('/:projectId', async (req, res) => {
+  try {
+    const { projectId } = req.params;
+    await deleteProject(CONFIG.DATA_DIR, projectId);
+    stopTestWatcher(getProjectDirectory(CONFIG.DATA_DIR, projectId));
+    res.json({ success: true });
+  } catch (err: any) {
+    res.status(projectErrorStatus(err.message ?? '')).json({ error: err.message || 'Failed to delete project' });
+  }
+});
+
+export default router;
@@ -2,7 +2,7 @@ import express from 'express';
 import { spawn } from 'child_process';
 import path from 'node:path';
 import fs from 'node:fs/promises';
-import { CONFIG } from '../config.js';
+import { getDataDir } from './projectContext.js';
 import { getRunResult, listRuns } from '../playwright/runner.js';
 import {
   startLiveRun,
@@ -23,13 +23,38 @@ import {
   controlMultiRun,
   MultiRunControlAction
 } from '../playwright/multiRunManager.js';
-import type { RunConfiguration, MultiRunState, MultiRunEvent } from '../../../shared/types.js';
+import type { RunConfiguration, MultiRunState, MultiRunEvent, RunExecutionSettings } from '../../../shared/types.js';
 import { loadConfig } from '../storage/config.js';
 import { chatWithAI } from '../ai/index.js';
 import { resolveNpxInvocation } from '../utils/npx.js';
+import { isBrowserName, parseBrowserList } from '../playwright/browsers.js';
+import { parseRunExecutionSettings } from '../playwright/executionSettings.js';
+import { listFlakyTests } from '../playwright/flakiness.js';
 
 const router = express.Router();
 
+/**
+ * Normalize zero-based CSV row indexes (array or comma-separated string)
+ */
+function parseRowIndexes(value: unknown): number[] | undefined {
+  const rawValues = Array.isArray(value)
+    ? value
+    : typeof value === 'string'
+      ? value.split(',')
+      : [];
+  const indexes = rawValues
+    .map((raw) => (typeof raw === 'number' ? raw : Number.parseInt(String(raw).trim(), 10)))
+    .filter((index) => Number.isInteger(index) && index >= 0);
+  return indexes.length ? Array.from(new Set(indexes)) : undefined;
+}
+
+/**
+ * Row filters use the simple `column=value` form
+ */
+function isValidRowFilter(value: unknown): value is string {
+  return typeof value === 'string' && /^\s*[^=\s][^=]*=/.test(value);
+}
+
 // Start a new test run with live streaming
 router.post('/', async (req, res) => {
   try {
@@ -81,12 +106,33 @@ router.post('/', async (req, res) => {
         }
       : undefined;
 
-    const session = await startLiveRun(CONFIG.DATA_DIR, testId, {
+    if (req.body.browser !== undefined && !isBrowserName(req.body.browser)) {
+      return res.status(400).json({ error: 'browser must be one of chromium, firefox or webkit' });
+    }
+
+    if (req.body.rowFilter && !isValidRowFilter(req.body.rowFilter)) {
+      return res.status(400).json({ error: 'rowFilter must look like column=value' });
+    }
+
+    let execution: RunExecutionSettings | undefined;
+    try {
+      execution = parseRunExecutionSettings(req.body.execution);
+    } catch (err: any) {
+      return res.status(400).json({ error: err.message });
+    }
+
+    const session = await startLiveRun(getDataDir(req), testId, {
       headed: headedPreference,
       speed: speedPreference,
       keepOpen: keepBrowserOpen,
       stopOnFailure,
-      viewportSize
+      viewportSize,
+      browser: req.body.browser,
+      browsers: parseBrowserList(req.body.browsers),
+      testTitle: typeof req.body.testTitle === 'string' ? req.body.testTitle : undefined,
+      rowIndexes: parseRowIndexes(req.body.rowIndexes),
+      rowFilter: req.body.rowFilter || undefined,
+      execution
     });
     return res.status(202).json({ runId: session.id });
   } catch (err: any) {
@@ -99,13 +145,26 @@ router.post('/', async (req, res) => {
 router.get('/', async (req, res) => {
   try {
     const { testId } = req.query;
-    const runs = await listRuns(CONFIG.DATA_DIR, testId as string | undefined);
+    const runs = await listRuns(getDataDir(req), testId as string | undefined);
     res.json({ runs });
   } catch (err: any) {
     res.status(500).json({ error: err?.message || 'Unable to list runs' });
   }
 });
 
+// Tests that pass only after retries or flip between passing and failing
+router.get('/flaky', async (req, res) => {
+  try {
+    const limit = Number.parseInt(String(req.query.limit ?? ''), 10);
+    const tests = await listFlakyTests(getDataDir(req), {
+      limit: Number.isInteger(limit) && limit > 0 ? limit : undefined
+    });
+    res.json({ tests });
+  } catch (err: any) {
+    res.status(500).json({ error: err?.message || 'Unable to compute flaky tests' });
+  }
+});
+
 // Get run state (live if available, otherwise synthesized from stored result)
 router.get('/:runId', async (req, res) => {
   const { runId } = req.params;
@@ -116,12 +175,12 @@ router.get('/:runId', async (req, res) => {
   }
 
   try {
-    const result = await getRunResult(CONFIG.DATA_DIR, runId);
+    const result = await getRunResult(getDataDir(req), runId);
     const fallbackState: LiveRunState = {
       runId,
       testId: result.testId,
       status:
-        result.status === 'passed'
+        result.status === 'passed' || result.status === 'flaky'
           ? 'completed'
           : result.status === 'stopped'
             ? 'stopped'
@@ -229,7 +288,7 @@ router.post('/:runId/chat', async (req, res) => {
   const userMessage = addChatToLiveRun(runId, 'user', trimmedMessage);
 
   try {
-    const config = await loadConfig(CONFIG.DATA_DIR);
+    const config = await loadConfig(getDataDir(req));
     const apiKey = (config.apiKey ?? '').trim();
 
     if (!apiKey) {
@@ -260,16 +319,36 @@ router.post('/:runId/chat', async (req, res) => {
 // Open trace viewer for a run
 router.post('/:runId/trace', async (req, res) => {
   try {
-    const result = await getRunResult(CONFIG.DATA_DIR, req.params.runId);
+    const result = await getRunResult(getDataDir(req), req.params.runId);
 
-    if (!result.tracePath) {
+    // Optional rowIndex opens the trace recorded for one data row
+    const rowIndex = req.body?.rowIndex;
+    const tracePath =
+      typeof rowIndex === 'number'
+        ? result.rowResults?.find((row) => row.rowIndex === rowIndex)?.tracePath
+        : result.tracePath;
+
+    if (!tracePath) {
       return res.status(404).json({ error: 'No trace available for this run' });
     }
 
+    // Traces sit directly in the run directory. Older results stored absolute
+    // paths, which point at the pre-project location once runs are migrated.
+    const runDir = path.resolve(getDataDir(req), 'runs', req.params.runId);
+    const traceFile = path.resolve(runDir, path.isAbsolute(tracePath) ? path.basename(tracePath) : tracePath);
+    if (!traceFile.startsWith(runDir + path.sep)) {
+      return res.status(400).json({ error: 'Invalid trace path' });
+    }
+    try {
+      await fs.access(traceFile);
+    } catch {
+      return res.status(404).json({ error: 'Trace file not found' });
+    }
+
     // Spawn trace viewer in background
     const npx = await resolveNpxInvocation();
     const baseEnv = npx.env ?? process.env;
-    spawn(npx.command, [...npx.argsPrefix, 'playwright', 'show-trace', result.tracePath], {
+    spawn(npx.command, [...npx.argsPrefix, 'playwright', 'show-trace', traceFile], {
       detached: true,
       stdio: 'ignore',
       env: { ...baseEnv }
@@ -284,7 +363,7 @@ router.post('/:runId/trace', async (req, res) => {
 router.get('/:runId/artifacts/:fileName', async (req, res) => {
   const { runId, fileName } = req.params;
   const safeName = path.basename(fileName);
-  const runDir = path.join(CONFIG.DATA_DIR, 'runs', runId);
+  const runDir = path.join(getDataDir(req), 'runs', runId);
   const filePath = path.join(runDir, safeName);
 
   try {
@@ -321,6 +400,20 @@ router.post('/multi', async (req, res) => {
       if (!test.testName || typeof test.testName !== 'string') {
         return res.status(400).json({ error: 'Each test must have a testName' });
       }
+      if (test.rowFilter && !isValidRowFilter(test.rowFilter)) {
+        return res.status(400).json({ error: `rowFilter for ${test.testName} must look like column=value` });
+      }
+    }
+
+    if (config.options?.browser !== undefined && !isBrowserName(config.options.browser)) {
+      return res.status(400).json({ error: 'browser must be one of chromium, firefox or webkit' });
+    }
+
+    let execution: RunExecutionSettings | undefined;
+    try {
+      execution = parseRunExecutionSettings(config.options?.execution);
+    } catch (err: any) {
+      return res.status(400).json({ error: err.message });
     }
 
     // Set defaults for options
@@ -330,18 +423,23 @@ router.post('/multi', async (req, res) => {
         testName: t.testName,
         order: typeof t.order === 'number' ? t.order : i,
         startFromStep: typeof t.startFromStep === 'number' ? t.startFromStep : 0,
-        enabled: typeof t.enabled === 'boolean' ? t.enabled : true
+        enabled: typeof t.enabled === 'boolean' ? t.enabled : true,
+        rowIndexes: parseRowIndexes(t.rowIndexes),
+        rowFilter: t.rowFilter || undefined
       })),
       options: {
         headed: config.options?.headed ?? true,
         speed: config.options?.speed ?? 1,
         reusesBrowser: config.options?.reusesBrowser ?? false,
         stopOnFailure: config.options?.stopOnFailure ?? false,
-        viewportSize: config.options?.viewportSize
+        viewportSize: config.options?.viewportSize,
+        browser: config.options?.browser,
+        browserMatrix: parseBrowserList(config.options?.browserMatrix),
+        execution
       }
     };
 
-    const session = await startMultiRun(CONFIG.DATA_DIR, normalizedConfig);
+    const session = await startMultiRun(getDataDir(req), normalizedConfig);
     return res.status(202).json({ configId: session.id });
   } catch (err: any) {
     console.error('Multi-run start error:', err);
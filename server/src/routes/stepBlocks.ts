@@ -0,0 +1,69 @@
+import express from 'express';
+import {
+  listStepBlocks,
+  getStepBlock,
+  createStepBlock,
+  updateStepBlock,
+  deleteStepBlock
+} from '../storage/stepBlocks.js';
+import { getDataDir } from './projectContext.js';
+
+const router = express.Router();
+
+function stepBlockErrorStatus(message: string): number {
+  if (message.startsWith('Step block not found')) return 404;
+  if (message.startsWith('Step block already exists') || message.startsWith('Step block is in use')) return 409;
+  return 400;
+}
+
+router.get('/', async (req, res) => {
+  try {
+    const blocks = await listStepBlocks(getDataDir(req));
+    res.json({ blocks });
+  } catch (err: any) {
+    res.status(500).json({ error: err.message || 'Failed to list step blocks' });
+  }
+});
+
+router.get('/:blockId', async (req, res) => {
+  try {
+    const block = await getStepBlock(getDataDir(req), req.params.blockId);
+    if (!block) {
+      return res.status(404).json({ error: 'Step block not found' });
+    }
+    res.json({ block });
+  } catch (err: any) {
+    res.status(500).json({ error: err.message || 'Failed to load step block' });
+  }
+});
+
+router.post('/', async (req, res) => {
+  try {
+    const { name, description, steps, variables } = req.body ?? {};
+    const block = await createStepBlock(getDataDir(req), { name, description, steps, variables });
+    res.json({ success: true, block });
+  } catch (err: any) {
+    res.status(stepBlockErrorStatus(err.message ?? '')).json({ error: err.message || 'Failed to create step block' });
+  }
+});
+
+router.put('/:blockId', async (req, res) => {
+  try {
+    const { name, description, steps, variables } = req.body ?? {};
+    const block = await updateStepBlock(getDataDir(req), req.params.blockId, { name, description, steps, variables });
+    res.json({ success: true, block });
+  } catch (err: any) {
+    res.status(stepBlockErrorStatus(err.message ?? '')).json({ error: err.message || 'Failed to update step block' });
+  }
+});
+
+router.delete('/:blockId', async (req, res) => {
+  try {
+    await deleteStepBlock(getDataDir(req), req.params.blockId);
+    res.json({ success: true });
+  } catch (err: any) {
+    res.status(stepBlockErrorStatus(err.message ?? '')).json({ error: err.message || 'Failed to delete step block' });
+  }
+});
+
+export default router;
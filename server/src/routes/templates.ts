@@ -0,0 +1,102 @@
+import express from 'express';
+import {
+  listTemplates,
+  getTemplate,
+  createTemplate,
+  updateTemplate,
+  deleteTemplate,
+  createTemplateFromTest,
+  type TestTemplateInput
+} from '../storage/templates.js';
+import { getDataDir } from './projectContext.js';
+
+const router = express.Router();
+
+const TEMPLATE_FIELDS = [
+  'name',
+  'description',
+  'goal',
+  'successCriteria',
+  'startUrl',
+  'credentialId',
+  'viewportSize',
+  'variables',
+  'tags',
+  'sourceTestId'
+] as const;
+
+function templateErrorStatus(message: string): number {
+  if (message.startsWith('Template not found') || message.startsWith('Test not found')) return 404;
+  if (message.startsWith('Template already exists')) return 409;
+  return 400;
+}
+
+/**
+ * Only the template fields present in the body, so updates leave the rest untouched
+ */
+function pickTemplateFields(body: any): Partial<TestTemplateInput> {
+  const source = body && typeof body === 'object' ? body : {};
+  return Object.fromEntries(TEMPLATE_FIELDS.filter((key) => key in source).map((key) => [key, source[key]]));
+}
+
+router.get('/', async (req, res) => {
+  try {
+    const templates = await listTemplates(getDataDir(req));
+    res.json({ templates });
+  } catch (err: any) {
+    res.status(500).json({ error: err.message || 'Failed to list templates' });
+  }
+});
+
+router.get('/:templateId', async (req, res) => {
+  try {
+    const template = await getTemplate(getDataDir(req), req.params.templateId);
+    if (!template) {
+      return res.status(404).json({ error: 'Template not found' });
+    }
+    res.json({ template });
+  } catch (err: any) {
+    res.status(500).json({ error: err.message || 'Failed to load template' });
+  }
+});
+
+router.post('/', async (req, res) => {
+  try {
+    const template = await createTemplate(getDataDir(req), pickTemplateFields(req.body) as TestTemplateInput);
+    res.json({ success: true, template });
+  } catch (err: any) {
+    res.status(templateErrorStatus(err.message ?? '')).json({ error: err.message || 'Failed to create template' });
+  }
+});
+
+/**
+ * Save an existing test as a template. Body: { name?: string }
+ */
+router.post('/from-test/:testId', async (req, res) => {
+  try {
+    const template = await createTemplateFromTest(getDataDir(req), req.params.testId, req.body?.name);
+    res.json({ success: true, template });
+  } catch (err: any) {
+    res.status(templateErrorStatus(err.message ?? '')).json({ error: err.message || 'Failed to save test as template' });
+  }
+});
+
+router.put('/:templateId', async (req, res) => {
+  try {
+    const template = await updateTemplate(getDataDir(req), req.params.templateId, pickTemplateFields(req.body));
+    res.json({ success: true, template });
+  } catch (err: any) {
+    res.status(templateErrorStatus(err.message ?? '')).json({ error: err.message || 'Failed to update template' });
+  }
+});
+
+router.delete('/:templateId', async (req, res) => {
+  try {
+    await deleteTemplate(getDataDir(req), req.params.templateId);
+    res.json({ success: true });
+  } catch (err: any) {
+    res.status(templateErrorStatus(err.message ?? '')).json({ error: err.message || 'Failed to delete template' });
+  }
+});
+
+export default router;
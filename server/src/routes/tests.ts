@@ -5,19 +5,33 @@ import fs from 'fs/promises';
 import archiver from 'archiver';
 import AdmZip from 'adm-zip';
 import { generateTest } from '../ai/index.js';
-import { saveTest, loadTest, listTests, deleteTest, updateTestMetadata } from '../storage/tests.js';
+import { generateStepSummaries } from '../ai/agentPrompts.js';
+import { saveTest, loadTest, listTests, updateTestMetadata, checkTestsHealth } from '../storage/tests.js';
+import { moveTestToTrash } from '../storage/trash.js';
+import { normalizeFolderPath } from '../storage/folders.js';
+import { searchTests } from '../storage/search.js';
+import { duplicateTest } from '../storage/duplicate.js';
+import { generateManualScript, type ManualScriptDocument } from '../storage/manualScripts.js';
+import { exportTestCasesCsv, TEST_CASE_CSV_FIELDS, TEST_CASE_CSV_PRESETS } from '../storage/testCaseCsv.js';
+import { subscribeToTestEvents } from '../storage/testWatcher.js';
+import { getStepBlock } from '../storage/stepBlocks.js';
 import { loadConfig } from '../storage/config.js';
-import { CONFIG } from '../config.js';
+import { listRevisions, loadRevision, diffTests } from '../storage/revisions.js';
+import { getDataDir } from './projectContext.js';
 import { resolveNpxInvocation } from '../utils/npx.js';
 import type { Test } from '../types.js';
 import type { TestMetadata, ExtractedStep } from '../../../shared/types.js';
-import { getTestSteps } from '../playwright/stepExtractor.js';
+import { getTestSteps, syncTestSteps } from '../playwright/stepExtractor.js';
+import { importSpecFiles } from '../playwright/specImporter.js';
+import { importSideFiles } from '../playwright/sideImporter.js';
+import { buildPlaywrightProject } from '../playwright/projectExport.js';
+import { parseRunExecutionSettings } from '../playwright/executionSettings.js';
 
 const router = express.Router();
 const zipUpload = express.raw({ type: ['application/zip', 'application/octet-stream'], limit: '200mb' });
 
-async function listRunFoldersForTest(testId: string): Promise<string[]> {
-  const runsDir = path.join(CONFIG.DATA_DIR, 'runs');
+async function listRunFoldersForTest(dataDir: string, testId: string): Promise<string[]> {
+  const runsDir = path.join(dataDir, 'runs');
   await fs.mkdir(runsDir, { recursive: true });
   const entries = await fs.readdir(runsDir, { withFileTypes: true });
   const matches: string[] = [];
@@ -45,24 +59,24 @@ async function listRunFoldersForTest(testId: string): Promise<string[]> {
   return matches;
 }
 
-async function runFolderExists(name: string): Promise<boolean> {
+async function runFolderExists(dataDir: string, name: string): Promise<boolean> {
   try {
-    await fs.access(path.join(CONFIG.DATA_DIR, 'runs', name));
+    await fs.access(path.join(dataDir, 'runs', name));
     return true;
   } catch {
     return false;
   }
 }
 
-async function ensureUniqueRunFolder(preferred: string): Promise<string> {
-  if (!(await runFolderExists(preferred))) {
+async function ensureUniqueRunFolder(dataDir: string, preferred: string): Promise<string> {
+  if (!(await runFolderExists(dataDir, preferred))) {
     return preferred;
   }
 
   let index = 1;
   while (index < 1000) {
     const nextName = `${preferred}-${index}`;
-    if (!(await runFolderExists(nextName))) {
+    if (!(await runFolderExists(dataDir, nextName))) {
       return nextName;
     }
     index += 1;
@@ -115,7 +129,7 @@ router.post('/generate', async (req, res) => {
       return res.status(400).json({ error: 'Prompt is required' });
     }
 
-    const config = await loadConfig(CONFIG.DATA_DIR);
+    const config = await loadConfig(getDataDir(req));
     const apiKey = (config.apiKey || '').trim();
 
     if (!apiKey || /^sk-test/i.test(apiKey)) {
@@ -130,7 +144,7 @@ router.post('/generate', async (req, res) => {
     });
 
     const test = buildGeneratedTest(trimmedPrompt, code);
-    await saveTest(CONFIG.DATA_DIR, test);
+    await saveTest(getDataDir(req), test, { revision: 'created' });
 
     res.status(201).json({ test });
   } catch (err: any) {
@@ -142,13 +156,130 @@ router.post('/generate', async (req, res) => {
 // List all tests
 router.get('/', async (req, res) => {
   try {
-    const tests = await listTests(CONFIG.DATA_DIR);
+    const tests = await listTests(getDataDir(req));
     res.json({ tests });
   } catch (err: any) {
     res.status(500).json({ error: err.message });
   }
 });
 
+// Stream add/change/remove events for spec files edited on disk (must be before /:id)
+router.get('/events', (req, res) => {
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders?.();
+
+  let closed = false;
+
+  const heartbeat = setInterval(() => {
+    if (!closed) {
+      res.write(': heartbeat\n\n');
+    }
+  }, 15000);
+
+  const unsubscribe = subscribeToTestEvents(getDataDir(req), (event) => {
+    if (!closed) {
+      res.write(`data: ${JSON.stringify(event)}\n\n`);
+    }
+  });
+
+  req.on('close', () => {
+    closed = true;
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+// Report specs whose metadata header is corrupt or outdated (must be before /:id)
+router.get('/health', async (req, res) => {
+  try {
+    const report = await checkTestsHealth(getDataDir(req));
+    res.json(report);
+  } catch (err: any) {
+    res.status(500).json({ error: err.message || 'Failed to check test health' });
+  }
+});
+
+// Full-text search across names, descriptions, prompts, step summaries and code (must be before /:id)
+router.get('/search', async (req, res) => {
+  try {
+    const query = typeof req.query.q === 'string' ? req.query.q : '';
+    const limit = Number.parseInt(String(req.query.limit ?? ''), 10);
+    const hits = await searchTests(getDataDir(req), query, Number.isFinite(limit) && limit > 0 ? limit : undefined);
+    res.json({ query, hits });
+  } catch (err: any) {
+    res.status(500).json({ error: err.message || 'Failed to search tests' });
+  }
+});
+
+function manualScriptErrorStatus(message: string): number {
+  return /not found/i.test(message) ? 404 : 400;
+}
+
+function sendManualScript(res: express.Response, document: ManualScriptDocument) {
+  res.setHeader('Content-Type', document.contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${document.fileName}"`);
+  res.send(document.content);
+}
+
+// Manual test script for every test in a folder (must be before /:id to avoid route conflict)
+router.get('/manual-script', async (req, res) => {
+  try {
+    const folder = normalizeFolderPath(req.query.folder);
+    if (!folder) {
+      return res.status(400).json({ error: 'folder is required' });
+    }
+    const format = req.query.format === 'html' ? 'html' : 'markdown';
+    sendManualScript(res, await generateManualScript(getDataDir(req), { folder }, format));
+  } catch (err: any) {
+    const message = err?.message || 'Failed to build manual test script';
+    res.status(manualScriptErrorStatus(message)).json({ error: message });
+  }
+});
+
+// Manual test script (Markdown or self-contained HTML) for one test
+router.get('/:id/manual-script', async (req, res) => {
+  try {
+    const format = req.query.format === 'html' ? 'html' : 'markdown';
+    sendManualScript(res, await generateManualScript(getDataDir(req), { testId: req.params.id }, format));
+  } catch (err: any) {
+    const message = err?.message || 'Failed to build manual test script';
+    res.status(manualScriptErrorStatus(message)).json({ error: message });
+  }
+});
+
+// Column presets for test-management CSV exports
+router.get('/export/test-case-presets', (_req, res) => {
+  res.json({ fields: TEST_CASE_CSV_FIELDS, presets: TEST_CASE_CSV_PRESETS });
+});
+
+// Export selected tests as test-management CSV, one row per step
+router.post('/export/test-cases', async (req, res) => {
+  try {
+    const { testIds, preset, mapping, repeatTestFields, tagSeparator } = req.body ?? {};
+    if (!Array.isArray(testIds) || !testIds.every((id) => typeof id === 'string')) {
+      return res.status(400).json({ error: 'testIds must be an array of test ids' });
+    }
+    if (mapping !== undefined && (typeof mapping !== 'object' || mapping === null || Array.isArray(mapping))) {
+      return res.status(400).json({ error: 'mapping must be an object of field to column header' });
+    }
+
+    const csv = await exportTestCasesCsv(getDataDir(req), testIds, {
+      preset: typeof preset === 'string' ? preset : undefined,
+      mapping,
+      repeatTestFields: typeof repeatTestFields === 'boolean' ? repeatTestFields : undefined,
+      tagSeparator: typeof tagSeparator === 'string' ? tagSeparator : undefined
+    });
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="test-cases-${preset || 'generic'}.csv"`);
+    res.send(csv);
+  } catch (err: any) {
+    const message = err?.message || 'Failed to export test cases';
+    res.status(/not found/i.test(message) ? 404 : 400).json({ error: message });
+  }
+});
+
 // Serve step screenshots for a test (must be before /:id to avoid route conflict)
 router.get('/:testId/screenshots/:filename', async (req, res) => {
   try {
@@ -159,7 +290,7 @@ router.get('/:testId/screenshots/:filename', async (req, res) => {
       return res.status(400).json({ error: 'Invalid filename' });
     }
 
-    const screenshotPath = path.join(CONFIG.DATA_DIR, 'screenshots', testId, filename);
+    const screenshotPath = path.join(getDataDir(req), 'screenshots', testId, filename);
 
     // Read and send the file directly (more reliable than sendFile on Windows)
     try {
@@ -179,7 +310,7 @@ router.get('/:testId/screenshots/:filename', async (req, res) => {
 // Get single test
 router.get('/:id', async (req, res) => {
   try {
-    const test = await loadTest(CONFIG.DATA_DIR, req.params.id);
+    const test = await loadTest(getDataDir(req), req.params.id);
     res.json({ test });
   } catch (err: any) {
     res.status(404).json({ error: 'Test not found' });
@@ -190,13 +321,103 @@ router.get('/:id', async (req, res) => {
 router.get('/:id/steps', async (req, res) => {
   try {
     const testId = req.params.id;
-    const steps = await getTestSteps(CONFIG.DATA_DIR, testId);
+    const steps = await getTestSteps(getDataDir(req), testId);
     res.json({ steps });
   } catch (err: any) {
     res.status(500).json({ error: err.message || 'Failed to get test steps' });
   }
 });
 
+// Rewrite metadata.steps from the test.step() blocks in the code
+router.post('/:id/steps/sync', async (req, res) => {
+  try {
+    const { metadata, changed } = await syncTestSteps(getDataDir(req), req.params.id);
+    res.json({ test: metadata, changed });
+  } catch (err: any) {
+    const status = err?.code === 'ENOENT' ? 404 : 400;
+    res.status(status).json({ error: status === 404 ? 'Test not found' : err.message || 'Failed to sync steps' });
+  }
+});
+
+// List revision history for a test (newest first)
+router.get('/:id/revisions', async (req, res) => {
+  try {
+    const revisions = await listRevisions(getDataDir(req), req.params.id);
+    res.json({ revisions });
+  } catch (err: any) {
+    res.status(500).json({ error: err.message || 'Failed to list revisions' });
+  }
+});
+
+// Diff two revisions; `to` defaults to the current version on disk
+router.get('/:id/revisions/diff', async (req, res) => {
+  try {
+    const testId = req.params.id;
+    const from = typeof req.query.from === 'string' ? req.query.from : '';
+    const to = typeof req.query.to === 'string' && req.query.to ? req.query.to : 'current';
+
+    if (!from) {
+      return res.status(400).json({ error: 'from revision is required' });
+    }
+
+    const loadVersion = (revisionId: string) =>
+      revisionId === 'current'
+        ? loadTest(getDataDir(req), testId)
+        : loadRevision(getDataDir(req), testId, revisionId);
+
+    let fromVersion: Test;
+    let toVersion: Test;
+    try {
+      [fromVersion, toVersion] = await Promise.all([loadVersion(from), loadVersion(to)]);
+    } catch {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+
+    res.json({ diff: diffTests(fromVersion, toVersion, { from, to }) });
+  } catch (err: any) {
+    res.status(500).json({ error: err.message || 'Failed to diff revisions' });
+  }
+});
+
+// Get a single revision with its code and metadata
+router.get('/:id/revisions/:revisionId', async (req, res) => {
+  try {
+    const revision = await loadRevision(getDataDir(req), req.params.id, req.params.revisionId);
+    res.json({ revision });
+  } catch {
+    res.status(404).json({ error: 'Revision not found' });
+  }
+});
+
+// Restore a revision as the current version (recorded as a new revision)
+router.post('/:id/revisions/:revisionId/restore', async (req, res) => {
+  try {
+    const testId = req.params.id;
+    let revision;
+    try {
+      revision = await loadRevision(getDataDir(req), testId, req.params.revisionId);
+    } catch {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+
+    const restored: Test = {
+      metadata: {
+        ...revision.metadata,
+        id: testId,
+        updatedAt: new Date().toISOString()
+      },
+      code: revision.code
+    };
+
+    await saveTest(getDataDir(req), restored, {
+      revision: `restored version from ${revision.createdAt}`
+    });
+    res.json({ success: true, test: restored });
+  } catch (err: any) {
+    res.status(500).json({ error: err.message || 'Failed to restore revision' });
+  }
+});
+
 // Save test
 router.post('/', async (req, res) => {
   try {
@@ -211,7 +432,7 @@ router.post('/', async (req, res) => {
     }
     test.metadata.updatedAt = new Date().toISOString();
 
-    await saveTest(CONFIG.DATA_DIR, test);
+    await saveTest(getDataDir(req), test, { revision: 'saved' });
     res.json({ success: true });
   } catch (err: any) {
     res.status(500).json({ error: err.message });
@@ -219,20 +440,70 @@ router.post('/', async (req, res) => {
 });
 
 // Delete test
+// Deleting moves the test, its data, screenshots and runs to the trash (see routes/trash.ts)
 router.delete('/:id', async (req, res) => {
   try {
-    await deleteTest(CONFIG.DATA_DIR, req.params.id);
-    res.json({ success: true });
+    const entry = await moveTestToTrash(getDataDir(req), req.params.id);
+    res.json({ success: true, trashed: entry });
   } catch (err: any) {
+    if (err?.code === 'ENOENT') {
+      return res.status(404).json({ error: 'Test not found' });
+    }
     res.status(500).json({ error: err.message });
   }
 });
 
+// Copy a test with its CSV data, screenshots and credential binding under a new id
+router.post('/:id/duplicate', async (req, res) => {
+  try {
+    const name = typeof req.body?.name === 'string' ? req.body.name : undefined;
+    const copy = await duplicateTest(getDataDir(req), req.params.id, { name });
+    res.json({ success: true, test: copy.metadata });
+  } catch (err: any) {
+    if (err?.code === 'ENOENT') {
+      return res.status(404).json({ error: 'Test not found' });
+    }
+    res.status(500).json({ error: err.message || 'Failed to duplicate test' });
+  }
+});
+
+// Export tests as a standalone Playwright project (runs with `npx playwright test`)
+router.post('/export/project', async (req, res) => {
+  try {
+    const { testIds } = req.body ?? {};
+    if (!Array.isArray(testIds) || !testIds.every((id) => typeof id === 'string')) {
+      return res.status(400).json({ error: 'testIds must be an array of test ids' });
+    }
+
+    const files = await buildPlaywrightProject(getDataDir(req), testIds);
+    const archive = archiver('zip', { zlib: { level: 9 } });
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', 'attachment; filename="trailwright-playwright-project.zip"');
+
+    archive.on('error', (error) => {
+      console.error('Project export archive error', error);
+      res.end();
+    });
+
+    archive.pipe(res);
+    for (const file of files) {
+      archive.append(file.content, { name: path.posix.join('trailwright-playwright-project', file.path) });
+    }
+    await archive.finalize();
+  } catch (err: any) {
+    console.error('Failed to export Playwright project', err);
+    if (!res.headersSent) {
+      res.status(/not found/i.test(err?.message) ? 404 : 400).json({ error: err.message || 'Unable to export project' });
+    }
+  }
+});
+
 // Export test with associated runs as zip
 router.get('/:id/export', async (req, res) => {
   try {
     const testId = req.params.id;
-    const test = await loadTest(CONFIG.DATA_DIR, testId);
+    const test = await loadTest(getDataDir(req), testId);
     const archive = archiver('zip', { zlib: { level: 9 } });
     const filename = `${testId}-trailwright-export.zip`;
 
@@ -250,13 +521,13 @@ router.get('/:id/export', async (req, res) => {
 
     archive.pipe(res);
 
-    const testFilePath = path.join(CONFIG.DATA_DIR, 'tests', `${testId}.spec.ts`);
+    const testFilePath = path.join(getDataDir(req), 'tests', `${testId}.spec.ts`);
     archive.file(testFilePath, { name: path.posix.join('tests', `${testId}.spec.ts`) });
     archive.append(JSON.stringify(test.metadata, null, 2), { name: 'metadata.json' });
 
-    const runFolders = await listRunFoldersForTest(testId);
+    const runFolders = await listRunFoldersForTest(getDataDir(req), testId);
     for (const folder of runFolders) {
-      const absoluteRunPath = path.join(CONFIG.DATA_DIR, 'runs', folder);
+      const absoluteRunPath = path.join(getDataDir(req), 'runs', folder);
       archive.directory(absoluteRunPath, path.posix.join('runs', folder));
     }
 
@@ -273,7 +544,7 @@ router.get('/:id/export', async (req, res) => {
 router.post('/record', async (req, res) => {
   try {
     const { url, viewportSize } = req.body;
-    const config = await loadConfig(CONFIG.DATA_DIR);
+    const config = await loadConfig(getDataDir(req));
     const startUrl = url || config.baseUrl || 'about:blank';
 
     // Create a new test file for recording
@@ -281,7 +552,7 @@ router.post('/record', async (req, res) => {
     const idSuffix = Math.random().toString(36).slice(2, 8);
     const testId = `test-${now.replace(/[:.]/g, '-')}-${idSuffix}`;
     const testFileName = `${testId}.spec.ts`;
-    const testFilePath = path.join(CONFIG.DATA_DIR, 'tests', testFileName);
+    const testFilePath = path.join(getDataDir(req), 'tests', testFileName);
 
     // Create an empty starter test file for codegen to write to
     const starterTemplate = `import { test, expect } from '@playwright/test';
@@ -318,7 +589,7 @@ test('recorded test', async ({ page }) => {
       npx.command,
       codegenArgs,
       {
-        cwd: CONFIG.DATA_DIR,
+        cwd: getDataDir(req),
         env: { ...baseEnv },
         detached: true,
         stdio: 'ignore'
@@ -340,13 +611,13 @@ test('recorded test', async ({ page }) => {
 router.post('/:id/edit', async (req, res) => {
   try {
     const testId = req.params.id;
-    const test = await loadTest(CONFIG.DATA_DIR, testId);
+    const test = await loadTest(getDataDir(req), testId);
 
     if (!test) {
       return res.status(404).json({ error: 'Test not found' });
     }
 
-    const testFile = path.join(CONFIG.DATA_DIR, 'tests', `${testId}.spec.ts`);
+    const testFile = path.join(getDataDir(req), 'tests', `${testId}.spec.ts`);
 
     console.log(`[edit] Opening test file ${testId} in system editor`);
 
@@ -390,7 +661,7 @@ router.post('/:id/finalize', async (req, res) => {
     const testId = req.params.id;
     const { name, description, tags } = req.body;
 
-    const testFile = path.join(CONFIG.DATA_DIR, 'tests', `${testId}.spec.ts`);
+    const testFile = path.join(getDataDir(req), 'tests', `${testId}.spec.ts`);
 
     // Read the raw generated code
     let code: string;
@@ -414,7 +685,7 @@ router.post('/:id/finalize', async (req, res) => {
     };
 
     // Save with proper metadata wrapper
-    await saveTest(CONFIG.DATA_DIR, test);
+    await saveTest(getDataDir(req), test, { revision: 'recorded' });
 
     res.json({ success: true, test: test.metadata });
   } catch (err: any) {
@@ -446,21 +717,32 @@ router.patch('/:id/metadata', async (req, res) => {
         payload.folder === null
           ? null
           : typeof payload.folder === 'string'
-            ? payload.folder.trim()
+            ? normalizeFolderPath(payload.folder)
             : undefined,
       credentialId:
         typeof payload.credentialId === 'string' ? payload.credentialId.trim() : undefined
     };
 
-    const filteredUpdates = Object.fromEntries(
+    const filteredUpdates: Partial<TestMetadata> = Object.fromEntries(
       Object.entries(updates).filter(([, value]) => value !== undefined)
     );
 
+    // Run defaults are replaced as a whole; null or {} clears them
+    if (payload.execution !== undefined) {
+      try {
+        filteredUpdates.execution = parseRunExecutionSettings(payload.execution);
+      } catch (err: any) {
+        return res.status(400).json({ error: err.message });
+      }
+    }
+
     if (Object.keys(filteredUpdates).length === 0) {
       return res.status(400).json({ error: 'No valid metadata fields provided' });
     }
 
-    const updated = await updateTestMetadata(CONFIG.DATA_DIR, testId, filteredUpdates);
+    const updated = await updateTestMetadata(getDataDir(req), testId, filteredUpdates, {
+      revision: 'details edited'
+    });
     res.json({ success: true, test: updated.metadata });
   } catch (error: any) {
     res.status(500).json({ error: error?.message || 'Failed to update test metadata' });
@@ -470,14 +752,20 @@ router.patch('/:id/metadata', async (req, res) => {
 router.put('/:id/steps', async (req, res) => {
   try {
     const testId = req.params.id;
-    const { steps } = req.body ?? {};
+    const { steps, action } = req.body ?? {};
 
     if (!Array.isArray(steps)) {
       return res.status(400).json({ error: 'Steps must be an array' });
     }
 
+    for (const step of steps) {
+      if (step?.blockId && !(await getStepBlock(getDataDir(req), step.blockId))) {
+        return res.status(400).json({ error: `Step block not found: ${step.blockId}` });
+      }
+    }
+
     // Load existing test
-    const test = await loadTest(CONFIG.DATA_DIR, testId);
+    const test = await loadTest(getDataDir(req), testId);
 
     // Update metadata with new steps
     const updatedMetadata = {
@@ -508,7 +796,9 @@ router.put('/:id/steps', async (req, res) => {
       code: newCode
     };
 
-    await saveTest(CONFIG.DATA_DIR, updatedTest);
+    await saveTest(getDataDir(req), updatedTest, {
+      revision: action === 'step inserted' ? 'step inserted' : 'steps edited'
+    });
 
     res.json({ success: true });
   } catch (error: any) {
@@ -546,7 +836,7 @@ router.post('/import', zipUpload, async (req, res) => {
     }
 
     let targetId = metadata.id?.trim() || `imported-${Date.now()}`;
-    const existingTestPath = path.join(CONFIG.DATA_DIR, 'tests', `${targetId}.spec.ts`);
+    const existingTestPath = path.join(getDataDir(req), 'tests', `${targetId}.spec.ts`);
     try {
       await fs.access(existingTestPath);
       targetId = `${targetId}-${Date.now().toString(36)}`;
@@ -560,10 +850,10 @@ router.post('/import', zipUpload, async (req, res) => {
     metadata.updatedAt = now;
 
     const code = specEntry.getData().toString('utf-8');
-    await saveTest(CONFIG.DATA_DIR, { metadata, code });
+    await saveTest(getDataDir(req), { metadata, code }, { revision: 'imported' });
 
     const runEntries = zip.getEntries().filter((entry) => entry.entryName.startsWith('runs/'));
-    await fs.mkdir(path.join(CONFIG.DATA_DIR, 'runs'), { recursive: true });
+    await fs.mkdir(path.join(getDataDir(req), 'runs'), { recursive: true });
     const runsByFolder = new Map<string, AdmZip.IZipEntry[]>();
 
     for (const entry of runEntries) {
@@ -586,14 +876,14 @@ router.post('/import', zipUpload, async (req, res) => {
     }
 
     for (const [folder, entries] of runsByFolder.entries()) {
-      const targetFolder = await ensureUniqueRunFolder(folder);
+      const targetFolder = await ensureUniqueRunFolder(getDataDir(req), folder);
       for (const entry of entries) {
         const relative = entry.entryName.replace(`runs/${folder}/`, '');
         if (!relative) {
           continue;
         }
 
-        const destination = path.join(CONFIG.DATA_DIR, 'runs', targetFolder, relative);
+        const destination = path.join(getDataDir(req), 'runs', targetFolder, relative);
         await fs.mkdir(path.dirname(destination), { recursive: true });
 
         if (entry.isDirectory) {
@@ -623,6 +913,73 @@ router.post('/import', zipUpload, async (req, res) => {
   }
 });
 
+/**
+ * Import plain Playwright specs (no TrailWright metadata header).
+ * Body: { files: [{ path, content }], split?, folder? }
+ */
+router.post('/import/spec', async (req, res) => {
+  try {
+    const { files, split, folder } = req.body ?? {};
+    if (
+      !Array.isArray(files) ||
+      files.length === 0 ||
+      !files.every((file) => typeof file?.path === 'string' && typeof file?.content === 'string')
+    ) {
+      return res.status(400).json({ error: 'Provide files as [{ path, content }]' });
+    }
+
+    const config = await loadConfig(getDataDir(req));
+    const apiKey = (config.apiKey || '').trim();
+    const modelKey = `${config.apiProvider}Model` as keyof typeof config;
+    const summarizeSteps =
+      apiKey && !/^sk-test/i.test(apiKey)
+        ? (codeBlocks: string[]) =>
+            generateStepSummaries(codeBlocks, config.apiProvider, apiKey, config.baseUrl, config[modelKey] as string | undefined)
+        : undefined;
+
+    const result = await importSpecFiles(getDataDir(req), files, {
+      split: split === true,
+      folder: normalizeFolderPath(folder) ?? undefined,
+      summarizeSteps
+    });
+    if (result.imported.length === 0) {
+      return res.status(400).json({ error: 'No Playwright tests found in the uploaded files', skipped: result.skipped });
+    }
+    res.status(201).json(result);
+  } catch (err: any) {
+    console.error('Spec import failed', err);
+    res.status(400).json({ error: err.message || 'Unable to import spec files' });
+  }
+});
+
+/**
+ * Import the tests of Selenium IDE `.side` projects.
+ * Body: { files: [{ path, content }], folder? }
+ */
+router.post('/import/side', async (req, res) => {
+  try {
+    const { files, folder } = req.body ?? {};
+    if (
+      !Array.isArray(files) ||
+      files.length === 0 ||
+      !files.every((file) => typeof file?.path === 'string' && typeof file?.content === 'string')
+    ) {
+      return res.status(400).json({ error: 'Provide files as [{ path, content }]' });
+    }
+
+    const result = await importSideFiles(getDataDir(req), files, {
+      folder: normalizeFolderPath(folder) ?? undefined
+    });
+    if (result.imported.length === 0) {
+      return res.status(400).json({ error: 'No Selenium IDE tests found in the uploaded files', skipped: result.skipped });
+    }
+    res.status(201).json(result);
+  } catch (err: any) {
+    console.error('Selenium IDE import failed', err);
+    res.status(400).json({ error: err.message || 'Unable to import Selenium IDE projects' });
+  }
+});
+
 // Step insertion with browser context
 const insertionSessions = new Map<string, any>(); // Will hold StepInsertionManager instances
 
@@ -640,7 +997,7 @@ router.post('/:id/insert/start', async (req, res) => {
     }
 
     // Load test
-    const test = await loadTest(CONFIG.DATA_DIR, testId);
+    const test = await loadTest(getDataDir(req), testId);
     if (!test) {
       return res.status(404).json({ error: 'Test not found' });
     }
@@ -656,7 +1013,7 @@ router.post('/:id/insert/start', async (req, res) => {
     }
 
     // Load config for AI provider
-    const config = await loadConfig(CONFIG.DATA_DIR);
+    const config = await loadConfig(getDataDir(req));
     if (!config.apiProvider || !config.apiKey) {
       return res.status(400).json({ error: 'AI provider not configured. Configure in Settings.' });
     }
@@ -669,7 +1026,8 @@ router.post('/:id/insert/start', async (req, res) => {
       test,
       insertAfterStep,
       config.apiProvider,
-      config.apiKey
+      config.apiKey,
+      getDataDir(req)
     );
 
     // Initialize (replay test and keep browser open)
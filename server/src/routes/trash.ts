@@ -0,0 +1,58 @@
+import express from 'express';
+import {
+  listTrash,
+  restoreTestFromTrash,
+  purgeTrashEntry,
+  emptyTrash,
+  purgeExpiredTrash
+} from '../storage/trash.js';
+import { getDataDir } from './projectContext.js';
+
+const router = express.Router();
+
+router.get('/', async (req, res) => {
+  try {
+    // Apply the retention window before listing so expired entries never show up
+    await purgeExpiredTrash(getDataDir(req));
+    const entries = await listTrash(getDataDir(req));
+    res.json({ entries });
+  } catch (err: any) {
+    res.status(500).json({ error: err.message || 'Failed to load trash' });
+  }
+});
+
+router.post('/:testId/restore', async (req, res) => {
+  try {
+    const entry = await restoreTestFromTrash(getDataDir(req), req.params.testId);
+    res.json({ success: true, entry });
+  } catch (err: any) {
+    if (err?.code === 'ENOENT') {
+      return res.status(404).json({ error: 'Trash entry not found' });
+    }
+    if (typeof err?.message === 'string' && err.message.includes('already exists')) {
+      return res.status(409).json({ error: err.message });
+    }
+    res.status(500).json({ error: err.message || 'Failed to restore test' });
+  }
+});
+
+router.delete('/:testId', async (req, res) => {
+  try {
+    await purgeTrashEntry(getDataDir(req), req.params.testId);
+    res.json({ success: true });
+  } catch (err: any) {
+    const status = err?.message === 'Trash entry not found' ? 404 : 500;
+    res.status(status).json({ error: err.message || 'Failed to delete trash entry' });
+  }
+});
+
+router.delete('/', async (req, res) => {
+  try {
+    const purged = await emptyTrash(getDataDir(req));
+    res.json({ success: true, purged });
+  } catch (err: any) {
+    res.status(500).json({ error: err.message || 'Failed to empty trash' });
+  }
+});
+
+export default router;
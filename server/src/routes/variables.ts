@@ -1,15 +1,18 @@
 import express from 'express';
-import { CONFIG } from '../config.js';
+import { getDataDir } from './projectContext.js';
 import { VariableStorage } from '../storage/variables.js';
 import { loadTest, updateTestMetadata } from '../storage/tests.js';
 import type { VariableDefinition, VariableRow } from '../types.js';
 
 const router = express.Router();
-const storage = new VariableStorage(CONFIG.DATA_DIR);
 
-async function ensureTestExists(testId: string) {
+function variableStorage(req: express.Request): VariableStorage {
+  return new VariableStorage(getDataDir(req));
+}
+
+async function ensureTestExists(dataDir: string, testId: string) {
   try {
-    await loadTest(CONFIG.DATA_DIR, testId);
+    await loadTest(dataDir, testId);
   } catch (error: any) {
     if (error?.code === 'ENOENT') {
       const notFound = new Error('NOT_FOUND');
@@ -74,6 +77,7 @@ function parseVariableDefinitions(payload: unknown): VariableDefinition[] | unde
 }
 
 async function updateMetadataForRows(
+  dataDir: string,
   testId: string,
   rows: VariableRow[],
   variables?: VariableDefinition[]
@@ -90,14 +94,14 @@ async function updateMetadataForRows(
     updates.variables = variables;
   }
 
-  await updateTestMetadata(CONFIG.DATA_DIR, testId, updates);
+  await updateTestMetadata(dataDir, testId, updates, { revision: 'variables edited' });
 }
 
 router.get('/:testId/variables', async (req, res) => {
   const { testId } = req.params;
   try {
-    const test = await loadTest(CONFIG.DATA_DIR, testId);
-    const data = await storage.readVariables(testId);
+    const test = await loadTest(getDataDir(req), testId);
+    const data = await variableStorage(req).readVariables(testId);
     const variables = test.metadata.variables || [];
     return res.json({ variables, data });
   } catch (error: any) {
@@ -112,18 +116,18 @@ router.get('/:testId/variables', async (req, res) => {
 router.put('/:testId/variables', async (req, res) => {
   const { testId } = req.params;
   try {
-    await ensureTestExists(testId);
+    await ensureTestExists(getDataDir(req), testId);
     const rows = normalizeRows(req.body?.rows ?? req.body?.data ?? req.body);
     const definitions = parseVariableDefinitions(req.body?.variables);
 
     if (!rows.length) {
-      await storage.deleteVariables(testId);
-      await updateMetadataForRows(testId, [], definitions);
+      await variableStorage(req).deleteVariables(testId);
+      await updateMetadataForRows(getDataDir(req), testId, [], definitions);
       return res.json({ rows: [] });
     }
 
-    const written = await storage.writeVariables(testId, rows);
-    await updateMetadataForRows(testId, written, definitions);
+    const written = await variableStorage(req).writeVariables(testId, rows);
+    await updateMetadataForRows(getDataDir(req), testId, written, definitions);
     return res.json({ rows: written });
   } catch (error: any) {
     if (error?.code === 'NOT_FOUND') {
@@ -138,7 +142,7 @@ router.post('/:testId/variables/import', async (req, res) => {
   const { testId } = req.params;
   const { csvContent, columnMapping, mode, variables } = req.body ?? {};
   try {
-    await ensureTestExists(testId);
+    await ensureTestExists(getDataDir(req), testId);
 
     if (typeof csvContent !== 'string') {
       return res.status(400).json({ error: 'csvContent is required' });
@@ -147,9 +151,9 @@ router.post('/:testId/variables/import', async (req, res) => {
     const importMode: ImportMode =
       mode === 'append' || mode === 'replace' ? mode : 'replace';
 
-    const rows = await storage.importCSV(testId, csvContent, columnMapping, importMode);
+    const rows = await variableStorage(req).importCSV(testId, csvContent, columnMapping, importMode);
     const defs = parseVariableDefinitions(variables);
-    await updateMetadataForRows(testId, rows, defs);
+    await updateMetadataForRows(getDataDir(req), testId, rows, defs);
 
     return res.json({ rows, rowCount: rows.length });
   } catch (error: any) {
@@ -164,8 +168,8 @@ router.post('/:testId/variables/import', async (req, res) => {
 router.get('/:testId/variables/export', async (req, res) => {
   const { testId } = req.params;
   try {
-    await ensureTestExists(testId);
-    const csv = await storage.exportCSV(testId);
+    await ensureTestExists(getDataDir(req), testId);
+    const csv = await variableStorage(req).exportCSV(testId);
 
     if (!csv) {
       return res.status(404).json({ error: 'No variable data found' });
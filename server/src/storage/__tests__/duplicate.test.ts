@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { initStorage, saveTest, loadTest, duplicateTest } from '../index.js';
+
+process.env.TRAILWRIGHT_SKIP_PLAYWRIGHT_INSTALL = '1';
+
+describe('duplicateTest', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = path.join(os.tmpdir(), 'trailwright-duplicate-' + Date.now());
+    await initStorage(dataDir);
+    await saveTest(dataDir, {
+      metadata: {
+        id: 'checkout',
+        name: 'Checkout',
+        createdAt: '2025-01-01T00:00:00.000Z',
+        credentialId: 'cred-1',
+        dataSource: 'checkout.csv',
+        lastRunStatus: 'failed',
+        steps: [{ number: 1, qaSummary: 'Open cart', playwrightCode: '', screenshotPath: 'screenshots/checkout/step-1.png' }]
+      },
+      code: "const dataPath = join(home, '.trailwright/test-data/checkout.csv');"
+    });
+    await fs.writeFile(path.join(dataDir, 'test-data', 'checkout.csv'), 'email\na@example.com\n');
+    await fs.mkdir(path.join(dataDir, 'screenshots', 'checkout'), { recursive: true });
+    await fs.writeFile(path.join(dataDir, 'screenshots', 'checkout', 'step-1.png'), 'png');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('copies metadata, data and screenshots under a new id', async () => {
+    const copy = await duplicateTest(dataDir, 'checkout');
+
+    expect(copy.metadata).toMatchObject({
+      id: 'checkout-copy',
+      name: 'Checkout (copy)',
+      credentialId: 'cred-1',
+      dataSource: 'checkout-copy.csv'
+    });
+    expect(copy.metadata.lastRunStatus).toBeUndefined();
+    expect(copy.metadata.steps?.[0].screenshotPath).toBe('screenshots/checkout-copy/step-1.png');
+    expect(copy.code).toContain('test-data/checkout-copy.csv');
+
+    expect(await fs.readFile(path.join(dataDir, 'test-data', 'checkout-copy.csv'), 'utf-8')).toContain('a@example.com');
+    expect(await fs.readFile(path.join(dataDir, 'screenshots', 'checkout-copy', 'step-1.png'), 'utf-8')).toBe('png');
+    expect((await loadTest(dataDir, 'checkout')).metadata.name).toBe('Checkout');
+  });
+
+  it('picks a free id for repeated copies', async () => {
+    await duplicateTest(dataDir, 'checkout');
+    const second = await duplicateTest(dataDir, 'checkout', { name: 'Checkout for EU' });
+
+    expect(second.metadata).toMatchObject({ id: 'checkout-copy-2', name: 'Checkout for EU' });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import {
+  initStorage,
+  saveTest,
+  loadTest,
+  updateTestMetadata,
+  upsertCredential,
+  listCredentials,
+  saveConfig,
+  loadConfig,
+  withFileLock,
+  writeFileAtomic
+} from '../index.js';
+
+process.env.TRAILWRIGHT_SKIP_PLAYWRIGHT_INSTALL = '1';
+
+describe('Shared file store', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = path.join(os.tmpdir(), 'trailwright-filestore-' + Date.now());
+    await initStorage(dataDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('serializes lock holders in order and lets a holder re-enter its own lock', async () => {
+    const target = path.join(dataDir, 'order.txt');
+    const events: string[] = [];
+
+    await Promise.all(
+      ['a', 'b', 'c'].map((name, index) =>
+        withFileLock(target, async () => {
+          events.push(`start ${name}`);
+          await new Promise((resolve) => setTimeout(resolve, 20 - index * 5));
+          // Nested lock on the same file must not deadlock
+          await withFileLock(target, async () => {
+            events.push(`nested ${name}`);
+          });
+          events.push(`end ${name}`);
+        })
+      )
+    );
+
+    expect(events).toEqual([
+      'start a', 'nested a', 'end a',
+      'start b', 'nested b', 'end b',
+      'start c', 'nested c', 'end c'
+    ]);
+  });
+
+  it('replaces files atomically without leaving temp files behind', async () => {
+    const target = path.join(dataDir, 'atomic.json');
+    await writeFileAtomic(target, '{"version":1}');
+    await Promise.all(
+      Array.from({ length: 10 }, (_, index) => writeFileAtomic(target, JSON.stringify({ version: index + 2 })))
+    );
+
+    expect(JSON.parse(await fs.readFile(target, 'utf-8')).version).toBe(11);
+    expect((await fs.readdir(dataDir)).filter((file) => file.endsWith('.tmp'))).toEqual([]);
+
+    // A failed write leaves the previous content in place
+    await expect(writeFileAtomic(path.join(dataDir, 'missing', 'atomic.json'), 'x')).rejects.toThrow();
+    expect(JSON.parse(await fs.readFile(target, 'utf-8')).version).toBe(11);
+  });
+
+  it('keeps every field when metadata updates race on the same spec', async () => {
+    await saveTest(dataDir, {
+      metadata: { id: 'checkout', name: 'Checkout', createdAt: '2025-01-01T00:00:00.000Z' },
+      code: "test('checkout', async () => {});"
+    });
+
+    await Promise.all([
+      updateTestMetadata(dataDir, 'checkout', { lastRunStatus: 'passed', lastRunId: 'run-1' }),
+      updateTestMetadata(dataDir, 'checkout', { description: 'Buys a product' }),
+      updateTestMetadata(dataDir, 'checkout', { tags: ['smoke'] }),
+      updateTestMetadata(dataDir, 'checkout', { folder: 'Shop' })
+    ]);
+
+    const { metadata } = await loadTest(dataDir, 'checkout');
+    expect(metadata).toMatchObject({
+      lastRunStatus: 'passed',
+      lastRunId: 'run-1',
+      description: 'Buys a product',
+      tags: ['smoke'],
+      folder: 'Shop'
+    });
+  });
+
+  it('keeps every record when credentials and config are written concurrently', async () => {
+    await Promise.all(
+      Array.from({ length: 5 }, (_, index) =>
+        upsertCredential(dataDir, { name: `User ${index}`, username: `user${index}`, password: 'secret' })
+      )
+    );
+    await Promise.all([
+      saveConfig(dataDir, { defaultStartUrl: 'https://shop.example.com' }),
+      saveConfig(dataDir, { trashRetentionDays: 7 }),
+      saveConfig(dataDir, { gitAutoCommit: false })
+    ]);
+
+    expect(await listCredentials(dataDir)).toHaveLength(5);
+    expect(await loadConfig(dataDir)).toMatchObject({
+      defaultStartUrl: 'https://shop.example.com',
+      trashRetentionDays: 7,
+      gitAutoCommit: false
+    });
+  });
+});
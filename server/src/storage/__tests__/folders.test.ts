@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import {
+  initStorage,
+  saveTest,
+  loadTest,
+  listFolders,
+  createFolder,
+  renameFolder,
+  moveTestsToFolder,
+  deleteFolder,
+  normalizeFolderPath
+} from '../index.js';
+
+process.env.TRAILWRIGHT_SKIP_PLAYWRIGHT_INSTALL = '1';
+
+async function createTest(dataDir: string, id: string, folder?: string) {
+  await saveTest(dataDir, {
+    metadata: { id, name: id, folder, createdAt: '2025-01-01T00:00:00.000Z' },
+    code: ''
+  });
+}
+
+describe('Test folders', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = path.join(os.tmpdir(), 'trailwright-folders-' + Date.now());
+    await initStorage(dataDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('normalizes nested paths', () => {
+    expect(normalizeFolderPath(' Checkout / Payments/ ')).toBe('Checkout/Payments');
+    expect(normalizeFolderPath('  ')).toBeNull();
+    expect(() => normalizeFolderPath('Checkout/..')).toThrow();
+  });
+
+  it('lists created and referenced folders with their parents and counts', async () => {
+    await createFolder(dataDir, 'Admin');
+    await createTest(dataDir, 'pay-card', 'Checkout/Payments');
+    await createTest(dataDir, 'cart', 'Checkout');
+
+    const folders = await listFolders(dataDir);
+    expect(folders.map((folder) => folder.path)).toEqual(['Admin', 'Checkout', 'Checkout/Payments']);
+    expect(folders.find((folder) => folder.path === 'Checkout')).toMatchObject({
+      testCount: 1,
+      totalTestCount: 2,
+      parent: null
+    });
+    expect(folders.find((folder) => folder.path === 'Checkout/Payments')?.parent).toBe('Checkout');
+  });
+
+  it('renames a folder and updates every test inside it', async () => {
+    await createTest(dataDir, 'pay-card', 'Checkout/Payments');
+    await createTest(dataDir, 'cart', 'Checkout');
+    await createTest(dataDir, 'login', 'Auth');
+
+    const moved = await renameFolder(dataDir, 'Checkout', 'Store/Checkout');
+
+    expect(moved.sort()).toEqual(['cart', 'pay-card']);
+    expect((await loadTest(dataDir, 'pay-card')).metadata.folder).toBe('Store/Checkout/Payments');
+    expect((await loadTest(dataDir, 'login')).metadata.folder).toBe('Auth');
+    await expect(renameFolder(dataDir, 'Store', 'Store/Nested')).rejects.toThrow('inside itself');
+  });
+
+  it('moves tests and only deletes empty folders', async () => {
+    await createTest(dataDir, 'cart', 'Checkout');
+    await createFolder(dataDir, 'Archive');
+
+    await expect(deleteFolder(dataDir, 'Checkout')).rejects.toThrow('not empty');
+
+    await moveTestsToFolder(dataDir, ['cart'], 'Archive');
+    await deleteFolder(dataDir, 'Checkout');
+
+    expect((await listFolders(dataDir)).map((folder) => folder.path)).toEqual(['Archive']);
+    expect((await loadTest(dataDir, 'cart')).metadata.folder).toBe('Archive');
+  });
+});
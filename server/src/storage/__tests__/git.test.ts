@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import {
+  initStorage,
+  saveTest,
+  saveConfig,
+  getGitStatus,
+  getTestGitLog,
+  pullTests,
+  pushTests,
+  buildCommitMessage,
+  loadTest,
+  listTests,
+  recordLastRun,
+  createStepBlock,
+  moveTestsToFolder,
+  renameFolder
+} from '../index.js';
+
+process.env.TRAILWRIGHT_SKIP_PLAYWRIGHT_INSTALL = '1';
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf-8' }).trim();
+}
+
+function initRepo(dir: string): void {
+  git(dir, 'init', '--quiet', '--initial-branch=main');
+  git(dir, 'config', 'user.name', 'Tester');
+  git(dir, 'config', 'user.email', 'tester@example.com');
+}
+
+const checkout = {
+  metadata: {
+    id: 'checkout',
+    name: 'Checkout flow',
+    createdAt: '2025-01-01T00:00:00.000Z',
+    steps: [
+      { number: 1, qaSummary: 'Open cart', playwrightCode: "await page.goto('/cart');" },
+      { number: 2, qaSummary: 'Pay', playwrightCode: "await page.click('text=Pay');" }
+    ]
+  },
+  code: "test('checkout', async () => {});"
+};
+
+describe('Git integration', () => {
+  let rootDir: string;
+  let dataDir: string;
+  let repoDir: string;
+  let testsDir: string;
+
+  beforeEach(async () => {
+    rootDir = path.join(os.tmpdir(), 'trailwright-git-' + Date.now());
+    dataDir = path.join(rootDir, 'data');
+    repoDir = path.join(rootDir, 'repo');
+    testsDir = path.join(repoDir, 'e2e');
+    await initStorage(dataDir);
+    await fs.mkdir(testsDir, { recursive: true });
+    initRepo(repoDir);
+    await saveConfig(dataDir, { testDirectory: testsDir });
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('is disabled when the test directory is not a repository', async () => {
+    await saveConfig(dataDir, { testDirectory: undefined });
+    const status = await getGitStatus(dataDir);
+    expect(status.enabled).toBe(false);
+    expect(await getTestGitLog(dataDir, 'checkout')).toEqual([]);
+  });
+
+  it('commits revision saves with a generated message and reports untracked specs', async () => {
+    await saveTest(dataDir, checkout, { revision: 'recorded' });
+    await saveTest(dataDir, { ...checkout, code: "test('checkout v2', async () => {});" }, { revision: 'steps edited' });
+    await fs.writeFile(path.join(testsDir, 'manual.spec.ts'), "test('manual', async () => {});");
+
+    const log = await getTestGitLog(dataDir, 'checkout');
+    expect(log.map((entry) => entry.subject)).toEqual([
+      'Edit steps: Checkout flow, 2 steps',
+      'Record: Checkout flow, 2 steps'
+    ]);
+    expect(log[0].author).toBe('Tester');
+
+    const status = await getGitStatus(dataDir);
+    expect(status.enabled).toBe(true);
+    expect(status.branch).toBe('main');
+    expect(status.tests).toEqual({ manual: 'untracked' });
+
+    await fs.appendFile(path.join(testsDir, 'checkout.spec.ts'), '\n// tweak\n');
+    expect((await getGitStatus(dataDir)).tests.checkout).toBe('modified');
+  });
+
+  it('keeps run bookkeeping out of the spec and reads dotted branch names', async () => {
+    await saveTest(dataDir, checkout, { revision: 'created' });
+    git(repoDir, 'checkout', '--quiet', '-b', 'release/1.2');
+
+    await recordLastRun(dataDir, 'checkout', {
+      lastRunAt: '2025-01-02T00:00:00.000Z',
+      lastRunStatus: 'passed',
+      lastRunId: 'run-1'
+    });
+    // A later save with the run fields still in memory must not write them either
+    await saveTest(dataDir, await loadTest(dataDir, 'checkout'));
+
+    expect((await loadTest(dataDir, 'checkout')).metadata).toMatchObject({ lastRunStatus: 'passed', lastRunId: 'run-1' });
+    expect((await listTests(dataDir))[0].lastRunId).toBe('run-1');
+    const status = await getGitStatus(dataDir);
+    expect(status.branch).toBe('release/1.2');
+    expect(status.tests).toEqual({});
+  });
+
+  it('commits the step blocks module specs import', async () => {
+    await createStepBlock(dataDir, {
+      name: 'Login',
+      steps: [{ number: 1, qaSummary: 'Fill username', playwrightCode: "await page.getByLabel('Username').fill('qa');" }]
+    });
+
+    expect(git(repoDir, 'log', '--format=%s', '--', 'e2e/trailwright-blocks.ts')).toBe('Add step block: Login');
+    expect(git(repoDir, 'status', '--porcelain')).toBe('');
+  });
+
+  it('commits folder moves and renames', async () => {
+    await saveTest(dataDir, checkout, { revision: 'created' });
+    await moveTestsToFolder(dataDir, ['checkout'], 'Shop');
+    await renameFolder(dataDir, 'Shop', 'Store');
+
+    expect((await getTestGitLog(dataDir, 'checkout')).map((entry) => entry.subject)).toEqual([
+      'Move: Checkout flow, 2 steps',
+      'Move: Checkout flow, 2 steps',
+      'Create: Checkout flow, 2 steps'
+    ]);
+    expect((await getGitStatus(dataDir)).tests).toEqual({});
+  });
+
+  it('skips commits when auto-commit is turned off', async () => {
+    await saveConfig(dataDir, { gitAutoCommit: false });
+    await saveTest(dataDir, checkout, { revision: 'created' });
+
+    expect(await getTestGitLog(dataDir, 'checkout')).toEqual([]);
+    expect((await getGitStatus(dataDir)).tests.checkout).toBe('untracked');
+  });
+
+  it('pushes to and pulls from a file-based remote', async () => {
+    const remoteDir = path.join(rootDir, 'remote.git');
+    git(rootDir, 'init', '--quiet', '--bare', '--initial-branch=main', remoteDir);
+    await saveTest(dataDir, checkout, { revision: 'created' });
+    git(repoDir, 'remote', 'add', 'origin', remoteDir);
+    git(repoDir, 'push', '--quiet', '-u', 'origin', 'main');
+
+    await saveTest(dataDir, { ...checkout, code: "test('checkout v2', async () => {});" }, { revision: 'saved' });
+    expect((await getGitStatus(dataDir)).ahead).toBe(1);
+    await pushTests(dataDir);
+    expect((await getGitStatus(dataDir)).ahead).toBe(0);
+
+    // A teammate pushes a new spec
+    const cloneDir = path.join(rootDir, 'clone');
+    git(rootDir, 'clone', '--quiet', remoteDir, cloneDir);
+    git(cloneDir, 'config', 'user.name', 'Teammate');
+    git(cloneDir, 'config', 'user.email', 'teammate@example.com');
+    await fs.writeFile(path.join(cloneDir, 'e2e', 'login.spec.ts'), "test('login', async () => {});");
+    git(cloneDir, 'add', '.');
+    git(cloneDir, 'commit', '--quiet', '-m', 'Add login');
+    git(cloneDir, 'push', '--quiet');
+
+    await pullTests(dataDir);
+    expect(await fs.readFile(path.join(testsDir, 'login.spec.ts'), 'utf-8')).toContain('login');
+    expect((await getTestGitLog(dataDir, 'login'))[0].subject).toBe('Add login');
+  });
+
+  it('builds commit messages from save actions', () => {
+    expect(buildCommitMessage('recorded', checkout)).toBe('Record: Checkout flow, 2 steps');
+    expect(buildCommitMessage('restored version from 2025-01-01', checkout)).toBe('Restore: Checkout flow, 2 steps');
+    expect(buildCommitMessage('created', { metadata: { ...checkout.metadata, steps: [] } })).toBe('Create: Checkout flow');
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { initStorage, saveTest, generateManualScript, expectedResultForStep } from '../index.js';
+
+process.env.TRAILWRIGHT_SKIP_PLAYWRIGHT_INSTALL = '1';
+
+describe('Manual test scripts', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = path.join(os.tmpdir(), 'trailwright-manual-' + Date.now());
+    await initStorage(dataDir);
+    await saveTest(dataDir, {
+      metadata: {
+        id: 'checkout',
+        name: 'Checkout',
+        description: 'Buy <one> item',
+        successCriteria: 'An order confirmation is shown',
+        startUrl: 'https://shop.example.com',
+        folder: 'Shop/Orders',
+        createdAt: '2025-01-01T00:00:00.000Z',
+        steps: [
+          { number: 1, qaSummary: 'Open the cart', playwrightCode: "await page.getByRole('link', { name: 'Cart' }).click();" },
+          {
+            number: 2,
+            qaSummary: 'Check the total',
+            playwrightCode: "await expect(page.getByTestId('total')).toHaveText('$10');",
+            screenshotPath: 'screenshots/checkout/step-2.jpg'
+          }
+        ]
+      },
+      code: ''
+    });
+    await saveTest(dataDir, {
+      metadata: { id: 'refund', name: 'Refund', folder: 'Shop', createdAt: '2025-01-01T00:00:00.000Z', steps: [] },
+      code: ''
+    });
+    await fs.mkdir(path.join(dataDir, 'screenshots', 'checkout'), { recursive: true });
+    await fs.writeFile(path.join(dataDir, 'screenshots', 'checkout', 'step-2.jpg'), Buffer.from('jpeg'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('derives expected results from assertions', () => {
+    const step = (playwrightCode: string) => ({ number: 1, qaSummary: 'Verify', playwrightCode });
+
+    expect(expectedResultForStep(step("await page.click('#buy');"))).toBeUndefined();
+    expect(expectedResultForStep(step("await expect(page.getByText('Thanks')).toBeVisible();"))).toBe('"Thanks" is visible');
+    expect(expectedResultForStep(step('await expect(page).toHaveURL(/orders/);'))).toBe('The page address matches orders');
+    expect(expectedResultForStep(step("await expect(page.locator('.row')).not.toHaveCount(0);"))).toBe(
+      '".row" does not appear exactly 0 time(s)'
+    );
+    expect(expectedResultForStep(step('expect(await page.evaluate(() => 1)).toBeTruthy();'))).toBe('Verify');
+  });
+
+  it('renders a test as Markdown with numbered steps and embedded screenshots', async () => {
+    const document = await generateManualScript(dataDir, { testId: 'checkout' }, 'markdown');
+
+    expect(document.fileName).toBe('checkout-manual-test.md');
+    expect(document.content).toContain('# Checkout');
+    expect(document.content).toContain('- Open https://shop.example.com in a browser');
+    expect(document.content).toContain('1. Open the cart\n');
+    expect(document.content).toContain('2. Check the total\n   - **Expected:** "total" shows "$10"');
+    expect(document.content).toContain(`![Step 2](data:image/jpeg;base64,${Buffer.from('jpeg').toString('base64')})`);
+    expect(document.content).toContain('## Expected outcome\n\nAn order confirmation is shown');
+  });
+
+  it('renders a folder, subfolders included, as one HTML page', async () => {
+    const document = await generateManualScript(dataDir, { folder: 'Shop' }, 'html');
+
+    expect(document.contentType).toContain('text/html');
+    expect(document.content).toContain('<h1>Shop test scripts</h1>');
+    expect(document.content).toContain('<a href="#refund">Refund</a>');
+    expect(document.content).toContain('<p>Buy &lt;one&gt; item</p>');
+    expect(document.content).toContain('<img src="data:image/jpeg;base64,');
+
+    await expect(generateManualScript(dataDir, { folder: 'Nope' }, 'html')).rejects.toThrow('Folder not found');
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import {
+  initStorage,
+  saveTest,
+  loadTest,
+  listTests,
+  checkTestsHealth,
+  parseTestContent,
+  TestMetadataError,
+  CURRENT_METADATA_VERSION
+} from '../index.js';
+
+process.env.TRAILWRIGHT_SKIP_PLAYWRIGHT_INSTALL = '1';
+
+const code = "test('a', async () => {});";
+
+describe('parseTestContent', () => {
+  it('reads every header layout', () => {
+    const starred = `/**\n * // === TRAILWRIGHT_METADATA ===\n * {\n *   "id": "a",\n *   "name": "A",\n *   "createdAt": "2025-01-01T00:00:00.000Z"\n * }\n */\n${code}`;
+    const raw = `/**\n// === TRAILWRIGHT_METADATA ===\n{"id": "a", "name": "A", "createdAt": "2025-01-01T00:00:00.000Z"}\n*/\n${code}`;
+
+    for (const content of [starred, raw]) {
+      const { test } = parseTestContent(content, 'a');
+      expect(test.metadata.name).toBe('A');
+      expect(test.code).toBe(code);
+    }
+  });
+
+  it('migrates unversioned headers', () => {
+    const content = `/**\n * // === TRAILWRIGHT_METADATA ===\n * ${JSON.stringify({
+      id: 'a',
+      name: 'A',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      tags: 'smoke, checkout',
+      folder: '',
+      steps: [{ qaSummary: 'Open', playwrightCode: '' }]
+    })}\n */\n${code}`;
+
+    const { test, fromVersion } = parseTestContent(content, 'a');
+
+    expect(fromVersion).toBe(1);
+    expect(test.metadata).toMatchObject({
+      metadataVersion: CURRENT_METADATA_VERSION,
+      tags: ['smoke', 'checkout'],
+      folder: null,
+      steps: [{ number: 1, qaSummary: 'Open', playwrightCode: '' }]
+    });
+  });
+
+  it('backfills createdAt on unversioned headers that lack it', () => {
+    const header = (metadata: object) => `/**\n * // === TRAILWRIGHT_METADATA ===\n * ${JSON.stringify(metadata)}\n */\n${code}`;
+
+    const updated = parseTestContent(header({ id: 'a', name: 'A', updatedAt: '2024-06-01T00:00:00.000Z' }), 'a');
+    expect(updated.test.metadata.createdAt).toBe('2024-06-01T00:00:00.000Z');
+
+    const bare = parseTestContent(header({ id: 'a', name: 'A' }), 'a');
+    expect(Number.isNaN(new Date(bare.test.metadata.createdAt).getTime())).toBe(false);
+    expect(bare.fromVersion).toBe(1);
+  });
+
+  it('rejects malformed and invalid metadata instead of stubbing it', () => {
+    const broken = `/**\n * // === TRAILWRIGHT_METADATA ===\n * { "id": "a", \n */\n${code}`;
+    const invalid = `/**\n * // === TRAILWRIGHT_METADATA ===\n * { "id": "a", "name": 3, "createdAt": "yesterday" }\n */\n${code}`;
+
+    expect(() => parseTestContent(broken, 'a')).toThrow(TestMetadataError);
+    expect(() => parseTestContent(invalid, 'a')).toThrow(
+      'Invalid metadata in a: name must be a string; createdAt must be an ISO date string'
+    );
+  });
+});
+
+describe('Test metadata health', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = path.join(os.tmpdir(), 'trailwright-metadata-' + Date.now());
+    await initStorage(dataDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('writes the current version and reports corrupt specs without hiding the rest', async () => {
+    await saveTest(dataDir, { metadata: { id: 'good', name: 'Good', createdAt: '2025-01-01T00:00:00.000Z' }, code });
+    await fs.writeFile(
+      path.join(dataDir, 'tests', 'broken.spec.ts'),
+      `/**\n * // === TRAILWRIGHT_METADATA ===\n * { not json }\n */\n${code}`
+    );
+
+    expect((await loadTest(dataDir, 'good')).metadata.metadataVersion).toBe(CURRENT_METADATA_VERSION);
+    expect((await listTests(dataDir)).map((test) => test.id)).toEqual(['good']);
+
+    const report = await checkTestsHealth(dataDir);
+    expect(report).toMatchObject({ total: 2, healthy: 1, outdated: [] });
+    expect(report.corrupt.map((issue) => issue.testId)).toEqual(['broken']);
+  });
+});
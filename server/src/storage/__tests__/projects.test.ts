@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import {
+  initWorkspace,
+  listProjects,
+  createProject,
+  updateProject,
+  deleteProject,
+  getProjectDirectory,
+  saveTest,
+  listTests,
+  loadConfig,
+  saveConfig,
+  upsertCredential,
+  listCredentials,
+  DEFAULT_PROJECT_ID
+} from '../index.js';
+
+process.env.TRAILWRIGHT_SKIP_PLAYWRIGHT_INSTALL = '1';
+
+describe('Projects', () => {
+  let rootDir: string;
+
+  beforeEach(async () => {
+    rootDir = path.join(os.tmpdir(), 'trailwright-projects-' + Date.now());
+    await fs.mkdir(rootDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('moves an existing flat data directory into the Default project', async () => {
+    await fs.mkdir(path.join(rootDir, 'tests'), { recursive: true });
+    await fs.writeFile(
+      path.join(rootDir, 'tests', 'login.spec.ts'),
+      [
+        '/**',
+        ' * @trailwright-metadata',
+        ' * {"id":"login","name":"Login","createdAt":"2025-01-01T00:00:00.000Z"}',
+        ' */',
+        "const dataPath = join(process.env.HOME || process.env.USERPROFILE || '', '.trailwright/test-data/login.csv');",
+        ''
+      ].join('\n')
+    );
+    await fs.writeFile(path.join(rootDir, 'config.json'), JSON.stringify({ defaultStartUrl: 'https://legacy.example.com' }));
+
+    const projects = await initWorkspace(rootDir);
+
+    expect(projects.map((project) => project.id)).toEqual([DEFAULT_PROJECT_ID]);
+    const defaultDir = getProjectDirectory(rootDir, DEFAULT_PROJECT_ID);
+    await expect(fs.access(path.join(rootDir, 'tests'))).rejects.toThrow();
+    expect((await listTests(defaultDir)).map((test) => test.id)).toEqual(['login']);
+    expect((await loadConfig(defaultDir)).defaultStartUrl).toBe('https://legacy.example.com');
+
+    const spec = await fs.readFile(path.join(defaultDir, 'tests', 'login.spec.ts'), 'utf-8');
+    expect(spec).toContain("join(process.env.TRAILWRIGHT_PROJECT_DIR, 'test-data/login.csv')");
+
+    // Running the migration again keeps the registry as is
+    expect(await initWorkspace(rootDir)).toEqual(projects);
+  });
+
+  it('creates projects with their own settings and inherits the AI provider from Default', async () => {
+    await initWorkspace(rootDir);
+    const defaultDir = getProjectDirectory(rootDir, DEFAULT_PROJECT_ID);
+    await saveConfig(defaultDir, { apiProvider: 'openai', apiKey: 'sk-test', defaultStartUrl: 'https://a.example.com' });
+
+    const project = await createProject(rootDir, { name: 'Shop Admin', baseUrl: 'https://admin.example.com' });
+    expect(project.id).toBe('shop-admin');
+    const projectDir = getProjectDirectory(rootDir, project.id);
+    expect(await loadConfig(projectDir)).toMatchObject({
+      apiProvider: 'openai',
+      apiKey: 'sk-test',
+      baseUrl: 'https://admin.example.com'
+    });
+    expect((await loadConfig(projectDir)).defaultStartUrl).toBeUndefined();
+
+    await expect(createProject(rootDir, { name: 'shop admin' })).rejects.toThrow('Project already exists');
+    await expect(createProject(rootDir, { name: '  ' })).rejects.toThrow('Project name is required');
+    expect((await createProject(rootDir, { name: 'Shop-Admin!' })).id).toBe('shop-admin-2');
+
+    const renamed = await updateProject(rootDir, project.id, { name: 'Back Office', description: 'Internal tools' });
+    expect(renamed).toMatchObject({ id: 'shop-admin', name: 'Back Office', description: 'Internal tools' });
+    await expect(updateProject(rootDir, 'missing', { name: 'X' })).rejects.toThrow('Project not found');
+  });
+
+  it('keeps tests and credentials separate per project', async () => {
+    await initWorkspace(rootDir);
+    const defaultDir = getProjectDirectory(rootDir, DEFAULT_PROJECT_ID);
+    const project = await createProject(rootDir, { name: 'Mobile' });
+    const projectDir = getProjectDirectory(rootDir, project.id);
+
+    await saveTest(projectDir, {
+      metadata: { id: 'signup', name: 'Signup', createdAt: '2025-01-01T00:00:00.000Z' },
+      code: ''
+    });
+    await upsertCredential(projectDir, { name: 'Mobile user', username: 'mobile', password: 'secret' });
+
+    expect(await listTests(defaultDir)).toEqual([]);
+    expect(await listCredentials(defaultDir)).toEqual([]);
+    expect(await listCredentials(projectDir)).toHaveLength(1);
+
+    const summaries = await listProjects(rootDir);
+    expect(summaries.find((entry) => entry.id === project.id)?.testCount).toBe(1);
+  });
+
+  it('refuses to delete the Default project or a project that still has tests', async () => {
+    await initWorkspace(rootDir);
+    const project = await createProject(rootDir, { name: 'Legacy' });
+    const projectDir = getProjectDirectory(rootDir, project.id);
+    await saveTest(projectDir, {
+      metadata: { id: 'old', name: 'Old', createdAt: '2025-01-01T00:00:00.000Z' },
+      code: ''
+    });
+
+    await expect(deleteProject(rootDir, DEFAULT_PROJECT_ID)).rejects.toThrow('cannot be deleted');
+    await expect(deleteProject(rootDir, project.id)).rejects.toThrow('Project is not empty');
+
+    await fs.rm(path.join(projectDir, 'tests', 'old.spec.ts'));
+    await deleteProject(rootDir, project.id);
+    expect((await listProjects(rootDir)).map((entry) => entry.id)).toEqual([DEFAULT_PROJECT_ID]);
+    await expect(fs.access(projectDir)).rejects.toThrow();
+  });
+});
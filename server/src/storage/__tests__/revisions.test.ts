@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { initStorage, saveTest, loadTest, listRevisions, loadRevision, diffTests } from '../index.js';
+import type { Test } from '../../types.js';
+
+process.env.TRAILWRIGHT_SKIP_PLAYWRIGHT_INSTALL = '1';
+
+function buildTest(code: string, name = 'Checkout'): Test {
+  return {
+    metadata: { id: 'checkout', name, createdAt: '2025-01-01T00:00:00.000Z' },
+    code
+  };
+}
+
+describe('Test revisions', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = path.join(os.tmpdir(), 'trailwright-revisions-' + Date.now());
+    await initStorage(dataDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('records a revision for each labelled save', async () => {
+    await saveTest(dataDir, buildTest("test('a', async () => {});"), { revision: 'created' });
+    await saveTest(dataDir, buildTest("test('b', async () => {});"), { revision: 'steps edited' });
+
+    const revisions = await listRevisions(dataDir, 'checkout');
+    expect(revisions.map((revision) => revision.action)).toEqual(['steps edited', 'created']);
+  });
+
+  it('skips saves without a label and unchanged content', async () => {
+    await saveTest(dataDir, buildTest('one'), { revision: 'created' });
+    await saveTest(dataDir, {
+      ...buildTest('one'),
+      metadata: { ...buildTest('one').metadata, lastRunAt: new Date().toISOString(), lastRunStatus: 'passed' }
+    });
+    await saveTest(dataDir, buildTest('one'), { revision: 'saved' });
+
+    expect(await listRevisions(dataDir, 'checkout')).toHaveLength(1);
+  });
+
+  it('captures external edits before overwriting them', async () => {
+    await saveTest(dataDir, buildTest('original'), { revision: 'created' });
+    await saveTest(dataDir, buildTest('edited outside'));
+    await saveTest(dataDir, buildTest('regenerated'), { revision: 'steps edited' });
+
+    const revisions = await listRevisions(dataDir, 'checkout');
+    expect(revisions.map((revision) => revision.action)).toEqual(['steps edited', 'external edit', 'created']);
+
+    const external = await loadRevision(dataDir, 'checkout', revisions[1].id);
+    expect(external.code).toBe('edited outside');
+  });
+
+  it('diffs code and metadata line by line', async () => {
+    const diff = diffTests(buildTest('line 1\nline 2'), buildTest('line 1\nline 3', 'Checkout v2'), {
+      from: 'a',
+      to: 'current'
+    });
+
+    expect(diff.code).toEqual([
+      { type: 'unchanged', text: 'line 1' },
+      { type: 'removed', text: 'line 2' },
+      { type: 'added', text: 'line 3' }
+    ]);
+    expect(diff.metadata.filter((line) => line.type !== 'unchanged')).toEqual([
+      { type: 'removed', text: '  "name": "Checkout",' },
+      { type: 'added', text: '  "name": "Checkout v2",' }
+    ]);
+  });
+
+  it('keeps the saved file loadable', async () => {
+    await saveTest(dataDir, buildTest('code'), { revision: 'created' });
+    expect((await loadTest(dataDir, 'checkout')).code).toBe('code');
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { initStorage, saveTest, searchTests } from '../index.js';
+import type { Test } from '../../types.js';
+
+process.env.TRAILWRIGHT_SKIP_PLAYWRIGHT_INSTALL = '1';
+
+function buildTest(id: string, name: string, overrides: Partial<Test['metadata']> = {}, code = ''): Test {
+  return {
+    metadata: { id, name, createdAt: '2025-01-01T00:00:00.000Z', ...overrides },
+    code
+  };
+}
+
+describe('searchTests', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = path.join(os.tmpdir(), 'trailwright-search-' + Date.now());
+    await initStorage(dataDir);
+    await saveTest(dataDir, buildTest('billing', 'Billing page smoke test'));
+    await saveTest(
+      dataDir,
+      buildTest('invoice', 'Download invoice', {
+        steps: [
+          { number: 1, qaSummary: 'Open the dashboard', playwrightCode: '' },
+          { number: 2, qaSummary: 'Go to the Billing page', playwrightCode: '' }
+        ]
+      })
+    );
+    await saveTest(
+      dataDir,
+      buildTest('profile', 'Edit profile', {}, "await page.goto('https://example.com/billing');")
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('ranks name hits above step summaries above code', async () => {
+    const hits = await searchTests(dataDir, 'billing');
+
+    expect(hits.map((hit) => hit.test.id)).toEqual(['billing', 'invoice', 'profile']);
+  });
+
+  it('reports the matching step with highlight offsets', async () => {
+    const [hit] = await searchTests(dataDir, 'billing page', 1);
+    const hits = await searchTests(dataDir, 'dashboard');
+
+    expect(hit.test.id).toBe('billing');
+    const stepMatch = hits[0].matches.find((match) => match.field === 'step');
+    expect(stepMatch).toMatchObject({ stepNumber: 1, snippet: 'Open the dashboard', highlights: [[9, 18]] });
+  });
+
+  it('requires every term to match and picks up edits', async () => {
+    expect(await searchTests(dataDir, 'billing missing')).toEqual([]);
+
+    await saveTest(dataDir, buildTest('profile', 'Edit profile', { description: 'Also covers missing fields' }));
+    const hits = await searchTests(dataDir, 'profile missing');
+    expect(hits.map((hit) => hit.test.id)).toEqual(['profile']);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import {
+  initStorage,
+  saveConfig,
+  upsertCredential,
+  getSessionStatus,
+  getSessionStatePath,
+  invalidateSessionState
+} from '../index.js';
+
+process.env.TRAILWRIGHT_SKIP_PLAYWRIGHT_INSTALL = '1';
+
+describe('Saved credential sessions', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = path.join(os.tmpdir(), 'trailwright-sessions-' + Date.now());
+    await initStorage(dataDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  async function writeState(credentialId: string, cookies: Array<{ name: string; expires: number }>, capturedAt: Date) {
+    const statePath = getSessionStatePath(dataDir, credentialId);
+    await fs.mkdir(path.dirname(statePath), { recursive: true });
+    await fs.writeFile(statePath, JSON.stringify({ cookies, origins: [] }));
+    await fs.utimes(statePath, capturedAt, capturedAt);
+  }
+
+  it('expires a session after the configured max age', async () => {
+    const credential = await upsertCredential(dataDir, {
+      name: 'Admin',
+      username: 'admin',
+      password: 'secret',
+      sessionSetupTestId: 'login'
+    });
+    expect(credential.sessionSetupTestId).toBe('login');
+    expect(await getSessionStatus(dataDir, credential)).toMatchObject({ captured: false, expired: true });
+
+    const capturedAt = new Date('2025-01-01T08:00:00.000Z');
+    await writeState(credential.id, [{ name: 'theme', expires: -1 }], capturedAt);
+
+    const fresh = await getSessionStatus(dataDir, credential, new Date('2025-01-01T19:00:00.000Z'));
+    expect(fresh).toMatchObject({
+      captured: true,
+      setupTestId: 'login',
+      capturedAt: capturedAt.toISOString(),
+      expiresAt: '2025-01-01T20:00:00.000Z',
+      expired: false
+    });
+
+    await saveConfig(dataDir, { sessionMaxAgeHours: 2 });
+    const stale = await getSessionStatus(dataDir, credential, new Date('2025-01-01T11:00:00.000Z'));
+    expect(stale).toMatchObject({ expiresAt: '2025-01-01T10:00:00.000Z', expired: true });
+
+    await invalidateSessionState(dataDir, credential.id);
+    expect(await getSessionStatus(dataDir, credential)).toMatchObject({ captured: false });
+  });
+
+  it('expires a session when its session cookie does, ignoring unrelated cookies', async () => {
+    const credential = await upsertCredential(dataDir, { name: 'User', username: 'user', password: 'secret' });
+    const capturedAt = new Date('2025-01-01T08:00:00.000Z');
+    await writeState(
+      credential.id,
+      [
+        { name: 'analytics_id', expires: Date.parse('2025-01-01T08:30:00.000Z') / 1000 },
+        { name: 'SESSIONID', expires: Date.parse('2025-01-01T09:00:00.000Z') / 1000 }
+      ],
+      capturedAt
+    );
+
+    const status = await getSessionStatus(dataDir, credential, new Date('2025-01-01T08:45:00.000Z'));
+    expect(status).toMatchObject({ expiresAt: '2025-01-01T09:00:00.000Z', expired: false });
+
+    const later = await getSessionStatus(dataDir, credential, new Date('2025-01-01T09:00:00.000Z'));
+    expect(later.expired).toBe(true);
+  });
+
+  it('keeps the setup test on updates that omit it and clears it with null', async () => {
+    const created = await upsertCredential(dataDir, {
+      name: 'Admin',
+      username: 'admin',
+      password: 'secret',
+      sessionSetupTestId: 'login'
+    });
+    const renamed = await upsertCredential(dataDir, { id: created.id, name: 'Admin 2', username: 'admin', password: 'secret' });
+    expect(renamed.sessionSetupTestId).toBe('login');
+
+    const cleared = await upsertCredential(dataDir, {
+      id: created.id,
+      name: 'Admin 2',
+      username: 'admin',
+      password: 'secret',
+      sessionSetupTestId: null
+    });
+    expect(cleared.sessionSetupTestId).toBeUndefined();
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import {
+  initStorage,
+  saveTest,
+  createStepBlock,
+  updateStepBlock,
+  deleteStepBlock,
+  listStepBlocks,
+  expandStepBlocks
+} from '../index.js';
+
+process.env.TRAILWRIGHT_SKIP_PLAYWRIGHT_INSTALL = '1';
+
+describe('Shared step blocks', () => {
+  let dataDir: string;
+  const modulePath = () => path.join(dataDir, 'tests', 'trailwright-blocks.ts');
+
+  beforeEach(async () => {
+    dataDir = path.join(os.tmpdir(), 'trailwright-blocks-' + Date.now());
+    await initStorage(dataDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('regenerates the helper module whenever a block changes', async () => {
+    const block = await createStepBlock(dataDir, {
+      name: 'Login',
+      steps: [{ number: 1, qaSummary: 'Fill username', playwrightCode: "await page.getByLabel('Username').fill('{{username}}');" }],
+      variables: [{ name: 'username', sampleValue: 'demo' }]
+    });
+    expect(block.id).toBe('login');
+    expect(await fs.readFile(modulePath(), 'utf-8')).toContain("fill(`${username}`)");
+
+    await updateStepBlock(dataDir, 'login', {
+      steps: [{ number: 1, qaSummary: 'Fill email', playwrightCode: "await page.getByLabel('Email').fill('{{username}}');" }]
+    });
+    const updated = await fs.readFile(modulePath(), 'utf-8');
+    expect(updated).toContain("getByLabel('Email')");
+    expect(updated).not.toContain("getByLabel('Username')");
+
+    await expect(createStepBlock(dataDir, { name: 'login', steps: block.steps })).rejects.toThrow('Step block already exists');
+    await expect(createStepBlock(dataDir, { name: 'Empty', steps: [] })).rejects.toThrow('at least one step');
+  });
+
+  it('refuses to delete blocks that tests still reference', async () => {
+    await createStepBlock(dataDir, {
+      name: 'Accept cookie banner',
+      steps: [{ number: 1, qaSummary: 'Accept', playwrightCode: "await page.getByRole('button', { name: 'Accept' }).click();" }]
+    });
+    await saveTest(dataDir, {
+      metadata: {
+        id: 'checkout',
+        name: 'Checkout',
+        createdAt: '2025-01-01T00:00:00.000Z',
+        steps: [{ number: 1, qaSummary: 'Accept cookie banner', playwrightCode: '', blockId: 'accept-cookie-banner' }]
+      },
+      code: ''
+    });
+
+    expect((await listStepBlocks(dataDir))[0].usedBy).toEqual(['checkout']);
+    await expect(deleteStepBlock(dataDir, 'accept-cookie-banner')).rejects.toThrow('Step block is in use by 1 test(s)');
+
+    await saveTest(dataDir, {
+      metadata: { id: 'checkout', name: 'Checkout', createdAt: '2025-01-01T00:00:00.000Z', steps: [] },
+      code: ''
+    });
+    await deleteStepBlock(dataDir, 'accept-cookie-banner');
+    expect(await listStepBlocks(dataDir)).toEqual([]);
+    await expect(fs.access(modulePath())).rejects.toThrow();
+  });
+
+  it('expands block references into their steps with the given arguments', async () => {
+    await createStepBlock(dataDir, {
+      name: 'Login',
+      steps: [
+        { number: 1, qaSummary: 'Fill username', playwrightCode: "await page.getByLabel('Username').fill('{{username}}');" },
+        { number: 2, qaSummary: 'Fill password', playwrightCode: "await page.getByLabel('Password').fill('{{password}}');" }
+      ],
+      variables: [{ name: 'username' }, { name: 'password', sampleValue: 'secret' }]
+    });
+
+    const expanded = await expandStepBlocks(dataDir, [
+      { number: 1, qaSummary: 'Login', playwrightCode: '', blockId: 'login', blockArgs: { username: '{{user}}' } },
+      { number: 2, qaSummary: 'Open cart', playwrightCode: "await page.getByRole('link', { name: 'Cart' }).click();" }
+    ]);
+
+    expect(expanded.map((step) => step.playwrightCode)).toEqual([
+      "await page.getByLabel('Username').fill('{{user}}');",
+      "await page.getByLabel('Password').fill('secret');",
+      "await page.getByRole('link', { name: 'Cart' }).click();"
+    ]);
+    expect(expanded[0]).toMatchObject({ number: 1, qaSummary: 'Login: Fill username' });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import {
+  initStorage,
+  saveTest,
+  createTemplate,
+  updateTemplate,
+  deleteTemplate,
+  listTemplates,
+  createTemplateFromTest
+} from '../index.js';
+
+process.env.TRAILWRIGHT_SKIP_PLAYWRIGHT_INSTALL = '1';
+
+describe('Test templates', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = path.join(os.tmpdir(), 'trailwright-templates-' + Date.now());
+    await initStorage(dataDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('creates, updates and deletes templates', async () => {
+    const template = await createTemplate(dataDir, {
+      name: 'Checkout flow',
+      goal: 'Buy the first product',
+      startUrl: 'https://shop.example.com',
+      viewportSize: { width: 390, height: 844 },
+      variables: [{ name: 'product', type: 'string', sampleValue: 'Socks' }],
+      tags: ['checkout', ' smoke ', 'checkout']
+    });
+    expect(template).toMatchObject({ id: 'checkout-flow', tags: ['checkout', 'smoke'] });
+    expect(template).not.toHaveProperty('credentialId');
+
+    await expect(createTemplate(dataDir, { name: 'checkout flow' })).rejects.toThrow('Template already exists');
+    await expect(createTemplate(dataDir, { name: 'Bad', variables: [{ name: '1x', type: 'string' }] })).rejects.toThrow(
+      'Invalid variable name'
+    );
+
+    const updated = await updateTemplate(dataDir, 'checkout-flow', { goal: 'Buy two products', viewportSize: null as any });
+    expect(updated.goal).toBe('Buy two products');
+    expect(updated.startUrl).toBe('https://shop.example.com');
+    expect(updated).not.toHaveProperty('viewportSize');
+
+    await deleteTemplate(dataDir, 'checkout-flow');
+    expect(await listTemplates(dataDir)).toEqual([]);
+    await expect(deleteTemplate(dataDir, 'checkout-flow')).rejects.toThrow('Template not found');
+  });
+
+  it('saves an existing test as a template from its prompt and variables', async () => {
+    await saveTest(dataDir, {
+      metadata: {
+        id: 'signup',
+        name: 'Signup',
+        prompt: 'Register as {{email}} and confirm the welcome page',
+        successCriteria: 'Welcome page is shown',
+        startUrl: 'https://example.com/register',
+        credentialId: 'cred-1',
+        tags: ['ai-generated', 'signup'],
+        variables: [{ name: 'email', type: 'string', sampleValue: 'a@example.com' }],
+        createdAt: '2025-01-01T00:00:00.000Z',
+        steps: []
+      },
+      code: ''
+    });
+
+    const template = await createTemplateFromTest(dataDir, 'signup');
+    expect(template).toMatchObject({
+      id: 'signup-template',
+      name: 'Signup template',
+      goal: 'Register as {{email}} and confirm the welcome page',
+      successCriteria: 'Welcome page is shown',
+      startUrl: 'https://example.com/register',
+      credentialId: 'cred-1',
+      tags: ['ai-generated', 'signup'],
+      variables: [{ name: 'email', type: 'string', sampleValue: 'a@example.com' }],
+      sourceTestId: 'signup'
+    });
+
+    await expect(createTemplateFromTest(dataDir, 'missing')).rejects.toThrow('Test not found: missing');
+  });
+});
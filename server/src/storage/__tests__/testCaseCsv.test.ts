@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { initStorage, saveTest, recordLastRun, exportTestCasesCsv } from '../index.js';
+
+process.env.TRAILWRIGHT_SKIP_PLAYWRIGHT_INSTALL = '1';
+
+describe('Test-case CSV export', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = path.join(os.tmpdir(), 'trailwright-test-case-csv-' + Date.now());
+    await initStorage(dataDir);
+    await saveTest(dataDir, {
+      metadata: {
+        id: 'checkout',
+        name: 'Checkout, guest',
+        folder: 'Shop',
+        tags: ['smoke', 'cart'],
+        createdAt: '2025-01-01T00:00:00.000Z',
+        steps: [
+          { number: 1, qaSummary: 'Open the cart', playwrightCode: "await page.click('#cart');" },
+          {
+            number: 2,
+            qaSummary: 'Check the total',
+            playwrightCode: "await expect(page.getByTestId('total')).toHaveText('$10');"
+          }
+        ]
+      },
+      code: ''
+    });
+    await recordLastRun(dataDir, 'checkout', { lastRunStatus: 'passed' });
+    await saveTest(dataDir, {
+      metadata: { id: 'empty', name: 'Empty', createdAt: '2025-01-01T00:00:00.000Z' },
+      code: ''
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('writes one row per step with every field by default', async () => {
+    const csv = await exportTestCasesCsv(dataDir, ['checkout', 'empty']);
+
+    expect(csv.trim().split('\n')).toEqual([
+      'Test ID,Title,Folder,Tags,Step,Action,Expected Result,Last Run Status',
+      'checkout,"Checkout, guest",Shop,"smoke, cart",1,Open the cart,,passed',
+      'checkout,"Checkout, guest",Shop,"smoke, cart",2,Check the total,"""total"" shows ""$10""",passed',
+      'empty,Empty,,,,,,'
+    ]);
+  });
+
+  it('applies presets and custom mappings', async () => {
+    const testrail = await exportTestCasesCsv(dataDir, ['checkout'], { preset: 'testrail' });
+    expect(testrail.trim().split('\n')).toEqual([
+      'References,Title,Section,Labels,Steps (Step),Steps (Expected Result)',
+      'checkout,"Checkout, guest",Shop,"smoke, cart",Open the cart,',
+      ',,,,Check the total,"""total"" shows ""$10"""'
+    ]);
+
+    const custom = await exportTestCasesCsv(dataDir, ['checkout'], {
+      mapping: { title: 'Case', action: 'Do', expectedResult: null }
+    });
+    expect(custom.trim().split('\n')).toEqual(['Case,Do', '"Checkout, guest",Open the cart', '"Checkout, guest",Check the total']);
+  });
+
+  it('rejects invalid mappings and unknown tests', async () => {
+    await expect(exportTestCasesCsv(dataDir, ['checkout'], { mapping: { title: null } })).rejects.toThrow(
+      'Map at least one field'
+    );
+    await expect(exportTestCasesCsv(dataDir, ['checkout'], { mapping: { title: 'A', action: 'A' } })).rejects.toThrow(
+      'unique'
+    );
+    await expect(exportTestCasesCsv(dataDir, ['missing'])).rejects.toThrow('Test not found: missing');
+  });
+});
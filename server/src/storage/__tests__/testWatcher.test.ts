@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { initStorage, saveTest } from '../index.js';
+import { startTestWatcher, stopTestWatcher, subscribeToTestEvents } from '../testWatcher.js';
+import type { TestFileEvent } from '../../../../shared/types.js';
+
+process.env.TRAILWRIGHT_SKIP_PLAYWRIGHT_INSTALL = '1';
+
+function waitForEvent(dataDir: string, predicate: (event: TestFileEvent) => boolean): Promise<TestFileEvent> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      unsubscribe();
+      reject(new Error('Timed out waiting for watcher event'));
+    }, 3000);
+    const unsubscribe = subscribeToTestEvents(dataDir, (event) => {
+      if (predicate(event)) {
+        clearTimeout(timer);
+        unsubscribe();
+        resolve(event);
+      }
+    });
+  });
+}
+
+describe('Tests directory watcher', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = path.join(os.tmpdir(), 'trailwright-watcher-' + Date.now());
+    await initStorage(dataDir);
+    await saveTest(dataDir, {
+      metadata: {
+        id: 'checkout',
+        name: 'Checkout',
+        createdAt: '2025-01-01T00:00:00.000Z',
+        steps: [{ number: 1, qaSummary: 'Open cart', playwrightCode: '' }]
+      },
+      code: ''
+    });
+    await startTestWatcher(dataDir);
+  });
+
+  afterEach(async () => {
+    stopTestWatcher();
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('ignores saves made through the storage layer', async () => {
+    const events: TestFileEvent[] = [];
+    const unsubscribe = subscribeToTestEvents(dataDir, (event) => events.push(event));
+    await saveTest(dataDir, {
+      metadata: { id: 'checkout', name: 'Checkout renamed', createdAt: '2025-01-01T00:00:00.000Z' },
+      code: ''
+    });
+    await new Promise((resolve) => setTimeout(resolve, 400));
+    unsubscribe();
+
+    expect(events).toEqual([]);
+  });
+
+  it('reports external edits with re-parsed metadata and steps', async () => {
+    const changed = waitForEvent(dataDir, (event) => event.type === 'test_changed');
+    const specPath = path.join(dataDir, 'tests', 'checkout.spec.ts');
+    const content = await fs.readFile(specPath, 'utf-8');
+    await fs.writeFile(specPath, content.replace('"Checkout"', '"Checkout edited"'));
+
+    const event = await changed;
+    expect(event.payload.testId).toBe('checkout');
+    expect(event.payload.test?.name).toBe('Checkout edited');
+    expect(event.payload.steps?.map((step) => step.title)).toEqual(['Open cart']);
+  });
+
+  it('reports added and removed specs', async () => {
+    const added = waitForEvent(dataDir, (event) => event.type === 'test_added');
+    await fs.writeFile(path.join(dataDir, 'tests', 'login.spec.ts'), "test('login', async () => {});");
+    expect((await added).payload).toMatchObject({ testId: 'login', test: { name: 'login' } });
+
+    const removed = waitForEvent(dataDir, (event) => event.type === 'test_removed');
+    await fs.unlink(path.join(dataDir, 'tests', 'checkout.spec.ts'));
+    expect((await removed).payload.testId).toBe('checkout');
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import {
+  initStorage,
+  saveTest,
+  listTests,
+  saveConfig,
+  moveTestToTrash,
+  listTrash,
+  restoreTestFromTrash,
+  purgeTrashEntry,
+  purgeExpiredTrash,
+  METADATA_DELIMITER
+} from '../index.js';
+
+process.env.TRAILWRIGHT_SKIP_PLAYWRIGHT_INSTALL = '1';
+
+async function exists(target: string): Promise<boolean> {
+  return fs.access(target).then(() => true, () => false);
+}
+
+describe('Test trash', () => {
+  let dataDir: string;
+  const runId = '2025-01-01T00-00-00-000Z_checkout';
+
+  beforeEach(async () => {
+    dataDir = path.join(os.tmpdir(), 'trailwright-trash-' + Date.now());
+    await initStorage(dataDir);
+    await saveTest(dataDir, {
+      metadata: { id: 'checkout', name: 'Checkout', createdAt: '2025-01-01T00:00:00.000Z' },
+      code: "test('checkout', async () => {});"
+    });
+    await fs.writeFile(path.join(dataDir, 'test-data', 'checkout.csv'), 'email\na@example.com\n');
+    await fs.mkdir(path.join(dataDir, 'screenshots', 'checkout'), { recursive: true });
+    await fs.writeFile(path.join(dataDir, 'screenshots', 'checkout', 'step-1.png'), '');
+    await fs.mkdir(path.join(dataDir, 'runs', runId), { recursive: true });
+    await fs.writeFile(path.join(dataDir, 'runs', runId, 'result.json'), JSON.stringify({ testId: 'checkout' }));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('moves the test with its data, screenshots and runs', async () => {
+    const entry = await moveTestToTrash(dataDir, 'checkout');
+
+    expect(entry).toMatchObject({ testId: 'checkout', name: 'Checkout', runIds: [runId], hasTestData: true, hasScreenshots: true });
+    expect(await listTests(dataDir)).toHaveLength(0);
+    expect(await exists(path.join(dataDir, 'test-data', 'checkout.csv'))).toBe(false);
+    expect(await exists(path.join(dataDir, 'screenshots', 'checkout'))).toBe(false);
+    expect(await exists(path.join(dataDir, 'runs', runId))).toBe(false);
+    expect((await listTrash(dataDir)).map((item) => item.testId)).toEqual(['checkout']);
+  });
+
+  it('trashes a test with a corrupt header under its id', async () => {
+    await fs.writeFile(
+      path.join(dataDir, 'tests', 'broken.spec.ts'),
+      `/**\n * ${METADATA_DELIMITER}\n * { not json\n */\n\ntest('broken', async () => {});`
+    );
+
+    const entry = await moveTestToTrash(dataDir, 'broken');
+
+    expect(entry).toMatchObject({ testId: 'broken', name: 'broken', folder: null });
+    expect(await exists(path.join(dataDir, 'tests', 'broken.spec.ts'))).toBe(false);
+    await expect(moveTestToTrash(dataDir, 'missing')).rejects.toMatchObject({ code: 'ENOENT' });
+  });
+
+  it('restores everything back in place', async () => {
+    await moveTestToTrash(dataDir, 'checkout');
+    await restoreTestFromTrash(dataDir, 'checkout');
+
+    expect((await listTests(dataDir)).map((test) => test.id)).toEqual(['checkout']);
+    expect(await fs.readFile(path.join(dataDir, 'test-data', 'checkout.csv'), 'utf-8')).toContain('a@example.com');
+    expect(await exists(path.join(dataDir, 'screenshots', 'checkout', 'step-1.png'))).toBe(true);
+    expect(await exists(path.join(dataDir, 'runs', runId, 'result.json'))).toBe(true);
+    expect(await listTrash(dataDir)).toHaveLength(0);
+  });
+
+  it('refuses to restore over a test with the same id', async () => {
+    await moveTestToTrash(dataDir, 'checkout');
+    await saveTest(dataDir, {
+      metadata: { id: 'checkout', name: 'Checkout again', createdAt: '2025-02-01T00:00:00.000Z' },
+      code: ''
+    });
+
+    await expect(restoreTestFromTrash(dataDir, 'checkout')).rejects.toThrow('already exists');
+  });
+
+  it('purges entries explicitly or after the retention window', async () => {
+    await moveTestToTrash(dataDir, 'checkout');
+    await saveConfig(dataDir, { trashRetentionDays: 7 });
+
+    expect(await purgeExpiredTrash(dataDir, Date.now() + 6 * 24 * 60 * 60 * 1000)).toEqual([]);
+    expect(await purgeExpiredTrash(dataDir, Date.now() + 8 * 24 * 60 * 60 * 1000)).toEqual(['checkout']);
+    expect(await listTrash(dataDir)).toHaveLength(0);
+
+    await expect(purgeTrashEntry(dataDir, 'checkout')).rejects.toThrow('Trash entry not found');
+  });
+});
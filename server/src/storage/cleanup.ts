@@ -1,10 +1,12 @@
 import fs from 'fs/promises';
 import path from 'path';
+import { getTestsDirectory } from './config.js';
 
 type CleanupSummary = {
   removedTestFolders: string[];
   removedRunFolders: string[];
   removedDataFiles: string[];
+  removedRevisionFolders: string[];
 };
 
 async function collectSavedTestIds(dataDir: string): Promise<Set<string>> {
@@ -115,18 +117,50 @@ async function cleanupTestDataFiles(dataDir: string, savedTestIds: Set<string>):
   return removed;
 }
 
+async function cleanupRevisionFolders(dataDir: string, savedTestIds: Set<string>): Promise<string[]> {
+  const removed: string[] = [];
+  const revisionsDir = path.join(dataDir, 'revisions');
+
+  try {
+    // History must survive when tests live in a custom test directory
+    const testsDir = await getTestsDirectory(dataDir);
+    const customIds = (await fs.readdir(testsDir).catch(() => [] as string[]))
+      .filter((name) => name.endsWith('.spec.ts'))
+      .map((name) => name.replace(/\.spec\.ts$/, ''));
+    const knownIds = new Set([...savedTestIds, ...customIds]);
+
+    const entries = await fs.readdir(revisionsDir, { withFileTypes: true });
+    for (const entry of entries) {
+      if (!entry.isDirectory() || knownIds.has(entry.name)) {
+        continue;
+      }
+
+      await fs.rm(path.join(revisionsDir, entry.name), { recursive: true, force: true });
+      removed.push(entry.name);
+    }
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') {
+      console.error('[cleanup] Failed to prune orphaned revision folders', error);
+    }
+  }
+
+  return removed;
+}
+
 export async function cleanupOrphanedTestArtifacts(dataDir: string): Promise<CleanupSummary> {
   const savedTestIds = await collectSavedTestIds(dataDir);
 
-  const [removedTestFolders, removedRunFolders, removedDataFiles] = await Promise.all([
+  const [removedTestFolders, removedRunFolders, removedDataFiles, removedRevisionFolders] = await Promise.all([
     cleanupTestFolders(dataDir, savedTestIds),
     cleanupRunFolders(dataDir, savedTestIds),
-    cleanupTestDataFiles(dataDir, savedTestIds)
+    cleanupTestDataFiles(dataDir, savedTestIds),
+    cleanupRevisionFolders(dataDir, savedTestIds)
   ]);
 
   return {
     removedTestFolders,
     removedRunFolders,
-    removedDataFiles
+    removedDataFiles,
+    removedRevisionFolders
   };
 }
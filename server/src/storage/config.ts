@@ -1,10 +1,12 @@
 import fs from 'fs/promises';
 import path from 'path';
+import type { BrowserName } from '../types.js';
+import { withFileLock, writeFileAtomic } from './fileStore.js';
 
 export interface Config {
   apiProvider: 'anthropic' | 'openai' | 'gemini';
   apiKey: string;
-  defaultBrowser?: 'chromium' | 'firefox' | 'webkit';
+  defaultBrowser?: BrowserName;
   defaultStartUrl?: string;
   baseUrl?: string;
   // Model selection per provider
@@ -13,6 +15,12 @@ export interface Config {
   geminiModel?: string;
   // Custom test directory (empty = default ~/.trailwright/tests)
   testDirectory?: string;
+  // Days deleted tests stay in the trash before being purged (0 = keep until emptied)
+  trashRetentionDays?: number;
+  // Commit each save when testDirectory is inside a git repository (default on)
+  gitAutoCommit?: boolean;
+  // Hours a captured login session is reused before it is captured again (default 12)
+  sessionMaxAgeHours?: number;
 }
 
 // Available models for each provider
@@ -49,9 +57,70 @@ export async function loadConfig(dataDir: string): Promise<Config> {
 
 export async function saveConfig(dataDir: string, config: Partial<Config>): Promise<void> {
   const configPath = path.join(dataDir, 'config.json');
-  const existing = await loadConfig(dataDir);
-  const updated = { ...existing, ...config };
-  await fs.writeFile(configPath, JSON.stringify(updated, null, 2));
+  await withFileLock(configPath, async () => {
+    const existing = await loadConfig(dataDir);
+    const updated = { ...existing, ...config };
+    await writeFileAtomic(configPath, JSON.stringify(updated, null, 2));
+  });
+}
+
+export interface EnsureDataDirectoryOptions {
+  /** Custom tests directory to apply when the config doesn't set one yet */
+  testDirectory?: string;
+  /** Extra settings for a newly created config.json */
+  defaults?: Partial<Config>;
+}
+
+/**
+ * Create the tests/runs/test-data folders and a default config.json for a data directory
+ */
+export async function ensureDataDirectory(dataDir: string, options: EnsureDataDirectoryOptions = {}): Promise<void> {
+  const configPath = path.join(dataDir, 'config.json');
+  const envTestsDir = options.testDirectory;
+
+  // Create directories
+  await fs.mkdir(path.join(dataDir, 'tests'), { recursive: true });
+  await fs.mkdir(path.join(dataDir, 'runs'), { recursive: true });
+  await fs.mkdir(path.join(dataDir, 'test-data'), { recursive: true });
+
+  // If custom test directory is set via env var, ensure it exists
+  if (envTestsDir) {
+    await fs.mkdir(envTestsDir, { recursive: true });
+  }
+
+  // Create default config if doesn't exist
+  let configExists = false;
+  try {
+    await fs.access(configPath);
+    configExists = true;
+  } catch {
+    const defaultConfig: Record<string, any> = {
+      apiProvider: 'anthropic',
+      apiKey: '',
+      defaultBrowser: 'chromium',
+      ...options.defaults,
+      createdAt: new Date().toISOString()
+    };
+    // Apply env var test directory on first run
+    if (envTestsDir) {
+      defaultConfig.testDirectory = envTestsDir;
+      console.log(`[storage] Using custom test directory from TRAILWRIGHT_TESTS_DIR: ${envTestsDir}`);
+    }
+    await writeFileAtomic(configPath, JSON.stringify(defaultConfig, null, 2));
+  }
+
+  // If config exists but testDirectory not set, and env var is provided, update config
+  if (configExists && envTestsDir) {
+    try {
+      const config = await loadConfig(dataDir);
+      if (!config.testDirectory) {
+        await saveConfig(dataDir, { testDirectory: envTestsDir });
+        console.log(`[storage] Applied TRAILWRIGHT_TESTS_DIR to existing config: ${envTestsDir}`);
+      }
+    } catch (err) {
+      console.error('[storage] Failed to update config with TRAILWRIGHT_TESTS_DIR:', err);
+    }
+  }
 }
 
 /**
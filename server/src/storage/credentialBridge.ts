@@ -75,6 +75,73 @@ export declare function listCredentials(): TrailwrightCredential[];
 export declare function getCredential(identifier: string): TrailwrightCredential;
 `;
 
+/**
+ * Exported projects have no TrailWright server to pass the credentials blob,
+ * so this variant reads each credential from environment variables:
+ * TRAILWRIGHT_CREDENTIAL_<NAME>_USERNAME / _PASSWORD (NAME upper-cased, non
+ * alphanumerics as "_"). credentials.json maps ids to names and holds the
+ * known usernames; it never contains passwords.
+ */
+const PORTABLE_INDEX_SOURCE = `const known = require('./credentials.json');
+
+function envKey(name, field) {
+  return 'TRAILWRIGHT_CREDENTIAL_' + String(name).toUpperCase().replace(/[^A-Z0-9]+/g, '_') + '_' + field;
+}
+
+function fromEnv(record) {
+  const username = process.env[envKey(record.name, 'USERNAME')] || record.username;
+  const password = process.env[envKey(record.name, 'PASSWORD')];
+  if (!username || !password) {
+    return null;
+  }
+  return { id: record.id, name: record.name, username, password, notes: record.notes };
+}
+
+function listCredentials() {
+  return known.map(fromEnv).filter(Boolean);
+}
+
+function getCredential(identifier) {
+  const record = known.find((item) => item.id === identifier || item.name === identifier) || {
+    id: identifier,
+    name: identifier
+  };
+  const credential = fromEnv(record);
+  if (!credential) {
+    throw new Error(
+      'Credential not configured: ' + identifier + '. Set ' + envKey(record.name, 'USERNAME') + ' and ' + envKey(record.name, 'PASSWORD')
+    );
+  }
+  return credential;
+}
+
+module.exports = {
+  listCredentials,
+  getCredential
+};
+`;
+
+/**
+ * Env var read by the portable helper for one credential field
+ */
+export function portableCredentialEnvKey(name: string, field: 'USERNAME' | 'PASSWORD'): string {
+  return `TRAILWRIGHT_CREDENTIAL_${name.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}_${field}`;
+}
+
+/**
+ * Files of the env-var based @trailwright/credentials package shipped with exported projects
+ */
+export function generatePortableCredentialHelper(
+  credentials: Array<{ id: string; name: string; username?: string; notes?: string }>
+): Array<[string, string]> {
+  return [
+    ['package.json', JSON.stringify(PACKAGE_JSON, null, 2)],
+    ['index.js', PORTABLE_INDEX_SOURCE],
+    ['index.d.ts', INDEX_TYPES],
+    ['credentials.json', JSON.stringify(credentials, null, 2)]
+  ];
+}
+
 export async function ensureCredentialHelper(dataDir: string): Promise<void> {
   const nodeModules = path.join(dataDir, 'node_modules', '@trailwright', 'credentials');
   await fs.mkdir(nodeModules, { recursive: true });
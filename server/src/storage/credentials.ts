@@ -2,12 +2,18 @@ import fs from 'fs/promises';
 import path from 'path';
 import crypto from 'crypto';
 import type { CredentialRecord } from '../types.js';
+import { withFileLock, writeFileAtomic } from './fileStore.js';
 
 const DATA_FILE = 'credentials.enc';
 const KEY_FILE = 'credentials.key';
 
 async function ensureKey(dataDir: string): Promise<Buffer> {
   const keyPath = path.join(dataDir, KEY_FILE);
+  // Locked so two first-time writers can't each create a different key
+  return withFileLock(keyPath, () => readOrCreateKey(keyPath));
+}
+
+async function readOrCreateKey(keyPath: string): Promise<Buffer> {
   try {
     const raw = await fs.readFile(keyPath);
     if (raw.length === 32) {
@@ -22,7 +28,7 @@ async function ensureKey(dataDir: string): Promise<Buffer> {
   }
 
   const key = crypto.randomBytes(32);
-  await fs.writeFile(keyPath, key.toString('base64'), { mode: 0o600 });
+  await writeFileAtomic(keyPath, key.toString('base64'), { mode: 0o600 });
   return key;
 }
 
@@ -67,7 +73,14 @@ async function writeRawRecords(dataDir: string, records: CredentialRecord[]): Pr
   const encrypted = Buffer.concat([cipher.update(payload), cipher.final()]);
   const tag = cipher.getAuthTag();
   const blob = Buffer.concat([iv, tag, encrypted]).toString('base64');
-  await fs.writeFile(filePath, blob, { mode: 0o600 });
+  await writeFileAtomic(filePath, blob, { mode: 0o600 });
+}
+
+/**
+ * Serialize read-modify-write cycles on credentials.enc
+ */
+function withRecordsLock<T>(dataDir: string, task: () => Promise<T>): Promise<T> {
+  return withFileLock(path.join(dataDir, DATA_FILE), task);
 }
 
 export async function listCredentials(dataDir: string): Promise<CredentialRecord[]> {
@@ -91,51 +104,66 @@ export interface CredentialInput {
   username: string;
   password: string;
   notes?: string;
+  /** Omit to keep the current setup test; null clears it */
+  sessionSetupTestId?: string | null;
 }
 
-export async function upsertCredential(dataDir: string, input: CredentialInput): Promise<CredentialRecord> {
-  const now = new Date().toISOString();
-  const records = await readRawRecords(dataDir);
-  const existingIndex = input.id
-    ? records.findIndex((record) => record.id === input.id)
-    : -1;
-
-  if (existingIndex >= 0) {
-    const existing = records[existingIndex];
-    const updated: CredentialRecord = {
-      ...existing,
-      name: input.name.trim() || existing.name,
-      username: input.username.trim(),
-      password: input.password,
-      notes: input.notes?.trim() || undefined,
-      updatedAt: now
-    };
-    records[existingIndex] = updated;
-  } else {
-    const newRecord: CredentialRecord = {
-      id: input.id || `cred-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
-      name: input.name.trim(),
-      username: input.username.trim(),
-      password: input.password,
-      notes: input.notes?.trim() || undefined,
-      createdAt: now,
-      updatedAt: now
-    };
-    records.push(newRecord);
+function resolveSessionSetupTestId(input: CredentialInput, existing?: CredentialRecord): string | undefined {
+  if (input.sessionSetupTestId === undefined) {
+    return existing?.sessionSetupTestId;
   }
+  return input.sessionSetupTestId?.trim() || undefined;
+}
 
-  await writeRawRecords(dataDir, records);
-  const id = input.id || records[records.length - 1].id;
-  return (await getCredentialById(dataDir, id))!;
+export async function upsertCredential(dataDir: string, input: CredentialInput): Promise<CredentialRecord> {
+  return withRecordsLock(dataDir, async () => {
+    const now = new Date().toISOString();
+    const records = await readRawRecords(dataDir);
+    const existingIndex = input.id
+      ? records.findIndex((record) => record.id === input.id)
+      : -1;
+
+    if (existingIndex >= 0) {
+      const existing = records[existingIndex];
+      const updated: CredentialRecord = {
+        ...existing,
+        name: input.name.trim() || existing.name,
+        username: input.username.trim(),
+        password: input.password,
+        notes: input.notes?.trim() || undefined,
+        sessionSetupTestId: resolveSessionSetupTestId(input, existing),
+        updatedAt: now
+      };
+      records[existingIndex] = updated;
+    } else {
+      const newRecord: CredentialRecord = {
+        id: input.id || `cred-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+        name: input.name.trim(),
+        username: input.username.trim(),
+        password: input.password,
+        notes: input.notes?.trim() || undefined,
+        sessionSetupTestId: resolveSessionSetupTestId(input),
+        createdAt: now,
+        updatedAt: now
+      };
+      records.push(newRecord);
+    }
+
+    await writeRawRecords(dataDir, records);
+    const id = input.id || records[records.length - 1].id;
+    return (await getCredentialById(dataDir, id))!;
+  });
 }
 
 export async function deleteCredential(dataDir: string, id: string): Promise<void> {
-  const records = await readRawRecords(dataDir);
-  const filtered = records.filter((record) => record.id !== id);
-  if (filtered.length === records.length) {
-    throw new Error('Credential not found');
-  }
-  await writeRawRecords(dataDir, filtered);
+  await withRecordsLock(dataDir, async () => {
+    const records = await readRawRecords(dataDir);
+    const filtered = records.filter((record) => record.id !== id);
+    if (filtered.length === records.length) {
+      throw new Error('Credential not found');
+    }
+    await writeRawRecords(dataDir, filtered);
+  });
 }
 
 export async function serializeCredentialsBlob(dataDir: string): Promise<string | null> {
@@ -0,0 +1,92 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { Test } from '../types.js';
+import { getTestsDirectory } from './config.js';
+import { loadTest, saveTest } from './tests.js';
+
+export interface DuplicateTestOptions {
+  /** Name for the copy (defaults to "<name> (copy)") */
+  name?: string;
+}
+
+async function pathExists(target: string): Promise<boolean> {
+  try {
+    await fs.access(target);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function nextCopyId(dataDir: string, sourceId: string): Promise<string> {
+  const testsDir = await getTestsDirectory(dataDir);
+  const base = `${sourceId}-copy`;
+  let candidate = base;
+  let index = 2;
+  while (await pathExists(path.join(testsDir, `${candidate}.spec.ts`))) {
+    candidate = `${base}-${index++}`;
+  }
+  return candidate;
+}
+
+function replaceAll(value: string, search: string, replacement: string): string {
+  return value.split(search).join(replacement);
+}
+
+/**
+ * Copy a test under a new id together with its CSV data and step screenshots.
+ * The credential binding is kept and every reference to the old id's data file
+ * or screenshot folder is pointed at the copy.
+ */
+export async function duplicateTest(
+  dataDir: string,
+  sourceId: string,
+  options: DuplicateTestOptions = {}
+): Promise<Test> {
+  const source = await loadTest(dataDir, sourceId);
+  const newId = await nextCopyId(dataDir, sourceId);
+  const now = new Date().toISOString();
+
+  const sourceScreenshots = `screenshots/${sourceId}/`;
+  const targetScreenshots = `screenshots/${newId}/`;
+
+  const {
+    lastRunAt: _lastRunAt,
+    lastRunStatus: _lastRunStatus,
+    lastRunId: _lastRunId,
+    ...metadata
+  } = source.metadata;
+
+  const copy: Test = {
+    metadata: {
+      ...metadata,
+      id: newId,
+      name: options.name?.trim() || `${source.metadata.name} (copy)`,
+      createdAt: now,
+      updatedAt: now,
+      dataSource: source.metadata.dataSource ? `${newId}.csv` : undefined,
+      steps: source.metadata.steps?.map((step) => ({
+        ...step,
+        screenshotPath: step.screenshotPath
+          ? replaceAll(step.screenshotPath, sourceScreenshots, targetScreenshots)
+          : step.screenshotPath
+      }))
+    },
+    // Parameterized specs read their rows from test-data/<id>.csv
+    code: replaceAll(source.code, `test-data/${sourceId}.csv`, `test-data/${newId}.csv`)
+  };
+
+  const csvPath = path.join(dataDir, 'test-data', `${sourceId}.csv`);
+  if (await pathExists(csvPath)) {
+    await fs.mkdir(path.join(dataDir, 'test-data'), { recursive: true });
+    await fs.copyFile(csvPath, path.join(dataDir, 'test-data', `${newId}.csv`));
+  }
+
+  const screenshotsDir = path.join(dataDir, 'screenshots', sourceId);
+  if (await pathExists(screenshotsDir)) {
+    await fs.cp(screenshotsDir, path.join(dataDir, 'screenshots', newId), { recursive: true });
+  }
+
+  await saveTest(dataDir, copy, { revision: `duplicated from ${source.metadata.name}` });
+  return copy;
+}
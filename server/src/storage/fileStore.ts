@@ -0,0 +1,88 @@
+/**
+ * Shared file layer for every store: atomic writes and per-file async locks
+ *
+ * Writes go to a temp file in the same directory and are renamed over the
+ * target, so a crash never leaves a truncated spec, config or credential file.
+ * Locks serialize read-modify-write cycles (e.g. a run updating lastRun* while
+ * the UI edits steps) within this process. They are re-entrant: code already
+ * holding a file's lock can call helpers that lock the same file again.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+export interface WriteFileAtomicOptions {
+  encoding?: BufferEncoding;
+  mode?: number;
+}
+
+// Tail of each file's lock queue; removed once the last holder finishes
+const lockQueues = new Map<string, Promise<void>>();
+// Files locked by the current async call chain
+const heldLocks = new AsyncLocalStorage<ReadonlySet<string>>();
+
+function lockKey(filePath: string): string {
+  return path.resolve(filePath);
+}
+
+/**
+ * Run `task` while holding an exclusive lock on `filePath`
+ */
+export async function withFileLock<T>(filePath: string, task: () => Promise<T>): Promise<T> {
+  const key = lockKey(filePath);
+  const held = heldLocks.getStore();
+  if (held?.has(key)) {
+    return task();
+  }
+
+  const previous = lockQueues.get(key) ?? Promise.resolve();
+  let release!: () => void;
+  const current = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  const tail = previous.then(() => current);
+  lockQueues.set(key, tail);
+
+  await previous;
+  try {
+    return await heldLocks.run(new Set([...(held ?? []), key]), task);
+  } finally {
+    release();
+    if (lockQueues.get(key) === tail) {
+      lockQueues.delete(key);
+    }
+  }
+}
+
+function tempPathFor(filePath: string): string {
+  const suffix = crypto.randomBytes(6).toString('hex');
+  return path.join(path.dirname(filePath), `.${path.basename(filePath)}.${process.pid}.${suffix}.tmp`);
+}
+
+/**
+ * Write `data` to a temp file next to `filePath`, flush it and rename it into place
+ */
+export async function writeFileAtomic(
+  filePath: string,
+  data: string | Buffer,
+  options: WriteFileAtomicOptions = {}
+): Promise<void> {
+  await withFileLock(filePath, async () => {
+    const tempPath = tempPathFor(filePath);
+    let handle: fs.FileHandle | null = null;
+    try {
+      handle = await fs.open(tempPath, 'w', options.mode);
+      await handle.writeFile(data, typeof data === 'string' ? options.encoding ?? 'utf-8' : undefined);
+      await handle.sync();
+      await handle.close();
+      handle = null;
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      await handle?.close().catch(() => void 0);
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+  });
+}
@@ -0,0 +1,208 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { TestFolder } from '../types.js';
+import { listTests, loadTest, updateTestMetadata } from './tests.js';
+import { withFileLock, writeFileAtomic } from './fileStore.js';
+
+const FOLDERS_FILE = 'folders.json';
+const SEPARATOR = '/';
+
+/**
+ * Normalize a folder path: trims each segment and collapses empty ones, so
+ * " Checkout / Payments/ " becomes "Checkout/Payments". Returns null for no folder.
+ */
+export function normalizeFolderPath(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const segments = value
+    .split(SEPARATOR)
+    .map((segment) => segment.trim())
+    .filter(Boolean);
+
+  if (segments.some((segment) => segment === '.' || segment === '..')) {
+    throw new Error('Folder names cannot be "." or ".."');
+  }
+
+  return segments.length ? segments.join(SEPARATOR) : null;
+}
+
+function isSameOrInside(folder: string, parent: string): boolean {
+  return folder === parent || folder.startsWith(parent + SEPARATOR);
+}
+
+function withAncestors(folder: string): string[] {
+  const segments = folder.split(SEPARATOR);
+  return segments.map((_, index) => segments.slice(0, index + 1).join(SEPARATOR));
+}
+
+async function loadStoredFolders(dataDir: string): Promise<string[]> {
+  try {
+    const content = await fs.readFile(path.join(dataDir, FOLDERS_FILE), 'utf-8');
+    const parsed = JSON.parse(content);
+    return Array.isArray(parsed?.folders) ? parsed.folders.filter((item: unknown) => typeof item === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Read-modify-write the stored folder list under the folders.json lock
+ */
+async function updateStoredFolders(dataDir: string, update: (stored: string[]) => string[]): Promise<void> {
+  const filePath = path.join(dataDir, FOLDERS_FILE);
+  await withFileLock(filePath, async () => {
+    const folders = update(await loadStoredFolders(dataDir));
+    const unique = Array.from(new Set(folders)).sort((a, b) => a.localeCompare(b));
+    await writeFileAtomic(filePath, JSON.stringify({ folders: unique }, null, 2));
+  });
+}
+
+/**
+ * List every folder: explicitly created ones (kept even when empty) plus any
+ * folder referenced by a test, including the parents of nested paths
+ */
+export async function listFolders(dataDir: string): Promise<TestFolder[]> {
+  const [stored, tests] = await Promise.all([loadStoredFolders(dataDir), listTests(dataDir)]);
+  const paths = new Set<string>();
+  const directCounts = new Map<string, number>();
+
+  for (const folder of stored) {
+    withAncestors(folder).forEach((item) => paths.add(item));
+  }
+  for (const test of tests) {
+    const folder = normalizeFolderPath(test.folder);
+    if (!folder) continue;
+    withAncestors(folder).forEach((item) => paths.add(item));
+    directCounts.set(folder, (directCounts.get(folder) ?? 0) + 1);
+  }
+
+  return Array.from(paths)
+    .sort((a, b) => a.localeCompare(b))
+    .map((folderPath) => {
+      const segments = folderPath.split(SEPARATOR);
+      let totalTestCount = 0;
+      directCounts.forEach((count, folder) => {
+        if (isSameOrInside(folder, folderPath)) {
+          totalTestCount += count;
+        }
+      });
+      return {
+        path: folderPath,
+        name: segments[segments.length - 1],
+        parent: segments.length > 1 ? segments.slice(0, -1).join(SEPARATOR) : null,
+        testCount: directCounts.get(folderPath) ?? 0,
+        totalTestCount
+      };
+    });
+}
+
+export async function createFolder(dataDir: string, folderPath: string): Promise<string> {
+  const normalized = normalizeFolderPath(folderPath);
+  if (!normalized) {
+    throw new Error('Folder path is required');
+  }
+
+  await updateStoredFolders(dataDir, (stored) => [...stored, normalized]);
+  return normalized;
+}
+
+/**
+ * Rename or re-parent a folder. Every test in it or in a subfolder is updated.
+ * Returns the ids of the tests that moved.
+ */
+export async function renameFolder(dataDir: string, from: string, to: string): Promise<string[]> {
+  const source = normalizeFolderPath(from);
+  const target = normalizeFolderPath(to);
+  if (!source || !target) {
+    throw new Error('Both the current and the new folder path are required');
+  }
+  if (source === target) {
+    return [];
+  }
+  if (isSameOrInside(target, source)) {
+    throw new Error('A folder cannot be moved inside itself');
+  }
+
+  const folders = await listFolders(dataDir);
+  if (!folders.some((folder) => folder.path === source)) {
+    throw new Error(`Folder not found: ${source}`);
+  }
+  if (folders.some((folder) => folder.path === target)) {
+    throw new Error(`Folder already exists: ${target}`);
+  }
+
+  const rewrite = (folder: string) => target + folder.slice(source.length);
+
+  const moved: string[] = [];
+  for (const test of await listTests(dataDir)) {
+    const folder = normalizeFolderPath(test.folder);
+    if (folder && isSameOrInside(folder, source)) {
+      const moveTo = rewrite(folder);
+      await updateTestMetadata(dataDir, test.id, { folder: moveTo }, { revision: `moved to ${moveTo}` });
+      moved.push(test.id);
+    }
+  }
+
+  await updateStoredFolders(dataDir, (stored) => [
+    ...stored.map((folder) => (isSameOrInside(folder, source) ? rewrite(folder) : folder)),
+    target
+  ]);
+
+  return moved;
+}
+
+/**
+ * Move tests into a folder (null = uncategorized). The folder is created if needed,
+ * and the folders they leave stay in the tree until deleted explicitly.
+ */
+export async function moveTestsToFolder(
+  dataDir: string,
+  testIds: string[],
+  folderPath: string | null
+): Promise<void> {
+  const target = normalizeFolderPath(folderPath);
+  const keep = target ? [target] : [];
+
+  for (const testId of testIds) {
+    const test = await loadTest(dataDir, testId);
+    const previous = normalizeFolderPath(test.metadata.folder);
+    if (previous) {
+      keep.push(previous);
+    }
+    // Saved as a revision so a git-backed tests directory commits the move
+    const revision = target ? `moved to ${target}` : 'moved';
+    await updateTestMetadata(dataDir, testId, { folder: target }, { revision });
+  }
+
+  await updateStoredFolders(dataDir, (stored) => [...stored, ...keep]);
+}
+
+/**
+ * Delete a folder and its subfolders. Only allowed when no test lives in any of them.
+ */
+export async function deleteFolder(dataDir: string, folderPath: string): Promise<void> {
+  const target = normalizeFolderPath(folderPath);
+  if (!target) {
+    throw new Error('Folder path is required');
+  }
+
+  const folder = (await listFolders(dataDir)).find((item) => item.path === target);
+  if (!folder) {
+    throw new Error(`Folder not found: ${target}`);
+  }
+  if (folder.totalTestCount > 0) {
+    throw new Error(`Folder is not empty: ${target} contains ${folder.totalTestCount} test(s)`);
+  }
+
+  await updateStoredFolders(dataDir, (stored) => {
+    const remaining = stored.filter((item) => !isSameOrInside(item, target));
+    // Keep the parent visible when its only child is removed
+    const parent = folder.parent;
+    if (parent && !remaining.some((item) => isSameOrInside(item, parent))) {
+      remaining.push(parent);
+    }
+    return remaining;
+  });
+}
@@ -0,0 +1,269 @@
+/**
+ * Git integration for a custom test directory
+ *
+ * Only active when Config.testDirectory is set and sits inside a git work tree.
+ * Saves are committed one spec at a time with a message built from the save
+ * action, e.g. "Record: Checkout flow, 12 steps". The shared step blocks module
+ * is committed whenever it is regenerated.
+ */
+
+import { execFile } from 'child_process';
+import path from 'path';
+import type { GitFileStatus, GitLogEntry, GitRepositoryStatus, TestMetadata } from '../types.js';
+import { getTestsDirectory, loadConfig } from './config.js';
+
+const SPEC_SUFFIX = '.spec.ts';
+
+/** What a commit message is built from; trashing a corrupt spec only knows its id */
+type CommitSubject = { metadata: Pick<TestMetadata, 'id' | 'name' | 'steps'> };
+// Used only when the repository has no user configured, so commits never fail on identity
+const FALLBACK_IDENTITY = ['-c', 'user.name=TrailWright', '-c', 'user.email=trailwright@localhost'];
+
+const ACTION_VERBS: Record<string, string> = {
+  created: 'Create',
+  recorded: 'Record',
+  saved: 'Save',
+  imported: 'Import',
+  moved: 'Move',
+  duplicated: 'Duplicate',
+  'steps edited': 'Edit steps',
+  'step inserted': 'Insert step',
+  'details edited': 'Edit details',
+  'variables edited': 'Edit variables',
+  deleted: 'Delete',
+  restored: 'Restore'
+};
+
+interface GitContext {
+  root: string;
+  testsDir: string;
+  autoCommit: boolean;
+}
+
+function runGit(cwd: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile('git', args, { cwd, maxBuffer: 10 * 1024 * 1024 }, (error, stdout, stderr) => {
+      if (error) {
+        reject(new Error(stderr.toString().trim() || error.message));
+        return;
+      }
+      resolve(stdout.toString());
+    });
+  });
+}
+
+/**
+ * Resolve the repository around the custom test directory, or null when git does not apply
+ */
+async function getGitContext(dataDir: string): Promise<GitContext | null> {
+  let config;
+  try {
+    config = await loadConfig(dataDir);
+  } catch {
+    return null;
+  }
+  if (!config.testDirectory) {
+    return null;
+  }
+
+  const testsDir = await getTestsDirectory(dataDir);
+  try {
+    const root = (await runGit(testsDir, ['rev-parse', '--show-toplevel'])).trim();
+    return { root, testsDir, autoCommit: config.gitAutoCommit !== false };
+  } catch {
+    return null;
+  }
+}
+
+async function identityArgs(root: string): Promise<string[]> {
+  try {
+    const email = (await runGit(root, ['config', 'user.email'])).trim();
+    return email ? [] : FALLBACK_IDENTITY;
+  } catch {
+    return FALLBACK_IDENTITY;
+  }
+}
+
+/**
+ * Build a commit message from a save action, e.g. "Record: Checkout flow, 12 steps"
+ */
+export function buildCommitMessage(action: string, test: CommitSubject): string {
+  const [firstWord] = action.split(' ');
+  const verb =
+    ACTION_VERBS[action] ??
+    ACTION_VERBS[firstWord] ??
+    action.charAt(0).toUpperCase() + action.slice(1);
+  const stepCount = test.metadata.steps?.length ?? 0;
+  const steps = stepCount > 0 ? `, ${stepCount} step${stepCount === 1 ? '' : 's'}` : '';
+  return `${verb}: ${test.metadata.name}${steps}`;
+}
+
+function parseStatusCode(code: string): GitFileStatus {
+  if (code === '??') return 'untracked';
+  if (code.includes('U') || code === 'AA' || code === 'DD') return 'conflicted';
+  if (code.includes('R')) return 'renamed';
+  if (code.includes('D')) return 'deleted';
+  if (code[0] === 'A') return 'added';
+  return 'modified';
+}
+
+/**
+ * Branch, upstream and per-test status for the test directory's repository
+ */
+export async function getGitStatus(dataDir: string): Promise<GitRepositoryStatus> {
+  const context = await getGitContext(dataDir);
+  if (!context) {
+    return { enabled: false, autoCommit: false, tests: {} };
+  }
+
+  const output = await runGit(context.root, [
+    'status',
+    '--porcelain=v1',
+    '--branch',
+    '--untracked-files=all',
+    '-z',
+    '--',
+    context.testsDir
+  ]);
+
+  const status: GitRepositoryStatus = {
+    enabled: true,
+    autoCommit: context.autoCommit,
+    root: context.root,
+    tests: {}
+  };
+
+  const entries = output.split('\0');
+  for (let index = 0; index < entries.length; index++) {
+    const entry = entries[index];
+    if (!entry) continue;
+
+    if (entry.startsWith('## ')) {
+      // "## main...origin/main [ahead 1, behind 2]"; branch names may contain dots (release/1.2)
+      const match = /^## (?:No commits yet on )?(\S+?)(?:\.\.\.(\S+))?(?= |$)(?: \[(.*)\])?/.exec(entry);
+      status.branch = match?.[1];
+      status.remote = match?.[2];
+      status.ahead = Number(/ahead (\d+)/.exec(match?.[3] ?? '')?.[1] ?? 0);
+      status.behind = Number(/behind (\d+)/.exec(match?.[3] ?? '')?.[1] ?? 0);
+      continue;
+    }
+
+    const code = entry.slice(0, 2);
+    const filePath = entry.slice(3);
+    if (code.includes('R') || code.includes('C')) {
+      // Renames are followed by the original path
+      index++;
+    }
+    const fileName = path.basename(filePath);
+    if (fileName.endsWith(SPEC_SUFFIX)) {
+      status.tests[fileName.slice(0, -SPEC_SUFFIX.length)] = parseStatusCode(code);
+    }
+  }
+
+  return status;
+}
+
+/**
+ * Stage and commit one spec (including its deletion). Returns the new commit
+ * hash, or null when git is not in use or there is nothing to commit.
+ */
+export function commitTestFile(
+  dataDir: string,
+  testId: string,
+  message: string,
+  options: { force?: boolean } = {}
+): Promise<string | null> {
+  return commitTestsDirectoryFile(dataDir, `${testId}${SPEC_SUFFIX}`, message, options);
+}
+
+/**
+ * Stage and commit one file of the tests directory, e.g. the shared step blocks module specs import
+ */
+export async function commitTestsDirectoryFile(
+  dataDir: string,
+  fileName: string,
+  message: string,
+  options: { force?: boolean } = {}
+): Promise<string | null> {
+  const context = await getGitContext(dataDir);
+  if (!context || (!context.autoCommit && !options.force)) {
+    return null;
+  }
+
+  const filePath = path.join(context.testsDir, fileName);
+  await runGit(context.root, ['add', '--all', '--', filePath]);
+
+  const staged = await runGit(context.root, ['diff', '--cached', '--name-only', '--', filePath]);
+  if (!staged.trim()) {
+    return null;
+  }
+
+  const identity = await identityArgs(context.root);
+  await runGit(context.root, [...identity, 'commit', '--quiet', '-m', message, '--', filePath]);
+  return (await runGit(context.root, ['rev-parse', 'HEAD'])).trim();
+}
+
+/**
+ * Commit a save made through saveTest. Failures are logged, never thrown,
+ * so git trouble cannot block editing tests.
+ */
+export async function commitTestSave(dataDir: string, test: CommitSubject, action: string): Promise<void> {
+  try {
+    await commitTestFile(dataDir, test.metadata.id, buildCommitMessage(action, test));
+  } catch (error) {
+    console.error(`[git] Failed to commit ${test.metadata.id}:`, error instanceof Error ? error.message : error);
+  }
+}
+
+export async function getTestGitLog(dataDir: string, testId: string, limit = 50): Promise<GitLogEntry[]> {
+  const context = await getGitContext(dataDir);
+  if (!context) {
+    return [];
+  }
+
+  const filePath = path.join(context.testsDir, `${testId}${SPEC_SUFFIX}`);
+  let output: string;
+  try {
+    output = await runGit(context.root, [
+      'log',
+      '--follow',
+      `-n${limit}`,
+      '--format=%H%x1f%an%x1f%aI%x1f%s',
+      '--',
+      filePath
+    ]);
+  } catch {
+    // No commits yet
+    return [];
+  }
+
+  return output
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => {
+      const [hash, author, date, subject] = line.split('\x1f');
+      return { hash, author, date, subject };
+    });
+}
+
+async function requireGitContext(dataDir: string): Promise<GitContext> {
+  const context = await getGitContext(dataDir);
+  if (!context) {
+    throw new Error('The test directory is not inside a git repository');
+  }
+  return context;
+}
+
+/**
+ * Fast-forward pull from the upstream (works with local and file:// remotes)
+ */
+export async function pullTests(dataDir: string): Promise<string> {
+  const context = await requireGitContext(dataDir);
+  return (await runGit(context.root, ['pull', '--ff-only'])).trim();
+}
+
+export async function pushTests(dataDir: string): Promise<string> {
+  const context = await requireGitContext(dataDir);
+  const output = await runGit(context.root, ['push']);
+  return output.trim() || 'Pushed';
+}
@@ -3,11 +3,29 @@ import path from 'path';
 import { spawn } from 'child_process';
 import { resolveNpxInvocation } from '../utils/npx.js';
 import { ensureCredentialHelper } from './credentialBridge.js';
+import type { Project } from '../types.js';
+import { ensureDataDirectory } from './config.js';
+import { DEFAULT_PROJECT_ID, getProjectDirectory, migrateToProjects } from './projects.js';
 
 export * from './config.js';
 export * from './tests.js';
 export * from './credentials.js';
 export * from './variables.js';
+export * from './revisions.js';
+export * from './metadata.js';
+export * from './trash.js';
+export * from './folders.js';
+export * from './search.js';
+export * from './duplicate.js';
+export * from './git.js';
+export * from './fileStore.js';
+export * from './projects.js';
+export * from './stepBlocks.js';
+export * from './sessionStates.js';
+export * from './templates.js';
+export * from './manualScripts.js';
+export * from './testCaseCsv.js';
+export * from './lastRuns.js';
 
 async function ensurePlaywrightDependencies(dataDir: string): Promise<void> {
   if (
@@ -83,60 +101,31 @@ async function ensurePlaywrightDependencies(dataDir: string): Promise<void> {
 }
 
 export async function initStorage(dataDir: string): Promise<void> {
-  const testsDir = path.join(dataDir, 'tests');
-  const runsDir = path.join(dataDir, 'runs');
-  const testDataDir = path.join(dataDir, 'test-data');
-  const configPath = path.join(dataDir, 'config.json');
-
   // Check for custom test directory from environment variable
-  const envTestsDir = process.env.TRAILWRIGHT_TESTS_DIR?.trim();
-
-  // Create directories
-  await fs.mkdir(testsDir, { recursive: true });
-  await fs.mkdir(runsDir, { recursive: true });
-  await fs.mkdir(testDataDir, { recursive: true });
+  await ensureDataDirectory(dataDir, { testDirectory: process.env.TRAILWRIGHT_TESTS_DIR?.trim() });
 
-  // If custom test directory is set via env var, ensure it exists
-  if (envTestsDir) {
-    await fs.mkdir(envTestsDir, { recursive: true });
-  }
+  // Ensure Playwright dependencies are installed
+  await ensurePlaywrightDependencies(dataDir);
+  await ensureCredentialHelper(dataDir);
+}
 
-  // Create default config if doesn't exist
-  let configExists = false;
-  try {
-    await fs.access(configPath);
-    configExists = true;
-  } catch {
-    const defaultConfig: Record<string, any> = {
-      apiProvider: 'anthropic',
-      apiKey: '',
-      defaultBrowser: 'chromium',
-      createdAt: new Date().toISOString()
-    };
-    // Apply env var test directory on first run
-    if (envTestsDir) {
-      defaultConfig.testDirectory = envTestsDir;
-      console.log(`[storage] Using custom test directory from TRAILWRIGHT_TESTS_DIR: ${envTestsDir}`);
-    }
-    await fs.writeFile(configPath, JSON.stringify(defaultConfig, null, 2));
-  }
+/**
+ * Prepare the server's data directory: move legacy flat data into the Default
+ * project, set up every project, and install the shared Playwright dependencies
+ * once at the root (specs in projects/<id> resolve them from there).
+ */
+export async function initWorkspace(rootDir: string): Promise<Project[]> {
+  await fs.mkdir(rootDir, { recursive: true });
+  const projects = await migrateToProjects(rootDir);
+  const envTestsDir = process.env.TRAILWRIGHT_TESTS_DIR?.trim();
 
-  // If config exists but testDirectory not set, and env var is provided, update config
-  if (configExists && envTestsDir) {
-    try {
-      const configContent = await fs.readFile(configPath, 'utf-8');
-      const config = JSON.parse(configContent);
-      if (!config.testDirectory) {
-        config.testDirectory = envTestsDir;
-        await fs.writeFile(configPath, JSON.stringify(config, null, 2));
-        console.log(`[storage] Applied TRAILWRIGHT_TESTS_DIR to existing config: ${envTestsDir}`);
-      }
-    } catch (err) {
-      console.error('[storage] Failed to update config with TRAILWRIGHT_TESTS_DIR:', err);
-    }
+  for (const project of projects) {
+    await ensureDataDirectory(getProjectDirectory(rootDir, project.id), {
+      testDirectory: project.id === DEFAULT_PROJECT_ID ? envTestsDir : undefined
+    });
   }
 
-  // Ensure Playwright dependencies are installed
-  await ensurePlaywrightDependencies(dataDir);
-  await ensureCredentialHelper(dataDir);
+  await ensurePlaywrightDependencies(rootDir);
+  await ensureCredentialHelper(rootDir);
+  return projects;
 }
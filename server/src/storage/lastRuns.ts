@@ -0,0 +1,46 @@
+/**
+ * Last-run bookkeeping (lastRunAt / lastRunStatus / lastRunId) per test
+ *
+ * Kept in `<dataDir>/last-runs.json` rather than the spec header, so running a
+ * test never modifies the spec - in a git-backed test directory every run
+ * would otherwise leave the file changed. loadTest and listTests merge these
+ * fields back into the metadata.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { TestMetadata } from '../types.js';
+import { withFileLock, writeFileAtomic } from './fileStore.js';
+
+const LAST_RUNS_FILE = 'last-runs.json';
+
+export type LastRun = Pick<TestMetadata, 'lastRunAt' | 'lastRunStatus' | 'lastRunId'>;
+
+function getLastRunsPath(dataDir: string): string {
+  return path.join(dataDir, LAST_RUNS_FILE);
+}
+
+export async function readLastRuns(dataDir: string): Promise<Record<string, LastRun>> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(getLastRunsPath(dataDir), 'utf-8'));
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export async function recordLastRun(dataDir: string, testId: string, lastRun: LastRun): Promise<void> {
+  const filePath = getLastRunsPath(dataDir);
+  await withFileLock(filePath, async () => {
+    const lastRuns = await readLastRuns(dataDir);
+    lastRuns[testId] = lastRun;
+    await writeFileAtomic(filePath, JSON.stringify(lastRuns, null, 2));
+  });
+}
+
+/**
+ * Overlay the recorded last run; headers written before the sidecar existed keep theirs otherwise
+ */
+export function withLastRun(metadata: TestMetadata, lastRun?: LastRun): TestMetadata {
+  return lastRun ? { ...metadata, ...lastRun } : metadata;
+}
@@ -0,0 +1,335 @@
+/**
+ * Manual test scripts - human-readable versions of automated tests for
+ * auditors and manual testers: numbered steps from the QA summaries,
+ * expected results derived from expect() assertions, the success criteria and
+ * the saved step screenshots, as Markdown or a self-contained HTML page.
+ *
+ * Screenshots are embedded as data URIs so each download is a single file.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { TestMetadata, TestStepMetadata } from '../types.js';
+import { listTests, loadTest } from './tests.js';
+import { getCredentialById } from './credentials.js';
+
+export type ManualScriptFormat = 'markdown' | 'html';
+
+export interface ManualScriptStep {
+  number: number;
+  action: string;
+  expected?: string;
+  /** data: URI of the step screenshot */
+  screenshot?: string;
+}
+
+export interface ManualScriptCase {
+  id: string;
+  name: string;
+  description?: string;
+  folder?: string;
+  startUrl?: string;
+  tags?: string[];
+  preconditions: string[];
+  steps: ManualScriptStep[];
+  successCriteria?: string;
+}
+
+export interface ManualScriptDocument {
+  fileName: string;
+  contentType: string;
+  content: string;
+}
+
+function quoted(text: string | undefined): string {
+  return text ? `"${text}"` : 'the element';
+}
+
+/**
+ * Readable name of the first locator in an expect() call
+ */
+function assertionTarget(code: string): string | undefined {
+  return (
+    code.match(/getByRole\([^)]*name:\s*(['"`])(.+?)\1/)?.[2] ??
+    code.match(/getBy(?:Text|Label|Placeholder|TestId|Title|AltText)\(\s*(['"`])(.+?)\1/)?.[2] ??
+    code.match(/locator\(\s*(['"`])(.+?)\1/)?.[2]
+  );
+}
+
+function describeAssertion(line: string): string | null {
+  const match = line.match(/\bexpect(?:\.soft)?\((.*)\)\s*\.(not\.)?(to\w+)\(\s*(?:(['"`])(.*?)\4|\/(.+?)\/\w*|([\d.]+))?/);
+  if (!match) {
+    return null;
+  }
+  const [, subject, negated, matcher, , text, pattern, count] = match;
+  const expected = text ?? pattern ?? count;
+  const target = quoted(assertionTarget(subject));
+  const not = negated ? ' not' : '';
+
+  switch (matcher) {
+    case 'toBeVisible':
+      return `${target} is${not} visible`;
+    case 'toBeHidden':
+      return `${target} is${negated ? '' : ' not'} visible`;
+    case 'toBeEnabled':
+    case 'toBeDisabled':
+    case 'toBeChecked':
+    case 'toBeEditable':
+    case 'toBeFocused':
+      return `${target} is${not} ${matcher.slice(4).toLowerCase()}`;
+    case 'toHaveText':
+    case 'toContainText':
+      return `${target}${negated ? ' does not show' : ' shows'} "${expected ?? ''}"`;
+    case 'toHaveValue':
+      return `${target}${negated ? ' does not contain' : ' contains'} "${expected ?? ''}"`;
+    case 'toHaveCount':
+      return `${target}${negated ? ' does not appear exactly' : ' appears'} ${expected ?? ''} time(s)`;
+    case 'toHaveURL':
+      return `The page address${negated ? ' does not match' : ' matches'} ${expected ?? ''}`.trim();
+    case 'toHaveTitle':
+      return `The page title${negated ? ' is not' : ' is'} "${expected ?? ''}"`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Expected result of a step: one sentence per assertion in its code, or the
+ * step summary itself when the assertion cannot be described
+ */
+export function expectedResultForStep(step: TestStepMetadata): string | undefined {
+  const assertions = step.playwrightCode.split('\n').filter((line) => /\bexpect(\.soft)?\(/.test(line));
+  if (assertions.length === 0) {
+    return undefined;
+  }
+  const described = assertions.map(describeAssertion);
+  if (described.some((sentence) => sentence === null)) {
+    return step.qaSummary;
+  }
+  return described.join('; ');
+}
+
+async function screenshotDataUri(dataDir: string, testId: string, step: TestStepMetadata): Promise<string | undefined> {
+  const relative = step.screenshotPath ?? `screenshots/${testId}/step-${step.number}.jpg`;
+  const resolved = path.resolve(dataDir, relative);
+  if (!resolved.startsWith(path.resolve(dataDir, 'screenshots') + path.sep)) {
+    return undefined;
+  }
+  try {
+    const image = await fs.readFile(resolved);
+    const mime = /\.png$/i.test(resolved) ? 'image/png' : 'image/jpeg';
+    return `data:${mime};base64,${image.toString('base64')}`;
+  } catch {
+    return undefined;
+  }
+}
+
+export async function buildManualScriptCase(dataDir: string, metadata: TestMetadata): Promise<ManualScriptCase> {
+  const preconditions: string[] = [];
+  if (metadata.startUrl) {
+    preconditions.push(`Open ${metadata.startUrl} in a browser`);
+  }
+  if (metadata.credentialId) {
+    const credential = await getCredentialById(dataDir, metadata.credentialId).catch(() => null);
+    preconditions.push(
+      credential ? `Sign-in credential: "${credential.name}" (username ${credential.username})` : 'Requires a sign-in credential'
+    );
+  }
+  if (metadata.variables?.length) {
+    preconditions.push(
+      `Repeat for each row of test data; {{placeholders}} stand for its ${metadata.variables
+        .map((variable) => variable.name)
+        .join(', ')} values`
+    );
+  }
+
+  const steps: ManualScriptStep[] = [];
+  for (const step of metadata.steps ?? []) {
+    steps.push({
+      number: step.number,
+      action: step.qaSummary,
+      expected: expectedResultForStep(step),
+      screenshot: await screenshotDataUri(dataDir, metadata.id, step)
+    });
+  }
+
+  return {
+    id: metadata.id,
+    name: metadata.name,
+    description: metadata.description,
+    folder: metadata.folder ?? undefined,
+    startUrl: metadata.startUrl,
+    tags: metadata.tags,
+    preconditions,
+    steps,
+    successCriteria: metadata.successCriteria
+  };
+}
+
+export function renderManualScriptMarkdown(title: string, cases: ManualScriptCase[]): string {
+  const lines: string[] = [];
+  const multiple = cases.length > 1;
+  const heading = multiple ? '##' : '#';
+
+  if (multiple) {
+    lines.push(`# ${title}`, '', ...cases.map((testCase, index) => `${index + 1}. ${testCase.name}`), '');
+  }
+
+  for (const testCase of cases) {
+    lines.push(`${heading} ${testCase.name}`, '');
+    if (testCase.description) {
+      lines.push(testCase.description, '');
+    }
+    const facts = [
+      `**Test ID:** ${testCase.id}`,
+      testCase.folder ? `**Folder:** ${testCase.folder}` : '',
+      testCase.tags?.length ? `**Tags:** ${testCase.tags.join(', ')}` : ''
+    ].filter(Boolean);
+    lines.push(facts.join('  \n'), '');
+
+    if (testCase.preconditions.length) {
+      lines.push(`${heading}# Preconditions`, '', ...testCase.preconditions.map((item) => `- ${item}`), '');
+    }
+
+    lines.push(`${heading}# Steps`, '');
+    if (testCase.steps.length === 0) {
+      lines.push('_No steps recorded._', '');
+    }
+    for (const step of testCase.steps) {
+      lines.push(`${step.number}. ${step.action}`);
+      if (step.expected) {
+        lines.push(`   - **Expected:** ${step.expected}`);
+      }
+      if (step.screenshot) {
+        lines.push('', `   ![Step ${step.number}](${step.screenshot})`);
+      }
+      lines.push('');
+    }
+
+    if (testCase.successCriteria) {
+      lines.push(`${heading}# Expected outcome`, '', testCase.successCriteria, '');
+    }
+  }
+
+  return `${lines.join('\n').trimEnd()}\n`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function renderManualScriptHtml(title: string, cases: ManualScriptCase[]): string {
+  const sections = cases.map((testCase) => {
+    const facts = [
+      `<strong>Test ID:</strong> ${escapeHtml(testCase.id)}`,
+      testCase.folder ? `<strong>Folder:</strong> ${escapeHtml(testCase.folder)}` : '',
+      testCase.tags?.length ? `<strong>Tags:</strong> ${escapeHtml(testCase.tags.join(', '))}` : ''
+    ].filter(Boolean);
+    const steps = testCase.steps.map(
+      (step) => `<li value="${step.number}">
+        <p>${escapeHtml(step.action)}</p>${
+          step.expected ? `\n        <p class="expected"><strong>Expected:</strong> ${escapeHtml(step.expected)}</p>` : ''
+        }${step.screenshot ? `\n        <img src="${step.screenshot}" alt="Step ${step.number} screenshot">` : ''}
+      </li>`
+    );
+
+    return `<section id="${escapeHtml(testCase.id)}">
+    <h2>${escapeHtml(testCase.name)}</h2>${
+      testCase.description ? `\n    <p>${escapeHtml(testCase.description)}</p>` : ''
+    }
+    <p class="facts">${facts.join(' &middot; ')}</p>${
+      testCase.preconditions.length
+        ? `\n    <h3>Preconditions</h3>\n    <ul>${testCase.preconditions.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`
+        : ''
+    }
+    <h3>Steps</h3>
+    ${steps.length ? `<ol>\n      ${steps.join('\n      ')}\n    </ol>` : '<p><em>No steps recorded.</em></p>'}${
+      testCase.successCriteria
+        ? `\n    <h3>Expected outcome</h3>\n    <p>${escapeHtml(testCase.successCriteria)}</p>`
+        : ''
+    }
+  </section>`;
+  });
+
+  const contents =
+    cases.length > 1
+      ? `\n  <nav><ol>${cases
+          .map((testCase) => `<li><a href="#${escapeHtml(testCase.id)}">${escapeHtml(testCase.name)}</a></li>`)
+          .join('')}</ol></nav>`
+      : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #1f2937; line-height: 1.5; }
+    section { border-top: 1px solid #e5e7eb; padding-top: 1rem; margin-top: 2rem; page-break-before: auto; }
+    .facts { color: #4b5563; font-size: 0.9rem; }
+    ol > li { margin-bottom: 1rem; }
+    .expected { color: #065f46; }
+    img { max-width: 100%; border: 1px solid #d1d5db; border-radius: 4px; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>${contents}
+  ${sections.join('\n  ')}
+</body>
+</html>
+`;
+}
+
+function slugify(name: string): string {
+  return (
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60) || 'tests'
+  );
+}
+
+/**
+ * Manual script for one test, or for every test in a folder (including subfolders)
+ */
+export async function generateManualScript(
+  dataDir: string,
+  scope: { testId: string } | { folder: string },
+  format: ManualScriptFormat
+): Promise<ManualScriptDocument> {
+  let title: string;
+  let tests: TestMetadata[];
+  if ('testId' in scope) {
+    let metadata: TestMetadata;
+    try {
+      ({ metadata } = await loadTest(dataDir, scope.testId));
+    } catch {
+      throw new Error(`Test not found: ${scope.testId}`);
+    }
+    title = metadata.name;
+    tests = [metadata];
+  } else {
+    title = `${scope.folder} test scripts`;
+    tests = (await listTests(dataDir))
+      .filter((test) => test.folder === scope.folder || test.folder?.startsWith(`${scope.folder}/`))
+      .sort((a, b) => (a.folder ?? '').localeCompare(b.folder ?? '') || a.name.localeCompare(b.name));
+    if (tests.length === 0) {
+      throw new Error(`Folder not found or empty: ${scope.folder}`);
+    }
+  }
+
+  const cases: ManualScriptCase[] = [];
+  for (const metadata of tests) {
+    cases.push(await buildManualScriptCase(dataDir, metadata));
+  }
+
+  const baseName = `${slugify('testId' in scope ? scope.testId : scope.folder)}-manual-test`;
+  return format === 'html'
+    ? { fileName: `${baseName}.html`, contentType: 'text/html; charset=utf-8', content: renderManualScriptHtml(title, cases) }
+    : { fileName: `${baseName}.md`, contentType: 'text/markdown; charset=utf-8', content: renderManualScriptMarkdown(title, cases) };
+}
@@ -0,0 +1,258 @@
+/**
+ * Test metadata header - parsing, validation and migrations
+ *
+ * Every spec starts with a `// === TRAILWRIGHT_METADATA ===` comment block holding
+ * the TestMetadata JSON. Headers written before `metadataVersion` existed count as
+ * version 1 and are upgraded in memory when loaded; the next save writes the
+ * current version.
+ */
+
+import type { Test, TestMetadata } from '../types.js';
+import { parseRunExecutionSettings } from '../playwright/executionSettings.js';
+
+export const METADATA_DELIMITER = '// === TRAILWRIGHT_METADATA ===';
+export const CURRENT_METADATA_VERSION = 2;
+
+export class TestMetadataError extends Error {
+  constructor(
+    public readonly testId: string,
+    public readonly issues: string[]
+  ) {
+    super(`Invalid metadata in ${testId}: ${issues.join('; ')}`);
+    this.name = 'TestMetadataError';
+  }
+}
+
+interface MetadataMigration {
+  from: number;
+  migrate: (metadata: Record<string, any>, testId: string) => Record<string, any>;
+}
+
+/**
+ * Ordered upgrade steps; each takes metadata at `from` and returns `from + 1`
+ */
+const MIGRATIONS: MetadataMigration[] = [
+  {
+    // v1: unversioned headers. Older tools could leave id/name/createdAt out, wrote tags
+    // as a comma-separated string, skipped step numbers and used "" for "no folder".
+    from: 1,
+    migrate: (metadata, testId) => ({
+      ...metadata,
+      id: metadata.id === undefined || metadata.id === '' ? testId : metadata.id,
+      name: metadata.name === undefined || metadata.name === '' ? testId : metadata.name,
+      createdAt:
+        metadata.createdAt === undefined || metadata.createdAt === ''
+          ? metadata.updatedAt || metadata.lastRunAt || new Date().toISOString()
+          : metadata.createdAt,
+      tags:
+        typeof metadata.tags === 'string'
+          ? metadata.tags.split(',').map((tag: string) => tag.trim()).filter(Boolean)
+          : metadata.tags,
+      folder: metadata.folder === '' ? null : metadata.folder,
+      steps: Array.isArray(metadata.steps)
+        ? metadata.steps.map((step: any, index: number) =>
+            step && typeof step === 'object' && typeof step.number !== 'number'
+              ? { ...step, number: index + 1 }
+              : step
+          )
+        : metadata.steps
+    })
+  }
+];
+
+const OPTIONAL_STRING_FIELDS = [
+  'description',
+  'prompt',
+  'successCriteria',
+  'updatedAt',
+  'lastRunAt',
+  'lastRunStatus',
+  'lastRunId',
+  'credentialId',
+  'startUrl',
+  'dataSource'
+] as const;
+
+/**
+ * Check a parsed header against the TestMetadata shape. Returns a list of problems (empty when valid).
+ */
+export function validateTestMetadata(value: unknown): string[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return ['metadata must be a JSON object'];
+  }
+
+  const metadata = value as Record<string, any>;
+  const errors: string[] = [];
+
+  if (typeof metadata.id !== 'string' || !metadata.id.trim()) {
+    errors.push('id must be a non-empty string');
+  }
+  if (typeof metadata.name !== 'string') {
+    errors.push('name must be a string');
+  }
+  if (typeof metadata.createdAt !== 'string' || Number.isNaN(new Date(metadata.createdAt).getTime())) {
+    errors.push('createdAt must be an ISO date string');
+  }
+  for (const field of OPTIONAL_STRING_FIELDS) {
+    if (metadata[field] !== undefined && typeof metadata[field] !== 'string') {
+      errors.push(`${field} must be a string`);
+    }
+  }
+  if (metadata.folder !== undefined && metadata.folder !== null && typeof metadata.folder !== 'string') {
+    errors.push('folder must be a string or null');
+  }
+  if (metadata.tags !== undefined && (!Array.isArray(metadata.tags) || metadata.tags.some((tag: unknown) => typeof tag !== 'string'))) {
+    errors.push('tags must be an array of strings');
+  }
+  if (metadata.metadataVersion !== undefined && !Number.isInteger(metadata.metadataVersion)) {
+    errors.push('metadataVersion must be an integer');
+  }
+
+  if (metadata.steps !== undefined) {
+    if (!Array.isArray(metadata.steps)) {
+      errors.push('steps must be an array');
+    } else {
+      metadata.steps.forEach((step: any, index: number) => {
+        if (
+          !step ||
+          typeof step.number !== 'number' ||
+          typeof step.qaSummary !== 'string' ||
+          typeof step.playwrightCode !== 'string'
+        ) {
+          errors.push(`steps[${index}] must have number, qaSummary and playwrightCode`);
+        }
+      });
+    }
+  }
+
+  if (metadata.execution !== undefined) {
+    try {
+      parseRunExecutionSettings(metadata.execution);
+    } catch (error) {
+      errors.push((error as Error).message);
+    }
+  }
+
+  if (metadata.variables !== undefined) {
+    if (!Array.isArray(metadata.variables)) {
+      errors.push('variables must be an array');
+    } else {
+      metadata.variables.forEach((variable: any, index: number) => {
+        if (!variable || typeof variable.name !== 'string' || !variable.name) {
+          errors.push(`variables[${index}] must have a name`);
+        }
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Upgrade metadata to CURRENT_METADATA_VERSION. Headers from a newer build are left alone.
+ */
+export function migrateTestMetadata(
+  metadata: Record<string, any>,
+  testId: string
+): { metadata: Record<string, any>; fromVersion: number } {
+  const fromVersion = Number.isInteger(metadata.metadataVersion) ? metadata.metadataVersion : 1;
+  let current = metadata;
+  let version = fromVersion;
+
+  for (const migration of MIGRATIONS) {
+    if (migration.from === version) {
+      current = migration.migrate(current, testId);
+      version = migration.from + 1;
+    }
+  }
+
+  return {
+    metadata: { ...current, metadataVersion: Math.max(version, CURRENT_METADATA_VERSION) },
+    fromVersion
+  };
+}
+
+/**
+ * Locate the metadata comment at the top of a spec.
+ *
+ * Accepts the layouts TrailWright has written over time: JSON lines with or
+ * without a leading ` * `, and the delimiter with or without one.
+ */
+export function extractMetadataHeader(
+  content: string
+): { json: string; code: string } | null {
+  const start = content.indexOf('/**');
+  const delimiterIndex = content.indexOf(METADATA_DELIMITER);
+  if (start === -1 || delimiterIndex === -1 || content.slice(0, start).trim() || delimiterIndex < start) {
+    return null;
+  }
+  // The delimiter has to sit inside that first comment, not further down in the code
+  if (content.slice(start, delimiterIndex).includes('*/')) {
+    return null;
+  }
+
+  const afterDelimiter = delimiterIndex + METADATA_DELIMITER.length;
+  const endMatch = /\n\s*\*\//.exec(content.slice(afterDelimiter));
+  if (!endMatch) {
+    return null;
+  }
+
+  const headerEnd = afterDelimiter + endMatch.index + endMatch[0].length;
+  const json = content
+    .slice(afterDelimiter, afterDelimiter + endMatch.index)
+    .split('\n')
+    .map((line) => line.replace(/^\s*\*\s?/, ''))
+    .join('\n')
+    .trim();
+
+  return { json, code: content.slice(headerEnd).trim() };
+}
+
+export interface ParsedTestContent {
+  test: Test;
+  /** metadataVersion the file was written with */
+  fromVersion: number;
+}
+
+/**
+ * Parse a spec file into metadata + code, migrating old headers.
+ * Throws TestMetadataError when the header exists but is unreadable or invalid.
+ * Specs without any header get minimal metadata so hand-written files still show up.
+ */
+export function parseTestContent(content: string, testId: string): ParsedTestContent {
+  const header = extractMetadataHeader(content);
+
+  if (!header) {
+    return {
+      test: {
+        metadata: {
+          id: testId,
+          name: testId,
+          createdAt: new Date().toISOString(),
+          metadataVersion: CURRENT_METADATA_VERSION
+        },
+        code: content
+      },
+      fromVersion: CURRENT_METADATA_VERSION
+    };
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(header.json);
+  } catch (error: any) {
+    throw new TestMetadataError(testId, [`metadata is not valid JSON (${error?.message ?? 'parse error'})`]);
+  }
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new TestMetadataError(testId, ['metadata must be a JSON object']);
+  }
+
+  const { metadata, fromVersion } = migrateTestMetadata(raw as Record<string, any>, testId);
+  const errors = validateTestMetadata(metadata);
+  if (errors.length > 0) {
+    throw new TestMetadataError(testId, errors);
+  }
+
+  return { test: { metadata: metadata as TestMetadata, code: header.code }, fromVersion };
+}
@@ -0,0 +1,308 @@
+/**
+ * Projects - separate workspaces inside one TrailWright data directory
+ *
+ * Each project lives in `<root>/projects/<id>/` and is a complete data
+ * directory of its own (tests, runs, test-data, screenshots, credentials,
+ * config.json with base URLs and defaults), so every store keeps taking a
+ * plain `dataDir`. The list of projects is kept in `<root>/projects.json`.
+ * Playwright and the credential helper are installed once at the root.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { Project, ProjectSummary } from '../types.js';
+import { ensureDataDirectory, getTestsDirectory, loadConfig, type Config } from './config.js';
+import { withFileLock, writeFileAtomic } from './fileStore.js';
+
+export const DEFAULT_PROJECT_ID = 'default';
+const DEFAULT_PROJECT_NAME = 'Default';
+const PROJECTS_FILE = 'projects.json';
+const PROJECTS_DIR = 'projects';
+
+// Everything that belonged to the single workspace before projects existed
+const LEGACY_PROJECT_ENTRIES = [
+  'tests',
+  'runs',
+  'test-data',
+  'screenshots',
+  'revisions',
+  'trash',
+  'folders.json',
+  'config.json',
+  'credentials.enc',
+  'credentials.key',
+  'playwright.config.js',
+  'trailwright-reporter.js'
+];
+
+// Settings a new project inherits so the AI provider doesn't have to be configured again
+const INHERITED_SETTINGS: Array<keyof Config> = [
+  'apiProvider',
+  'apiKey',
+  'anthropicModel',
+  'openaiModel',
+  'geminiModel',
+  'defaultBrowser'
+];
+
+// Specs generated before projects read their CSV from ~/.trailwright/test-data
+const LEGACY_DATA_PATH =
+  /const dataPath = join\(process\.env\.HOME \|\| process\.env\.USERPROFILE \|\| '', '\.trailwright\/test-data\/([^']+)'\);/g;
+
+export interface ProjectInput {
+  name: string;
+  description?: string;
+  defaultStartUrl?: string;
+  baseUrl?: string;
+}
+
+async function pathExists(target: string): Promise<boolean> {
+  try {
+    await fs.access(target);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function getProjectDirectory(rootDir: string, projectId: string): string {
+  if (!/^[a-z0-9][a-z0-9-]*$/.test(projectId)) {
+    throw new Error('Invalid project id');
+  }
+  return path.join(rootDir, PROJECTS_DIR, projectId);
+}
+
+async function readProjects(rootDir: string): Promise<Project[] | null> {
+  try {
+    const content = await fs.readFile(path.join(rootDir, PROJECTS_FILE), 'utf-8');
+    const parsed = JSON.parse(content);
+    return Array.isArray(parsed?.projects) ? parsed.projects : [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function writeProjects(rootDir: string, projects: Project[]): Promise<void> {
+  await writeFileAtomic(path.join(rootDir, PROJECTS_FILE), JSON.stringify({ projects }, null, 2));
+}
+
+/**
+ * Read-modify-write projects.json under its lock
+ */
+async function updateProjects<T>(
+  rootDir: string,
+  update: (projects: Project[]) => Promise<{ projects: Project[]; result: T }>
+): Promise<T> {
+  return withFileLock(path.join(rootDir, PROJECTS_FILE), async () => {
+    const current = (await readProjects(rootDir)) ?? [];
+    const { projects, result } = await update(current);
+    await writeProjects(rootDir, projects);
+    return result;
+  });
+}
+
+/**
+ * Point specs generated before projects existed at the project's own test-data folder
+ */
+async function upgradeLegacyDataPaths(projectDir: string): Promise<number> {
+  const testsDir = await getTestsDirectory(projectDir);
+  let files: string[];
+  try {
+    files = (await fs.readdir(testsDir)).filter((file) => file.endsWith('.spec.ts'));
+  } catch {
+    return 0;
+  }
+
+  let upgraded = 0;
+  for (const file of files) {
+    const filePath = path.join(testsDir, file);
+    const content = await fs.readFile(filePath, 'utf-8');
+    const updated = content.replace(
+      LEGACY_DATA_PATH,
+      (_match, csvFile: string) =>
+        `const dataPath = process.env.TRAILWRIGHT_PROJECT_DIR\n` +
+        `  ? join(process.env.TRAILWRIGHT_PROJECT_DIR, 'test-data/${csvFile}')\n` +
+        `  : join(process.env.HOME || process.env.USERPROFILE || '', '.trailwright/test-data/${csvFile}');`
+    );
+    if (updated !== content) {
+      await writeFileAtomic(filePath, updated);
+      upgraded++;
+    }
+  }
+  return upgraded;
+}
+
+/**
+ * Make sure projects.json exists. On first start after upgrading, the flat
+ * data directory (tests, runs, credentials, config, ...) becomes the Default project.
+ */
+export async function migrateToProjects(rootDir: string): Promise<Project[]> {
+  return withFileLock(path.join(rootDir, PROJECTS_FILE), async () => {
+    const existing = await readProjects(rootDir);
+    if (existing && existing.length > 0) {
+      return existing;
+    }
+
+    const projectDir = getProjectDirectory(rootDir, DEFAULT_PROJECT_ID);
+    await fs.mkdir(projectDir, { recursive: true });
+
+    let moved = 0;
+    for (const entry of LEGACY_PROJECT_ENTRIES) {
+      const source = path.join(rootDir, entry);
+      const destination = path.join(projectDir, entry);
+      if ((await pathExists(source)) && !(await pathExists(destination))) {
+        await fs.rename(source, destination);
+        moved++;
+      }
+    }
+    if (moved > 0) {
+      const upgraded = await upgradeLegacyDataPaths(projectDir);
+      console.log(
+        `[projects] Moved existing data into the "${DEFAULT_PROJECT_NAME}" project` +
+          (upgraded ? ` (updated the test-data path in ${upgraded} spec(s))` : '')
+      );
+    }
+
+    const projects: Project[] = [
+      { id: DEFAULT_PROJECT_ID, name: DEFAULT_PROJECT_NAME, createdAt: new Date().toISOString() }
+    ];
+    await writeProjects(rootDir, projects);
+    return projects;
+  });
+}
+
+async function countTests(projectDir: string): Promise<number> {
+  try {
+    const files = await fs.readdir(await getTestsDirectory(projectDir));
+    return files.filter((file) => file.endsWith('.spec.ts')).length;
+  } catch {
+    return 0;
+  }
+}
+
+export async function listProjects(rootDir: string): Promise<ProjectSummary[]> {
+  const projects = (await readProjects(rootDir)) ?? [];
+  return Promise.all(
+    projects.map(async (project) => ({
+      ...project,
+      testCount: await countTests(getProjectDirectory(rootDir, project.id))
+    }))
+  );
+}
+
+export async function getProject(rootDir: string, projectId: string): Promise<Project | null> {
+  const projects = (await readProjects(rootDir)) ?? [];
+  return projects.find((project) => project.id === projectId) ?? null;
+}
+
+function slugify(name: string): string {
+  return (
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 40) || 'project'
+  );
+}
+
+export async function createProject(rootDir: string, input: ProjectInput): Promise<Project> {
+  const name = input.name?.trim();
+  if (!name) {
+    throw new Error('Project name is required');
+  }
+
+  return updateProjects(rootDir, async (projects) => {
+    if (projects.some((project) => project.name.toLowerCase() === name.toLowerCase())) {
+      throw new Error(`Project already exists: ${name}`);
+    }
+
+    const base = slugify(name);
+    let id = base;
+    for (let suffix = 2; projects.some((project) => project.id === id); suffix++) {
+      id = `${base}-${suffix}`;
+    }
+
+    const inherited: Partial<Config> = {};
+    const defaultConfig = await loadConfig(getProjectDirectory(rootDir, DEFAULT_PROJECT_ID)).catch(() => null);
+    for (const key of INHERITED_SETTINGS) {
+      if (defaultConfig?.[key] !== undefined) {
+        (inherited as Record<string, unknown>)[key] = defaultConfig[key];
+      }
+    }
+
+    await ensureDataDirectory(getProjectDirectory(rootDir, id), {
+      defaults: {
+        ...inherited,
+        ...(input.defaultStartUrl?.trim() ? { defaultStartUrl: input.defaultStartUrl.trim() } : {}),
+        ...(input.baseUrl?.trim() ? { baseUrl: input.baseUrl.trim() } : {})
+      }
+    });
+
+    const project: Project = {
+      id,
+      name,
+      ...(input.description?.trim() ? { description: input.description.trim() } : {}),
+      createdAt: new Date().toISOString()
+    };
+    return { projects: [...projects, project], result: project };
+  });
+}
+
+export async function updateProject(
+  rootDir: string,
+  projectId: string,
+  updates: Pick<Partial<ProjectInput>, 'name' | 'description'>
+): Promise<Project> {
+  return updateProjects(rootDir, async (projects) => {
+    const index = projects.findIndex((project) => project.id === projectId);
+    if (index === -1) {
+      throw new Error(`Project not found: ${projectId}`);
+    }
+
+    const name = updates.name?.trim();
+    if (updates.name !== undefined && !name) {
+      throw new Error('Project name is required');
+    }
+    if (name && projects.some((project) => project.id !== projectId && project.name.toLowerCase() === name.toLowerCase())) {
+      throw new Error(`Project already exists: ${name}`);
+    }
+
+    const updated: Project = {
+      ...projects[index],
+      ...(name ? { name } : {}),
+      ...(updates.description !== undefined ? { description: updates.description.trim() || undefined } : {}),
+      updatedAt: new Date().toISOString()
+    };
+    const next = [...projects];
+    next[index] = updated;
+    return { projects: next, result: updated };
+  });
+}
+
+/**
+ * Delete a project and its data directory. The Default project and projects
+ * that still contain tests cannot be deleted.
+ */
+export async function deleteProject(rootDir: string, projectId: string): Promise<void> {
+  if (projectId === DEFAULT_PROJECT_ID) {
+    throw new Error('The Default project cannot be deleted');
+  }
+
+  await updateProjects(rootDir, async (projects) => {
+    if (!projects.some((project) => project.id === projectId)) {
+      throw new Error(`Project not found: ${projectId}`);
+    }
+
+    const projectDir = getProjectDirectory(rootDir, projectId);
+    const testCount = await countTests(projectDir);
+    if (testCount > 0) {
+      throw new Error(`Project is not empty: it contains ${testCount} test(s)`);
+    }
+
+    await fs.rm(projectDir, { recursive: true, force: true });
+    return { projects: projects.filter((project) => project.id !== projectId), result: undefined };
+  });
+}
@@ -0,0 +1,143 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { Test, TestMetadata, TestRevision, TestRevisionSummary, TestRevisionDiff } from '../types.js';
+import { diffLines } from '../utils/lineDiff.js';
+import { writeFileAtomic } from './fileStore.js';
+
+const REVISIONS_DIR = 'revisions';
+const MAX_REVISIONS_PER_TEST = 100;
+
+// Run bookkeeping rewritten after every run – not a content change worth a revision
+const VOLATILE_METADATA_FIELDS: Array<keyof TestMetadata> = ['lastRunAt', 'lastRunStatus', 'lastRunId', 'updatedAt', 'metadataVersion'];
+
+export function getRevisionsDirectory(dataDir: string, testId: string): string {
+  return path.join(dataDir, REVISIONS_DIR, testId);
+}
+
+function stableMetadata(metadata: TestMetadata): Partial<TestMetadata> {
+  const copy: Partial<TestMetadata> = { ...metadata };
+  for (const field of VOLATILE_METADATA_FIELDS) {
+    delete copy[field];
+  }
+  return copy;
+}
+
+function fingerprint(test: Pick<Test, 'metadata' | 'code'>): string {
+  return JSON.stringify({ metadata: stableMetadata(test.metadata), code: test.code });
+}
+
+function toSummary(revision: TestRevision): TestRevisionSummary {
+  return {
+    id: revision.id,
+    testId: revision.testId,
+    createdAt: revision.createdAt,
+    action: revision.action,
+    name: revision.name,
+    stepCount: revision.stepCount
+  };
+}
+
+async function readRevisions(dataDir: string, testId: string): Promise<TestRevision[]> {
+  const dir = getRevisionsDirectory(dataDir, testId);
+  let files: string[];
+  try {
+    files = await fs.readdir(dir);
+  } catch {
+    return [];
+  }
+
+  const revisions = await Promise.all(
+    files
+      .filter((file) => file.endsWith('.json'))
+      .map(async (file): Promise<TestRevision | null> => {
+        try {
+          return JSON.parse(await fs.readFile(path.join(dir, file), 'utf-8'));
+        } catch {
+          return null;
+        }
+      })
+  );
+
+  // Newest first; ids start with a zero-padded sequence number so they sort chronologically
+  return revisions
+    .filter((revision): revision is TestRevision => revision !== null)
+    .sort((a, b) => b.id.localeCompare(a.id));
+}
+
+export async function listRevisions(dataDir: string, testId: string): Promise<TestRevisionSummary[]> {
+  const revisions = await readRevisions(dataDir, testId);
+  return revisions.map(toSummary);
+}
+
+export async function loadRevision(dataDir: string, testId: string, revisionId: string): Promise<TestRevision> {
+  if (!/^[\w.-]+$/.test(revisionId)) {
+    throw new Error('Invalid revision id');
+  }
+  const filePath = path.join(getRevisionsDirectory(dataDir, testId), `${revisionId}.json`);
+  const content = await fs.readFile(filePath, 'utf-8');
+  return JSON.parse(content);
+}
+
+/**
+ * Append a revision for the given test content.
+ * Returns null when nothing changed since the latest revision.
+ */
+export async function recordRevision(dataDir: string, test: Test, action: string): Promise<TestRevision | null> {
+  const testId = test.metadata.id;
+  const existing = await readRevisions(dataDir, testId);
+  if (existing[0] && fingerprint(existing[0]) === fingerprint(test)) {
+    return null;
+  }
+
+  const createdAt = new Date().toISOString();
+  const sequence = existing[0] ? Number.parseInt(existing[0].id, 10) + 1 || existing.length + 1 : 1;
+  const revision: TestRevision = {
+    id: `${String(sequence).padStart(6, '0')}-${createdAt.replace(/[:.]/g, '-')}`,
+    testId,
+    createdAt,
+    action,
+    name: test.metadata.name,
+    stepCount: test.metadata.steps?.length ?? 0,
+    metadata: test.metadata,
+    code: test.code
+  };
+
+  const dir = getRevisionsDirectory(dataDir, testId);
+  await fs.mkdir(dir, { recursive: true });
+  await writeFileAtomic(path.join(dir, `${revision.id}.json`), JSON.stringify(revision, null, 2));
+
+  // Keep the log bounded – drop the oldest revisions
+  for (const stale of existing.slice(MAX_REVISIONS_PER_TEST - 1)) {
+    await fs.rm(path.join(dir, `${stale.id}.json`), { force: true });
+  }
+
+  return revision;
+}
+
+/**
+ * Record the version currently on disk if it never made it into the log,
+ * e.g. a test saved before history existed or edited in an external editor.
+ */
+export async function recordUntrackedVersion(dataDir: string, current: Test): Promise<void> {
+  const existing = await readRevisions(dataDir, current.metadata.id);
+  if (existing[0] && fingerprint(existing[0]) === fingerprint(current)) {
+    return;
+  }
+  await recordRevision(dataDir, current, existing.length ? 'external edit' : 'original version');
+}
+
+export function diffTests(
+  from: Pick<Test, 'metadata' | 'code'>,
+  to: Pick<Test, 'metadata' | 'code'>,
+  labels: { from: string; to: string }
+): TestRevisionDiff {
+  return {
+    from: labels.from,
+    to: labels.to,
+    metadata: diffLines(
+      JSON.stringify(stableMetadata(from.metadata), null, 2),
+      JSON.stringify(stableMetadata(to.metadata), null, 2)
+    ),
+    code: diffLines(from.code, to.code)
+  };
+}
@@ -1,5 +1,6 @@
 import fs from 'fs/promises';
 import path from 'path';
+import { writeFileAtomic } from './fileStore.js';
 
 /**
  * Save a base64-encoded screenshot to disk.
@@ -20,7 +21,7 @@ export async function saveScreenshot(
 
   const filename = `step-${stepNumber}.jpg`;
   const filePath = path.join(screenshotsDir, filename);
-  await fs.writeFile(filePath, buffer);
+  await writeFileAtomic(filePath, buffer);
 
   // Return relative path for storage in metadata
   return `screenshots/${testId}/${filename}`;
@@ -0,0 +1,214 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { Test, TestSearchField, TestSearchHit, TestSearchMatch } from '../types.js';
+import { getTestsDirectory } from './config.js';
+import { loadTest } from './tests.js';
+
+const FIELD_WEIGHTS: Record<TestSearchField, number> = {
+  name: 10,
+  step: 5,
+  description: 4,
+  prompt: 3,
+  successCriteria: 3,
+  code: 1
+};
+
+const SNIPPET_RADIUS = 60;
+const MAX_MATCHES_PER_FIELD = 3;
+const DEFAULT_LIMIT = 50;
+
+// Parsed tests keyed by file path; reparsed only when the file's mtime or size changes
+const testCache = new Map<string, { mtimeMs: number; size: number; test: Test }>();
+
+async function loadSearchableTests(dataDir: string): Promise<Test[]> {
+  const testsDir = await getTestsDirectory(dataDir);
+  let files: string[];
+  try {
+    files = (await fs.readdir(testsDir)).filter((file) => file.endsWith('.spec.ts'));
+  } catch {
+    return [];
+  }
+
+  const tests = await Promise.all(
+    files.map(async (file) => {
+      const filePath = path.join(testsDir, file);
+      try {
+        const { mtimeMs, size } = await fs.stat(filePath);
+        const cached = testCache.get(filePath);
+        if (cached && cached.mtimeMs === mtimeMs && cached.size === size) {
+          return cached.test;
+        }
+        const test = await loadTest(dataDir, file.replace(/\.spec\.ts$/, ''));
+        testCache.set(filePath, { mtimeMs, size, test });
+        return test;
+      } catch {
+        testCache.delete(filePath);
+        return null;
+      }
+    })
+  );
+
+  return tests.filter((test): test is Test => test !== null);
+}
+
+export function tokenizeQuery(query: string): string[] {
+  return Array.from(
+    new Set(
+      query
+        .toLowerCase()
+        .split(/\s+/)
+        .map((term) => term.trim())
+        .filter(Boolean)
+    )
+  );
+}
+
+function findHighlights(text: string, terms: string[]): Array<[number, number]> {
+  const lower = text.toLowerCase();
+  const ranges: Array<[number, number]> = [];
+  for (const term of terms) {
+    let index = lower.indexOf(term);
+    while (index !== -1) {
+      ranges.push([index, index + term.length]);
+      index = lower.indexOf(term, index + term.length);
+    }
+  }
+
+  // Merge overlapping ranges so the client can render them in order
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  }
+  return merged;
+}
+
+function buildSnippet(text: string, terms: string[]): Pick<TestSearchMatch, 'snippet' | 'highlights'> | null {
+  const all = findHighlights(text, terms);
+  if (all.length === 0) {
+    return null;
+  }
+
+  const start = Math.max(0, all[0][0] - SNIPPET_RADIUS);
+  const end = Math.min(text.length, all[0][1] + SNIPPET_RADIUS);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const snippet = prefix + text.slice(start, end).replace(/\s+/g, ' ') + suffix;
+
+  return { snippet, highlights: findHighlights(snippet, terms) };
+}
+
+function termsIn(text: string | undefined, terms: string[]): Set<string> {
+  const found = new Set<string>();
+  if (!text) {
+    return found;
+  }
+  const lower = text.toLowerCase();
+  terms.forEach((term) => {
+    if (lower.includes(term)) {
+      found.add(term);
+    }
+  });
+  return found;
+}
+
+function scoreTest(test: Test, terms: string[], phrase: string): TestSearchHit | null {
+  const { metadata, code } = test;
+  const matches: TestSearchMatch[] = [];
+  const bestWeightByTerm = new Map<string, number>();
+
+  const note = (field: TestSearchField, found: Set<string>) => {
+    found.forEach((term) => {
+      bestWeightByTerm.set(term, Math.max(bestWeightByTerm.get(term) ?? 0, FIELD_WEIGHTS[field]));
+    });
+  };
+
+  const textFields: Array<Exclude<TestSearchField, 'step' | 'code'>> = ['name', 'description', 'prompt', 'successCriteria'];
+  for (const field of textFields) {
+    const text = metadata[field];
+    const found = termsIn(text, terms);
+    if (text && found.size > 0) {
+      note(field, found);
+      const snippet = buildSnippet(text, terms);
+      if (snippet) {
+        matches.push({ field, ...snippet });
+      }
+    }
+  }
+
+  let stepMatches = 0;
+  for (const step of metadata.steps ?? []) {
+    const found = termsIn(step.qaSummary, terms);
+    if (found.size === 0) continue;
+    note('step', found);
+    if (stepMatches++ < MAX_MATCHES_PER_FIELD) {
+      matches.push({
+        field: 'step',
+        stepNumber: step.number,
+        snippet: step.qaSummary,
+        highlights: findHighlights(step.qaSummary, terms)
+      });
+    }
+  }
+
+  let codeMatches = 0;
+  const lines = code.split('\n');
+  for (let index = 0; index < lines.length && codeMatches < MAX_MATCHES_PER_FIELD; index++) {
+    const found = termsIn(lines[index], terms);
+    if (found.size === 0) continue;
+    note('code', found);
+    const snippet = buildSnippet(lines[index].trim(), terms);
+    if (snippet) {
+      matches.push({ field: 'code', line: index + 1, ...snippet });
+      codeMatches++;
+    }
+  }
+  if (codeMatches === MAX_MATCHES_PER_FIELD) {
+    note('code', termsIn(code, terms));
+  }
+
+  // Every term has to appear somewhere in the test
+  if (bestWeightByTerm.size < terms.length) {
+    return null;
+  }
+
+  let score = Array.from(bestWeightByTerm.values()).reduce((sum, weight) => sum + weight, 0);
+  const name = metadata.name.toLowerCase();
+  if (name === phrase) {
+    score += 20;
+  } else if (name.includes(phrase)) {
+    score += 10;
+  }
+  score += Math.min(stepMatches, 5);
+
+  return { test: metadata, score, matches };
+}
+
+/**
+ * Rank tests against a free-text query. All terms must match; hits in the
+ * name and step summaries outrank hits buried in the spec code.
+ */
+export async function searchTests(
+  dataDir: string,
+  query: string,
+  limit = DEFAULT_LIMIT
+): Promise<TestSearchHit[]> {
+  const terms = tokenizeQuery(query);
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const phrase = terms.join(' ');
+  const tests = await loadSearchableTests(dataDir);
+
+  return tests
+    .map((test) => scoreTest(test, terms, phrase))
+    .filter((hit): hit is TestSearchHit => hit !== null)
+    .sort((a, b) => b.score - a.score || a.test.name.localeCompare(b.test.name))
+    .slice(0, limit);
+}
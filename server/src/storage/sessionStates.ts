@@ -0,0 +1,79 @@
+/**
+ * Saved login sessions - the Playwright storageState (cookies + localStorage)
+ * captured by a credential's session setup test.
+ *
+ * Each credential's state lives in `<dataDir>/auth/<credentialId>.json`, the
+ * file Playwright writes and loads as-is. Its modification time is the capture
+ * time; a state goes stale after `sessionMaxAgeHours` or when one of its
+ * session cookies expires, whichever comes first.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { CredentialRecord, CredentialSessionStatus } from '../types.js';
+import { loadConfig } from './config.js';
+
+export const SESSION_STATES_DIR = 'auth';
+export const DEFAULT_SESSION_MAX_AGE_HOURS = 12;
+
+// Cookies whose expiry ends the login, as opposed to preference/analytics cookies
+const SESSION_COOKIE_PATTERN = /sess|auth|token|sid|login|jwt/i;
+
+interface StoredCookie {
+  name: string;
+  expires?: number;
+}
+
+export function getSessionStatePath(dataDir: string, credentialId: string): string {
+  return path.join(dataDir, SESSION_STATES_DIR, `${credentialId}.json`);
+}
+
+/**
+ * Earliest expiry (ms) among the state's session cookies; browser-session cookies (expires <= 0) don't count
+ */
+export function sessionCookieExpiry(cookies: StoredCookie[]): number | undefined {
+  const expiries = cookies
+    .filter((cookie) => SESSION_COOKIE_PATTERN.test(cookie.name) && typeof cookie.expires === 'number' && cookie.expires > 0)
+    .map((cookie) => cookie.expires! * 1000);
+  return expiries.length ? Math.min(...expiries) : undefined;
+}
+
+export async function getSessionStatus(
+  dataDir: string,
+  credential: CredentialRecord,
+  now: Date = new Date()
+): Promise<CredentialSessionStatus> {
+  const base = { credentialId: credential.id, setupTestId: credential.sessionSetupTestId };
+  const statePath = getSessionStatePath(dataDir, credential.id);
+
+  let capturedAt: Date;
+  let cookies: StoredCookie[];
+  try {
+    const [stats, content] = await Promise.all([fs.stat(statePath), fs.readFile(statePath, 'utf-8')]);
+    capturedAt = stats.mtime;
+    const parsed = JSON.parse(content);
+    cookies = Array.isArray(parsed?.cookies) ? parsed.cookies : [];
+  } catch {
+    return { ...base, captured: false, expired: true };
+  }
+
+  const config = await loadConfig(dataDir);
+  const maxAgeHours = config.sessionMaxAgeHours ?? DEFAULT_SESSION_MAX_AGE_HOURS;
+  const cookieExpiry = sessionCookieExpiry(cookies);
+  const expiresAt = Math.min(capturedAt.getTime() + maxAgeHours * 60 * 60 * 1000, cookieExpiry ?? Infinity);
+
+  return {
+    ...base,
+    captured: true,
+    capturedAt: capturedAt.toISOString(),
+    expiresAt: new Date(expiresAt).toISOString(),
+    expired: expiresAt <= now.getTime()
+  };
+}
+
+/**
+ * Drop a saved session (credential changed or a run landed on the login page)
+ */
+export async function invalidateSessionState(dataDir: string, credentialId: string): Promise<void> {
+  await fs.rm(getSessionStatePath(dataDir, credentialId), { force: true });
+}
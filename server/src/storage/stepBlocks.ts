@@ -0,0 +1,279 @@
+/**
+ * Shared step blocks - named step sequences (e.g. "Login", "Accept cookie banner")
+ * that tests reference instead of copying.
+ *
+ * Definitions live in `<dataDir>/step-blocks.json`. Every change regenerates
+ * `trailwright-blocks.ts` in the tests directory, which exports one helper per
+ * block; specs import from it, so fixing a block fixes every test using it.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { StepBlock, StepBlockSummary, TestStepMetadata, VariableDefinition } from '../types.js';
+import { getTestsDirectory } from './config.js';
+import { commitTestsDirectoryFile } from './git.js';
+import { listTests } from './tests.js';
+import { withFileLock, writeFileAtomic } from './fileStore.js';
+import { STEP_BLOCKS_MODULE, TestCodeGenerator } from '../playwright/testCodeGenerator.js';
+
+const STEP_BLOCKS_FILE = 'step-blocks.json';
+
+export interface StepBlockInput {
+  name: string;
+  description?: string;
+  steps: TestStepMetadata[];
+  variables?: VariableDefinition[];
+}
+
+async function readStepBlocks(dataDir: string): Promise<StepBlock[]> {
+  try {
+    const content = await fs.readFile(path.join(dataDir, STEP_BLOCKS_FILE), 'utf-8');
+    const parsed = JSON.parse(content);
+    return Array.isArray(parsed?.blocks) ? parsed.blocks : [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read-modify-write step-blocks.json under its lock, then regenerate the helper module
+ */
+async function updateStepBlocks<T>(
+  dataDir: string,
+  update: (blocks: StepBlock[]) => Promise<{ blocks: StepBlock[]; result: T; message: string }>
+): Promise<T> {
+  const filePath = path.join(dataDir, STEP_BLOCKS_FILE);
+  return withFileLock(filePath, async () => {
+    const { blocks, result, message } = await update(await readStepBlocks(dataDir));
+    await writeFileAtomic(filePath, JSON.stringify({ blocks }, null, 2));
+    await writeStepBlocksModule(dataDir, blocks, message);
+    return result;
+  });
+}
+
+/**
+ * Write trailwright-blocks.ts next to the specs (also needed after the tests
+ * directory moves). In a git-backed tests directory it is committed like a
+ * spec save, so a pulled repository has the module its specs import.
+ */
+export async function writeStepBlocksModule(
+  dataDir: string,
+  blocks?: StepBlock[],
+  message = 'Update step blocks'
+): Promise<void> {
+  const current = blocks ?? (await readStepBlocks(dataDir));
+  const fileName = `${STEP_BLOCKS_MODULE}.ts`;
+  const modulePath = path.join(await getTestsDirectory(dataDir), fileName);
+  if (current.length === 0) {
+    await fs.rm(modulePath, { force: true });
+  } else {
+    await fs.mkdir(path.dirname(modulePath), { recursive: true });
+    await writeFileAtomic(modulePath, new TestCodeGenerator().generateStepBlocksModule(current));
+  }
+
+  try {
+    await commitTestsDirectoryFile(dataDir, fileName, message);
+  } catch (error) {
+    console.error(`[git] Failed to commit ${fileName}:`, error instanceof Error ? error.message : error);
+  }
+}
+
+function normalizeSteps(steps: unknown): TestStepMetadata[] {
+  if (!Array.isArray(steps) || steps.length === 0) {
+    throw new Error('A step block needs at least one step');
+  }
+  return steps.map((step, index) => {
+    if (!step || typeof step.playwrightCode !== 'string' || !step.playwrightCode.trim()) {
+      throw new Error(`Step ${index + 1} has no Playwright code`);
+    }
+    if (step.blockId) {
+      throw new Error('Step blocks cannot reference other step blocks');
+    }
+    return {
+      number: index + 1,
+      qaSummary: typeof step.qaSummary === 'string' && step.qaSummary.trim() ? step.qaSummary.trim() : `Step ${index + 1}`,
+      playwrightCode: step.playwrightCode
+    };
+  });
+}
+
+function normalizeVariables(variables: unknown): VariableDefinition[] | undefined {
+  if (variables === undefined || variables === null) {
+    return undefined;
+  }
+  if (!Array.isArray(variables)) {
+    throw new Error('variables must be an array when provided');
+  }
+  return variables.map((variable) => {
+    const name = typeof variable?.name === 'string' ? variable.name.trim() : '';
+    if (!/^[A-Za-z_]\w*$/.test(name)) {
+      throw new Error(`Invalid variable name: ${name || '(empty)'}`);
+    }
+    return {
+      name,
+      type: variable.type === 'number' ? 'number' : 'string',
+      ...(typeof variable.sampleValue === 'string' ? { sampleValue: variable.sampleValue } : {})
+    };
+  });
+}
+
+function slugify(name: string): string {
+  return (
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 40) || 'block'
+  );
+}
+
+/**
+ * Ids of the tests that reference a block, keyed by block id
+ */
+async function collectBlockUsage(dataDir: string): Promise<Map<string, string[]>> {
+  const usage = new Map<string, string[]>();
+  for (const test of await listTests(dataDir)) {
+    const blockIds = new Set((test.steps ?? []).map((step) => step.blockId).filter(Boolean) as string[]);
+    blockIds.forEach((blockId) => usage.set(blockId, [...(usage.get(blockId) ?? []), test.id]));
+  }
+  return usage;
+}
+
+export async function listStepBlocks(dataDir: string): Promise<StepBlockSummary[]> {
+  const [blocks, usage] = await Promise.all([readStepBlocks(dataDir), collectBlockUsage(dataDir)]);
+  return blocks
+    .map((block) => ({ ...block, usedBy: usage.get(block.id) ?? [] }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getStepBlock(dataDir: string, blockId: string): Promise<StepBlock | null> {
+  const blocks = await readStepBlocks(dataDir);
+  return blocks.find((block) => block.id === blockId) ?? null;
+}
+
+export async function createStepBlock(dataDir: string, input: StepBlockInput): Promise<StepBlock> {
+  const name = input.name?.trim();
+  if (!name) {
+    throw new Error('Step block name is required');
+  }
+  const steps = normalizeSteps(input.steps);
+  const variables = normalizeVariables(input.variables);
+
+  return updateStepBlocks(dataDir, async (blocks) => {
+    if (blocks.some((block) => block.name.toLowerCase() === name.toLowerCase())) {
+      throw new Error(`Step block already exists: ${name}`);
+    }
+
+    const base = slugify(name);
+    let id = base;
+    for (let suffix = 2; blocks.some((block) => block.id === id); suffix++) {
+      id = `${base}-${suffix}`;
+    }
+
+    const block: StepBlock = {
+      id,
+      name,
+      ...(input.description?.trim() ? { description: input.description.trim() } : {}),
+      steps,
+      ...(variables?.length ? { variables } : {}),
+      createdAt: new Date().toISOString()
+    };
+    return { blocks: [...blocks, block], result: block, message: `Add step block: ${name}` };
+  });
+}
+
+/**
+ * Update a block in place. Its id (and so the helper function name) never
+ * changes, so tests referencing it pick up the new steps on their next run.
+ */
+export async function updateStepBlock(
+  dataDir: string,
+  blockId: string,
+  updates: Partial<StepBlockInput>
+): Promise<StepBlock> {
+  return updateStepBlocks(dataDir, async (blocks) => {
+    const index = blocks.findIndex((block) => block.id === blockId);
+    if (index === -1) {
+      throw new Error(`Step block not found: ${blockId}`);
+    }
+
+    const name = updates.name?.trim();
+    if (updates.name !== undefined && !name) {
+      throw new Error('Step block name is required');
+    }
+    if (name && blocks.some((block) => block.id !== blockId && block.name.toLowerCase() === name.toLowerCase())) {
+      throw new Error(`Step block already exists: ${name}`);
+    }
+
+    const variables = updates.variables !== undefined ? normalizeVariables(updates.variables) : undefined;
+    const updated: StepBlock = {
+      ...blocks[index],
+      ...(name ? { name } : {}),
+      ...(updates.description !== undefined ? { description: updates.description.trim() || undefined } : {}),
+      ...(updates.steps !== undefined ? { steps: normalizeSteps(updates.steps) } : {}),
+      ...(variables !== undefined ? { variables } : {}),
+      updatedAt: new Date().toISOString()
+    };
+    const next = [...blocks];
+    next[index] = updated;
+    return { blocks: next, result: updated, message: `Edit step block: ${updated.name}` };
+  });
+}
+
+/**
+ * Delete a block. Blocks still referenced by tests cannot be deleted.
+ */
+export async function deleteStepBlock(dataDir: string, blockId: string): Promise<void> {
+  await updateStepBlocks(dataDir, async (blocks) => {
+    const deleted = blocks.find((block) => block.id === blockId);
+    if (!deleted) {
+      throw new Error(`Step block not found: ${blockId}`);
+    }
+
+    const usedBy = (await collectBlockUsage(dataDir)).get(blockId) ?? [];
+    if (usedBy.length > 0) {
+      throw new Error(`Step block is in use by ${usedBy.length} test(s): ${usedBy.join(', ')}`);
+    }
+
+    return {
+      blocks: blocks.filter((block) => block.id !== blockId),
+      result: undefined,
+      message: `Delete step block: ${deleted.name}`
+    };
+  });
+}
+
+/**
+ * Replace block references with the block's own steps, filling in the block
+ * arguments (for code that executes steps directly rather than the generated spec)
+ */
+export async function expandStepBlocks(dataDir: string, steps: TestStepMetadata[]): Promise<TestStepMetadata[]> {
+  if (!steps.some((step) => step.blockId)) {
+    return steps;
+  }
+
+  const blocks = await readStepBlocks(dataDir);
+  return steps.flatMap((step) => {
+    if (!step.blockId) {
+      return [step];
+    }
+    const block = blocks.find((candidate) => candidate.id === step.blockId);
+    if (!block) {
+      throw new Error(`Step block not found: ${step.blockId}`);
+    }
+    const values: Record<string, string> = {};
+    for (const variable of block.variables ?? []) {
+      values[variable.name] = step.blockArgs?.[variable.name] ?? variable.sampleValue ?? '';
+    }
+    return block.steps.map((blockStep) => ({
+      number: step.number,
+      qaSummary: `${block.name}: ${blockStep.qaSummary}`,
+      playwrightCode: blockStep.playwrightCode.replace(/\{\{(\w+)\}\}/g, (match, name: string) =>
+        name in values ? values[name] : match
+      )
+    }));
+  });
+}
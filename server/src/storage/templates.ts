@@ -0,0 +1,229 @@
+/**
+ * Test templates - saved starting points (goal, start URL, credential,
+ * viewport, variables, tags) for new generation sessions.
+ *
+ * Templates live in `<dataDir>/templates.json`.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { TestTemplate, VariableDefinition } from '../types.js';
+import { loadTest } from './tests.js';
+import { withFileLock, writeFileAtomic } from './fileStore.js';
+
+const TEMPLATES_FILE = 'templates.json';
+
+export type TestTemplateInput = Omit<TestTemplate, 'id' | 'createdAt' | 'updatedAt'>;
+
+async function readTemplates(dataDir: string): Promise<TestTemplate[]> {
+  try {
+    const content = await fs.readFile(path.join(dataDir, TEMPLATES_FILE), 'utf-8');
+    const parsed = JSON.parse(content);
+    return Array.isArray(parsed?.templates) ? parsed.templates : [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read-modify-write templates.json under its lock
+ */
+async function updateTemplates<T>(
+  dataDir: string,
+  update: (templates: TestTemplate[]) => { templates: TestTemplate[]; result: T }
+): Promise<T> {
+  const filePath = path.join(dataDir, TEMPLATES_FILE);
+  return withFileLock(filePath, async () => {
+    const { templates, result } = update(await readTemplates(dataDir));
+    await writeFileAtomic(filePath, JSON.stringify({ templates }, null, 2));
+    return result;
+  });
+}
+
+function optionalText(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function normalizeViewport(viewport: unknown): TestTemplate['viewportSize'] {
+  if (viewport === undefined || viewport === null) {
+    return undefined;
+  }
+  const { width, height } = viewport as { width?: unknown; height?: unknown };
+  if (!Number.isInteger(width) || !Number.isInteger(height) || (width as number) <= 0 || (height as number) <= 0) {
+    throw new Error('viewportSize needs a positive whole width and height');
+  }
+  return { width: width as number, height: height as number };
+}
+
+function normalizeVariables(variables: unknown): VariableDefinition[] | undefined {
+  if (variables === undefined || variables === null) {
+    return undefined;
+  }
+  if (!Array.isArray(variables)) {
+    throw new Error('variables must be an array when provided');
+  }
+  const normalized = variables.map((variable) => {
+    const name = typeof variable?.name === 'string' ? variable.name.trim() : '';
+    if (!/^[A-Za-z_]\w*$/.test(name)) {
+      throw new Error(`Invalid variable name: ${name || '(empty)'}`);
+    }
+    return {
+      name,
+      type: variable.type === 'number' ? 'number' : 'string',
+      ...(typeof variable.sampleValue === 'string' ? { sampleValue: variable.sampleValue } : {})
+    } as VariableDefinition;
+  });
+  return normalized.length ? normalized : undefined;
+}
+
+function normalizeTags(tags: unknown): string[] | undefined {
+  if (tags === undefined || tags === null) {
+    return undefined;
+  }
+  if (!Array.isArray(tags)) {
+    throw new Error('tags must be an array when provided');
+  }
+  const normalized = Array.from(
+    new Set(tags.filter((tag): tag is string => typeof tag === 'string').map((tag) => tag.trim()).filter(Boolean))
+  );
+  return normalized.length ? normalized : undefined;
+}
+
+/**
+ * Validated template fields; only keys present in `input` are returned, so it also serves updates
+ */
+function normalizeTemplateFields(input: Partial<TestTemplateInput>): Partial<TestTemplateInput> {
+  const fields: Partial<TestTemplateInput> = {};
+  if ('name' in input) {
+    const name = optionalText(input.name);
+    if (!name) {
+      throw new Error('Template name is required');
+    }
+    fields.name = name;
+  }
+  for (const key of ['description', 'goal', 'successCriteria', 'startUrl', 'credentialId', 'sourceTestId'] as const) {
+    if (key in input) {
+      fields[key] = optionalText(input[key]);
+    }
+  }
+  if ('viewportSize' in input) {
+    fields.viewportSize = normalizeViewport(input.viewportSize);
+  }
+  if ('variables' in input) {
+    fields.variables = normalizeVariables(input.variables);
+  }
+  if ('tags' in input) {
+    fields.tags = normalizeTags(input.tags);
+  }
+  return fields;
+}
+
+function slugify(name: string): string {
+  return (
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 40) || 'template'
+  );
+}
+
+/**
+ * Drop keys left undefined by normalization so templates.json stays compact
+ */
+function compact(template: TestTemplate): TestTemplate {
+  return Object.fromEntries(Object.entries(template).filter(([, value]) => value !== undefined)) as TestTemplate;
+}
+
+export async function listTemplates(dataDir: string): Promise<TestTemplate[]> {
+  const templates = await readTemplates(dataDir);
+  return templates.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getTemplate(dataDir: string, templateId: string): Promise<TestTemplate | null> {
+  const templates = await readTemplates(dataDir);
+  return templates.find((template) => template.id === templateId) ?? null;
+}
+
+export async function createTemplate(dataDir: string, input: TestTemplateInput): Promise<TestTemplate> {
+  const fields = normalizeTemplateFields({ ...input, name: input.name });
+
+  return updateTemplates(dataDir, (templates) => {
+    const name = fields.name!;
+    if (templates.some((template) => template.name.toLowerCase() === name.toLowerCase())) {
+      throw new Error(`Template already exists: ${name}`);
+    }
+
+    const base = slugify(name);
+    let id = base;
+    for (let suffix = 2; templates.some((template) => template.id === id); suffix++) {
+      id = `${base}-${suffix}`;
+    }
+
+    const template = compact({ ...fields, id, name, createdAt: new Date().toISOString() });
+    return { templates: [...templates, template], result: template };
+  });
+}
+
+export async function updateTemplate(
+  dataDir: string,
+  templateId: string,
+  updates: Partial<TestTemplateInput>
+): Promise<TestTemplate> {
+  const fields = normalizeTemplateFields(updates);
+
+  return updateTemplates(dataDir, (templates) => {
+    const index = templates.findIndex((template) => template.id === templateId);
+    if (index === -1) {
+      throw new Error(`Template not found: ${templateId}`);
+    }
+    if (
+      fields.name &&
+      templates.some((template) => template.id !== templateId && template.name.toLowerCase() === fields.name!.toLowerCase())
+    ) {
+      throw new Error(`Template already exists: ${fields.name}`);
+    }
+
+    const updated = compact({ ...templates[index], ...fields, updatedAt: new Date().toISOString() });
+    const next = [...templates];
+    next[index] = updated;
+    return { templates: next, result: updated };
+  });
+}
+
+export async function deleteTemplate(dataDir: string, templateId: string): Promise<void> {
+  await updateTemplates(dataDir, (templates) => {
+    if (!templates.some((template) => template.id === templateId)) {
+      throw new Error(`Template not found: ${templateId}`);
+    }
+    return { templates: templates.filter((template) => template.id !== templateId), result: undefined };
+  });
+}
+
+/**
+ * "Save as template": the test's prompt becomes the goal; its start URL,
+ * credential, variables and tags carry over
+ */
+export async function createTemplateFromTest(dataDir: string, testId: string, name?: string): Promise<TestTemplate> {
+  let metadata;
+  try {
+    ({ metadata } = await loadTest(dataDir, testId));
+  } catch {
+    throw new Error(`Test not found: ${testId}`);
+  }
+
+  return createTemplate(dataDir, {
+    name: name?.trim() || `${metadata.name} template`,
+    description: metadata.description,
+    goal: metadata.prompt,
+    successCriteria: metadata.successCriteria,
+    startUrl: metadata.startUrl,
+    credentialId: metadata.credentialId,
+    variables: metadata.variables,
+    tags: metadata.tags,
+    sourceTestId: metadata.id
+  });
+}
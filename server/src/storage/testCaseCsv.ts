@@ -0,0 +1,180 @@
+/**
+ * Test-case CSV export - flattens tests into one row per step for import
+ * into test-management tools. Presets cover common tools' import layouts; a
+ * custom mapping picks the header (or omission) of each field.
+ */
+
+import { stringify } from 'csv-stringify/sync';
+import type { TestCaseColumnMapping, TestCaseCsvField, TestCaseCsvPreset, TestMetadata } from '../types.js';
+import { loadTest } from './tests.js';
+import { expectedResultForStep } from './manualScripts.js';
+
+/** Column order of every export */
+export const TEST_CASE_CSV_FIELDS: TestCaseCsvField[] = [
+  'testId',
+  'title',
+  'folder',
+  'tags',
+  'stepNumber',
+  'action',
+  'expectedResult',
+  'lastRunStatus'
+];
+
+export const TEST_CASE_CSV_PRESETS: TestCaseCsvPreset[] = [
+  {
+    id: 'generic',
+    name: 'Generic (all fields)',
+    mapping: {
+      testId: 'Test ID',
+      title: 'Title',
+      folder: 'Folder',
+      tags: 'Tags',
+      stepNumber: 'Step',
+      action: 'Action',
+      expectedResult: 'Expected Result',
+      lastRunStatus: 'Last Run Status'
+    },
+    repeatTestFields: true,
+    tagSeparator: ', '
+  },
+  {
+    id: 'testrail',
+    name: 'TestRail (separated steps)',
+    mapping: {
+      testId: 'References',
+      title: 'Title',
+      folder: 'Section',
+      tags: 'Labels',
+      action: 'Steps (Step)',
+      expectedResult: 'Steps (Expected Result)'
+    },
+    repeatTestFields: false,
+    tagSeparator: ', '
+  },
+  {
+    id: 'zephyr-scale',
+    name: 'Zephyr Scale (step-by-step)',
+    mapping: {
+      title: 'Name',
+      folder: 'Folder',
+      tags: 'Labels',
+      action: 'Test Script (Step-by-Step) - Step',
+      expectedResult: 'Test Script (Step-by-Step) - Expected Result'
+    },
+    repeatTestFields: false,
+    tagSeparator: ','
+  },
+  {
+    id: 'xray',
+    name: 'Xray (manual tests)',
+    mapping: {
+      testId: 'Test ID',
+      title: 'Summary',
+      folder: 'Test Repository Path',
+      tags: 'Labels',
+      action: 'Action',
+      expectedResult: 'Expected Result'
+    },
+    repeatTestFields: true,
+    tagSeparator: ' '
+  }
+];
+
+/** Fields that describe the whole test rather than a step */
+const TEST_FIELDS = new Set<TestCaseCsvField>(['testId', 'title', 'folder', 'tags', 'lastRunStatus']);
+
+export interface TestCaseCsvOptions {
+  /** Preset id; its mapping and layout apply unless overridden below */
+  preset?: string;
+  mapping?: TestCaseColumnMapping;
+  repeatTestFields?: boolean;
+  tagSeparator?: string;
+}
+
+function resolveOptions(options: TestCaseCsvOptions): Omit<TestCaseCsvPreset, 'id' | 'name'> {
+  const preset = TEST_CASE_CSV_PRESETS.find((candidate) => candidate.id === (options.preset ?? 'generic'));
+  if (!preset) {
+    throw new Error(`Unknown CSV preset: ${options.preset}`);
+  }
+
+  const mapping = options.mapping ?? preset.mapping;
+  for (const [field, header] of Object.entries(mapping)) {
+    if (!TEST_CASE_CSV_FIELDS.includes(field as TestCaseCsvField)) {
+      throw new Error(`Unknown test case field: ${field}`);
+    }
+    if (header !== null && header !== undefined && typeof header !== 'string') {
+      throw new Error(`Column header for ${field} must be a string`);
+    }
+  }
+
+  return {
+    mapping,
+    repeatTestFields: options.repeatTestFields ?? preset.repeatTestFields,
+    tagSeparator: options.tagSeparator ?? preset.tagSeparator
+  };
+}
+
+function fieldValues(metadata: TestMetadata, tagSeparator: string): Record<TestCaseCsvField, string>[] {
+  const test = {
+    testId: metadata.id,
+    title: metadata.name,
+    folder: metadata.folder ?? '',
+    tags: (metadata.tags ?? []).join(tagSeparator),
+    lastRunStatus: metadata.lastRunStatus ?? ''
+  };
+  const steps = metadata.steps ?? [];
+  if (steps.length === 0) {
+    return [{ ...test, stepNumber: '', action: '', expectedResult: '' }];
+  }
+  return steps.map((step) => ({
+    ...test,
+    stepNumber: String(step.number),
+    action: step.qaSummary,
+    expectedResult: expectedResultForStep(step) ?? ''
+  }));
+}
+
+/**
+ * Build the CSV for the given tests, in the order given
+ */
+export async function exportTestCasesCsv(
+  dataDir: string,
+  testIds: string[],
+  options: TestCaseCsvOptions = {}
+): Promise<string> {
+  const { mapping, repeatTestFields, tagSeparator } = resolveOptions(options);
+  const columns = TEST_CASE_CSV_FIELDS.filter((field) => mapping[field]?.trim()).map((field) => ({
+    field,
+    header: mapping[field]!.trim()
+  }));
+  if (columns.length === 0) {
+    throw new Error('Map at least one field to a column');
+  }
+  if (new Set(columns.map((column) => column.header)).size !== columns.length) {
+    throw new Error('Column headers must be unique');
+  }
+
+  const ids = Array.from(new Set(testIds.map((id) => id.trim()).filter(Boolean)));
+  if (ids.length === 0) {
+    throw new Error('Select at least one test to export');
+  }
+
+  const rows: string[][] = [];
+  for (const id of ids) {
+    let metadata: TestMetadata;
+    try {
+      ({ metadata } = await loadTest(dataDir, id));
+    } catch {
+      throw new Error(`Test not found: ${id}`);
+    }
+
+    fieldValues(metadata, tagSeparator).forEach((values, index) => {
+      rows.push(
+        columns.map(({ field }) => (index > 0 && !repeatTestFields && TEST_FIELDS.has(field) ? '' : values[field]))
+      );
+    });
+  }
+
+  return stringify(rows, { header: true, columns: columns.map((column) => column.header) });
+}
@@ -0,0 +1,185 @@
+/**
+ * Tests directory watcher
+ *
+ * Notices specs edited outside TrailWright (system editor, git pull in a custom
+ * testDirectory, ...) and broadcasts test_added / test_changed / test_removed
+ * events that GET /api/tests/events streams to the UI. Writes made through
+ * saveTest are recognised by their file signature and not reported.
+ */
+
+import { watch, type FSWatcher } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+import { EventEmitter } from 'events';
+import type { TestFileEvent, TestFileEventType } from '../../../shared/types.js';
+import { getTestsDirectory } from './config.js';
+import { loadTest, onTestFileWritten } from './tests.js';
+import { getTestSteps } from '../playwright/stepExtractor.js';
+
+const SPEC_SUFFIX = '.spec.ts';
+// Editors often write a file in several chunks; wait for the burst to settle
+const DEBOUNCE_MS = 150;
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+interface WatchedDirectory {
+  dataDir: string;
+  directory: string;
+  watcher: FSWatcher;
+  stopListeningToWrites: () => void;
+  pending: Map<string, NodeJS.Timeout>;
+  // Last seen mtime + size per spec, so touching a file without changes stays quiet
+  knownFiles: Map<string, string>;
+}
+
+// One watcher per data directory (i.e. per project)
+const watched = new Map<string, WatchedDirectory>();
+
+async function fileSignature(filePath: string): Promise<string | null> {
+  try {
+    const stat = await fs.stat(filePath);
+    return `${stat.mtimeMs}:${stat.size}`;
+  } catch {
+    return null;
+  }
+}
+
+function emit(dataDir: string, type: TestFileEventType, payload: TestFileEvent['payload']): void {
+  emitter.emit(dataDir, { type, timestamp: new Date().toISOString(), payload } satisfies TestFileEvent);
+}
+
+async function handleFileChange(state: WatchedDirectory, fileName: string): Promise<void> {
+  if (watched.get(state.dataDir) !== state) {
+    return;
+  }
+
+  const testId = fileName.slice(0, -SPEC_SUFFIX.length);
+  const signature = await fileSignature(path.join(state.directory, fileName));
+  const previous = state.knownFiles.get(testId);
+
+  if (!signature) {
+    if (previous !== undefined) {
+      state.knownFiles.delete(testId);
+      emit(state.dataDir, 'test_removed', { testId });
+    }
+    return;
+  }
+
+  if (signature === previous) {
+    return;
+  }
+  state.knownFiles.set(testId, signature);
+
+  const type: TestFileEventType = previous === undefined ? 'test_added' : 'test_changed';
+  try {
+    const test = await loadTest(state.dataDir, testId);
+    const steps = await getTestSteps(state.dataDir, testId);
+    emit(state.dataDir, type, { testId, test: test.metadata, steps });
+  } catch (error) {
+    emit(state.dataDir, type, { testId, error: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+function scheduleFileChange(state: WatchedDirectory, fileName: string): void {
+  const existing = state.pending.get(fileName);
+  if (existing) {
+    clearTimeout(existing);
+  }
+  state.pending.set(
+    fileName,
+    setTimeout(() => {
+      state.pending.delete(fileName);
+      handleFileChange(state, fileName).catch((error) => {
+        console.error(`[watcher] Failed to process ${fileName}:`, error);
+      });
+    }, DEBOUNCE_MS)
+  );
+}
+
+/**
+ * Start watching the configured tests directory of a data directory (restarts if it changed)
+ */
+export async function startTestWatcher(dataDir: string): Promise<void> {
+  const directory = await getTestsDirectory(dataDir);
+  if (watched.get(dataDir)?.directory === directory) {
+    return;
+  }
+  stopTestWatcher(dataDir);
+
+  await fs.mkdir(directory, { recursive: true });
+
+  const knownFiles = new Map<string, string>();
+  for (const fileName of await fs.readdir(directory)) {
+    if (fileName.endsWith(SPEC_SUFFIX)) {
+      const signature = await fileSignature(path.join(directory, fileName));
+      if (signature) {
+        knownFiles.set(fileName.slice(0, -SPEC_SUFFIX.length), signature);
+      }
+    }
+  }
+
+  const watcher = watch(directory, (_eventType, fileName) => {
+    const name = fileName?.toString();
+    if (name && name.endsWith(SPEC_SUFFIX)) {
+      scheduleFileChange(state, name);
+    }
+  });
+  const state: WatchedDirectory = {
+    dataDir,
+    directory,
+    watcher,
+    // Saves made through TrailWright are already reflected in the UI; only report outside edits
+    stopListeningToWrites: onTestFileWritten((testId, filePath) => {
+      if (path.dirname(filePath) !== directory) {
+        return;
+      }
+      void fileSignature(filePath).then((signature) => {
+        if (signature && watched.get(dataDir) === state) {
+          knownFiles.set(testId, signature);
+        }
+      });
+    }),
+    pending: new Map(),
+    knownFiles
+  };
+  watched.set(dataDir, state);
+
+  watcher.on('error', (error) => {
+    console.error('[watcher] Tests directory watcher failed:', error);
+    stopTestWatcher(dataDir);
+  });
+
+  console.log(`[watcher] Watching ${directory}`);
+}
+
+/**
+ * Point a running watcher at the current tests directory after testDirectory changes
+ */
+export async function refreshTestWatcher(dataDir: string): Promise<void> {
+  if (watched.has(dataDir)) {
+    await startTestWatcher(dataDir);
+  }
+}
+
+/**
+ * Stop the watcher of one data directory, or all of them
+ */
+export function stopTestWatcher(dataDir?: string): void {
+  const targets = dataDir ? [watched.get(dataDir)] : Array.from(watched.values());
+  for (const state of targets) {
+    if (!state) continue;
+    state.watcher.close();
+    state.stopListeningToWrites();
+    state.pending.forEach((timer) => clearTimeout(timer));
+    state.pending.clear();
+    watched.delete(state.dataDir);
+  }
+}
+
+export function subscribeToTestEvents(dataDir: string, listener: (event: TestFileEvent) => void): () => void {
+  emitter.on(dataDir, listener);
+  return () => {
+    emitter.off(dataDir, listener);
+  };
+}
@@ -1,71 +1,150 @@
 import fs from 'fs/promises';
 import path from 'path';
-import type { Test, TestMetadata } from '../types.js';
+import type { Test, TestMetadata, TestHealthReport } from '../types.js';
 import { getTestsDirectory } from './config.js';
-
-const METADATA_DELIMITER = '// === TRAILWRIGHT_METADATA ===';
+import { recordRevision, recordUntrackedVersion } from './revisions.js';
+import { commitTestSave } from './git.js';
+import { withFileLock, writeFileAtomic } from './fileStore.js';
+import { readLastRuns, recordLastRun, withLastRun } from './lastRuns.js';
+import {
+  CURRENT_METADATA_VERSION,
+  METADATA_DELIMITER,
+  TestMetadataError,
+  parseTestContent
+} from './metadata.js';
 
 function serializeTest(test: Test): string {
-  const metadataComment = `/**\n * ${METADATA_DELIMITER}\n * ${JSON.stringify(test.metadata, null, 2)}\n */\n\n`;
+  // Last-run fields live in last-runs.json so runs never touch the spec
+  const { lastRunAt: _lastRunAt, lastRunStatus: _lastRunStatus, lastRunId: _lastRunId, ...saved } = test.metadata;
+  const metadata = { ...saved, metadataVersion: CURRENT_METADATA_VERSION };
+  const metadataComment = `/**\n * ${METADATA_DELIMITER}\n * ${JSON.stringify(metadata, null, 2)}\n */\n\n`;
   return metadataComment + test.code;
 }
 
 function parseTest(content: string, testId: string): Test {
-  const metadataMatch = content.match(/\/\*\*\n \* \/\/ === TRAILWRIGHT_METADATA ===\n \* ([\s\S]*?)\n \*\//);
+  return parseTestContent(content, testId).test;
+}
 
-  if (metadataMatch) {
-    const metadata = JSON.parse(metadataMatch[1]);
-    const code = content.replace(metadataMatch[0], '').trim();
-    return { metadata, code };
-  }
+type TestFileWriteListener = (testId: string, filePath: string) => void;
+const writeListeners = new Set<TestFileWriteListener>();
 
-  // Fallback for tests without metadata
-  return {
-    metadata: {
-      id: testId,
-      name: testId,
-      createdAt: new Date().toISOString()
-    },
-    code: content
+/**
+ * Get notified after TrailWright itself writes a spec, so the directory
+ * watcher can tell its own saves apart from external edits
+ */
+export function onTestFileWritten(listener: TestFileWriteListener): () => void {
+  writeListeners.add(listener);
+  return () => {
+    writeListeners.delete(listener);
   };
 }
 
-export async function saveTest(dataDir: string, test: Test): Promise<void> {
+export interface SaveTestOptions {
+  /** Record the saved content in the test's revision history under this action */
+  revision?: string;
+}
+
+export async function saveTest(dataDir: string, test: Test, options: SaveTestOptions = {}): Promise<void> {
   const testsDir = await getTestsDirectory(dataDir);
   await fs.mkdir(testsDir, { recursive: true });
   const filePath = path.join(testsDir, `${test.metadata.id}.spec.ts`);
-  const content = serializeTest(test);
-  await fs.writeFile(filePath, content, 'utf-8');
+
+  await withFileLock(filePath, async () => {
+    if (options.revision) {
+      // Keep whatever is on disk now (e.g. an external editor change) before it is overwritten
+      const current = await loadTest(dataDir, test.metadata.id).catch(() => null);
+      if (current) {
+        await recordUntrackedVersion(dataDir, current);
+      }
+    }
+
+    await writeFileAtomic(filePath, serializeTest(test));
+    writeListeners.forEach((listener) => listener(test.metadata.id, filePath));
+
+    if (options.revision) {
+      await recordRevision(dataDir, test, options.revision);
+      await commitTestSave(dataDir, test, options.revision);
+    }
+  });
+}
+
+async function readTestFile(testsDir: string, testId: string): Promise<Test> {
+  const content = await fs.readFile(path.join(testsDir, `${testId}.spec.ts`), 'utf-8');
+  return parseTest(content, testId);
 }
 
 export async function loadTest(dataDir: string, testId: string): Promise<Test> {
   const testsDir = await getTestsDirectory(dataDir);
-  const filePath = path.join(testsDir, `${testId}.spec.ts`);
-  const content = await fs.readFile(filePath, 'utf-8');
-  return parseTest(content, testId);
+  const [test, lastRuns] = await Promise.all([readTestFile(testsDir, testId), readLastRuns(dataDir)]);
+  return { ...test, metadata: withLastRun(test.metadata, lastRuns[testId]) };
 }
 
 export async function listTests(dataDir: string): Promise<TestMetadata[]> {
   const testsDir = await getTestsDirectory(dataDir);
 
+  let files: string[];
   try {
-    const files = await fs.readdir(testsDir);
-    const testFiles = files.filter(f => f.endsWith('.spec.ts'));
-
-    const tests = await Promise.all(
-      testFiles.map(async (file) => {
-        const testId = file.replace('.spec.ts', '');
-        const test = await loadTest(dataDir, testId);
-        return test.metadata;
-      })
-    );
-
-    return tests.sort((a, b) =>
-      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-    );
-  } catch (err) {
+    files = await fs.readdir(testsDir);
+  } catch {
     return [];
   }
+
+  const testFiles = files.filter(f => f.endsWith('.spec.ts'));
+  const lastRuns = await readLastRuns(dataDir);
+  const tests = await Promise.all(
+    testFiles.map(async (file) => {
+      const testId = file.replace('.spec.ts', '');
+      try {
+        const test = await readTestFile(testsDir, testId);
+        return withLastRun(test.metadata, lastRuns[testId]);
+      } catch (err) {
+        // One broken spec must not hide the rest; GET /api/tests/health reports it
+        console.warn(`[storage] Skipping ${file}:`, err instanceof Error ? err.message : err);
+        return null;
+      }
+    })
+  );
+
+  return tests
+    .filter((metadata): metadata is TestMetadata => metadata !== null)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+}
+
+/**
+ * Check every spec's metadata header: corrupt ones are listed with their
+ * validation errors, old ones with the version they were saved under
+ */
+export async function checkTestsHealth(dataDir: string): Promise<TestHealthReport> {
+  const testsDir = await getTestsDirectory(dataDir);
+  const report: TestHealthReport = { testsDirectory: testsDir, total: 0, healthy: 0, corrupt: [], outdated: [] };
+
+  let files: string[];
+  try {
+    files = (await fs.readdir(testsDir)).filter((file) => file.endsWith('.spec.ts')).sort();
+  } catch {
+    return report;
+  }
+
+  for (const file of files) {
+    const testId = file.replace(/\.spec\.ts$/, '');
+    report.total++;
+    try {
+      const content = await fs.readFile(path.join(testsDir, file), 'utf-8');
+      const { fromVersion } = parseTestContent(content, testId);
+      report.healthy++;
+      if (fromVersion < CURRENT_METADATA_VERSION) {
+        report.outdated.push({ testId, metadataVersion: fromVersion });
+      }
+    } catch (err) {
+      report.corrupt.push({
+        testId,
+        file: path.join(testsDir, file),
+        errors: err instanceof TestMetadataError ? err.issues : [err instanceof Error ? err.message : String(err)]
+      });
+    }
+  }
+
+  return report;
 }
 
 export async function deleteTest(dataDir: string, testId: string): Promise<void> {
@@ -77,14 +156,24 @@ export async function deleteTest(dataDir: string, testId: string): Promise<void>
 export async function updateTestMetadata(
   dataDir: string,
   testId: string,
-  updates: Partial<TestMetadata>
+  updates: Partial<TestMetadata>,
+  options: SaveTestOptions = {}
 ): Promise<Test> {
-  const test = await loadTest(dataDir, testId);
-  test.metadata = {
-    ...test.metadata,
-    ...updates,
-    updatedAt: new Date().toISOString()
-  };
-  await saveTest(dataDir, test);
-  return test;
+  const testsDir = await getTestsDirectory(dataDir);
+  // Hold the spec's lock across load + save so concurrent updates don't drop each other's fields
+  return withFileLock(path.join(testsDir, `${testId}.spec.ts`), async () => {
+    const test = await loadTest(dataDir, testId);
+    if ('lastRunAt' in updates || 'lastRunStatus' in updates || 'lastRunId' in updates) {
+      // Run fields are not written to the spec (see lastRuns.ts)
+      const { lastRunAt, lastRunStatus, lastRunId } = { ...test.metadata, ...updates };
+      await recordLastRun(dataDir, testId, { lastRunAt, lastRunStatus, lastRunId });
+    }
+    test.metadata = {
+      ...test.metadata,
+      ...updates,
+      updatedAt: new Date().toISOString()
+    };
+    await saveTest(dataDir, test, options);
+    return test;
+  });
 }
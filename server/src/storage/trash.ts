@@ -0,0 +1,265 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { TestMetadata, TrashEntry } from '../types.js';
+import { getTestsDirectory, loadConfig } from './config.js';
+import { loadTest } from './tests.js';
+import { TestMetadataError } from './metadata.js';
+import { getRevisionsDirectory } from './revisions.js';
+import { commitTestSave } from './git.js';
+import { writeFileAtomic } from './fileStore.js';
+
+const TRASH_DIR = 'trash';
+const MANIFEST_FILE = 'trash.json';
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+function getTrashDirectory(dataDir: string, testId: string): string {
+  if (!/^[\w.-]+$/.test(testId)) {
+    throw new Error('Invalid test id');
+  }
+  return path.join(dataDir, TRASH_DIR, testId);
+}
+
+async function pathExists(target: string): Promise<boolean> {
+  try {
+    await fs.access(target);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Move a file or folder, falling back to copy + remove across devices
+ * (a custom test directory may live on another drive)
+ */
+async function movePath(source: string, destination: string): Promise<void> {
+  await fs.mkdir(path.dirname(destination), { recursive: true });
+  try {
+    await fs.rename(source, destination);
+  } catch (error: any) {
+    if (error?.code !== 'EXDEV') {
+      throw error;
+    }
+    await fs.cp(source, destination, { recursive: true });
+    await fs.rm(source, { recursive: true, force: true });
+  }
+}
+
+async function findRunFolders(dataDir: string, testId: string): Promise<string[]> {
+  const runsDir = path.join(dataDir, 'runs');
+  const matches: string[] = [];
+
+  let entries;
+  try {
+    entries = await fs.readdir(runsDir, { withFileTypes: true });
+  } catch {
+    return matches;
+  }
+
+  for (const entry of entries) {
+    if (!entry.isDirectory() || entry.name === 'latest') {
+      continue;
+    }
+
+    // Same rule as cleanup: result.json wins, otherwise infer from <timestamp>_<testId>
+    let runTestId = entry.name.split('_').slice(1).join('_') || null;
+    try {
+      const result = JSON.parse(await fs.readFile(path.join(runsDir, entry.name, 'result.json'), 'utf-8'));
+      if (typeof result?.testId === 'string') {
+        runTestId = result.testId;
+      }
+    } catch {
+      // Run still in progress or result unreadable
+    }
+
+    if (runTestId === testId) {
+      matches.push(entry.name);
+    }
+  }
+
+  return matches;
+}
+
+async function readManifest(dataDir: string, testId: string): Promise<TrashEntry> {
+  const content = await fs.readFile(path.join(getTrashDirectory(dataDir, testId), MANIFEST_FILE), 'utf-8');
+  return JSON.parse(content);
+}
+
+/**
+ * A spec with a corrupt header can still be deleted; it goes to the trash under its id
+ */
+async function loadTrashedMetadata(
+  dataDir: string,
+  testId: string
+): Promise<{ metadata: Pick<TestMetadata, 'id' | 'name' | 'folder' | 'steps'> }> {
+  try {
+    return await loadTest(dataDir, testId);
+  } catch (error) {
+    if (error instanceof TestMetadataError) {
+      return { metadata: { id: testId, name: testId } };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Move a test and everything that belongs to it into the trash
+ */
+export async function moveTestToTrash(dataDir: string, testId: string): Promise<TrashEntry> {
+  const testsDir = await getTestsDirectory(dataDir);
+  const specPath = path.join(testsDir, `${testId}.spec.ts`);
+  const { metadata } = await loadTrashedMetadata(dataDir, testId);
+
+  const trashDir = getTrashDirectory(dataDir, testId);
+  // A test re-created with the same id replaces its older trashed copy
+  await fs.rm(trashDir, { recursive: true, force: true });
+  await fs.mkdir(trashDir, { recursive: true });
+
+  const csvPath = path.join(dataDir, 'test-data', `${testId}.csv`);
+  const screenshotsDir = path.join(dataDir, 'screenshots', testId);
+  const revisionsDir = getRevisionsDirectory(dataDir, testId);
+  const testFolder = path.join(dataDir, 'tests', testId);
+  const runIds = await findRunFolders(dataDir, testId);
+
+  const hasTestData = await pathExists(csvPath);
+  const hasScreenshots = await pathExists(screenshotsDir);
+
+  if (hasTestData) {
+    await movePath(csvPath, path.join(trashDir, 'test-data.csv'));
+  }
+  if (hasScreenshots) {
+    await movePath(screenshotsDir, path.join(trashDir, 'screenshots'));
+  }
+  if (await pathExists(revisionsDir)) {
+    await movePath(revisionsDir, path.join(trashDir, 'revisions'));
+  }
+  if (await pathExists(testFolder)) {
+    await movePath(testFolder, path.join(trashDir, 'test-folder'));
+  }
+  for (const runId of runIds) {
+    await movePath(path.join(dataDir, 'runs', runId), path.join(trashDir, 'runs', runId));
+  }
+
+  const entry: TrashEntry = {
+    testId,
+    name: metadata.name,
+    folder: metadata.folder ?? null,
+    deletedAt: new Date().toISOString(),
+    runIds,
+    hasTestData,
+    hasScreenshots
+  };
+  await writeFileAtomic(path.join(trashDir, MANIFEST_FILE), JSON.stringify(entry, null, 2));
+
+  // Spec goes last so a failure above leaves the test in place
+  await movePath(specPath, path.join(trashDir, 'test.spec.ts'));
+  await commitTestSave(dataDir, { metadata }, 'deleted');
+
+  return entry;
+}
+
+export async function listTrash(dataDir: string): Promise<TrashEntry[]> {
+  let names: string[];
+  try {
+    names = await fs.readdir(path.join(dataDir, TRASH_DIR));
+  } catch {
+    return [];
+  }
+
+  const entries = await Promise.all(
+    names.map((name) => readManifest(dataDir, name).catch(() => null))
+  );
+
+  return entries
+    .filter((entry): entry is TrashEntry => entry !== null)
+    .sort((a, b) => new Date(b.deletedAt).getTime() - new Date(a.deletedAt).getTime());
+}
+
+/**
+ * Move a trashed test back. Fails if a test with the same id exists again.
+ */
+export async function restoreTestFromTrash(dataDir: string, testId: string): Promise<TrashEntry> {
+  const entry = await readManifest(dataDir, testId);
+  const trashDir = getTrashDirectory(dataDir, testId);
+  const testsDir = await getTestsDirectory(dataDir);
+  const specPath = path.join(testsDir, `${testId}.spec.ts`);
+
+  if (await pathExists(specPath)) {
+    throw new Error(`A test with id ${testId} already exists`);
+  }
+
+  await movePath(path.join(trashDir, 'test.spec.ts'), specPath);
+
+  if (await pathExists(path.join(trashDir, 'test-data.csv'))) {
+    await movePath(path.join(trashDir, 'test-data.csv'), path.join(dataDir, 'test-data', `${testId}.csv`));
+  }
+  if (await pathExists(path.join(trashDir, 'screenshots'))) {
+    await movePath(path.join(trashDir, 'screenshots'), path.join(dataDir, 'screenshots', testId));
+  }
+  if (await pathExists(path.join(trashDir, 'revisions'))) {
+    await movePath(path.join(trashDir, 'revisions'), getRevisionsDirectory(dataDir, testId));
+  }
+  if (await pathExists(path.join(trashDir, 'test-folder'))) {
+    await movePath(path.join(trashDir, 'test-folder'), path.join(dataDir, 'tests', testId));
+  }
+  for (const runId of entry.runIds) {
+    const source = path.join(trashDir, 'runs', runId);
+    const destination = path.join(dataDir, 'runs', runId);
+    if ((await pathExists(source)) && !(await pathExists(destination))) {
+      await movePath(source, destination);
+    }
+  }
+
+  await fs.rm(trashDir, { recursive: true, force: true });
+
+  const restored = await loadTrashedMetadata(dataDir, testId).catch(() => null);
+  if (restored) {
+    await commitTestSave(dataDir, restored, 'restored');
+  }
+  return entry;
+}
+
+export async function purgeTrashEntry(dataDir: string, testId: string): Promise<void> {
+  const trashDir = getTrashDirectory(dataDir, testId);
+  if (!(await pathExists(trashDir))) {
+    throw new Error('Trash entry not found');
+  }
+  await fs.rm(trashDir, { recursive: true, force: true });
+}
+
+export async function emptyTrash(dataDir: string): Promise<string[]> {
+  const entries = await listTrash(dataDir);
+  for (const entry of entries) {
+    await fs.rm(getTrashDirectory(dataDir, entry.testId), { recursive: true, force: true });
+  }
+  return entries.map((entry) => entry.testId);
+}
+
+/**
+ * Purge entries older than Config.trashRetentionDays (default 30, 0 disables)
+ */
+export async function purgeExpiredTrash(dataDir: string, now = Date.now()): Promise<string[]> {
+  let retentionDays = DEFAULT_TRASH_RETENTION_DAYS;
+  try {
+    const config = await loadConfig(dataDir);
+    if (typeof config.trashRetentionDays === 'number' && config.trashRetentionDays >= 0) {
+      retentionDays = config.trashRetentionDays;
+    }
+  } catch {
+    // Missing config – use the default retention
+  }
+
+  if (retentionDays === 0) {
+    return [];
+  }
+
+  const cutoff = now - retentionDays * 24 * 60 * 60 * 1000;
+  const purged: string[] = [];
+  for (const entry of await listTrash(dataDir)) {
+    if (new Date(entry.deletedAt).getTime() < cutoff) {
+      await fs.rm(getTrashDirectory(dataDir, entry.testId), { recursive: true, force: true });
+      purged.push(entry.testId);
+    }
+  }
+  return purged;
+}
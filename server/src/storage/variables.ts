@@ -3,6 +3,7 @@ import fs from 'node:fs/promises';
 import { parse } from 'csv-parse/sync';
 import { stringify } from 'csv-stringify/sync';
 import type { VariableRow } from '../types.js';
+import { withFileLock, writeFileAtomic } from './fileStore.js';
 
 type ImportMode = 'replace' | 'append';
 
@@ -68,7 +69,7 @@ export class VariableStorage {
     const csvPath = this.getCsvPath(testId);
 
     if (!rows || rows.length === 0) {
-      await fs.writeFile(csvPath, '');
+      await writeFileAtomic(csvPath, '');
       return [];
     }
 
@@ -77,7 +78,7 @@ export class VariableStorage {
       header: true,
       columns
     });
-    await fs.writeFile(csvPath, csv, 'utf-8');
+    await writeFileAtomic(csvPath, csv);
     return rows;
   }
 
@@ -121,8 +122,10 @@ export class VariableStorage {
     }
 
     if (mode === 'append') {
-      const existing = await this.readVariables(testId);
-      return this.writeVariables(testId, [...existing, ...filteredRows]);
+      return withFileLock(this.getCsvPath(testId), async () => {
+        const existing = await this.readVariables(testId);
+        return this.writeVariables(testId, [...existing, ...filteredRows]);
+      });
     }
 
     return this.writeVariables(testId, filteredRows);
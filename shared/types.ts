@@ -16,6 +16,10 @@ export interface TestMetadata {
   startUrl?: string;
   dataSource?: string;
   variables?: VariableDefinition[];
+  /** Defaults for runs of this test; run options override them */
+  execution?: RunExecutionSettings;
+  /** Header schema version, upgraded on load (see storage/metadata.ts) */
+  metadataVersion?: number;
 }
 
 export interface TestStepMetadata {
@@ -23,6 +27,12 @@ export interface TestStepMetadata {
   qaSummary: string;
   playwrightCode: string;
   screenshotPath?: string;
+  /** Set when the step calls a shared step block instead of inlining its code */
+  blockId?: string;
+  /** Values for the block's variables; may use the test's own {{variables}} */
+  blockArgs?: Record<string, string>;
+  /** Why the step needs a person to check it, e.g. an imported command with no Playwright equivalent */
+  needsReview?: string;
 }
 
 export interface VariableDefinition {
@@ -39,6 +49,184 @@ export interface Test {
   code: string;
 }
 
+export type GitFileStatus = 'clean' | 'modified' | 'untracked' | 'added' | 'deleted' | 'renamed' | 'conflicted';
+
+/** Git state of a custom test directory that lives inside a repository */
+export interface GitRepositoryStatus {
+  enabled: boolean;
+  autoCommit: boolean;
+  root?: string;
+  branch?: string;
+  remote?: string;
+  ahead?: number;
+  behind?: number;
+  /** Status per test id; tests not listed are clean */
+  tests: Record<string, GitFileStatus>;
+}
+
+export interface GitLogEntry {
+  hash: string;
+  author: string;
+  date: string;
+  subject: string;
+}
+
+/** A spec whose metadata header could not be read or failed validation */
+export interface TestHealthIssue {
+  testId: string;
+  file: string;
+  errors: string[];
+}
+
+export interface TestHealthReport {
+  testsDirectory: string;
+  total: number;
+  healthy: number;
+  corrupt: TestHealthIssue[];
+  /** Tests saved with an older metadataVersion; upgraded in memory and rewritten on next save */
+  outdated: Array<{ testId: string; metadataVersion: number }>;
+}
+
+export type TestSearchField = 'name' | 'description' | 'prompt' | 'successCriteria' | 'step' | 'code';
+
+export interface TestSearchMatch {
+  field: TestSearchField;
+  /** Excerpt around the match; highlights are [start, end) offsets into it */
+  snippet: string;
+  highlights: Array<[number, number]>;
+  stepNumber?: number;
+  /** 1-based line in the spec code for `code` matches */
+  line?: number;
+}
+
+export interface TestSearchHit {
+  test: TestMetadata;
+  score: number;
+  matches: TestSearchMatch[];
+}
+
+/** A named sequence of steps shared by many tests, emitted as a helper function */
+export interface StepBlock {
+  id: string;
+  name: string;
+  description?: string;
+  steps: TestStepMetadata[];
+  /** Parameters of the block, referenced as {{name}} in its steps */
+  variables?: VariableDefinition[];
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface StepBlockSummary extends StepBlock {
+  /** Ids of the tests referencing the block */
+  usedBy: string[];
+}
+
+/** Test-case fields a test-management CSV export can contain, one row per step */
+export type TestCaseCsvField =
+  | 'testId'
+  | 'title'
+  | 'folder'
+  | 'tags'
+  | 'stepNumber'
+  | 'action'
+  | 'expectedResult'
+  | 'lastRunStatus';
+
+/** Output header per field; null leaves the field out. Columns follow the field order. */
+export type TestCaseColumnMapping = Partial<Record<TestCaseCsvField, string | null>>;
+
+export interface TestCaseCsvPreset {
+  id: string;
+  name: string;
+  mapping: TestCaseColumnMapping;
+  /** Repeat test-level fields on every step row instead of only the first */
+  repeatTestFields: boolean;
+  tagSeparator: string;
+}
+
+/** Saved starting point for new generation sessions (self-driving, step-by-step or record) */
+export interface TestTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  goal?: string;
+  successCriteria?: string;
+  startUrl?: string;
+  credentialId?: string;
+  viewportSize?: ViewportSize;
+  /** Variables (with sample values) the session starts with */
+  variables?: VariableDefinition[];
+  /** Tags suggested when the generated test is saved */
+  tags?: string[];
+  /** Test the template was saved from */
+  sourceTestId?: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+/** A workspace with its own tests, test data, credentials and settings */
+export interface Project {
+  id: string;
+  name: string;
+  description?: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface ProjectSummary extends Project {
+  testCount: number;
+}
+
+/** A folder in the test library; nested folders use `/` separated paths like `Checkout/Payments` */
+export interface TestFolder {
+  path: string;
+  name: string;
+  parent: string | null;
+  /** Tests directly in this folder */
+  testCount: number;
+  /** Tests in this folder and every subfolder */
+  totalTestCount: number;
+}
+
+/** A deleted test waiting in the trash together with its data, screenshots and runs */
+export interface TrashEntry {
+  testId: string;
+  name: string;
+  folder?: string | null;
+  deletedAt: string;
+  runIds: string[];
+  hasTestData: boolean;
+  hasScreenshots: boolean;
+}
+
+export interface TestRevisionSummary {
+  id: string;
+  testId: string;
+  createdAt: string;
+  /** What produced this version, e.g. "steps edited", "step inserted", "imported" */
+  action: string;
+  name: string;
+  stepCount: number;
+}
+
+export interface TestRevision extends TestRevisionSummary {
+  metadata: TestMetadata;
+  code: string;
+}
+
+export interface DiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  text: string;
+}
+
+export interface TestRevisionDiff {
+  from: string;
+  to: string;
+  metadata: DiffLine[];
+  code: DiffLine[];
+}
+
 export interface CredentialRecord {
   id: string;
   name: string;
@@ -48,16 +236,34 @@ export interface CredentialRecord {
   createdAt: string;
   updatedAt: string;
   lastUsedAt?: string;
+  /** Test that logs in with this credential; used to capture the saved browser session */
+  sessionSetupTestId?: string;
+}
+
+/** Saved Playwright storageState (cookies + localStorage) of a credential */
+export interface CredentialSessionStatus {
+  credentialId: string;
+  setupTestId?: string;
+  captured: boolean;
+  capturedAt?: string;
+  /** When the session is considered stale and gets captured again */
+  expiresAt?: string;
+  expired: boolean;
 }
 
+export type BrowserName = 'chromium' | 'firefox' | 'webkit';
+
 export interface RunResult {
   id: string;
   testId: string;
-  status: 'passed' | 'failed' | 'skipped' | 'stopped' | 'partial';
+  /** `flaky`: passed, but only after a retry */
+  status: 'passed' | 'flaky' | 'failed' | 'skipped' | 'stopped' | 'partial';
   duration: number;
   startedAt: string;
   endedAt: string;
+  /** Trace file name inside the run directory; older results hold an absolute path */
   tracePath?: string;
+  /** Artifact file names inside the run directory, served from /runs/:runId/artifacts/:fileName */
   screenshotPaths?: string[];
   screenshots?: RunScreenshot[];
   videoPath?: string;
@@ -68,6 +274,52 @@ export interface RunResult {
   failedStepTitles?: string[];
   rowResults?: RowResult[];
   logs?: RunLogEntry[];
+  browser?: BrowserName;
+  browserResults?: BrowserRunResult[];
+  /** Every Playwright attempt, retries included, in the order they ran */
+  attempts?: RunAttempt[];
+}
+
+/** One attempt (first run or retry) of a Playwright test within a run */
+export interface RunAttempt {
+  testTitle: string;
+  /**
+   * Position of the Playwright test entry (one per spec and project) in the report.
+   * Data rows with identical values share a title, so attempts are matched on this.
+   */
+  testIndex?: number;
+  browser?: BrowserName;
+  /** 0 for the first attempt */
+  retry: number;
+  status: 'passed' | 'failed' | 'timedOut' | 'interrupted' | 'skipped';
+  duration: number;
+  error?: string;
+  /** Top-level test.step() that failed in this attempt */
+  failedStepTitle?: string;
+}
+
+/** Flakiness of a test, computed from its recent run history */
+export interface FlakyTestSummary {
+  testId: string;
+  testName: string;
+  /** 0-1: share of recent runs that were flaky or flipped outcome from the run before */
+  score: number;
+  runs: number;
+  flakyRuns: number;
+  failedRuns: number;
+  /** Pass/fail changes between consecutive runs */
+  flips: number;
+  lastFlakyAt?: string;
+  /** Steps that failed most often across those runs */
+  failingSteps: Array<{ title: string; count: number }>;
+}
+
+/** Outcome of one engine when a run covers a browser matrix */
+export interface BrowserRunResult {
+  browser: BrowserName;
+  status: 'passed' | 'failed' | 'skipped';
+  duration: number;
+  error?: string;
 }
 
 export interface RowResult {
@@ -75,7 +327,14 @@ export interface RowResult {
   rowData: Record<string, string>;
   status: 'passed' | 'failed';
   duration: number;
+  /** Playwright test title generated for the row, used to rerun it on its own */
+  testTitle?: string;
+  /** Engine the row ran on when the run covers a browser matrix */
+  browser?: BrowserName;
+  /** Trace file name inside the run directory */
   tracePath?: string;
+  /** Artifact file name inside the run directory */
+  screenshotPath?: string;
   error?: string;
 }
 
@@ -93,6 +352,7 @@ export interface StepCounts {
   passed: number;
   failed: number;
   pending: number;
+  skipped?: number;
 }
 
 export type RunStatus = 'queued' | 'running' | 'paused' | 'stopped' | 'completed' | 'failed';
@@ -107,7 +367,7 @@ export interface RunLogEntry {
 export interface StepSummary {
   id: string;
   title: string;
-  status: 'pending' | 'passed' | 'failed';
+  status: 'pending' | 'passed' | 'failed' | 'skipped';
   startedAt: string;
   endedAt?: string;
   depth: number;
@@ -129,11 +389,34 @@ export interface ViewportSize {
   height: number;
 }
 
+export type TraceMode = 'on' | 'off' | 'retain-on-failure' | 'on-first-retry';
+export type ScreenshotMode = 'on' | 'off' | 'only-on-failure';
+export type VideoMode = 'on' | 'off' | 'retain-on-failure' | 'on-first-retry';
+
+/**
+ * Playwright retries, timeout and artifact capture for a run. Tests store
+ * defaults in their metadata; a run's own settings override them field by field.
+ */
+export interface RunExecutionSettings {
+  /** Per-test timeout in milliseconds (0 disables it) */
+  timeout?: number;
+  retries?: number;
+  trace?: TraceMode;
+  screenshot?: ScreenshotMode;
+  video?: VideoMode;
+}
+
 export interface RunOptionSettings {
   headed: boolean;
   speed: number;
   keepOpen?: boolean;
   viewportSize?: ViewportSize;
+  startFromStep?: number;
+  browsers?: BrowserName[];
+  testTitle?: string;
+  rowIndexes?: number[];
+  rowFilter?: string;
+  execution?: RunExecutionSettings;
 }
 
 export interface LiveRunState {
@@ -192,6 +475,11 @@ export interface LiveGenerationOptions {
   credentialId?: string;
   viewportSize?: ViewportSize;
   mode?: GenerationMode;
+  browser?: BrowserName;
+  /** Variables defined before the session starts (e.g. from a template) */
+  variables?: VariableDefinition[];
+  /** Tags suggested when the generated test is saved */
+  tags?: string[];
 }
 
 export type GenerationStatus =
@@ -237,6 +525,8 @@ export interface LiveGenerationState {
   steps?: RecordedStep[];
   testName?: string;
   createdAt?: string;
+  /** Default tags for the saved test (from the template the session started from) */
+  tags?: string[];
 }
 
 // Step planning types for manual mode
@@ -293,6 +583,8 @@ export interface QueuedTest {
   order: number;
   startFromStep?: number;  // 0 = start from beginning (default)
   enabled: boolean;        // Can toggle tests on/off without removing
+  rowIndexes?: number[];   // Data-driven tests: zero-based CSV rows to run (default all)
+  rowFilter?: string;      // Data-driven tests: `column=value` row filter
 }
 
 /** Configuration for a multi-test run */
@@ -304,6 +596,9 @@ export interface RunConfiguration {
     reusesBrowser: boolean;  // Chain tests in same browser
     stopOnFailure: boolean;
     viewportSize?: ViewportSize;
+    browser?: BrowserName;          // Defaults to Config.defaultBrowser
+    browserMatrix?: BrowserName[];  // Run every test once per engine (overrides browser)
+    execution?: RunExecutionSettings; // Overrides each test's own execution defaults
   };
 }
 
@@ -316,6 +611,7 @@ export interface QueuedTestWithState extends QueuedTest {
   status: QueuedTestStatus;
   error?: string;
   duration?: number;
+  browserResults?: BrowserRunResult[];
 }
 
 /** Active multi-test run session state */
@@ -346,9 +642,31 @@ export interface MultiRunEvent {
   payload: any;
 }
 
+export type TestFileEventType = 'test_added' | 'test_changed' | 'test_removed';
+
+/** Broadcast when a spec in the tests directory is created, edited or deleted on disk */
+export interface TestFileEvent {
+  type: TestFileEventType;
+  timestamp: string;
+  payload: {
+    testId: string;
+    test?: TestMetadata;
+    steps?: ExtractedStep[];
+    /** Set when the changed spec could not be parsed */
+    error?: string;
+  };
+}
+
 /** Extracted step info for step selection UI */
 export interface ExtractedStep {
   number: number;
   title: string;       // QA summary from test.step('title', ...)
-  lineNumber?: number; // For future "jump to code" feature
+  lineNumber?: number; // 1-based line of the test.step() call
+  endLineNumber?: number;
+  /** Body of the step callback, dedented */
+  code?: string;
+  /** 0 for top-level steps, 1 for a step inside another step, ... */
+  depth?: number;
+  /** Number of the enclosing step for nested steps */
+  parentNumber?: number;
 }